@@ -14,7 +14,9 @@ import { useImportDialog } from "@/hooks/use-import-dialog";
 import { useMemories } from "@/hooks/use-memories";
 import {
   convertToImportItems,
+  getDocumentFormat,
   parseDocument,
+  SUPPORTED_DOCUMENT_EXTENSIONS,
 } from "@/lib/document/document-parser";
 import { createLogger } from "@/lib/logger";
 import { findDuplicates } from "@/lib/storage/memories";
@@ -28,7 +30,7 @@ const logger = createLogger("component:document-import-dialog");
 const STATUS_MESSAGES: Record<DocumentParserStatus, string> = {
   idle: "Ready to import",
   reading: "Reading document...",
-  parsing: "AI is extracting information...",
+  parsing: "Extracting information...",
   success: "Information extracted!",
   error: "Failed to extract data",
 };
@@ -44,13 +46,13 @@ const PROGRESS_BY_STATUS: Record<DocumentParserStatus, number> = {
 function getDescription(status: DocumentParserStatus): string {
   switch (status) {
     case "idle":
-      return "Upload a PDF or text file to extract information.";
+      return "Upload a resume or other document to extract information.";
     case "success":
       return "Select the information you want to import.";
     case "reading":
       return "Reading your document...";
     case "parsing":
-      return "AI is extracting your information...";
+      return "Extracting your information...";
     case "error":
       return "Something went wrong. Please try again.";
   }
@@ -107,14 +109,10 @@ export function DocumentImportDialog({
       const file = event.target.files?.[0];
       if (!file) return;
 
-      const isPdf =
-        file.type === "application/pdf" ||
-        file.name.toLowerCase().endsWith(".pdf");
-      const isTxt =
-        file.type === "text/plain" || file.name.toLowerCase().endsWith(".txt");
-
-      if (!isPdf && !isTxt) {
-        setError("Please select a PDF or text file");
+      if (!getDocumentFormat(file)) {
+        setError(
+          `Please select one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}`,
+        );
         setStatus("error");
         event.target.value = "";
         return;
@@ -179,6 +177,13 @@ export function DocumentImportDialog({
         setImportItems(enrichedItems);
         setStatus("success");
 
+        if (result.offline) {
+          toast.info("Extracted without AI", {
+            description:
+              "Review the items carefully. Configure an AI provider for more thorough results.",
+          });
+        }
+
         logger.debug(
           `[req:${requestId}] Successfully extracted document data:`,
           items.length,
@@ -248,13 +253,14 @@ export function DocumentImportDialog({
             <FileTextIcon className="size-10 text-primary" />
           </div>
           <p className="text-xs text-amber-600">
-            Requires an AI provider to be configured in settings.
+            Works best with an AI provider configured in settings. Without one,
+            contact details and resume sections are extracted offline.
           </p>
 
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.txt"
+            accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -268,7 +274,7 @@ export function DocumentImportDialog({
           </Button>
 
           <p className="text-xs text-muted-foreground">
-            Supported formats: PDF, TXT
+            Supported formats: PDF, DOCX, RTF, Markdown, HTML, TXT, JSON Resume
           </p>
         </div>
       )}
@@ -0,0 +1,369 @@
+import { format, formatDistanceToNow } from "date-fns";
+import {
+  GlobeIcon,
+  HistoryIcon,
+  RotateCcwIcon,
+  SearchIcon,
+  Trash2Icon,
+} from "lucide-react";
+import { useId, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { VaultUnlockCard } from "@/components/features/vault/vault-unlock-card";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Spinner } from "@/components/ui/spinner";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  useFillHistory,
+  useFillHistoryMutations,
+  useFillHistorySettings,
+} from "@/hooks/use-fill-history";
+import { getFillSessionDomain } from "@/lib/storage/sessions";
+import type { FillSession } from "@/types/memory";
+
+const RETENTION_OPTIONS = [
+  { value: 7, label: "1 week" },
+  { value: 30, label: "1 month" },
+  { value: 90, label: "3 months" },
+  { value: 365, label: "1 year" },
+  { value: 0, label: "Until the limit" },
+];
+
+const UNKNOWN_SITE = "Unknown site";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Sessions arrive newest first, so each site keeps that order
+const groupBySite = (sessions: FillSession[]) => {
+  const groups = new Map<string, FillSession[]>();
+  for (const session of sessions) {
+    const domain = getFillSessionDomain(session) ?? UNKNOWN_SITE;
+    groups.set(domain, [...(groups.get(domain) ?? []), session]);
+  }
+  return Array.from(groups, ([domain, siteSessions]) => ({
+    domain,
+    sessions: siteSessions,
+  }));
+};
+
+const FillHistorySettingsCard = () => {
+  const enabledId = useId();
+  const retentionId = useId();
+  const settings = useFillHistorySettings();
+  const { updateSettings, clearAll } = useFillHistoryMutations();
+
+  const handleUpdate = async (
+    updates: Parameters<typeof updateSettings.mutateAsync>[0],
+  ) => {
+    try {
+      await updateSettings.mutateAsync(updates);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update fill history"));
+    }
+  };
+
+  const handleClearAll = async () => {
+    try {
+      await clearAll.mutateAsync();
+      toast.success("Fill history cleared");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to clear fill history"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fill History</CardTitle>
+        <CardDescription>
+          Every form Superfill fills, with the values that went into each field
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor={enabledId}>Save fill history</FieldLabel>
+              <FieldDescription>
+                Values are encrypted like your memories when the vault is on
+              </FieldDescription>
+            </FieldContent>
+            <Switch
+              id={enabledId}
+              checked={settings.enabled}
+              onCheckedChange={(enabled) => handleUpdate({ enabled })}
+            />
+          </Field>
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor={retentionId}>Keep fills for</FieldLabel>
+              <FieldDescription>
+                Older fills are deleted automatically. At most 500 are kept.
+              </FieldDescription>
+            </FieldContent>
+            <Select
+              value={String(settings.retentionDays)}
+              onValueChange={(value) =>
+                handleUpdate({ retentionDays: Number(value) })
+              }
+            >
+              <SelectTrigger id={retentionId} className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RETENTION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Button
+            variant="outline"
+            onClick={handleClearAll}
+            disabled={clearAll.isPending}
+          >
+            <Trash2Icon className="size-4" />
+            Clear all history
+          </Button>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
+
+const FillSessionDetails = ({ session }: { session: FillSession }) => {
+  const { refill } = useFillHistoryMutations();
+  const fields = session.formMappings.flatMap((mapping) => mapping.fields);
+
+  const handleRefill = async () => {
+    try {
+      const result = await refill.mutateAsync(session.id);
+      toast.success(
+        `Matched ${result.mappingsFound} of ${fields.length} fields, review them on the page`,
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to re-fill the form"));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            <TableHead>Value</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map((field, index) => (
+            <TableRow key={`${field.label}-${index}`}>
+              <TableCell className="align-top">
+                <span className="font-medium">{field.label}</span>
+                <span className="ml-2 text-xs text-muted-foreground">
+                  {field.fieldType}
+                </span>
+              </TableCell>
+              <TableCell className="whitespace-pre-wrap wrap-break-word">
+                {field.filledValue || (
+                  <span className="text-muted-foreground">Empty</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Button
+        variant="outline"
+        size="sm"
+        className="self-start"
+        onClick={handleRefill}
+        disabled={refill.isPending}
+      >
+        <RotateCcwIcon className="size-4" />
+        {refill.isPending ? "Opening page..." : "Re-fill with these values"}
+      </Button>
+    </div>
+  );
+};
+
+export const FillHistory = () => {
+  const [searchQuery, setSearchQuery] = useState("");
+  const { sessions, isLoading, isLocked } = useFillHistory();
+  const { deleteSite } = useFillHistoryMutations();
+
+  const sites = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return groupBySite(sessions).filter(({ domain }) =>
+      domain.toLowerCase().includes(query),
+    );
+  }, [sessions, searchQuery]);
+
+  const handleDeleteSite = async (domain: string) => {
+    try {
+      const deleted = await deleteSite.mutateAsync(domain);
+      toast.success(
+        `Deleted ${deleted} ${deleted === 1 ? "fill" : "fills"} for ${domain}`,
+      );
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete site history"));
+    }
+  };
+
+  if (isLocked) {
+    return <VaultUnlockCard className="max-w-md mx-auto" />;
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <FillHistorySettingsCard />
+
+      <div className="relative">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by domain..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center h-32">
+          <Spinner className="h-6 w-6" />
+        </div>
+      )}
+
+      {!isLoading && sites.length === 0 && (
+        <Empty>
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              {searchQuery ? <SearchIcon /> : <HistoryIcon />}
+            </EmptyMedia>
+            <EmptyTitle>
+              {searchQuery ? "No results found" : "No fills yet"}
+            </EmptyTitle>
+            <EmptyDescription>
+              {searchQuery
+                ? "Try another domain"
+                : "Forms you fill with Superfill will show up here"}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+
+      {sites.map(({ domain, sessions: siteSessions }) => (
+        <Card key={domain}>
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <div className="flex flex-col gap-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <GlobeIcon className="size-4 text-muted-foreground" />
+                {domain}
+              </CardTitle>
+              <CardDescription>
+                {siteSessions.length}{" "}
+                {siteSessions.length === 1 ? "fill" : "fills"}
+              </CardDescription>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleDeleteSite(domain)}
+              disabled={deleteSite.isPending || domain === UNKNOWN_SITE}
+            >
+              <Trash2Icon className="size-4" />
+              Delete history for this site
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <Accordion type="multiple">
+              {siteSessions.map((session) => {
+                const [firstMapping] = session.formMappings;
+                const fieldCount = session.formMappings.reduce(
+                  (sum, mapping) => sum + mapping.fields.length,
+                  0,
+                );
+
+                return (
+                  <AccordionItem key={session.id} value={session.id}>
+                    <AccordionTrigger>
+                      <div className="flex flex-1 flex-col gap-1 text-left">
+                        <span className="font-medium">
+                          {firstMapping?.pageTitle || firstMapping?.url}
+                        </span>
+                        <span className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                          <span
+                            title={format(new Date(session.startedAt), "PPpp")}
+                          >
+                            {formatDistanceToNow(new Date(session.startedAt), {
+                              addSuffix: true,
+                            })}
+                          </span>
+                          <Badge variant="outline">
+                            {fieldCount} {fieldCount === 1 ? "field" : "fields"}
+                          </Badge>
+                          {session.status === "failed" && (
+                            <Badge variant="destructive">Failed</Badge>
+                          )}
+                        </span>
+                      </div>
+                    </AccordionTrigger>
+                    <AccordionContent>
+                      <FillSessionDetails session={session} />
+                    </AccordionContent>
+                  </AccordionItem>
+                );
+              })}
+            </Accordion>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+import { KeyRoundIcon, UploadIcon } from "lucide-react";
+import { useCallback, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  ImportDialogFooter,
+  type ImportDialogProps,
+  ImportDialogShell,
+  ImportEmptyState,
+  ImportErrorState,
+  ImportItemsList,
+  ImportLoadingState,
+} from "@/components/features/import/import-dialog-shared";
+import { Button } from "@/components/ui/button";
+import { useImportDialog } from "@/hooks/use-import-dialog";
+import { useMemories } from "@/hooks/use-memories";
+import {
+  EXTERNAL_IMPORT_EXTENSIONS,
+  EXTERNAL_IMPORT_SOURCE_LABELS,
+  parseExternalImport,
+} from "@/lib/import/autofill-importers";
+import { createLogger } from "@/lib/logger";
+import { findDuplicates } from "@/lib/storage/memories";
+import type {
+  ExternalImportItem,
+  ExternalImportSource,
+  ExternalImportStatus,
+} from "@/types/import";
+
+const logger = createLogger("component:autofill-import-dialog");
+
+function getDescription(
+  status: ExternalImportStatus,
+  source: ExternalImportSource | null,
+): string {
+  switch (status) {
+    case "idle":
+      return "Bring over the details your browser or password manager already knows.";
+    case "parsing":
+      return "Reading your export...";
+    case "success":
+      return source
+        ? `Select the ${EXTERNAL_IMPORT_SOURCE_LABELS[source]} details you want to import.`
+        : "Select the information you want to import.";
+    case "error":
+      return "Something went wrong. Please try again.";
+  }
+}
+
+export function AutofillImportDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: ImportDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<ExternalImportSource | null>(null);
+
+  const { entries: existingMemories } = useMemories();
+
+  const {
+    status,
+    setStatus,
+    error,
+    setError,
+    importItems,
+    setImportItems,
+    isSaving,
+    selectedCount,
+    requestIdRef,
+    handleToggleItem,
+    handleToggleAll,
+    handleSaveSelected,
+    handleClose,
+  } = useImportDialog<ExternalImportItem, ExternalImportStatus>(
+    {
+      importTag: source ? `${source}-import` : "autofill-import",
+      successMessage: "Imported {count} memories!",
+      successDescription: "Your saved details are now available as memories.",
+      onSuccess,
+      onOpenChange,
+    },
+    "idle",
+  );
+
+  const handleFileSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = "";
+      if (!file) return;
+
+      const currentRequestId = ++requestIdRef.current;
+      setStatus("parsing");
+      setError(null);
+      setImportItems([]);
+
+      try {
+        const items = await parseExternalImport(file);
+        if (requestIdRef.current !== currentRequestId) return;
+
+        const duplicatesMap = await findDuplicates(items, existingMemories);
+        const enrichedItems = items.map((item, i) => {
+          const duplicate = duplicatesMap.get(i);
+          return duplicate ? { ...item, existingDuplicate: duplicate } : item;
+        });
+
+        setSource(items[0]?.source ?? null);
+        setImportItems(enrichedItems);
+        setStatus("success");
+
+        logger.debug(`Parsed ${items.length} items from ${file.name}`);
+      } catch (err) {
+        if (requestIdRef.current !== currentRequestId) return;
+
+        const errMsg =
+          err instanceof Error ? err.message : "Failed to read the export";
+        logger.error("Autofill import error:", err);
+        setStatus("error");
+        setError(errMsg);
+        toast.error(errMsg);
+      }
+    },
+    [requestIdRef, setStatus, setError, setImportItems, existingMemories],
+  );
+
+  const handleCloseWrapper = (open: boolean) => {
+    if (!open) setSource(null);
+    handleClose(open);
+  };
+
+  const handleRetry = () => {
+    setStatus("idle");
+    setError(null);
+    setSource(null);
+  };
+
+  const showFooter = status === "success" && importItems.length > 0;
+
+  return (
+    <ImportDialogShell
+      open={open}
+      onOpenChange={handleCloseWrapper}
+      title={
+        <>
+          <KeyRoundIcon className="size-5 text-primary" />
+          Import from Browser or Password Manager
+        </>
+      }
+      description={getDescription(status, source)}
+      footer={
+        showFooter ? (
+          <ImportDialogFooter
+            selectedCount={selectedCount}
+            isSaving={isSaving}
+            onCancel={() => handleCloseWrapper(false)}
+            onSave={handleSaveSelected}
+          />
+        ) : undefined
+      }
+    >
+      {status === "idle" && (
+        <div className="flex flex-col items-center justify-center py-8 gap-6">
+          <div className="size-20 rounded-full bg-primary/10 flex items-center justify-center">
+            <KeyRoundIcon className="size-10 text-primary" />
+          </div>
+
+          <ul className="text-xs text-muted-foreground space-y-1 max-w-sm list-disc pl-4">
+            <li>
+              <span className="font-medium">Chrome / Edge:</span> autofill
+              addresses exported as CSV, or Autofill.json from Google Takeout
+            </li>
+            <li>
+              <span className="font-medium">Bitwarden:</span> an unencrypted
+              JSON vault export, identity items only
+            </li>
+            <li>
+              <span className="font-medium">1Password:</span> a .1pux export,
+              identity items only
+            </li>
+          </ul>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={EXTERNAL_IMPORT_EXTENSIONS.join(",")}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          <Button
+            onClick={() => fileInputRef.current?.click()}
+            className="gap-2"
+          >
+            <UploadIcon className="size-4" />
+            Select Export File
+          </Button>
+
+          <p className="text-xs text-muted-foreground max-w-sm text-center">
+            The file is read on this device. Delete it once imported, since
+            password manager exports are not encrypted.
+          </p>
+        </div>
+      )}
+
+      {status === "parsing" && (
+        <ImportLoadingState progress={50} statusMessage="Reading export..." />
+      )}
+
+      {status === "error" && (
+        <ImportErrorState
+          error={error}
+          defaultError="Failed to read the export. Please try again."
+          onRetry={handleRetry}
+        />
+      )}
+
+      {status === "success" && importItems.length === 0 && (
+        <ImportEmptyState
+          message="No identity or address details were found in this export."
+          onRetry={handleRetry}
+          retryText="Try Another File"
+        />
+      )}
+
+      {status === "success" && importItems.length > 0 && (
+        <ImportItemsList
+          items={importItems}
+          itemIdPrefix="autofill-item"
+          onToggleItem={handleToggleItem}
+          onToggleAll={handleToggleAll}
+        />
+      )}
+    </ImportDialogShell>
+  );
+}
@@ -46,6 +46,9 @@ export const CATEGORY_COLORS: Record<AllowedCategory, string> = {
   general: "bg-gray-500/10 text-gray-600 border-gray-200",
 };
 
+// Offline extraction guesses below this are flagged for a second look
+const LOW_CONFIDENCE = 0.7;
+
 export interface ImportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -162,6 +165,12 @@ export function ImportItemsList<T extends BaseImportItem>({
                             duplicate
                           </Badge>
                         )}
+                        {item.confidence !== undefined &&
+                          item.confidence < LOW_CONFIDENCE && (
+                            <Badge variant="outline" size="sm">
+                              please review
+                            </Badge>
+                          )}
                       </div>
                       {item.question &&
                         item.question.toLowerCase() !==
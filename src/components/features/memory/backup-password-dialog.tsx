@@ -0,0 +1,133 @@
+import { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+interface BackupPasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** "export" asks for the password twice and enforces a minimum length */
+  mode: "export" | "import";
+  pending: boolean;
+  onSubmit: (password: string) => void | Promise<void>;
+}
+
+export function BackupPasswordDialog({
+  open,
+  onOpenChange,
+  mode,
+  pending,
+  onSubmit,
+}: BackupPasswordDialogProps) {
+  const passwordId = useId();
+  const confirmPasswordId = useId();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const isExport = mode === "export";
+  const passwordMismatch =
+    isExport && confirmPassword.length > 0 && password !== confirmPassword;
+  const canSubmit = isExport
+    ? password.length >= MIN_PASSWORD_LENGTH && password === confirmPassword
+    : password.length > 0;
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setPassword("");
+      setConfirmPassword("");
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+
+    await onSubmit(password);
+    setPassword("");
+    setConfirmPassword("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {isExport ? "Export encrypted backup" : "Import encrypted backup"}
+            </DialogTitle>
+            <DialogDescription>
+              {isExport
+                ? "The backup is encrypted with this password. It cannot be restored without it."
+                : "Enter the password the backup was exported with."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <FieldGroup className="py-4">
+            <Field>
+              <FieldLabel htmlFor={passwordId}>Password</FieldLabel>
+              <Input
+                id={passwordId}
+                type="password"
+                autoComplete={isExport ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoFocus
+              />
+              {isExport && (
+                <FieldDescription>
+                  At least {MIN_PASSWORD_LENGTH} characters
+                </FieldDescription>
+              )}
+            </Field>
+            {isExport && (
+              <Field data-invalid={passwordMismatch}>
+                <FieldLabel htmlFor={confirmPasswordId}>
+                  Confirm password
+                </FieldLabel>
+                <Input
+                  id={confirmPasswordId}
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                />
+                {passwordMismatch && (
+                  <FieldDescription>Passwords do not match</FieldDescription>
+                )}
+              </Field>
+            )}
+          </FieldGroup>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!canSubmit || pending}>
+              {isExport ? "Export" : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import {
   CopyIcon,
   Edit2Icon,
+  HistoryIcon,
   MoreVerticalIcon,
   Trash2Icon,
 } from "lucide-react";
@@ -17,6 +18,7 @@ interface EntryActionsMenuProps {
   onEdit: (id: string) => void;
   onDuplicate: (id: string) => void;
   onDelete: (id: string) => void;
+  onShowHistory?: (id: string) => void;
   triggerSize?: "icon-sm" | "icon";
   triggerClassName?: string;
 }
@@ -26,6 +28,7 @@ export function EntryActionsMenu({
   onEdit,
   onDuplicate,
   onDelete,
+  onShowHistory,
   triggerSize = "icon-sm",
   triggerClassName,
 }: EntryActionsMenuProps) {
@@ -50,6 +53,12 @@ export function EntryActionsMenu({
           <CopyIcon className="mr-2 size-4" />
           Duplicate
         </DropdownMenuItem>
+        {onShowHistory && (
+          <DropdownMenuItem onClick={() => onShowHistory(id)}>
+            <HistoryIcon className="mr-2 size-4" />
+            History
+          </DropdownMenuItem>
+        )}
         <DropdownMenuItem
           onClick={() => onDelete(id)}
           className="text-destructive"
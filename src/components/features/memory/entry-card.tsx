@@ -3,6 +3,7 @@ import { CheckIcon, CopyIcon } from "lucide-react";
 import { useRef, useState } from "react";
 import { useHotkeys } from "react-hotkeys-hook";
 import { EntryActionsMenu } from "@/components/features/memory/entry-actions-menu";
+import { MemoryHistoryDialog } from "@/components/features/memory/memory-history-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -27,11 +28,13 @@ import {
 } from "@/components/ui/hover-card";
 import { Kbd } from "@/components/ui/kbd";
 import { cn } from "@/lib/cn";
-import type { MemoryEntry } from "@/types/memory";
+import type { MemoryEntry, MemoryUsage } from "@/types/memory";
 
 interface EntryCardProps {
   entry: MemoryEntry;
   mode: "compact" | "detailed";
+  usage?: MemoryUsage;
+  stale?: boolean;
   onEdit: (entryId: string) => void;
   onDelete: (entryId: string) => void;
   onDuplicate: (entryId: string) => void;
@@ -48,9 +51,21 @@ const truncateText = (text: string, lines = 2) => {
   return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
 };
 
+const StaleBadge = ({ className }: { className?: string }) => (
+  <Badge
+    variant="outline"
+    className={cn("border-amber-500 text-amber-600", className)}
+    title="Not used to fill a form in a while. Consider cleaning it up."
+  >
+    Stale
+  </Badge>
+);
+
 export function EntryCard({
   entry,
   mode,
+  usage,
+  stale = false,
   onEdit,
   onDelete,
   onDuplicate,
@@ -58,6 +73,7 @@ export function EntryCard({
   const [copied, setCopied] = useState(false);
   const [showFullContent, setShowFullContent] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
 
   useHotkeys(
@@ -120,6 +136,7 @@ export function EntryCard({
               onEdit={onEdit}
               onDuplicate={onDuplicate}
               onDelete={onDelete}
+              onShowHistory={() => setShowHistory(true)}
             />
           </CardAction>
         </CardHeader>
@@ -153,8 +170,15 @@ export function EntryCard({
                 +{entry.tags.length - 2}
               </Badge>
             )}
+            {stale && <StaleBadge className="text-xs" />}
           </div>
         </CardContent>
+
+        <MemoryHistoryDialog
+          entry={entry}
+          open={showHistory}
+          onOpenChange={setShowHistory}
+        />
       </Card>
     );
   }
@@ -229,6 +253,7 @@ export function EntryCard({
                 {tag}
               </Badge>
             ))}
+            {stale && <StaleBadge />}
           </div>
 
           <div className="flex items-center justify-between text-xs text-muted-foreground pt-2 border-t">
@@ -247,6 +272,16 @@ export function EntryCard({
                   })}
                 </span>
               )}
+              {usage ? (
+                <span>
+                  Used {usage.useCount}×, last{" "}
+                  {formatDistanceToNow(new Date(usage.lastUsedAt), {
+                    addSuffix: true,
+                  })}
+                </span>
+              ) : (
+                <span>Never used</span>
+              )}
             </div>
 
             <div className="flex items-center gap-2">
@@ -260,6 +295,7 @@ export function EntryCard({
                 onEdit={onEdit}
                 onDuplicate={onDuplicate}
                 onDelete={onDelete}
+                onShowHistory={() => setShowHistory(true)}
                 triggerSize="icon"
                 triggerClassName="h-6 w-6"
               />
@@ -290,6 +326,12 @@ export function EntryCard({
           </div>
         </DialogContent>
       </Dialog>
+
+      <MemoryHistoryDialog
+        entry={entry}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+      />
     </Card>
   );
 }
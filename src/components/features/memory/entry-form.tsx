@@ -15,9 +15,18 @@ import {
   FieldLabel,
 } from "@/components/ui/field";
 import { InputBadge } from "@/components/ui/input-badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { useMemoryMutations, useTopUsedTags } from "@/hooks/use-memories";
+import { useProfiles } from "@/hooks/use-profiles";
 import { getCategorizationService } from "@/lib/ai/categorization-service";
+import { formatStructuredAnswer } from "@/lib/autofill/answer-renderer";
 import { allowedCategories } from "@/lib/copies";
 import {
   ERROR_MESSAGE_API_KEY_NOT_CONFIGURED,
@@ -28,7 +37,17 @@ import type { AIProvider } from "@/lib/providers/registry";
 import { getKeyVaultService } from "@/lib/security/key-vault-service";
 import { storage } from "@/lib/storage";
 import type { FieldMetadataSnapshot } from "@/types/autofill";
-import type { MemoryEntry } from "@/types/memory";
+import {
+  type MemoryEntry,
+  type StructuredAnswer,
+  type StructuredAnswerType,
+  structuredAnswerSchema,
+} from "@/types/memory";
+import {
+  EMPTY_STRUCTURED_ANSWERS,
+  STRUCTURED_ANSWER_LABELS,
+  StructuredAnswerFields,
+} from "./structured-answer-fields";
 
 const logger = createLogger("component:entry-form");
 
@@ -41,9 +60,13 @@ interface EntryFormProps {
   onCancel?: () => void;
 }
 
+const SHARED_PROFILE = "shared";
+const PLAIN_ANSWER = "text";
+
 const entryFormSchema = z.object({
   question: z.string(),
   answer: z.string().min(1, "Answer is required"),
+  structured: structuredAnswerSchema.nullable(),
   tags: z.array(z.string()),
   category: z.enum(allowedCategories),
 });
@@ -65,11 +88,26 @@ export function EntryForm({
   >();
   const { addEntry, updateEntry } = useMemoryMutations();
   const top10Tags = useTopUsedTags(10);
+  const { profiles, activeProfile } = useProfiles();
+  const [profileChoice, setProfileChoice] = useState<{
+    entryId?: string;
+    profileId: string;
+  }>();
+  // New memories go to the active profile unless another one is picked
+  const selectedProfileId =
+    (profileChoice?.entryId === initialData?.id
+      ? profileChoice?.profileId
+      : undefined) ??
+    (mode === "edit" ? initialData?.profileId : activeProfile?.id) ??
+    SHARED_PROFILE;
+  const profileId =
+    selectedProfileId === SHARED_PROFILE ? undefined : selectedProfileId;
   const categorizationService = getCategorizationService();
   const form = useForm({
     defaultValues: {
       question: initialData?.question || "",
       answer: initialData?.answer || "",
+      structured: (initialData?.structured ?? null) as StructuredAnswer | null,
       tags: initialData?.tags || [],
       category: initialData?.category || "",
     },
@@ -92,9 +130,11 @@ export function EntryForm({
                 updates: {
                   question: value.question,
                   answer: value.answer,
+                  structured: value.structured ?? undefined,
                   tags: value.tags,
                   category:
                     value.category as (typeof allowedCategories)[number],
+                  profileId,
                 },
               });
               onSuccess?.(data);
@@ -107,15 +147,18 @@ export function EntryForm({
               const data = await addEntry.mutateAsync({
                 question: value.question,
                 answer: value.answer,
+                structured: value.structured ?? undefined,
                 tags: value.tags,
                 category: value.category as (typeof allowedCategories)[number],
                 confidence: 1.0,
+                profileId,
               });
               onSuccess?.(data);
             } else {
               throw new Error("Invalid category selected.");
             }
             form.reset();
+            setProfileChoice(undefined);
           } catch (error) {
             logger.error("Failed to save entry:", error);
             throw error;
@@ -134,6 +177,7 @@ export function EntryForm({
   });
   const answer = useStore(form.store, (state) => state.values.answer);
   const question = useStore(form.store, (state) => state.values.question);
+  const structured = useStore(form.store, (state) => state.values.structured);
 
   const rephraseMutation = useMutation({
     mutationFn: async ({
@@ -299,6 +343,22 @@ export function EntryForm({
     );
   };
 
+  // Typed answers keep the plain answer text in sync for display and search
+  const handleStructuredChange = (next: StructuredAnswer | null) => {
+    form.setFieldValue("structured", next);
+    if (next) {
+      form.setFieldValue("answer", formatStructuredAnswer(next));
+    }
+  };
+
+  const handleAnswerTypeChange = (value: string) => {
+    handleStructuredChange(
+      value === PLAIN_ANSWER
+        ? null
+        : EMPTY_STRUCTURED_ANSWERS[value as StructuredAnswerType],
+    );
+  };
+
   const handleTagClick = (tag: string) => {
     const currentTags = form.getFieldValue("tags");
     if (!currentTags.includes(tag)) {
@@ -360,11 +420,70 @@ export function EntryForm({
           </form.Field>
         ) : null}
 
+        {!isPreviewMode ? (
+          <Field className={layout === "compact" ? "gap-1" : ""}>
+            <FieldLabel htmlFor="answerType">Answer type</FieldLabel>
+            <Select
+              value={structured?.type ?? PLAIN_ANSWER}
+              onValueChange={handleAnswerTypeChange}
+            >
+              <SelectTrigger id="answerType" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PLAIN_ANSWER}>Text</SelectItem>
+                {Object.entries(STRUCTURED_ANSWER_LABELS).map(
+                  ([type, label]) => (
+                    <SelectItem key={type} value={type}>
+                      {label}
+                    </SelectItem>
+                  ),
+                )}
+              </SelectContent>
+            </Select>
+            {structured && (
+              <FieldDescription>
+                Stored once and filled in the format each field expects
+              </FieldDescription>
+            )}
+          </Field>
+        ) : null}
+
+        {!isPreviewMode && structured ? (
+          <form.Field name="structured">
+            {(field) => {
+              const isInvalid =
+                field.state.meta.isTouched && !field.state.meta.isValid;
+
+              return (
+                <Field
+                  data-invalid={isInvalid}
+                  className={layout === "compact" ? "gap-1" : ""}
+                >
+                  <StructuredAnswerFields
+                    value={structured}
+                    onChange={handleStructuredChange}
+                    onBlur={field.handleBlur}
+                  />
+                  {answer && <FieldDescription>{answer}</FieldDescription>}
+                  {isInvalid && <FieldError errors={field.state.meta.errors} />}
+                </Field>
+              );
+            }}
+          </form.Field>
+        ) : null}
+
         <form.Field name="answer">
           {(field) => {
             const isInvalid =
               field.state.meta.isTouched && !field.state.meta.isValid;
 
+            if (!isPreviewMode && structured) {
+              return isInvalid ? (
+                <FieldError errors={field.state.meta.errors} />
+              ) : null;
+            }
+
             return (
               <Field
                 data-invalid={isInvalid}
@@ -401,7 +520,7 @@ export function EntryForm({
               variant="outline"
               size="xs"
               onClick={handleRephrase}
-              disabled={isAiRephrasing || !answer.trim()}
+              disabled={isAiRephrasing || !answer.trim() || !!structured}
               className="rounded-sm"
             >
               {isAiRephrasing ? (
@@ -520,6 +639,32 @@ export function EntryForm({
             );
           }}
         </form.Field>
+
+        {!isPreviewMode && profiles.length > 0 ? (
+          <Field className={layout === "compact" ? "gap-1" : ""}>
+            <FieldLabel htmlFor="profileId">Profile</FieldLabel>
+            <Select
+              value={selectedProfileId}
+              onValueChange={(value) =>
+                setProfileChoice({ entryId: initialData?.id, profileId: value })
+              }
+            >
+              <SelectTrigger id="profileId" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SHARED_PROFILE}>
+                  Shared by all profiles
+                </SelectItem>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+        ) : null}
       </FieldGroup>
 
       <Field orientation="horizontal">
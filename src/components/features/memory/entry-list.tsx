@@ -1,19 +1,33 @@
 import {
+  ContactIcon,
   DownloadIcon,
+  FileJsonIcon,
   FileSpreadsheetIcon,
   FileTextIcon,
   GridIcon,
+  KeyRoundIcon,
   LinkedinIcon,
   ListIcon,
+  LockIcon,
   SearchIcon,
+  Undo2Icon,
   UploadIcon,
 } from "lucide-react";
 import { useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 import { DocumentImportDialog } from "@/components/features/document/document-import-dialog";
+import { AutofillImportDialog } from "@/components/features/import/autofill-import-dialog";
+import { BackupPasswordDialog } from "@/components/features/memory/backup-password-dialog";
 import { EntryCard } from "@/components/features/memory/entry-card";
 import { ProfileImportDialog } from "@/components/features/profile/profile-import-dialog";
+import { ProfileSwitcher } from "@/components/features/profile/profile-switcher";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Empty,
   EmptyDescription,
@@ -38,18 +52,31 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import {
+  backupUtils,
   csvUtils,
   useMemories,
   useMemoryMutations,
 } from "@/hooks/use-memories";
+import {
+  useLastBulkOperation,
+  useMemoryHistoryMutations,
+} from "@/hooks/use-memory-history";
+import { useMemoryUsage } from "@/hooks/use-memory-usage";
+import { useProfiles } from "@/hooks/use-profiles";
 import { readCSVFile } from "@/lib/csv";
 import { createLogger } from "@/lib/logger";
+import { isStaleMemory } from "@/lib/storage/memory-usage";
+import { filterMemoriesByProfile } from "@/lib/storage/profiles";
+import type { MemoryEntry, MemoryUsage } from "@/types/memory";
 
 const logger = createLogger("component:entry-list");
 
-type SortOption = "recent" | "alphabetical";
+type SortOption = "recent" | "alphabetical" | "most-used" | "stale";
 type ViewMode = "list" | "grid";
 
+const lastUsedTime = (entry: MemoryEntry, usage: MemoryUsage | undefined) =>
+  new Date(usage?.lastUsedAt ?? entry.metadata.createdAt).getTime();
+
 interface EntryListProps {
   onEdit: (entryId: string) => void;
   onDelete: (entryId: string) => void;
@@ -57,8 +84,31 @@ interface EntryListProps {
 }
 
 export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
-  const { entries, loading } = useMemories();
-  const { deleteEntry, importFromCSV } = useMemoryMutations();
+  const { entries: allEntries, loading } = useMemories();
+  const { activeProfile } = useProfiles();
+  const entries = useMemo(
+    () => filterMemoriesByProfile(allEntries, activeProfile?.id ?? null),
+    [allEntries, activeProfile],
+  );
+  const { usage } = useMemoryUsage();
+  const staleIds = useMemo(
+    () =>
+      new Set(
+        entries
+          .filter((entry) => isStaleMemory(entry, usage.get(entry.id)))
+          .map((entry) => entry.id),
+      ),
+    [entries, usage],
+  );
+  const {
+    deleteEntry,
+    importFromCSV,
+    importFromJSON,
+    importFromEncryptedBackup,
+    importFromVCard,
+  } = useMemoryMutations();
+  const lastBulkOperation = useLastBulkOperation();
+  const { undoLastBulkOperation } = useMemoryHistoryMutations();
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [importing, setImporting] = useState(false);
@@ -68,6 +118,11 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("list");
   const [showProfileImport, setShowProfileImport] = useState(false);
   const [showDocumentImport, setShowDocumentImport] = useState(false);
+  const [showAutofillImport, setShowAutofillImport] = useState(false);
+  const [showBackupExport, setShowBackupExport] = useState(false);
+  const [exportingBackup, setExportingBackup] = useState(false);
+  // Contents of a .superfill file waiting for its password
+  const [pendingBackup, setPendingBackup] = useState<string | null>(null);
 
   const categories = useMemo(
     () => [...new Set(entries.map((e) => e.category))],
@@ -108,10 +163,24 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
           return aText.localeCompare(bText);
         });
         break;
+      case "most-used":
+        sorted.sort(
+          (a, b) =>
+            (usage.get(b.id)?.useCount ?? 0) - (usage.get(a.id)?.useCount ?? 0),
+        );
+        break;
+      case "stale":
+        // Stale first, then the longest unused, counting from creation
+        sorted.sort(
+          (a, b) =>
+            Number(staleIds.has(b.id)) - Number(staleIds.has(a.id)) ||
+            lastUsedTime(a, usage.get(a.id)) - lastUsedTime(b, usage.get(b.id)),
+        );
+        break;
     }
 
     return sorted;
-  }, [entries, searchQuery, categoryFilter, sortBy]);
+  }, [entries, searchQuery, categoryFilter, sortBy, usage, staleIds]);
 
   const handleEdit = (entryId: string) => {
     onEdit(entryId);
@@ -137,9 +206,9 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (exportFile: () => Promise<void>) => {
     try {
-      await csvUtils.exportToCSV();
+      await exportFile();
       toast.success("Memories exported successfully!");
     } catch (error) {
       toast.error(
@@ -148,6 +217,39 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
     }
   };
 
+  const handleExportBackup = async (password: string) => {
+    setExportingBackup(true);
+
+    try {
+      await backupUtils.exportToEncryptedBackup(password);
+      setShowBackupExport(false);
+      toast.success("Encrypted backup exported successfully!");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export backup",
+      );
+    } finally {
+      setExportingBackup(false);
+    }
+  };
+
+  const handleImportBackup = async (password: string) => {
+    if (!pendingBackup) return;
+
+    try {
+      const count = await importFromEncryptedBackup.mutateAsync({
+        content: pendingBackup,
+        password,
+      });
+      setPendingBackup(null);
+      toast.success(`Successfully imported ${count} memories!`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import backup",
+      );
+    }
+  };
+
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -155,8 +257,20 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
     setImporting(true);
 
     try {
-      const csvContent = await readCSVFile(file);
-      const count = await importFromCSV.mutateAsync(csvContent);
+      const content = await readCSVFile(file);
+      const extension = file.name.toLowerCase().split(".").pop();
+
+      if (extension === "superfill") {
+        setPendingBackup(content);
+        return;
+      }
+
+      const count =
+        extension === "json"
+          ? await importFromJSON.mutateAsync(content)
+          : extension === "vcf"
+            ? await importFromVCard.mutateAsync(content)
+            : await importFromCSV.mutateAsync(content);
       toast.success(`Successfully imported ${count} memories!`);
     } catch (error) {
       toast.error(
@@ -170,6 +284,24 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
     }
   };
 
+  const handleUndoBulkOperation = async () => {
+    try {
+      const result = await undoLastBulkOperation.mutateAsync();
+      if (result?.skippedCount) {
+        toast.warning(
+          `Undid "${result.operation.label}" except for ${result.skippedCount} ${result.skippedCount === 1 ? "memory" : "memories"} changed since then`,
+        );
+      } else if (result) {
+        toast.success(`Undid "${result.operation.label}"`);
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to undo operation",
+      );
+      logger.error("Failed to undo bulk operation:", error);
+    }
+  };
+
   const handleDownloadTemplate = () => {
     try {
       csvUtils.downloadCSVTemplate();
@@ -203,6 +335,8 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
         </div>
 
         <div className="flex gap-2">
+          <ProfileSwitcher />
+
           <Select value={categoryFilter} onValueChange={setCategoryFilter}>
             <SelectTrigger className="w-[150px]">
               <SelectValue placeholder="Category" />
@@ -227,6 +361,8 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
             <SelectContent>
               <SelectItem value="recent">Most Recent</SelectItem>
               <SelectItem value="alphabetical">Alphabetical</SelectItem>
+              <SelectItem value="most-used">Most Used</SelectItem>
+              <SelectItem value="stale">Stale First</SelectItem>
             </SelectContent>
           </Select>
 
@@ -278,6 +414,8 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
                   key={entry.id}
                   entry={entry}
                   mode="compact"
+                  usage={usage.get(entry.id)}
+                  stale={staleIds.has(entry.id)}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                   onDuplicate={handleDuplicate}
@@ -291,6 +429,8 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
                   key={entry.id}
                   entry={entry}
                   mode="detailed"
+                  usage={usage.get(entry.id)}
+                  stale={staleIds.has(entry.id)}
                   onEdit={handleEdit}
                   onDelete={handleDelete}
                   onDuplicate={handleDuplicate}
@@ -304,6 +444,7 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
       <div className="flex items-center justify-between text-sm text-muted-foreground border-t pt-1">
         <span>
           Showing {filteredAndSortedEntries.length} of {entries.length} entries
+          {staleIds.size > 0 && ` · ${staleIds.size} stale`}
         </span>
 
         <TooltipProvider>
@@ -311,27 +452,72 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.json,.superfill,.vcf"
               onChange={handleImport}
               className="hidden"
-              aria-label="Import CSV file"
+              aria-label="Import memories file"
             />
 
-            <Tooltip>
-              <TooltipTrigger asChild>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={handleExport}
-                  disabled={entries.length === 0 || importing}
+            {lastBulkOperation && (
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleUndoBulkOperation}
+                    disabled={importing || undoLastBulkOperation.isPending}
+                  >
+                    <Undo2Icon className="size-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Undo: {lastBulkOperation.label}</p>
+                </TooltipContent>
+              </Tooltip>
+            )}
+
+            <DropdownMenu>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={entries.length === 0 || importing}
+                    >
+                      <UploadIcon className="size-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>Export all memories</p>
+                </TooltipContent>
+              </Tooltip>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem
+                  onClick={() => handleExport(csvUtils.exportToCSV)}
                 >
-                  <UploadIcon className="size-4" />
-                </Button>
-              </TooltipTrigger>
-              <TooltipContent>
-                <p>Export all memories to CSV</p>
-              </TooltipContent>
-            </Tooltip>
+                  <FileSpreadsheetIcon className="mr-2 size-4" />
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => handleExport(backupUtils.exportToJSON)}
+                >
+                  <FileJsonIcon className="mr-2 size-4" />
+                  JSON backup
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowBackupExport(true)}>
+                  <LockIcon className="mr-2 size-4" />
+                  Encrypted backup (.superfill)
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => handleExport(backupUtils.exportToVCard)}
+                >
+                  <ContactIcon className="mr-2 size-4" />
+                  Contact card (vCard)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
 
             <Tooltip>
               <TooltipTrigger asChild>
@@ -345,7 +531,7 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
                 </Button>
               </TooltipTrigger>
               <TooltipContent>
-                <p>Import memories from CSV</p>
+                <p>Import memories from CSV, JSON, .superfill or vCard</p>
               </TooltipContent>
             </Tooltip>
 
@@ -396,6 +582,22 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
                 <p>Import from Document</p>
               </TooltipContent>
             </Tooltip>
+
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowAutofillImport(true)}
+                  disabled={importing}
+                >
+                  <KeyRoundIcon className="size-4" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>Import from browser or password manager</p>
+              </TooltipContent>
+            </Tooltip>
           </div>
         </TooltipProvider>
       </div>
@@ -409,6 +611,27 @@ export function EntryList({ onEdit, onDelete, onDuplicate }: EntryListProps) {
         open={showDocumentImport}
         onOpenChange={setShowDocumentImport}
       />
+
+      <AutofillImportDialog
+        open={showAutofillImport}
+        onOpenChange={setShowAutofillImport}
+      />
+
+      <BackupPasswordDialog
+        open={showBackupExport}
+        onOpenChange={setShowBackupExport}
+        mode="export"
+        pending={exportingBackup}
+        onSubmit={handleExportBackup}
+      />
+
+      <BackupPasswordDialog
+        open={pendingBackup !== null}
+        onOpenChange={(open) => !open && setPendingBackup(null)}
+        mode="import"
+        pending={importFromEncryptedBackup.isPending}
+        onSubmit={handleImportBackup}
+      />
     </div>
   );
 }
@@ -0,0 +1,163 @@
+import { formatDistanceToNow } from "date-fns";
+import { HistoryIcon, RotateCcwIcon } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  useMemoryHistoryMutations,
+  useMemoryRevisions,
+} from "@/hooks/use-memory-history";
+import type { MemoryEntry, MemoryRevision } from "@/types/memory";
+
+interface MemoryHistoryDialogProps {
+  entry: MemoryEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<MemoryRevision["source"], string> = {
+  manual: "Manual edit",
+  import: "Import",
+  capture: "Autofill capture",
+  sync: "Sync",
+  dedup: "Dedup merge",
+  restore: "Restore",
+  undo: "Undo",
+};
+
+const ACTION_LABELS: Record<MemoryRevision["action"], string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+const isCurrentState = (revision: MemoryRevision, entry: MemoryEntry) =>
+  revision.after?.question === entry.question &&
+  revision.after?.answer === entry.answer &&
+  revision.after?.category === entry.category;
+
+export function MemoryHistoryDialog({
+  entry,
+  open,
+  onOpenChange,
+}: MemoryHistoryDialogProps) {
+  const { data: revisions = [], isLoading } = useMemoryRevisions(
+    entry.id,
+    open,
+  );
+  const { restoreRevision } = useMemoryHistoryMutations();
+
+  const handleRestore = async (revisionId: string) => {
+    try {
+      await restoreRevision.mutateAsync(revisionId);
+      toast.success("Memory restored");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to restore memory",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>History</DialogTitle>
+          <DialogDescription>
+            {entry.question || "Previous versions of this memory"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex items-center justify-center h-32">
+            <Spinner className="h-6 w-6" />
+          </div>
+        )}
+
+        {!isLoading && revisions.length === 0 && (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <HistoryIcon />
+              </EmptyMedia>
+              <EmptyTitle>No history yet</EmptyTitle>
+              <EmptyDescription>
+                Changes to this memory will show up here
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        )}
+
+        <div className="flex flex-col gap-3">
+          {revisions.map((revision) => {
+            const snapshot = revision.after ?? revision.before;
+            const isCurrent = isCurrentState(revision, entry);
+
+            return (
+              <div
+                key={revision.id}
+                className="flex flex-col gap-2 rounded-md border p-3"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 flex-wrap text-xs">
+                    <Badge variant="secondary">
+                      {ACTION_LABELS[revision.action]}
+                    </Badge>
+                    <Badge variant="outline">
+                      {SOURCE_LABELS[revision.source]}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      {formatDistanceToNow(new Date(revision.createdAt), {
+                        addSuffix: true,
+                      })}
+                    </span>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-xs text-muted-foreground">
+                      Current
+                    </span>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(revision.id)}
+                      disabled={!snapshot || restoreRevision.isPending}
+                    >
+                      <RotateCcwIcon className="size-4" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                {snapshot && (
+                  <>
+                    {snapshot.question && (
+                      <p className="text-sm font-medium">{snapshot.question}</p>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap wrap-break-word text-muted-foreground">
+                      {snapshot.answer}
+                    </p>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
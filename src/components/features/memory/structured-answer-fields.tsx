@@ -0,0 +1,149 @@
+import { useId } from "react";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import type { StructuredAnswer, StructuredAnswerType } from "@/types/memory";
+
+interface ComponentField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  inputType?: string;
+  wide?: boolean;
+  normalize?: (value: string) => string;
+}
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+
+export const STRUCTURED_ANSWER_LABELS: Record<StructuredAnswerType, string> = {
+  date: "Date",
+  phone: "Phone number",
+  address: "Postal address",
+  name: "Full name",
+  money: "Amount of money",
+};
+
+export const EMPTY_STRUCTURED_ANSWERS: {
+  [K in StructuredAnswerType]: Extract<StructuredAnswer, { type: K }>;
+} = {
+  date: { type: "date", date: "" },
+  phone: { type: "phone", countryCode: "", nationalNumber: "" },
+  address: {
+    type: "address",
+    street1: "",
+    street2: "",
+    city: "",
+    region: "",
+    postalCode: "",
+    country: "",
+  },
+  name: {
+    type: "name",
+    prefix: "",
+    given: "",
+    middle: "",
+    family: "",
+    suffix: "",
+  },
+  money: { type: "money", amount: "", currency: "" },
+};
+
+const COMPONENT_FIELDS: Record<StructuredAnswerType, ComponentField[]> = {
+  date: [{ key: "date", label: "Date", inputType: "date", wide: true }],
+  phone: [
+    {
+      key: "countryCode",
+      label: "Country code",
+      placeholder: "1",
+      normalize: digitsOnly,
+    },
+    {
+      key: "nationalNumber",
+      label: "Number",
+      placeholder: "5550100123",
+      normalize: digitsOnly,
+    },
+  ],
+  address: [
+    { key: "street1", label: "Street", wide: true },
+    { key: "street2", label: "Apt, suite, unit", wide: true },
+    { key: "city", label: "City" },
+    { key: "region", label: "State / region" },
+    { key: "postalCode", label: "Postal code" },
+    {
+      key: "country",
+      label: "Country code",
+      placeholder: "US",
+      normalize: (value) => value.toUpperCase().slice(0, 2),
+    },
+  ],
+  name: [
+    { key: "prefix", label: "Prefix", placeholder: "Dr." },
+    { key: "given", label: "First name" },
+    { key: "middle", label: "Middle name" },
+    { key: "family", label: "Last name" },
+    { key: "suffix", label: "Suffix", placeholder: "Jr." },
+  ],
+  money: [
+    {
+      key: "amount",
+      label: "Amount",
+      placeholder: "85000",
+      normalize: (value) => value.replace(/[^\d.]/g, ""),
+    },
+    {
+      key: "currency",
+      label: "Currency",
+      placeholder: "USD",
+      normalize: (value) => value.toUpperCase().slice(0, 3),
+    },
+  ],
+};
+
+interface StructuredAnswerFieldsProps {
+  value: StructuredAnswer;
+  onChange: (value: StructuredAnswer) => void;
+  onBlur?: () => void;
+}
+
+export const StructuredAnswerFields = ({
+  value,
+  onChange,
+  onBlur,
+}: StructuredAnswerFieldsProps) => {
+  const baseId = useId();
+  const components: Record<string, string | undefined> = value;
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {COMPONENT_FIELDS[value.type].map((field) => {
+        const inputId = `${baseId}-${field.key}`;
+
+        return (
+          <Field
+            key={field.key}
+            className={field.wide ? "col-span-2 gap-1" : "gap-1"}
+          >
+            <FieldLabel htmlFor={inputId} className="text-xs">
+              {field.label}
+            </FieldLabel>
+            <Input
+              id={inputId}
+              type={field.inputType ?? "text"}
+              value={components[field.key] ?? ""}
+              placeholder={field.placeholder}
+              onBlur={onBlur}
+              onChange={(e) =>
+                onChange({
+                  ...value,
+                  [field.key]: field.normalize
+                    ? field.normalize(e.target.value)
+                    : e.target.value,
+                } as StructuredAnswer)
+              }
+            />
+          </Field>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import { UserRoundIcon } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useProfileMutations, useProfiles } from "@/hooks/use-profiles";
+import { cn } from "@/lib/cn";
+
+const ALL_PROFILES = "all";
+
+interface ProfileSwitcherProps {
+  className?: string;
+}
+
+export const ProfileSwitcher = ({ className }: ProfileSwitcherProps) => {
+  const { profiles, settings } = useProfiles();
+  const { setActive } = useProfileMutations();
+
+  if (profiles.length === 0) return null;
+
+  const handleChange = async (value: string) => {
+    try {
+      await setActive.mutateAsync(value === ALL_PROFILES ? null : value);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to switch profile",
+      );
+    }
+  };
+
+  return (
+    <Select
+      value={settings.activeProfileId ?? ALL_PROFILES}
+      onValueChange={handleChange}
+    >
+      <SelectTrigger
+        className={cn("w-[150px]", className)}
+        aria-label="Active profile"
+      >
+        <UserRoundIcon className="size-4" />
+        <SelectValue placeholder="Profile" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_PROFILES}>All profiles</SelectItem>
+        {profiles.map((profile) => (
+          <SelectItem key={profile.id} value={profile.id}>
+            {profile.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
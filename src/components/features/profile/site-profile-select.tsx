@@ -0,0 +1,68 @@
+import { useId } from "react";
+import { toast } from "sonner";
+import { Field, FieldLabel } from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useProfileMutations, useProfiles } from "@/hooks/use-profiles";
+import { getSiteProfileRule, normalizeDomain } from "@/lib/storage/profiles";
+
+const ACTIVE_PROFILE = "active";
+
+interface SiteProfileSelectProps {
+  pageUrl: string;
+}
+
+export const SiteProfileSelect = ({ pageUrl }: SiteProfileSelectProps) => {
+  const selectId = useId();
+  const { profiles, settings, activeProfile } = useProfiles();
+  const { setSiteRule } = useProfileMutations();
+  const domain = normalizeDomain(pageUrl);
+
+  if (!domain || profiles.length === 0) return null;
+
+  const rule = getSiteProfileRule(pageUrl, settings);
+
+  const handleChange = async (value: string) => {
+    try {
+      await setSiteRule.mutateAsync({
+        domain: rule?.domain ?? domain,
+        profileId: value === ACTIVE_PROFILE ? null : value,
+      });
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update site rule",
+      );
+    }
+  };
+
+  return (
+    <Field orientation="horizontal">
+      <FieldLabel htmlFor={selectId} className="truncate">
+        Profile on {domain}
+      </FieldLabel>
+      <Select
+        value={rule?.profileId ?? ACTIVE_PROFILE}
+        onValueChange={handleChange}
+      >
+        <SelectTrigger id={selectId} className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ACTIVE_PROFILE}>
+            {activeProfile ? `Active (${activeProfile.name})` : "All profiles"}
+          </SelectItem>
+          {profiles.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </Field>
+  );
+};
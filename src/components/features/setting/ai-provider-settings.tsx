@@ -30,9 +30,11 @@ import {
   type AIProvider,
   getAllProviderConfigs,
   getProviderOptions,
+  OLLAMA_DEFAULT_BASE_URL,
 } from "@/lib/providers/registry";
 import { storage } from "@/lib/storage";
 import type { AISettings } from "@/types/settings";
+import { CustomProviderSettings } from "./custom-provider-settings";
 import { ModelSelector } from "./model-selector";
 import { ProviderKeyInput } from "./provider-key-input";
 
@@ -86,7 +88,9 @@ export const AiProviderSettings = () => {
 
   const handleSaveApiKey = async (provider: AIProvider) => {
     const key = providerKeys[provider];
-    const apiKey = provider === "ollama" ? "ollama-local" : key;
+    // Ollama stores its base URL in place of a key
+    const apiKey =
+      provider === "ollama" ? key?.trim() || OLLAMA_DEFAULT_BASE_URL : key;
 
     if (provider !== "ollama" && !key?.trim()) return;
 
@@ -217,6 +221,10 @@ export const AiProviderSettings = () => {
 
             <Separator className="my-2" />
 
+            <CustomProviderSettings selectedProvider={selectedProvider} />
+
+            <Separator className="my-2" />
+
             <Field data-invalid={false}>
               <FieldLabel htmlFor={providerComboboxId}>
                 Current Provider
@@ -0,0 +1,404 @@
+import { format, subDays, subMonths } from "date-fns";
+import { Trash2Icon } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  useAIUsage,
+  useAIUsageMutations,
+  useUsageBudget,
+} from "@/hooks/use-ai-usage";
+import { useProviderKeyStatuses } from "@/hooks/use-provider-keys";
+import { type AIProvider, getProviderOptions } from "@/lib/providers/registry";
+import { getMonthlySpend } from "@/lib/storage/ai-usage";
+import type { CloudOperationType } from "@/types/cloud";
+import type { ProviderOption } from "@/types/settings";
+import type { AIUsageEntry, UsageBudget } from "@/types/usage";
+
+type ChartRange = "daily" | "monthly";
+
+const OPERATION_LABELS: Record<CloudOperationType, string> = {
+  match: "Field matching",
+  categorize: "Categorizing",
+  rephrase: "Rephrasing",
+  bulk_categorize: "Bulk categorizing",
+  deduplicate: "Saving captured fields",
+  parse_document: "Reading documents",
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const formatCost = (cost: number) =>
+  cost > 0 && cost < 0.01 ? "<$0.01" : `$${cost.toFixed(2)}`;
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000
+      ? `${(tokens / 1000).toFixed(1)}K`
+      : `${tokens}`;
+
+const parseLimit = (value: string) => {
+  const limit = Number.parseFloat(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : undefined;
+};
+
+interface UsageTotals {
+  calls: number;
+  tokens: number;
+  cost: number;
+}
+
+const sumUsage = (entries: AIUsageEntry[]): UsageTotals =>
+  entries.reduce(
+    (totals, e) => ({
+      calls: totals.calls + e.calls,
+      tokens: totals.tokens + e.inputTokens + e.outputTokens,
+      cost: totals.cost + e.cost,
+    }),
+    { calls: 0, tokens: 0, cost: 0 },
+  );
+
+const groupUsage = (
+  entries: AIUsageEntry[],
+  keyOf: (entry: AIUsageEntry) => string,
+) => {
+  const groups = new Map<string, AIUsageEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    ...sumUsage(group),
+  })).sort((a, b) => b.cost - a.cost || b.tokens - a.tokens);
+};
+
+// Last 30 days or last 12 months, oldest first, empty periods included
+const getChartBuckets = (usage: AIUsageEntry[], range: ChartRange) => {
+  const now = new Date();
+  const periods =
+    range === "daily"
+      ? Array.from({ length: 30 }, (_, i) =>
+          format(subDays(now, 29 - i), "yyyy-MM-dd"),
+        )
+      : Array.from({ length: 12 }, (_, i) =>
+          format(subMonths(now, 11 - i), "yyyy-MM"),
+        );
+
+  return periods.map((period) => ({
+    period,
+    label:
+      range === "daily"
+        ? format(new Date(`${period}T00:00`), "MMM d")
+        : format(new Date(`${period}-01T00:00`), "MMM yyyy"),
+    ...sumUsage(usage.filter((e) => e.date.startsWith(period))),
+  }));
+};
+
+const UsageChart = ({
+  usage,
+  range,
+}: {
+  usage: AIUsageEntry[];
+  range: ChartRange;
+}) => {
+  const buckets = getChartBuckets(usage, range);
+  // Charts tokens when nothing has a known price, e.g. local models only
+  const byCost = buckets.some((b) => b.cost > 0);
+  const chartValue = (b: UsageTotals) => (byCost ? b.cost : b.tokens);
+  const max = Math.max(...buckets.map(chartValue), 0);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex h-32 items-end gap-0.5">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.period}
+            className="flex-1 rounded-t-sm bg-primary/80 hover:bg-primary"
+            style={{
+              height: `${max > 0 ? (chartValue(bucket) / max) * 100 : 0}%`,
+              minHeight: chartValue(bucket) > 0 ? 2 : 0,
+            }}
+            title={`${bucket.label}: ${formatCost(bucket.cost)}, ${formatTokens(bucket.tokens)} tokens, ${bucket.calls} calls`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{buckets[0]?.label}</span>
+        <span>{byCost ? "Estimated cost" : "Tokens"}</span>
+        <span>{buckets[buckets.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+};
+
+const BudgetInput = ({
+  label,
+  limit,
+  spent,
+  onChange,
+}: {
+  label: string;
+  limit?: number;
+  spent: number;
+  onChange: (limit?: number) => void;
+}) => (
+  <div className="flex items-center gap-2">
+    <span className="w-40 shrink-0 truncate text-sm">{label}</span>
+    <Input
+      key={limit ?? "none"}
+      type="number"
+      min={0}
+      step="0.5"
+      className="w-28"
+      defaultValue={limit ?? ""}
+      placeholder="No cap"
+      aria-label={`${label} monthly cap in USD`}
+      onBlur={(e) => {
+        const next = parseLimit(e.target.value);
+        if (next !== limit) onChange(next);
+      }}
+    />
+    {limit !== undefined && limit > 0 ? (
+      <>
+        <Progress
+          value={Math.min(100, (spent / limit) * 100)}
+          className="flex-1"
+        />
+        <span className="w-24 shrink-0 text-right text-xs text-muted-foreground tabular-nums">
+          {formatCost(spent)} / {formatCost(limit)}
+        </span>
+      </>
+    ) : (
+      <span className="flex-1 text-xs text-muted-foreground">
+        {formatCost(spent)} this month
+      </span>
+    )}
+  </div>
+);
+
+export const AiUsageSettings = () => {
+  const budgetId = useId();
+  const { usage } = useAIUsage();
+  const { budget } = useUsageBudget();
+  const { setBudget, clear } = useAIUsageMutations();
+  const { data: keyStatuses } = useProviderKeyStatuses();
+  const [providerOptions, setProviderOptions] = useState<ProviderOption[]>([]);
+  const [range, setRange] = useState<ChartRange>("daily");
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: need to run when keyStatuses change
+  useEffect(() => {
+    getProviderOptions().then(setProviderOptions);
+  }, [keyStatuses]);
+
+  const month = format(new Date(), "yyyy-MM");
+  const monthUsage = usage.filter((e) => e.date.startsWith(month));
+  const monthTotals = sumUsage(monthUsage);
+  const providerLabel = (provider: AIProvider) =>
+    providerOptions.find((p) => p.value === provider)?.label ?? provider;
+
+  const handleBudgetChange = async (updates: Partial<UsageBudget>) => {
+    try {
+      await setBudget.mutateAsync({ ...budget, ...updates });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update budget"));
+    }
+  };
+
+  const handleProviderLimitChange = (provider: AIProvider, limit?: number) => {
+    const { [provider]: _, ...providerLimits } = budget.providerLimits;
+    handleBudgetChange({
+      providerLimits:
+        limit === undefined
+          ? providerLimits
+          : { ...providerLimits, [provider]: limit },
+    });
+  };
+
+  const handleClear = async () => {
+    try {
+      await clear.mutateAsync();
+      toast.success("Usage history cleared");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to clear usage history"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          Tokens used with your own API keys and their estimated cost, from list
+          prices. Cloud model usage is shown in the header instead.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <div className="text-2xl font-semibold tabular-nums">
+                {formatCost(monthTotals.cost)}
+              </div>
+              <div className="text-xs text-muted-foreground">This month</div>
+            </div>
+            <div>
+              <div className="text-2xl font-semibold tabular-nums">
+                {formatTokens(monthTotals.tokens)}
+              </div>
+              <div className="text-xs text-muted-foreground">Tokens</div>
+            </div>
+            <div>
+              <div className="text-2xl font-semibold tabular-nums">
+                {monthTotals.calls.toLocaleString()}
+              </div>
+              <div className="text-xs text-muted-foreground">AI calls</div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              size="sm"
+              value={range}
+              onValueChange={(value) => value && setRange(value as ChartRange)}
+            >
+              <ToggleGroupItem value="daily">Daily</ToggleGroupItem>
+              <ToggleGroupItem value="monthly">Monthly</ToggleGroupItem>
+            </ToggleGroup>
+            <UsageChart usage={usage} range={range} />
+          </div>
+
+          {monthUsage.length > 0 && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Model</TableHead>
+                    <TableHead className="text-right">Tokens</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groupUsage(
+                    monthUsage,
+                    (e) => `${providerLabel(e.provider)} · ${e.model}`,
+                  ).map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="max-w-48 truncate" title={row.key}>
+                        {row.key}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatTokens(row.tokens)}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCost(row.cost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Operation</TableHead>
+                    <TableHead className="text-right">Calls</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groupUsage(monthUsage, (e) => e.operation).map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell>
+                        {OPERATION_LABELS[row.key as CloudOperationType]}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {row.calls.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right tabular-nums">
+                        {formatCost(row.cost)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <Separator />
+
+          <Field>
+            <FieldLabel htmlFor={budgetId}>Monthly budget</FieldLabel>
+            <FieldDescription>
+              Caps in USD. Once one is reached, AI calls to it pause until the
+              next month and autofill uses fallback providers or rule-based
+              matching instead.
+            </FieldDescription>
+            <div id={budgetId} className="space-y-2">
+              <BudgetInput
+                label="All providers"
+                limit={budget.monthlyLimit}
+                spent={monthTotals.cost}
+                onChange={(monthlyLimit) =>
+                  handleBudgetChange({ monthlyLimit })
+                }
+              />
+              {providerOptions
+                .filter((p) => p.available && p.value !== "ollama")
+                .map((option) => (
+                  <BudgetInput
+                    key={option.value}
+                    label={option.label}
+                    limit={budget.providerLimits[option.value]}
+                    spent={getMonthlySpend(usage, option.value)}
+                    onChange={(limit) =>
+                      handleProviderLimitChange(option.value, limit)
+                    }
+                  />
+                ))}
+            </div>
+          </Field>
+
+          <Button
+            variant="outline"
+            className="self-start"
+            onClick={handleClear}
+            disabled={usage.length === 0 || clear.isPending}
+          >
+            <Trash2Icon className="size-4" />
+            Clear usage history
+          </Button>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
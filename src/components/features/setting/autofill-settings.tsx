@@ -24,11 +24,14 @@ export const AutofillSettings = () => {
   const autopilotModeId = useId();
   const confidenceThresholdId = useId();
   const contextMenuEnabledId = useId();
+  const inlineSuggestionsEnabledId = useId();
 
   const [autoFillEnabled, setAutoFillEnabled] = useState(true);
   const [autopilotMode, setAutopilotMode] = useState(false);
   const [confidenceThreshold, setConfidenceThreshold] = useState(0.6);
   const [contextMenuEnabled, setContextMenuEnabled] = useState(true);
+  const [inlineSuggestionsEnabled, setInlineSuggestionsEnabled] =
+    useState(false);
 
   useEffect(() => {
     const fetchAndWatch = async () => {
@@ -38,6 +41,7 @@ export const AutofillSettings = () => {
       setAutopilotMode(settings.autopilotMode);
       setConfidenceThreshold(settings.confidenceThreshold);
       setContextMenuEnabled(settings.contextMenuEnabled);
+      setInlineSuggestionsEnabled(settings.inlineSuggestionsEnabled ?? false);
     };
 
     fetchAndWatch();
@@ -48,6 +52,9 @@ export const AutofillSettings = () => {
         setAutopilotMode(newSettings.autopilotMode);
         setConfidenceThreshold(newSettings.confidenceThreshold);
         setContextMenuEnabled(newSettings.contextMenuEnabled);
+        setInlineSuggestionsEnabled(
+          newSettings.inlineSuggestionsEnabled ?? false,
+        );
       }
     });
 
@@ -92,6 +99,15 @@ export const AutofillSettings = () => {
     await storage.aiSettings.setValue(updatedSettings);
   };
 
+  const handleSetInlineSuggestionsEnabled = async (enabled: boolean) => {
+    const currentSettings = await storage.aiSettings.getValue();
+    const updatedSettings: AISettings = {
+      ...currentSettings,
+      inlineSuggestionsEnabled: enabled,
+    };
+    await storage.aiSettings.setValue(updatedSettings);
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -159,6 +175,24 @@ export const AutofillSettings = () => {
             </FieldDescription>
           </Field>
 
+          <Field orientation="horizontal" data-invalid={false}>
+            <FieldContent>
+              <FieldLabel htmlFor={inlineSuggestionsEnabledId}>
+                Inline Suggestions
+              </FieldLabel>
+              <FieldDescription>
+                Show matching memories under the text field you are typing in.
+                Use the arrow keys to choose and Tab or Enter to fill.
+              </FieldDescription>
+            </FieldContent>
+            <Switch
+              id={inlineSuggestionsEnabledId}
+              checked={inlineSuggestionsEnabled}
+              onCheckedChange={handleSetInlineSuggestionsEnabled}
+              disabled={!autoFillEnabled}
+            />
+          </Field>
+
           <Separator />
 
           <Field
@@ -0,0 +1,188 @@
+import { CheckCircle2, PlusIcon, Trash2 } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useCustomProviderMutations,
+  useCustomProviders,
+} from "@/hooks/use-custom-providers";
+import { requestEndpointPermission } from "@/lib/providers/host-permissions";
+import type { AIProvider } from "@/lib/providers/registry";
+import { normalizeBaseURL } from "@/lib/storage/custom-providers";
+import type { CustomProvider } from "@/types/settings";
+import { ModelSelector } from "./model-selector";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// One "Name: value" pair per line
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+
+    const separator = line.indexOf(":");
+    const name = line.slice(0, separator).trim();
+    if (separator === -1 || !name) {
+      throw new Error(`Headers must look like "Name: value", got "${line}"`);
+    }
+
+    headers[name] = line.slice(separator + 1).trim();
+  }
+
+  return headers;
+};
+
+export const CustomProviderSettings = ({
+  selectedProvider,
+}: {
+  selectedProvider?: AIProvider;
+}) => {
+  const nameId = useId();
+  const { providers } = useCustomProviders();
+  const { add, remove } = useCustomProviderMutations();
+  const [name, setName] = useState("");
+  const [baseURL, setBaseURL] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [model, setModel] = useState("");
+  const [headers, setHeaders] = useState("");
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      const parsedHeaders = parseHeaders(headers);
+
+      // Asked first, while the click still counts as a user gesture
+      if (!(await requestEndpointPermission(normalizeBaseURL(baseURL)))) {
+        toast.error("Access to the endpoint's host is needed to use it");
+        return;
+      }
+
+      const provider = await add.mutateAsync({
+        name,
+        baseURL,
+        headers: parsedHeaders,
+        apiKey,
+        model,
+      });
+
+      setName("");
+      setBaseURL("");
+      setApiKey("");
+      setModel("");
+      setHeaders("");
+      toast.success(`${provider.name} added`);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to add endpoint"));
+    }
+  };
+
+  const handleRemove = async (provider: CustomProvider) => {
+    try {
+      await remove.mutateAsync(provider);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to remove endpoint"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {providers.map((provider) => (
+        <div key={provider.id} className="flex gap-2">
+          <Field data-invalid={false}>
+            <div className="flex items-center gap-2">
+              <FieldLabel>{provider.name}</FieldLabel>
+              {selectedProvider === provider.id && (
+                <Badge variant="default" className="gap-1">
+                  <CheckCircle2 className="size-3" />
+                  Active
+                </Badge>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Input value={provider.baseURL} readOnly />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="text-destructive hover:text-destructive"
+                onClick={() => handleRemove(provider)}
+                disabled={remove.isPending}
+                aria-label={`Remove ${provider.name}`}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+            <FieldDescription>
+              {Object.keys(provider.headers).length > 0
+                ? `OpenAI-compatible, sends ${Object.keys(provider.headers).join(", ")}`
+                : "OpenAI-compatible"}
+            </FieldDescription>
+          </Field>
+          <ModelSelector
+            provider={provider.id}
+            providerName={provider.name}
+            hasApiKey
+          />
+        </div>
+      ))}
+
+      <form onSubmit={handleAdd}>
+        <Field data-invalid={false}>
+          <FieldLabel htmlFor={nameId}>Custom endpoint</FieldLabel>
+          <FieldDescription>
+            Any OpenAI-compatible server, e.g. LM Studio, vLLM or a LiteLLM
+            gateway. Models are listed from its /models route.
+          </FieldDescription>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              id={nameId}
+              value={name}
+              placeholder="Name, e.g. LM Studio"
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Input
+              value={baseURL}
+              placeholder="http://localhost:1234/v1"
+              aria-label="Base URL"
+              onChange={(e) => setBaseURL(e.target.value)}
+            />
+            <Input
+              type="password"
+              value={apiKey}
+              placeholder="API key (optional)"
+              aria-label="API key"
+              onChange={(e) => setApiKey(e.target.value)}
+            />
+            <Input
+              value={model}
+              placeholder="Model (optional, first listed by default)"
+              aria-label="Model"
+              onChange={(e) => setModel(e.target.value)}
+            />
+          </div>
+          <Textarea
+            value={headers}
+            placeholder={"Extra headers, one per line\nX-Team: autofill"}
+            aria-label="Extra headers"
+            onChange={(e) => setHeaders(e.target.value)}
+          />
+          <Button
+            type="submit"
+            variant="outline"
+            className="self-start"
+            disabled={!name.trim() || !baseURL.trim() || add.isPending}
+          >
+            <PlusIcon className="size-4" />
+            {add.isPending ? "Connecting..." : "Add endpoint"}
+          </Button>
+        </Field>
+      </form>
+    </div>
+  );
+};
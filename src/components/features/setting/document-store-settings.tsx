@@ -0,0 +1,207 @@
+import { FileIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import { useId, useRef, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useDocumentMutations, useDocuments } from "@/hooks/use-documents";
+import type { StoredDocument, StoredDocumentKind } from "@/types/document";
+
+const DOCUMENT_KIND_LABELS: Record<StoredDocumentKind, string> = {
+  resume: "Resume / CV",
+  cover_letter: "Cover letter",
+  id_document: "ID scan",
+  transcript: "Transcript",
+  other: "Other",
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const DocumentKindSelect = ({
+  value,
+  onChange,
+}: {
+  value: StoredDocumentKind;
+  onChange: (kind: StoredDocumentKind) => void;
+}) => (
+  <Select
+    value={value}
+    onValueChange={(kind) => onChange(kind as StoredDocumentKind)}
+  >
+    <SelectTrigger className="w-40" aria-label="Document type">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {Object.entries(DOCUMENT_KIND_LABELS).map(([kind, label]) => (
+        <SelectItem key={kind} value={kind}>
+          {label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export const DocumentStoreSettings = () => {
+  const labelId = useId();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { documents } = useDocuments();
+  const { add, update, remove } = useDocumentMutations();
+  const [file, setFile] = useState<File | null>(null);
+  const [label, setLabel] = useState("");
+  const [kind, setKind] = useState<StoredDocumentKind>("resume");
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    try {
+      await add.mutateAsync({ file, label, kind });
+      setFile(null);
+      setLabel("");
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast.success("Document saved");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save document"));
+    }
+  };
+
+  const handleUpdate = async (
+    document: StoredDocument,
+    updates: Partial<Pick<StoredDocument, "label" | "kind">>,
+  ) => {
+    const unchangedLabel = updates.label?.trim() === document.label;
+    if (unchangedLabel) return;
+
+    try {
+      await update.mutateAsync({ id: document.id, updates });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update document"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await remove.mutateAsync(id);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete document"));
+    }
+  };
+
+  return (
+    <Card data-tour="document-settings">
+      <CardHeader>
+        <CardTitle>Documents</CardTitle>
+        <CardDescription>
+          Files to attach to upload fields, e.g. your resume on job
+          applications. They are matched by type and label.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          {documents.map((document) => (
+            <div
+              key={`${document.id}-${document.label}`}
+              className="flex items-center gap-2"
+            >
+              <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+              <Input
+                defaultValue={document.label}
+                aria-label={`Rename ${document.label}`}
+                onBlur={(e) =>
+                  handleUpdate(document, { label: e.target.value })
+                }
+              />
+              <DocumentKindSelect
+                value={document.kind}
+                onChange={(kind) => handleUpdate(document, { kind })}
+              />
+              <span
+                className="w-32 shrink-0 truncate text-xs text-muted-foreground"
+                title={document.fileName}
+              >
+                {formatSize(document.size)} · {document.fileName}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(document.id)}
+                disabled={remove.isPending}
+                aria-label={`Delete ${document.label}`}
+              >
+                <Trash2Icon className="size-4" />
+              </Button>
+            </div>
+          ))}
+
+          {documents.length > 0 && <Separator />}
+
+          <form onSubmit={handleAdd}>
+            <Field>
+              <FieldLabel htmlFor={labelId}>New document</FieldLabel>
+              <FieldDescription>
+                {file ? file.name : "PDF, Word or image files up to 5 MB"}
+              </FieldDescription>
+              <input
+                ref={fileInputRef}
+                type="file"
+                className="hidden"
+                aria-label="Choose document"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  Choose file
+                </Button>
+                <Input
+                  id={labelId}
+                  value={label}
+                  placeholder="Label, e.g. Engineering resume"
+                  onChange={(e) => setLabel(e.target.value)}
+                />
+                <DocumentKindSelect value={kind} onChange={setKind} />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={!file || add.isPending}
+                >
+                  <PlusIcon className="size-4" />
+                  Add
+                </Button>
+              </div>
+            </Field>
+          </form>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DEFAULT_NEVER_AUTOFILL,
+  FILL_RULE_TARGET_LABELS,
+  SENSITIVE_FIELD_KINDS,
+  SENSITIVE_FIELD_THRESHOLD,
+} from "@/lib/autofill/fill-policy";
+import { storage } from "@/lib/storage";
+import type { AISettings, FillRuleTarget } from "@/types/settings";
+
+const PURPOSE_TARGETS: FillRuleTarget[] = [
+  "name",
+  "email",
+  "phone",
+  "address",
+  "city",
+  "state",
+  "zip",
+  "country",
+  "company",
+  "title",
+];
+
+type FieldRules = Pick<
+  AISettings,
+  "confidenceThreshold" | "fieldThresholds" | "neverAutoFill"
+>;
+
+const toFieldRules = (settings: AISettings): FieldRules => ({
+  confidenceThreshold: settings.confidenceThreshold,
+  fieldThresholds: settings.fieldThresholds,
+  neverAutoFill: settings.neverAutoFill,
+});
+
+const isSensitive = (target: FillRuleTarget) =>
+  (SENSITIVE_FIELD_KINDS as FillRuleTarget[]).includes(target);
+
+interface ThresholdInputProps {
+  target: FillRuleTarget;
+  value: number | undefined;
+  fallback: number;
+  disabled: boolean;
+  onCommit: (target: FillRuleTarget, value: number | undefined) => void;
+}
+
+const ThresholdInput = ({
+  target,
+  value,
+  fallback,
+  disabled,
+  onCommit,
+}: ThresholdInputProps) => {
+  const [draft, setDraft] = useState(value?.toString() ?? "");
+
+  useEffect(() => {
+    setDraft(value?.toString() ?? "");
+  }, [value]);
+
+  const handleBlur = () => {
+    if (draft.trim() === "") {
+      onCommit(target, undefined);
+      return;
+    }
+
+    const parsed = Number(draft);
+    if (Number.isNaN(parsed)) {
+      setDraft(value?.toString() ?? "");
+      return;
+    }
+    onCommit(target, Math.min(1, Math.max(0, parsed)));
+  };
+
+  return (
+    <Input
+      type="number"
+      min={0}
+      max={1}
+      step={0.05}
+      className="h-8 w-24"
+      aria-label={`${FILL_RULE_TARGET_LABELS[target]} threshold`}
+      placeholder={fallback.toFixed(2)}
+      value={draft}
+      disabled={disabled}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={handleBlur}
+    />
+  );
+};
+
+export const FieldRulesSettings = () => {
+  const [rules, setRules] = useState<FieldRules | null>(null);
+
+  useEffect(() => {
+    const fetchAndWatch = async () => {
+      const settings = await storage.aiSettings.getValue();
+      setRules(toFieldRules(settings));
+    };
+
+    fetchAndWatch();
+
+    const unsubscribe = storage.aiSettings.watch((newSettings) => {
+      if (newSettings) {
+        setRules(toFieldRules(newSettings));
+      }
+    });
+
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const handleSetThreshold = async (
+    target: FillRuleTarget,
+    threshold: number | undefined,
+  ) => {
+    const currentSettings = await storage.aiSettings.getValue();
+    const { [target]: _previous, ...fieldThresholds } =
+      currentSettings.fieldThresholds ?? {};
+    const updatedSettings: AISettings = {
+      ...currentSettings,
+      fieldThresholds:
+        threshold === undefined
+          ? fieldThresholds
+          : { ...fieldThresholds, [target]: threshold },
+    };
+    await storage.aiSettings.setValue(updatedSettings);
+  };
+
+  const handleSetNeverAutoFill = async (
+    target: FillRuleTarget,
+    enabled: boolean,
+  ) => {
+    const currentSettings = await storage.aiSettings.getValue();
+    const current = currentSettings.neverAutoFill ?? DEFAULT_NEVER_AUTOFILL;
+    const updatedSettings: AISettings = {
+      ...currentSettings,
+      neverAutoFill: enabled
+        ? [...new Set([...current, target])]
+        : current.filter((item) => item !== target),
+    };
+    await storage.aiSettings.setValue(updatedSettings);
+  };
+
+  if (!rules) return null;
+
+  const neverAutoFill = rules.neverAutoFill ?? DEFAULT_NEVER_AUTOFILL;
+
+  const renderRow = (target: FillRuleTarget) => {
+    const alwaysConfirm = neverAutoFill.includes(target);
+    const fallback = isSensitive(target)
+      ? SENSITIVE_FIELD_THRESHOLD
+      : rules.confidenceThreshold;
+
+    return (
+      <TableRow key={target}>
+        <TableCell className="font-medium">
+          {FILL_RULE_TARGET_LABELS[target]}
+        </TableCell>
+        <TableCell>
+          <ThresholdInput
+            target={target}
+            value={rules.fieldThresholds?.[target]}
+            fallback={fallback}
+            disabled={alwaysConfirm}
+            onCommit={handleSetThreshold}
+          />
+        </TableCell>
+        <TableCell className="text-right">
+          <Switch
+            aria-label={`Always confirm ${FILL_RULE_TARGET_LABELS[target]}`}
+            checked={alwaysConfirm}
+            onCheckedChange={(checked) =>
+              handleSetNeverAutoFill(target, checked)
+            }
+          />
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Field Rules</CardTitle>
+        <CardDescription>
+          Set how confident a match must be before each kind of field is filled,
+          or require confirmation every time. Sensitive fields default to{" "}
+          {SENSITIVE_FIELD_THRESHOLD.toFixed(2)}; leave a threshold empty to use
+          the default. Rules apply in both preview and autopilot mode.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Threshold</TableHead>
+              <TableHead className="text-right">Always confirm</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {SENSITIVE_FIELD_KINDS.map(renderRow)}
+            {PURPOSE_TARGETS.map(renderRow)}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,142 @@
+import { ExternalLinkIcon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { browser } from "wxt/browser";
+import { HotkeyKeys } from "@/components/features/shortcuts/hotkey-keys";
+import { InPageShortcutsEditor } from "@/components/features/shortcuts/in-page-shortcuts-editor";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Separator } from "@/components/ui/separator";
+import { KEYBOARD_COMMANDS, type KeyboardCommand } from "@/constants";
+
+type ShortcutEditorCommands = typeof browser.commands & {
+  // Firefox 137+ only
+  openShortcutSettings?: () => Promise<void>;
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+// Browsers store shortcuts as "Alt+Shift+F" or "⌥⇧F"
+const toHotkey = (shortcut: string) =>
+  shortcut.includes("+") ? shortcut.toLowerCase() : shortcut;
+
+const openShortcutEditor = async () => {
+  const commands = browser.commands as ShortcutEditorCommands;
+  if (commands.openShortcutSettings) {
+    await commands.openShortcutSettings();
+    return;
+  }
+
+  const isEdge = /edg\//i.test(navigator.userAgent);
+  await browser.tabs.create({
+    url: isEdge
+      ? "edge://extensions/shortcuts"
+      : "chrome://extensions/shortcuts",
+  });
+};
+
+export const KeyboardShortcutsSettings = () => {
+  const [bindings, setBindings] = useState<
+    Partial<Record<KeyboardCommand, string>>
+  >({});
+
+  useEffect(() => {
+    const loadBindings = async () => {
+      const commands = await browser.commands.getAll();
+      setBindings(
+        Object.fromEntries(
+          commands.map((command) => [command.name, command.shortcut ?? ""]),
+        ),
+      );
+    };
+
+    loadBindings();
+
+    // Shortcuts are edited in another tab, so refresh on coming back
+    window.addEventListener("focus", loadBindings);
+    return () => window.removeEventListener("focus", loadBindings);
+  }, []);
+
+  const handleOpenEditor = async () => {
+    try {
+      await openShortcutEditor();
+    } catch (error) {
+      toast.error(
+        getErrorMessage(error, "Could not open the browser's shortcut editor"),
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Keyboard Shortcuts</CardTitle>
+        <CardDescription>
+          Trigger autofill from the keyboard on any page
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          {(Object.keys(KEYBOARD_COMMANDS) as KeyboardCommand[]).map(
+            (command) => (
+              <Field key={command} orientation="horizontal">
+                <FieldContent>
+                  <FieldLabel>
+                    {KEYBOARD_COMMANDS[command].description}
+                  </FieldLabel>
+                </FieldContent>
+                {bindings[command] ? (
+                  <HotkeyKeys hotkey={toHotkey(bindings[command])} />
+                ) : (
+                  <span className="text-xs text-muted-foreground">Not set</span>
+                )}
+              </Field>
+            ),
+          )}
+          <Field>
+            <Button
+              variant="outline"
+              className="self-start"
+              onClick={handleOpenEditor}
+            >
+              <ExternalLinkIcon className="size-4" />
+              Change shortcuts
+            </Button>
+            <FieldDescription>
+              {import.meta.env.FIREFOX
+                ? "If nothing opens, go to about:addons, click the gear icon and choose Manage Extension Shortcuts"
+                : "These shortcuts are managed by your browser"}
+            </FieldDescription>
+          </Field>
+
+          <Separator />
+
+          <Field>
+            <FieldContent>
+              <FieldLabel>Preview sidebar</FieldLabel>
+              <FieldDescription>
+                Keys that work while suggestions are shown on a page. You can
+                also change them from the keyboard button in the sidebar.
+              </FieldDescription>
+            </FieldContent>
+            <InPageShortcutsEditor />
+          </Field>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,226 @@
+import { PlusIcon, Trash2Icon, X } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useProfileMutations, useProfiles } from "@/hooks/use-profiles";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const MemoryProfileSettings = () => {
+  const newProfileId = useId();
+  const ruleDomainId = useId();
+  const { profiles, settings } = useProfiles();
+  const { create, rename, remove, setSiteRule } = useProfileMutations();
+  const [newProfileName, setNewProfileName] = useState("");
+  const [ruleDomain, setRuleDomain] = useState("");
+  const [ruleProfileId, setRuleProfileId] = useState("");
+
+  const profileNames = new Map(profiles.map((p) => [p.id, p.name]));
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await create.mutateAsync(newProfileName);
+      setNewProfileName("");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to create profile"));
+    }
+  };
+
+  const handleRename = async (id: string, name: string) => {
+    if (name.trim() === profileNames.get(id)) return;
+
+    try {
+      await rename.mutateAsync({ id, name });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to rename profile"));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await remove.mutateAsync(id);
+      toast.success("Profile deleted, its memories are now shared");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to delete profile"));
+    }
+  };
+
+  const handleAddRule = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await setSiteRule.mutateAsync({
+        domain: ruleDomain,
+        profileId: ruleProfileId,
+      });
+      setRuleDomain("");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to add site rule"));
+    }
+  };
+
+  const handleRemoveRule = async (domain: string) => {
+    try {
+      await setSiteRule.mutateAsync({ domain, profileId: null });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to remove site rule"));
+    }
+  };
+
+  return (
+    <Card data-tour="profile-settings">
+      <CardHeader>
+        <CardTitle>Profiles</CardTitle>
+        <CardDescription>
+          Keep separate identities apart, e.g. work and personal. Memories
+          without a profile are shared by all of them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          {profiles.map((profile) => (
+            <div
+              key={`${profile.id}-${profile.name}`}
+              className="flex items-center gap-2"
+            >
+              <Input
+                defaultValue={profile.name}
+                aria-label={`Rename ${profile.name}`}
+                onBlur={(e) => handleRename(profile.id, e.target.value)}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleDelete(profile.id)}
+                disabled={remove.isPending}
+                aria-label={`Delete ${profile.name}`}
+              >
+                <Trash2Icon className="size-4" />
+              </Button>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate}>
+            <Field>
+              <FieldLabel htmlFor={newProfileId}>New profile</FieldLabel>
+              <div className="flex gap-2">
+                <Input
+                  id={newProfileId}
+                  value={newProfileName}
+                  placeholder="e.g. Work"
+                  onChange={(e) => setNewProfileName(e.target.value)}
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={!newProfileName.trim() || create.isPending}
+                >
+                  <PlusIcon className="size-4" />
+                  Add
+                </Button>
+              </div>
+            </Field>
+          </form>
+
+          {profiles.length > 0 && (
+            <>
+              <Separator />
+              <form onSubmit={handleAddRule}>
+                <Field>
+                  <FieldLabel htmlFor={ruleDomainId}>Site defaults</FieldLabel>
+                  <FieldDescription>
+                    Always fill with a profile on a domain and its subdomains
+                  </FieldDescription>
+                  <div className="flex gap-2">
+                    <Input
+                      id={ruleDomainId}
+                      value={ruleDomain}
+                      placeholder="example.com"
+                      onChange={(e) => setRuleDomain(e.target.value)}
+                    />
+                    <Select
+                      value={ruleProfileId}
+                      onValueChange={setRuleProfileId}
+                    >
+                      <SelectTrigger className="w-40">
+                        <SelectValue placeholder="Profile" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {profiles.map((profile) => (
+                          <SelectItem key={profile.id} value={profile.id}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      disabled={
+                        !ruleDomain.trim() ||
+                        !ruleProfileId ||
+                        setSiteRule.isPending
+                      }
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </Field>
+              </form>
+
+              {settings.siteRules.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {settings.siteRules.map((rule) => (
+                    <Badge
+                      key={rule.domain}
+                      variant="secondary"
+                      className="flex items-center gap-1"
+                    >
+                      {rule.domain} →{" "}
+                      {profileNames.get(rule.profileId) ?? "Unknown"}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-4 w-4 p-0 hover:bg-transparent"
+                        onClick={() => handleRemoveRule(rule.domain)}
+                        aria-label={`Remove rule for ${rule.domain}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
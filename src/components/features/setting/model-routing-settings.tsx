@@ -0,0 +1,284 @@
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, Trash2Icon } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Combobox } from "@/components/ui/combobox";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  useModelRouting,
+  useModelRoutingMutations,
+} from "@/hooks/use-model-routing";
+import { useProviderModels } from "@/hooks/use-models";
+import { useProviderKeyStatuses } from "@/hooks/use-provider-keys";
+import { type AIProvider, getProviderOptions } from "@/lib/providers/registry";
+import type { AITask, ModelRoute, ProviderOption } from "@/types/settings";
+
+const AI_TASK_LABELS: Record<AITask, string> = {
+  match: "Field matching",
+  categorize: "Categorizing memories",
+  rephrase: "Rephrasing memories",
+  deduplicate: "Saving captured fields",
+  parse_document: "Reading documents",
+};
+
+// Select items can't have an empty value
+const SELECTED_PROVIDER = "selected";
+const SELECTED_MODEL = "selected";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const RouteModelCombobox = ({
+  route,
+  onChange,
+}: {
+  route: ModelRoute;
+  onChange: (route: ModelRoute) => void;
+}) => {
+  const { data: models, isLoading } = useProviderModels(route.provider);
+
+  return (
+    <Combobox
+      value={route.model ?? SELECTED_MODEL}
+      onValueChange={(model) =>
+        onChange({
+          provider: route.provider,
+          model: model === SELECTED_MODEL ? undefined : model,
+        })
+      }
+      options={[
+        { value: SELECTED_MODEL, label: "Provider's selected model" },
+        ...(models ?? []).map((model) => ({
+          value: model.id,
+          label: model.name,
+        })),
+      ]}
+      placeholder={isLoading ? "Loading models..." : "Select model..."}
+      searchPlaceholder="Search models..."
+      emptyText="No models found."
+    />
+  );
+};
+
+const RouteSelector = ({
+  route,
+  providerOptions,
+  label,
+  allowSelectedProvider,
+  onChange,
+}: {
+  route?: ModelRoute;
+  providerOptions: ProviderOption[];
+  label: string;
+  allowSelectedProvider?: boolean;
+  onChange: (route?: ModelRoute) => void;
+}) => (
+  <div className="grid flex-1 grid-cols-2 gap-2">
+    <Select
+      value={route?.provider ?? SELECTED_PROVIDER}
+      onValueChange={(provider) =>
+        onChange(
+          provider === SELECTED_PROVIDER
+            ? undefined
+            : { provider: provider as AIProvider },
+        )
+      }
+    >
+      <SelectTrigger aria-label={`${label} provider`}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {allowSelectedProvider && (
+          <SelectItem value={SELECTED_PROVIDER}>Current provider</SelectItem>
+        )}
+        {providerOptions.map((option) => (
+          <SelectItem
+            key={option.value}
+            value={option.value}
+            disabled={!option.available}
+          >
+            {option.available ? option.label : `${option.label} (no key)`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    {route ? (
+      <RouteModelCombobox route={route} onChange={onChange} />
+    ) : (
+      <Combobox
+        value={SELECTED_MODEL}
+        options={[{ value: SELECTED_MODEL, label: "Current model" }]}
+        disabled
+      />
+    )}
+  </div>
+);
+
+export const ModelRoutingSettings = () => {
+  const { taskRoutes, fallbackChain } = useModelRouting();
+  const { setRoute, setChain } = useModelRoutingMutations();
+  const { data: keyStatuses } = useProviderKeyStatuses();
+  const [providerOptions, setProviderOptions] = useState<ProviderOption[]>([]);
+
+  // biome-ignore lint/correctness/useExhaustiveDependencies: need to run when keyStatuses change
+  useEffect(() => {
+    getProviderOptions().then(setProviderOptions);
+  }, [keyStatuses]);
+
+  const handleRouteChange = async (task: AITask, route?: ModelRoute) => {
+    try {
+      await setRoute.mutateAsync({ task, route });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update routing"));
+    }
+  };
+
+  const handleChainChange = async (chain: ModelRoute[]) => {
+    try {
+      await setChain.mutateAsync(chain);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update fallback chain"));
+    }
+  };
+
+  const moveFallback = (index: number, offset: number) => {
+    const chain = [...fallbackChain];
+    const [route] = chain.splice(index, 1);
+    chain.splice(index + offset, 0, route);
+    handleChainChange(chain);
+  };
+
+  const nextFallback = providerOptions.find(
+    (option) =>
+      option.available &&
+      !fallbackChain.some((route) => route.provider === option.value),
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Model Routing</CardTitle>
+        <CardDescription>
+          Send each operation to its own provider and model, e.g. a fast, cheap
+          model for categorizing and a stronger one for matching. Fallbacks are
+          tried in order when a provider fails, before rule-based matching.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          {(Object.keys(AI_TASK_LABELS) as AITask[]).map((task) => (
+            <Field key={task} orientation="horizontal">
+              <FieldLabel className="w-48 shrink-0">
+                {AI_TASK_LABELS[task]}
+              </FieldLabel>
+              <RouteSelector
+                route={taskRoutes[task]}
+                providerOptions={providerOptions}
+                label={AI_TASK_LABELS[task]}
+                allowSelectedProvider
+                onChange={(route) => handleRouteChange(task, route)}
+              />
+            </Field>
+          ))}
+
+          <Separator />
+
+          <Field>
+            <FieldLabel>Fallback providers</FieldLabel>
+            <FieldDescription>
+              {fallbackChain.length === 0
+                ? "Without fallbacks, a failed request goes straight to rule-based matching"
+                : "Tried top to bottom after the routed provider fails"}
+            </FieldDescription>
+            {fallbackChain.map((route, index) => (
+              <div
+                key={`${route.provider}-${route.model ?? ""}-${index}`}
+                className="flex items-center gap-2"
+              >
+                <span className="w-6 text-sm text-muted-foreground">
+                  {index + 1}.
+                </span>
+                <RouteSelector
+                  route={route}
+                  providerOptions={providerOptions}
+                  label={`Fallback ${index + 1}`}
+                  onChange={(updated) =>
+                    updated &&
+                    handleChainChange(
+                      fallbackChain.map((r, i) => (i === index ? updated : r)),
+                    )
+                  }
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveFallback(index, -1)}
+                  disabled={index === 0}
+                  aria-label="Move up"
+                >
+                  <ArrowUpIcon className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => moveFallback(index, 1)}
+                  disabled={index === fallbackChain.length - 1}
+                  aria-label="Move down"
+                >
+                  <ArrowDownIcon className="size-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() =>
+                    handleChainChange(
+                      fallbackChain.filter((_, i) => i !== index),
+                    )
+                  }
+                  aria-label={`Remove fallback ${index + 1}`}
+                >
+                  <Trash2Icon className="size-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              className="self-start"
+              disabled={!nextFallback || setChain.isPending}
+              onClick={() =>
+                nextFallback &&
+                handleChainChange([
+                  ...fallbackChain,
+                  { provider: nextFallback.value },
+                ])
+              }
+            >
+              <PlusIcon className="size-4" />
+              Add fallback
+            </Button>
+          </Field>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,6 +6,7 @@ import {
   ExternalLinkIcon,
   FileTextIcon,
   KeyIcon,
+  KeyRoundIcon,
   LinkedinIcon,
   SparklesIcon,
   UserIcon,
@@ -14,6 +15,7 @@ import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { z } from "zod";
 import { DocumentImportDialog } from "@/components/features/document/document-import-dialog";
+import { AutofillImportDialog } from "@/components/features/import/autofill-import-dialog";
 import { ProfileImportDialog } from "@/components/features/profile/profile-import-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -85,6 +87,7 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
   const [phoneDisplay, setPhoneDisplay] = useState("");
   const [showProfileImport, setShowProfileImport] = useState(false);
   const [showDocumentImport, setShowDocumentImport] = useState(false);
+  const [showAutofillImport, setShowAutofillImport] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<AIProvider | null>(
     null,
   );
@@ -249,6 +252,11 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
     await handleCompleteOnboarding();
   };
 
+  const handleAutofillSuccess = async () => {
+    setShowAutofillImport(false);
+    await handleCompleteOnboarding();
+  };
+
   const getProviderKeyHint = (config: ProviderConfig) => {
     return `Get your API key from ${config.name}`;
   };
@@ -293,7 +301,14 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
 
   return (
     <>
-      <Dialog open={open && !showProfileImport && !showDocumentImport}>
+      <Dialog
+        open={
+          open &&
+          !showProfileImport &&
+          !showDocumentImport &&
+          !showAutofillImport
+        }
+      >
         <DialogContent
           showCloseButton={false}
           className="sm:max-w-2xl overflow-y-auto max-h-[90vh]"
@@ -744,12 +759,29 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
                   Import More Information
                 </DialogTitle>
                 <DialogDescription>
-                  Quickly add more details by importing from LinkedIn or a
-                  document like your resume.
+                  Quickly add more details by importing from LinkedIn, a
+                  document like your resume, or your browser's saved details.
                 </DialogDescription>
               </DialogHeader>
 
               <div className="space-y-4 py-4">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={() => setShowAutofillImport(true)}
+                  className="flex w-full items-center gap-4 p-4 py-6 rounded-lg border hover:border-primary hover:bg-primary/5 text-left transition-colors"
+                >
+                  <KeyRoundIcon className="size-4 text-primary" />
+                  <div className="flex-1">
+                    <p className="font-medium">
+                      Import from Browser or Password Manager
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Chrome, Edge, Bitwarden or 1Password exports
+                    </p>
+                  </div>
+                </Button>
+
                 {keyValidated ? (
                   <div className="grid gap-3">
                     <Button
@@ -784,8 +816,8 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
                   </div>
                 ) : (
                   <p className="text-sm text-amber-600 text-center">
-                    Import features require an AI provider. You can set it up
-                    later in Settings.
+                    LinkedIn and document imports require an AI provider. You
+                    can set it up later in Settings.
                   </p>
                 )}
               </div>
@@ -815,6 +847,12 @@ export function OnboardingDialog({ open }: OnboardingDialogProps) {
         onOpenChange={setShowDocumentImport}
         onSuccess={handleDocumentSuccess}
       />
+
+      <AutofillImportDialog
+        open={showAutofillImport}
+        onOpenChange={setShowAutofillImport}
+        onSuccess={handleAutofillSuccess}
+      />
     </>
   );
 }
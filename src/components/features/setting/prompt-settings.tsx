@@ -0,0 +1,367 @@
+import { EyeIcon, RotateCcwIcon, X } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  usePromptSettings,
+  usePromptSettingsMutations,
+} from "@/hooks/use-prompt-settings";
+import {
+  DEFAULT_SYSTEM_PROMPTS,
+  type PromptTask,
+  resolveCustomInstructions,
+  withCustomInstructions,
+} from "@/lib/ai/prompts";
+import type { WebsiteType } from "@/types/context";
+import type { PromptSettings as PromptSettingsValue } from "@/types/settings";
+
+const WEBSITE_TYPE_LABELS: Record<WebsiteType, string> = {
+  job_portal: "Job portals",
+  social: "Social networks",
+  "e-commerce": "Online shops",
+  blog: "Blogs",
+  forum: "Forums",
+  news: "News sites",
+  corporate: "Company sites",
+  portfolio: "Portfolios",
+  dating: "Dating sites",
+  rental: "Rentals",
+  survey: "Surveys",
+  unknown: "Other sites",
+};
+
+const PROMPT_TASK_LABELS: Record<PromptTask, string> = {
+  matching: "Field matching",
+  "context-rephrase": "Rephrasing for a field",
+  categorization: "Categorizing memories",
+  rephrase: "Rephrasing memories",
+};
+
+// Only matching and rephrasing for a field know which page they run on
+const PAGE_AWARE_TASKS: PromptTask[] = ["matching", "context-rephrase"];
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const PromptPreviewDialog = ({
+  settings,
+}: {
+  settings: PromptSettingsValue;
+}) => {
+  const domainId = useId();
+  const [task, setTask] = useState<PromptTask>("matching");
+  const [websiteType, setWebsiteType] = useState<WebsiteType>("job_portal");
+  const [domain, setDomain] = useState("");
+
+  const isPageAware = PAGE_AWARE_TASKS.includes(task);
+  const prompt = withCustomInstructions(
+    DEFAULT_SYSTEM_PROMPTS[task],
+    resolveCustomInstructions(
+      settings,
+      isPageAware
+        ? {
+            pageUrl: domain.trim() ? `https://${domain.trim()}` : undefined,
+            websiteType,
+          }
+        : undefined,
+    ),
+  );
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <EyeIcon className="size-4" />
+          Preview prompt
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Prompt preview</DialogTitle>
+          <DialogDescription>
+            The system prompt sent to the model, including your instructions
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={task}
+            onValueChange={(value) => setTask(value as PromptTask)}
+          >
+            <SelectTrigger className="w-52" aria-label="Task">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(PROMPT_TASK_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {isPageAware && (
+            <>
+              <Select
+                value={websiteType}
+                onValueChange={(value) => setWebsiteType(value as WebsiteType)}
+              >
+                <SelectTrigger className="w-40" aria-label="Website type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(WEBSITE_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                id={domainId}
+                className="w-48"
+                value={domain}
+                placeholder="Domain, e.g. example.com"
+                aria-label="Domain"
+                onChange={(e) => setDomain(e.target.value)}
+              />
+            </>
+          )}
+        </div>
+        <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+          {prompt}
+        </pre>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export const PromptSettings = () => {
+  const globalId = useId();
+  const websiteTypeId = useId();
+  const ruleDomainId = useId();
+  const ruleInstructionsId = useId();
+  const { settings } = usePromptSettings();
+  const { setGlobal, setWebsiteType, setDomainRule, reset } =
+    usePromptSettingsMutations();
+  const [selectedType, setSelectedType] = useState<WebsiteType>("job_portal");
+  const [ruleDomain, setRuleDomain] = useState("");
+  const [ruleInstructions, setRuleInstructions] = useState("");
+
+  const typeInstructions = settings.websiteTypeInstructions[selectedType] ?? "";
+
+  const handleSaveGlobal = async (instructions: string) => {
+    if (instructions.trim() === settings.globalInstructions) return;
+
+    try {
+      await setGlobal.mutateAsync(instructions);
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save instructions"));
+    }
+  };
+
+  const handleSaveWebsiteType = async (instructions: string) => {
+    if (instructions.trim() === typeInstructions) return;
+
+    try {
+      await setWebsiteType.mutateAsync({
+        websiteType: selectedType,
+        instructions,
+      });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save instructions"));
+    }
+  };
+
+  const handleAddRule = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await setDomainRule.mutateAsync({
+        domain: ruleDomain,
+        instructions: ruleInstructions,
+      });
+      setRuleDomain("");
+      setRuleInstructions("");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to add domain rule"));
+    }
+  };
+
+  const handleRemoveRule = async (domain: string) => {
+    try {
+      await setDomainRule.mutateAsync({ domain, instructions: "" });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to remove domain rule"));
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await reset.mutateAsync();
+      toast.success("Prompts reset to default");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to reset prompts"));
+    }
+  };
+
+  return (
+    <Card data-tour="prompt-settings">
+      <CardHeader>
+        <CardTitle>Custom Instructions</CardTitle>
+        <CardDescription>
+          Tell the AI how you like forms filled, e.g. "always use my work email
+          on job portals". Applies to your own keys and cloud models.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          <Field>
+            <FieldLabel htmlFor={globalId}>All sites</FieldLabel>
+            <Textarea
+              key={settings.globalInstructions}
+              id={globalId}
+              defaultValue={settings.globalInstructions}
+              placeholder="e.g. Prefer short answers and never fill optional fields"
+              onBlur={(e) => handleSaveGlobal(e.target.value)}
+            />
+          </Field>
+
+          <Field>
+            <FieldLabel htmlFor={websiteTypeId}>By website type</FieldLabel>
+            <FieldDescription>
+              Added on top of the instructions for all sites
+            </FieldDescription>
+            <Select
+              value={selectedType}
+              onValueChange={(value) => setSelectedType(value as WebsiteType)}
+            >
+              <SelectTrigger className="w-48" aria-label="Website type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(WEBSITE_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              key={`${selectedType}-${typeInstructions}`}
+              id={websiteTypeId}
+              defaultValue={typeInstructions}
+              placeholder={`Instructions for ${WEBSITE_TYPE_LABELS[selectedType].toLowerCase()}`}
+              onBlur={(e) => handleSaveWebsiteType(e.target.value)}
+            />
+          </Field>
+
+          <Separator />
+
+          <form onSubmit={handleAddRule}>
+            <Field>
+              <FieldLabel htmlFor={ruleDomainId}>Domain overrides</FieldLabel>
+              <FieldDescription>
+                Replace the website type instructions on a domain and its
+                subdomains
+              </FieldDescription>
+              <Input
+                id={ruleDomainId}
+                value={ruleDomain}
+                placeholder="example.com"
+                onChange={(e) => setRuleDomain(e.target.value)}
+              />
+              <Textarea
+                id={ruleInstructionsId}
+                value={ruleInstructions}
+                placeholder="Instructions for this domain"
+                aria-label="Domain instructions"
+                onChange={(e) => setRuleInstructions(e.target.value)}
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                className="self-start"
+                disabled={
+                  !ruleDomain.trim() ||
+                  !ruleInstructions.trim() ||
+                  setDomainRule.isPending
+                }
+              >
+                Add
+              </Button>
+            </Field>
+          </form>
+
+          {settings.domainRules.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {settings.domainRules.map((rule) => (
+                <Badge
+                  key={rule.domain}
+                  variant="secondary"
+                  className="flex items-center gap-1"
+                  title={rule.instructions}
+                >
+                  {rule.domain}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-4 w-4 p-0 hover:bg-transparent"
+                    onClick={() => handleRemoveRule(rule.domain)}
+                    aria-label={`Remove rule for ${rule.domain}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="flex gap-2">
+            <PromptPreviewDialog settings={settings} />
+            <Button
+              variant="ghost"
+              onClick={handleReset}
+              disabled={reset.isPending}
+            >
+              <RotateCcwIcon className="size-4" />
+              Reset to default
+            </Button>
+          </div>
+        </FieldGroup>
+      </CardContent>
+    </Card>
+  );
+};
@@ -13,7 +13,11 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Field, FieldDescription, FieldLabel } from "@/components/ui/field";
 import { Input } from "@/components/ui/input";
-import type { ProviderConfig } from "@/lib/providers/registry";
+import { requestEndpointPermission } from "@/lib/providers/host-permissions";
+import {
+  OLLAMA_DEFAULT_BASE_URL,
+  type ProviderConfig,
+} from "@/lib/providers/registry";
 import { getKeyValidationService } from "@/lib/security/key-validation-service";
 import { OllamaCorsDialog } from "./ollama-cors-dialog";
 
@@ -49,15 +53,23 @@ export const ProviderKeyInput = ({
   >("idle");
 
   if (!config.requiresApiKey && providerId === "ollama") {
+    const baseURL = value.trim();
+
     const handleTestConnection = async () => {
       setIsTestingConnection(true);
       setConnectionStatus("idle");
 
       try {
+        // Hosts other than the default need access granted first
+        if (baseURL && !(await requestEndpointPermission(baseURL))) {
+          setConnectionStatus("error");
+          return;
+        }
+
         const keyValidationService = getKeyValidationService();
         const isConnected = await keyValidationService.validateKey(
           "ollama",
-          "",
+          baseURL,
         );
 
         if (isConnected) {
@@ -85,6 +97,12 @@ export const ProviderKeyInput = ({
           )}
         </div>
         <div className="flex gap-2">
+          <Input
+            id={inputId}
+            value={value}
+            placeholder={config.keyPlaceholder}
+            onChange={(e) => onChange(e.target.value)}
+          />
           <Button
             onClick={handleTestConnection}
             disabled={isTestingConnection}
@@ -95,7 +113,7 @@ export const ProviderKeyInput = ({
                   ? "destructive"
                   : "outline"
             }
-            className="flex-1"
+            className="shrink-0"
           >
             {isTestingConnection ? (
               "Testing Connection..."
@@ -128,7 +146,8 @@ export const ProviderKeyInput = ({
         <FieldDescription>
           {connectionStatus === "error" ? (
             <span className="text-destructive">
-              Make sure Ollama is running on http://localhost:11434
+              Make sure Ollama is running on{" "}
+              {baseURL || OLLAMA_DEFAULT_BASE_URL}
             </span>
           ) : (
             <Alert variant="destructive">
@@ -0,0 +1,281 @@
+import { CopyIcon, KeyRoundIcon, ShieldCheckIcon } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  useSyncEncryption,
+  useSyncEncryptionMutations,
+} from "@/hooks/use-sync-encryption";
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const SyncEncryptionSettings = () => {
+  const passphraseId = useId();
+  const confirmPassphraseId = useId();
+  const recoveryKeyId = useId();
+
+  const { status } = useSyncEncryption();
+  const { enable, unlock, recover } = useSyncEncryptionMutations();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [recoveryKeyInput, setRecoveryKeyInput] = useState("");
+  const [recovering, setRecovering] = useState(false);
+  const [newRecoveryKey, setNewRecoveryKey] = useState<string | null>(null);
+
+  const needsConfirmation = status === "disabled" || recovering;
+  const passphraseMismatch =
+    needsConfirmation &&
+    confirmPassphrase.length > 0 &&
+    passphrase !== confirmPassphrase;
+
+  const resetForm = () => {
+    setPassphrase("");
+    setConfirmPassphrase("");
+    setRecoveryKeyInput("");
+  };
+
+  const handleEnable = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setNewRecoveryKey(await enable.mutateAsync(passphrase));
+      resetForm();
+      toast.success("Sync is now end-to-end encrypted");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to enable sync encryption"));
+    }
+  };
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await unlock.mutateAsync(passphrase);
+      resetForm();
+      toast.success("Sync unlocked on this device");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to unlock sync"));
+    }
+  };
+
+  const handleRecover = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await recover.mutateAsync({
+        recoveryKey: recoveryKeyInput,
+        passphrase,
+      });
+      resetForm();
+      setRecovering(false);
+      toast.success("Sync passphrase reset");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to reset passphrase"));
+    }
+  };
+
+  const handleCopyRecoveryKey = async () => {
+    if (!newRecoveryKey) return;
+    await navigator.clipboard.writeText(newRecoveryKey);
+    toast.success("Recovery key copied");
+  };
+
+  const passphraseFields = (
+    <>
+      <Field>
+        <FieldLabel htmlFor={passphraseId}>
+          {recovering ? "New sync passphrase" : "Sync passphrase"}
+        </FieldLabel>
+        <Input
+          id={passphraseId}
+          type="password"
+          autoComplete={needsConfirmation ? "new-password" : "current-password"}
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        {needsConfirmation && (
+          <FieldDescription>At least 8 characters</FieldDescription>
+        )}
+      </Field>
+      {needsConfirmation && (
+        <Field data-invalid={passphraseMismatch}>
+          <FieldLabel htmlFor={confirmPassphraseId}>
+            Confirm passphrase
+          </FieldLabel>
+          <Input
+            id={confirmPassphraseId}
+            type="password"
+            autoComplete="new-password"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+          />
+          {passphraseMismatch && (
+            <FieldDescription>Passphrases do not match</FieldDescription>
+          )}
+        </Field>
+      )}
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          End-to-End Encryption
+          {status === "locked" && <Badge variant="secondary">Locked</Badge>}
+          {status === "unlocked" && <Badge variant="outline">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Encrypt memories before they are synced, so only your devices can read
+          them
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {newRecoveryKey && (
+          <Alert className="mb-4">
+            <KeyRoundIcon className="size-4" />
+            <AlertDescription className="flex flex-col gap-3">
+              <span>
+                Save this recovery key somewhere safe. It is the only way back
+                in if you forget your passphrase, and it will not be shown
+                again.
+              </span>
+              <code className="rounded-md bg-muted px-2 py-1 font-mono text-sm text-foreground">
+                {newRecoveryKey}
+              </code>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleCopyRecoveryKey}
+                >
+                  <CopyIcon className="size-4" />
+                  Copy
+                </Button>
+                <Button size="sm" onClick={() => setNewRecoveryKey(null)}>
+                  I have saved it
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {status === "disabled" && (
+          <form onSubmit={handleEnable}>
+            <FieldGroup>
+              <Alert>
+                <AlertDescription>
+                  Every device signed in to this account will need the
+                  passphrase before it can sync again. Memories already in the
+                  cloud are re-uploaded encrypted.
+                </AlertDescription>
+              </Alert>
+              {passphraseFields}
+              <Button
+                type="submit"
+                disabled={
+                  !passphrase ||
+                  passphrase !== confirmPassphrase ||
+                  enable.isPending
+                }
+              >
+                {enable.isPending
+                  ? "Encrypting memories..."
+                  : "Enable encryption"}
+              </Button>
+            </FieldGroup>
+          </form>
+        )}
+
+        {status === "locked" && !recovering && (
+          <form onSubmit={handleUnlock}>
+            <FieldGroup>
+              <FieldDescription>
+                Sync is end-to-end encrypted on this account. Enter your sync
+                passphrase to sync this device.
+              </FieldDescription>
+              {passphraseFields}
+              <Button type="submit" disabled={!passphrase || unlock.isPending}>
+                Unlock sync
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                onClick={() => {
+                  resetForm();
+                  setRecovering(true);
+                }}
+              >
+                Forgot passphrase?
+              </Button>
+            </FieldGroup>
+          </form>
+        )}
+
+        {status === "locked" && recovering && (
+          <form onSubmit={handleRecover}>
+            <FieldGroup>
+              <Field>
+                <FieldLabel htmlFor={recoveryKeyId}>Recovery key</FieldLabel>
+                <Input
+                  id={recoveryKeyId}
+                  autoComplete="off"
+                  spellCheck={false}
+                  placeholder="XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX-XXXX"
+                  value={recoveryKeyInput}
+                  onChange={(e) => setRecoveryKeyInput(e.target.value)}
+                />
+              </Field>
+              {passphraseFields}
+              <Button
+                type="submit"
+                disabled={
+                  !recoveryKeyInput ||
+                  !passphrase ||
+                  passphrase !== confirmPassphrase ||
+                  recover.isPending
+                }
+              >
+                Reset passphrase
+              </Button>
+              <Button
+                type="button"
+                variant="link"
+                onClick={() => {
+                  resetForm();
+                  setRecovering(false);
+                }}
+              >
+                Back to unlock
+              </Button>
+            </FieldGroup>
+          </form>
+        )}
+
+        {status === "unlocked" && !newRecoveryKey && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldCheckIcon className="size-4 text-primary" />
+            Memories are encrypted on this device before they are synced
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,308 @@
+import { FolderIcon } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { SyncConflictDialog } from "@/components/features/sync/sync-conflict-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useSyncBackend,
+  useSyncBackendMutations,
+} from "@/hooks/use-sync-backend";
+import {
+  useConflictResolution,
+  useSyncConflictMutations,
+  useSyncConflicts,
+} from "@/hooks/use-sync-conflicts";
+import { requestEndpointPermission } from "@/lib/providers/host-permissions";
+import {
+  isFolderPickerSupported,
+  pickSyncFolder,
+  requestSyncFolderAccess,
+} from "@/lib/sync/backends/folder-backend";
+import type { SyncState } from "@/types/memory";
+import type { SyncBackendType } from "@/types/sync";
+
+const SYNC_BACKEND_OPTIONS: Array<{
+  value: SyncBackendType;
+  label: string;
+}> = [
+  { value: "supabase", label: "Superfill cloud" },
+  { value: "folder", label: "Local folder" },
+  { value: "rest", label: "Self-hosted server" },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+const CONFLICT_RESOLUTION_OPTIONS: Array<{
+  value: SyncState["conflictResolution"];
+  label: string;
+}> = [
+  { value: "newest", label: "Newest wins" },
+  { value: "local", label: "This device wins" },
+  { value: "remote", label: "Cloud wins" },
+  { value: "manual", label: "Ask me" },
+];
+
+export const SyncSettings = () => {
+  const backendId = useId();
+  const serverUrlId = useId();
+  const serverTokenId = useId();
+  const conflictResolutionId = useId();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { backend } = useSyncBackend();
+  const { setBackend } = useSyncBackendMutations();
+  const [backendType, setBackendType] = useState<SyncBackendType>(backend.type);
+  const [serverUrl, setServerUrl] = useState("");
+  const [serverToken, setServerToken] = useState("");
+  const conflictResolution = useConflictResolution();
+  const { conflicts } = useSyncConflicts();
+  const { setConflictResolution } = useSyncConflictMutations();
+
+  useEffect(() => {
+    setBackendType(backend.type);
+    setServerUrl(backend.type === "rest" ? backend.url : "");
+  }, [backend]);
+
+  const handleBackendTypeChange = async (value: string) => {
+    const type = value as SyncBackendType;
+    setBackendType(type);
+
+    // The other backends need a folder or server before they can be saved
+    if (type !== "supabase" || backend.type === "supabase") return;
+
+    try {
+      await setBackend.mutateAsync({ type: "supabase" });
+      toast.success("Syncing with Superfill cloud");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to change sync backend"));
+    }
+  };
+
+  const handlePickFolder = async () => {
+    try {
+      const folderName = await pickSyncFolder();
+      await setBackend.mutateAsync({ type: "folder", folderName });
+      toast.success(`Syncing through ${folderName}`);
+    } catch (error) {
+      // Closing the picker is not an error
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      toast.error(getErrorMessage(error, "Failed to choose sync folder"));
+    }
+  };
+
+  const handleAllowFolderAccess = async () => {
+    try {
+      if (await requestSyncFolderAccess()) {
+        toast.success("Folder access allowed");
+      } else {
+        toast.error("Folder access was not allowed");
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to allow folder access"));
+    }
+  };
+
+  const handleSaveServer = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const url = serverUrl.trim();
+    try {
+      new URL(url);
+    } catch {
+      toast.error("Enter a valid server URL");
+      return;
+    }
+
+    try {
+      if (!(await requestEndpointPermission(url))) {
+        toast.error("Access to the server was not allowed");
+        return;
+      }
+
+      await setBackend.mutateAsync({
+        type: "rest",
+        url,
+        token: serverToken.trim() || undefined,
+      });
+      setServerToken("");
+      toast.success("Syncing with your server");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save sync server"));
+    }
+  };
+
+  const handleConflictResolutionChange = async (value: string) => {
+    try {
+      await setConflictResolution.mutateAsync(
+        value as SyncState["conflictResolution"],
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to update conflict handling",
+      );
+    }
+  };
+
+  return (
+    <Card data-tour="sync-settings">
+      <CardHeader>
+        <CardTitle>Sync</CardTitle>
+        <CardDescription>
+          Choose where memories sync and what happens when a memory changes on
+          more than one device
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FieldGroup>
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor={backendId}>Sync with</FieldLabel>
+              <FieldDescription>
+                Switching starts a fresh sync with the new location
+              </FieldDescription>
+            </FieldContent>
+            <Select value={backendType} onValueChange={handleBackendTypeChange}>
+              <SelectTrigger id={backendId} className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SYNC_BACKEND_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+          {backendType === "folder" && (
+            <Field>
+              <FieldDescription>
+                {isFolderPickerSupported()
+                  ? "Memories are kept in superfill-sync.json inside a folder you choose, e.g. one a file sync tool shares between your machines"
+                  : "This browser cannot sync through a local folder"}
+              </FieldDescription>
+              {backend.type === "folder" && (
+                <p className="flex items-center gap-2 text-sm">
+                  <FolderIcon className="size-4 text-muted-foreground" />
+                  {backend.folderName}
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handlePickFolder}
+                  disabled={!isFolderPickerSupported() || setBackend.isPending}
+                >
+                  {backend.type === "folder"
+                    ? "Choose another folder"
+                    : "Choose folder"}
+                </Button>
+                {backend.type === "folder" && (
+                  <Button variant="ghost" onClick={handleAllowFolderAccess}>
+                    Allow access
+                  </Button>
+                )}
+              </div>
+            </Field>
+          )}
+          {backendType === "rest" && (
+            <form onSubmit={handleSaveServer}>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor={serverUrlId}>Server URL</FieldLabel>
+                  <Input
+                    id={serverUrlId}
+                    type="url"
+                    placeholder="https://sync.example.com/api"
+                    value={serverUrl}
+                    onChange={(e) => setServerUrl(e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor={serverTokenId}>Access token</FieldLabel>
+                  <Input
+                    id={serverTokenId}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={
+                      backend.type === "rest" && backend.token
+                        ? "Saved, enter a new one to replace it"
+                        : "Optional"
+                    }
+                    value={serverToken}
+                    onChange={(e) => setServerToken(e.target.value)}
+                  />
+                  <FieldDescription>
+                    Sent as a bearer token with every request
+                  </FieldDescription>
+                </Field>
+                <Button
+                  type="submit"
+                  disabled={!serverUrl.trim() || setBackend.isPending}
+                >
+                  Save server
+                </Button>
+              </FieldGroup>
+            </form>
+          )}
+          <Field orientation="horizontal">
+            <FieldContent>
+              <FieldLabel htmlFor={conflictResolutionId}>
+                Conflict handling
+              </FieldLabel>
+              <FieldDescription>
+                "Ask me" keeps both versions until you pick one
+              </FieldDescription>
+            </FieldContent>
+            <Select
+              value={conflictResolution}
+              onValueChange={handleConflictResolutionChange}
+            >
+              <SelectTrigger id={conflictResolutionId} className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONFLICT_RESOLUTION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+          {conflicts.length > 0 && (
+            <Button variant="outline" onClick={() => setDialogOpen(true)}>
+              Review {conflicts.length} sync{" "}
+              {conflicts.length === 1 ? "conflict" : "conflicts"}
+            </Button>
+          )}
+        </FieldGroup>
+      </CardContent>
+      <SyncConflictDialog open={dialogOpen} onOpenChange={setDialogOpen} />
+    </Card>
+  );
+};
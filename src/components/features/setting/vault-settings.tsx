@@ -0,0 +1,223 @@
+import { LockIcon, LockOpenIcon } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { VaultUnlockCard } from "@/components/features/vault/vault-unlock-card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Field,
+  FieldContent,
+  FieldDescription,
+  FieldGroup,
+  FieldLabel,
+} from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useVault, useVaultMutations } from "@/hooks/use-vault";
+
+const AUTO_LOCK_OPTIONS = [
+  { value: "5", label: "After 5 minutes" },
+  { value: "15", label: "After 15 minutes" },
+  { value: "30", label: "After 30 minutes" },
+  { value: "60", label: "After 1 hour" },
+  { value: "0", label: "Never" },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+export const VaultSettings = () => {
+  const passphraseId = useId();
+  const confirmPassphraseId = useId();
+  const disablePassphraseId = useId();
+  const autoLockId = useId();
+
+  const { status, autoLockMinutes } = useVault();
+  const { enable, lock, disable, setAutoLockMinutes } = useVaultMutations();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [disablePassphrase, setDisablePassphrase] = useState("");
+
+  const passphraseMismatch =
+    confirmPassphrase.length > 0 && passphrase !== confirmPassphrase;
+
+  const handleEnable = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await enable.mutateAsync(passphrase);
+      setPassphrase("");
+      setConfirmPassphrase("");
+      toast.success("Memory vault enabled");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to enable vault"));
+    }
+  };
+
+  const handleDisable = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await disable.mutateAsync(disablePassphrase);
+      setDisablePassphrase("");
+      toast.success("Memory vault disabled");
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to disable vault"));
+    }
+  };
+
+  const handleAutoLockChange = async (value: string) => {
+    try {
+      await setAutoLockMinutes.mutateAsync(Number(value));
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to update auto-lock"));
+    }
+  };
+
+  return (
+    <Card data-tour="vault-settings">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Memory Vault
+          {status === "locked" && <Badge variant="secondary">Locked</Badge>}
+          {status === "unlocked" && <Badge variant="outline">Unlocked</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Encrypt memory questions and answers on this device with a passphrase
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {status === "disabled" && (
+          <form onSubmit={handleEnable}>
+            <FieldGroup>
+              <Alert>
+                <AlertDescription>
+                  Your passphrase is never stored. If you forget it, encrypted
+                  memories cannot be recovered.
+                </AlertDescription>
+              </Alert>
+              <Field>
+                <FieldLabel htmlFor={passphraseId}>Passphrase</FieldLabel>
+                <Input
+                  id={passphraseId}
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                />
+                <FieldDescription>At least 8 characters</FieldDescription>
+              </Field>
+              <Field data-invalid={passphraseMismatch}>
+                <FieldLabel htmlFor={confirmPassphraseId}>
+                  Confirm passphrase
+                </FieldLabel>
+                <Input
+                  id={confirmPassphraseId}
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                />
+                {passphraseMismatch && (
+                  <FieldDescription>Passphrases do not match</FieldDescription>
+                )}
+              </Field>
+              <Button
+                type="submit"
+                disabled={
+                  !passphrase ||
+                  passphrase !== confirmPassphrase ||
+                  enable.isPending
+                }
+              >
+                {enable.isPending ? "Encrypting memories..." : "Enable vault"}
+              </Button>
+            </FieldGroup>
+          </form>
+        )}
+
+        {status === "locked" && <VaultUnlockCard className="shadow-none" />}
+
+        {status === "unlocked" && (
+          <FieldGroup>
+            <Field orientation="horizontal">
+              <FieldContent>
+                <FieldLabel htmlFor={autoLockId}>Auto-lock</FieldLabel>
+                <FieldDescription>
+                  Lock the vault when it has not been used for a while
+                </FieldDescription>
+              </FieldContent>
+              <Select
+                value={String(autoLockMinutes ?? 15)}
+                onValueChange={handleAutoLockChange}
+              >
+                <SelectTrigger id={autoLockId} className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <Button
+              variant="outline"
+              onClick={() => lock.mutate()}
+              disabled={lock.isPending}
+            >
+              <LockIcon className="size-4" />
+              Lock now
+            </Button>
+            <Separator />
+            <form onSubmit={handleDisable}>
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor={disablePassphraseId}>
+                    Disable vault
+                  </FieldLabel>
+                  <Input
+                    id={disablePassphraseId}
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder="Current passphrase"
+                    value={disablePassphrase}
+                    onChange={(e) => setDisablePassphrase(e.target.value)}
+                  />
+                  <FieldDescription>
+                    Memories will be stored unencrypted again
+                  </FieldDescription>
+                </Field>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  disabled={!disablePassphrase || disable.isPending}
+                >
+                  <LockOpenIcon className="size-4" />
+                  {disable.isPending ? "Decrypting memories..." : "Disable"}
+                </Button>
+              </FieldGroup>
+            </form>
+          </FieldGroup>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
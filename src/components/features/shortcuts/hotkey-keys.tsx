@@ -0,0 +1,16 @@
+import { Kbd, KbdGroup } from "@/components/ui/kbd";
+import { formatHotkey } from "@/lib/hotkeys";
+
+export const HotkeyKeys = ({
+  hotkey,
+  className,
+}: {
+  hotkey: string;
+  className?: string;
+}) => (
+  <KbdGroup className={className}>
+    {formatHotkey(hotkey).map((key) => (
+      <Kbd key={key}>{key}</Kbd>
+    ))}
+  </KbdGroup>
+);
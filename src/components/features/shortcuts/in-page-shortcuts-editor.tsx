@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  useInPageShortcuts,
+  useInPageShortcutsMutations,
+} from "@/hooks/use-in-page-shortcuts";
+import { IN_PAGE_SHORTCUT_LABELS, toHotkey } from "@/lib/hotkeys";
+import type { InPageShortcutAction } from "@/types/settings";
+import { HotkeyKeys } from "./hotkey-keys";
+
+const ACTIONS = Object.keys(IN_PAGE_SHORTCUT_LABELS) as InPageShortcutAction[];
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error ? error.message : fallback;
+
+interface ShortcutRowProps {
+  label: string;
+  hotkey: string;
+  onChange: (hotkey: string) => void;
+}
+
+const ShortcutRow = ({ label, hotkey, onChange }: ShortcutRowProps) => {
+  const [recording, setRecording] = useState(false);
+
+  useEffect(() => {
+    if (!recording) return;
+
+    // Captured on window so the page never sees the keys being recorded
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const next = toHotkey(event);
+      if (!next) return;
+
+      setRecording(false);
+      onChange(next);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, onChange]);
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-sm">{label}</span>
+      <Button
+        variant="outline"
+        size="sm"
+        className="min-w-28"
+        onClick={() => setRecording((prev) => !prev)}
+        aria-label={`Change shortcut for ${label.toLowerCase()}`}
+      >
+        {recording ? "Press keys..." : <HotkeyKeys hotkey={hotkey} />}
+      </Button>
+    </div>
+  );
+};
+
+/** Rebinds the keys that work while the preview sidebar is open */
+export const InPageShortcutsEditor = () => {
+  const shortcuts = useInPageShortcuts();
+  const { updateShortcut, resetShortcuts } = useInPageShortcutsMutations();
+  // Shown inline since the content UI has no toaster
+  const [conflict, setConflict] = useState<string | null>(null);
+
+  const handleChange = async (action: InPageShortcutAction, hotkey: string) => {
+    const taken = ACTIONS.find(
+      (other) => other !== action && shortcuts[other] === hotkey,
+    );
+    setConflict(
+      taken
+        ? `That shortcut already does "${IN_PAGE_SHORTCUT_LABELS[taken]}"`
+        : null,
+    );
+    if (taken) return;
+
+    try {
+      await updateShortcut.mutateAsync({ action, hotkey });
+    } catch (error) {
+      toast.error(getErrorMessage(error, "Failed to save shortcut"));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {ACTIONS.map((action) => (
+        <ShortcutRow
+          key={action}
+          label={IN_PAGE_SHORTCUT_LABELS[action]}
+          hotkey={shortcuts[action]}
+          onChange={(hotkey) => handleChange(action, hotkey)}
+        />
+      ))}
+      {conflict && <p className="text-xs text-destructive">{conflict}</p>}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="self-start"
+        onClick={() => resetShortcuts.mutate()}
+        disabled={resetShortcuts.isPending}
+      >
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle2Icon } from "lucide-react";
+import { useEffect, useId, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from "@/components/ui/empty";
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  useSyncConflictMutations,
+  useSyncConflicts,
+} from "@/hooks/use-sync-conflicts";
+import { cn } from "@/lib/cn";
+import type { SyncConflictResolution } from "@/lib/storage/sync-conflicts";
+import type { SyncConflict, SyncMemoryEntry } from "@/types/sync";
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CONFLICT_LABELS: Record<SyncConflict["conflictType"], string> = {
+  update_update: "Edited on both sides",
+  update_delete: "Deleted on another device",
+  delete_update: "Deleted on this device",
+};
+
+interface VersionColumnProps {
+  title: string;
+  version: SyncMemoryEntry;
+  other: SyncMemoryEntry;
+}
+
+const VersionColumn = ({ title, version, other }: VersionColumnProps) => {
+  const changedClass = "rounded bg-amber-500/10 px-1 -mx-1";
+  const timestamp = version.deletedAt ?? version.metadata.updatedAt;
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border p-3 min-w-0">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{title}</span>
+        <span className="text-xs text-muted-foreground">
+          {formatDistanceToNow(new Date(timestamp), { addSuffix: true })}
+        </span>
+      </div>
+      {version.isDeleted ? (
+        <p className="text-sm italic text-muted-foreground">Deleted</p>
+      ) : (
+        <>
+          {version.question && (
+            <p
+              className={cn(
+                "text-sm font-medium",
+                !other.isDeleted &&
+                  version.question !== other.question &&
+                  changedClass,
+              )}
+            >
+              {version.question}
+            </p>
+          )}
+          <p
+            className={cn(
+              "text-sm whitespace-pre-wrap wrap-break-word text-muted-foreground",
+              !other.isDeleted &&
+                version.answer !== other.answer &&
+                changedClass,
+            )}
+          >
+            {version.answer}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="outline">{version.category}</Badge>
+            {version.tags.map((tag) => (
+              <Badge key={tag} variant="secondary">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export function SyncConflictDialog({
+  open,
+  onOpenChange,
+}: SyncConflictDialogProps) {
+  const questionId = useId();
+  const answerId = useId();
+  const { conflicts } = useSyncConflicts();
+  const { resolveConflict } = useSyncConflictMutations();
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergedQuestion, setMergedQuestion] = useState("");
+  const [mergedAnswer, setMergedAnswer] = useState("");
+
+  const conflict = conflicts[0];
+
+  useEffect(() => {
+    if (!conflict) return;
+
+    const base = conflict.localVersion.isDeleted
+      ? conflict.remoteVersion
+      : conflict.localVersion;
+    setIsMerging(false);
+    setMergedQuestion(base.question ?? "");
+    setMergedAnswer(base.answer);
+  }, [conflict]);
+
+  const handleResolve = async (resolution: SyncConflictResolution) => {
+    if (!conflict) return;
+
+    try {
+      await resolveConflict.mutateAsync({
+        localId: conflict.localId,
+        resolution,
+        merged:
+          resolution === "manual"
+            ? { question: mergedQuestion, answer: mergedAnswer }
+            : undefined,
+      });
+
+      if (conflicts.length === 1) {
+        toast.success("All sync conflicts resolved");
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to resolve conflict",
+      );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sync conflicts</DialogTitle>
+          <DialogDescription>
+            {conflict
+              ? `Conflict 1 of ${conflicts.length}. Pick which version to keep.`
+              : "Memories changed on more than one device show up here"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!conflict && (
+          <Empty>
+            <EmptyHeader>
+              <EmptyMedia variant="icon">
+                <CheckCircle2Icon />
+              </EmptyMedia>
+              <EmptyTitle>No conflicts</EmptyTitle>
+              <EmptyDescription>
+                Everything is in sync across your devices
+              </EmptyDescription>
+            </EmptyHeader>
+          </Empty>
+        )}
+
+        {conflict && (
+          <div className="flex flex-col gap-4">
+            <div>
+              <Badge variant="secondary">
+                {CONFLICT_LABELS[conflict.conflictType]}
+              </Badge>
+            </div>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <VersionColumn
+                title="This device"
+                version={conflict.localVersion}
+                other={conflict.remoteVersion}
+              />
+              <VersionColumn
+                title="Cloud"
+                version={conflict.remoteVersion}
+                other={conflict.localVersion}
+              />
+            </div>
+
+            {isMerging && (
+              <FieldGroup>
+                <Field>
+                  <FieldLabel htmlFor={questionId}>Question</FieldLabel>
+                  <Input
+                    id={questionId}
+                    value={mergedQuestion}
+                    onChange={(e) => setMergedQuestion(e.target.value)}
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor={answerId}>Answer</FieldLabel>
+                  <Textarea
+                    id={answerId}
+                    value={mergedAnswer}
+                    onChange={(e) => setMergedAnswer(e.target.value)}
+                    rows={4}
+                  />
+                </Field>
+              </FieldGroup>
+            )}
+          </div>
+        )}
+
+        {conflict && (
+          <DialogFooter className="gap-2">
+            {isMerging ? (
+              <>
+                <Button variant="ghost" onClick={() => setIsMerging(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => handleResolve("manual")}
+                  disabled={!mergedAnswer.trim() || resolveConflict.isPending}
+                >
+                  Save merged
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button variant="ghost" onClick={() => setIsMerging(true)}>
+                  Merge
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleResolve("remote")}
+                  disabled={resolveConflict.isPending}
+                >
+                  Use cloud
+                </Button>
+                <Button
+                  onClick={() => handleResolve("local")}
+                  disabled={resolveConflict.isPending}
+                >
+                  Keep this device
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
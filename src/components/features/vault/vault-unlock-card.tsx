@@ -0,0 +1,70 @@
+import { LockIcon } from "lucide-react";
+import { useId, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Field, FieldLabel } from "@/components/ui/field";
+import { Input } from "@/components/ui/input";
+import { useVaultMutations } from "@/hooks/use-vault";
+import { cn } from "@/lib/cn";
+
+interface VaultUnlockCardProps {
+  className?: string;
+}
+
+export const VaultUnlockCard = ({ className }: VaultUnlockCardProps) => {
+  const passphraseId = useId();
+  const [passphrase, setPassphrase] = useState("");
+  const { unlock } = useVaultMutations();
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      await unlock.mutateAsync(passphrase);
+      setPassphrase("");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to unlock vault",
+      );
+    }
+  };
+
+  return (
+    <Card className={cn("w-full", className)}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LockIcon className="size-5" />
+          Memory vault is locked
+        </CardTitle>
+        <CardDescription>
+          Enter your passphrase to use your memories for autofill and capture.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleUnlock} className="flex flex-col gap-4">
+          <Field data-invalid={unlock.isError}>
+            <FieldLabel htmlFor={passphraseId}>Passphrase</FieldLabel>
+            <Input
+              id={passphraseId}
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoFocus
+            />
+          </Field>
+          <Button type="submit" disabled={!passphrase || unlock.isPending}>
+            {unlock.isPending ? "Unlocking..." : "Unlock"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,3 +1,32 @@
 export const APP_NAME = "Superfill.ai";
 export const POPUP_MIN_WIDTH = 400;
 export const POPUP_MIN_HEIGHT = 450;
+
+/**
+ * Browser-level keyboard commands. The browser owns the bindings, so these
+ * are only suggestions the user can change in its shortcut editor.
+ */
+export const KEYBOARD_COMMANDS = {
+  "fill-page": {
+    description: "Fill the forms on this page",
+    suggestedKey: "Alt+Shift+F",
+  },
+  "fill-focused-field": {
+    description: "Fill the focused field",
+    suggestedKey: "Alt+Shift+E",
+  },
+  "open-preview": {
+    description: "Review suggestions before filling",
+    suggestedKey: "Alt+Shift+P",
+  },
+  "toggle-autopilot": {
+    description: "Turn autopilot on or off",
+    suggestedKey: undefined,
+  },
+  "capture-form": {
+    description: "Save the current form as memories",
+    suggestedKey: "Alt+Shift+S",
+  },
+} as const;
+
+export type KeyboardCommand = keyof typeof KEYBOARD_COMMANDS;
@@ -1,3 +1,4 @@
+import type { KeyboardCommand } from "@/constants";
 import { registerCategorizationService } from "@/lib/ai/categorization-service";
 import { getAuthService, registerAuthService } from "@/lib/auth/auth-service";
 import {
@@ -13,14 +14,29 @@ import {
   getSessionService,
   registerSessionService,
 } from "@/lib/autofill/session-service";
+import { ERROR_MESSAGE_VAULT_LOCKED } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
+import { getModelChain } from "@/lib/providers/model-router";
 import { registerModelService } from "@/lib/providers/model-service";
 import { registerKeyValidationService } from "@/lib/security/key-validation-service";
+import { registerKeyVaultService } from "@/lib/security/key-vault-service";
+import { getVaultStatus } from "@/lib/security/vault";
 import {
-  getKeyVaultService,
-  registerKeyVaultService,
-} from "@/lib/security/key-vault-service";
+  getVaultService,
+  registerVaultService,
+} from "@/lib/security/vault-service";
 import { storage } from "@/lib/storage";
+import { getDocumentFile } from "@/lib/storage/documents";
+import {
+  pruneFieldFeedback,
+  recordFieldFeedback,
+} from "@/lib/storage/field-feedback";
+import { pruneFillCache, saveFillCacheEntry } from "@/lib/storage/fill-cache";
+import {
+  pruneMemoryUsage,
+  recordMemoryUsage,
+} from "@/lib/storage/memory-usage";
+import { pruneFillSessions } from "@/lib/storage/sessions";
 import { getSyncService, registerSyncService } from "@/lib/sync/sync-service";
 import type { AuthSuccessMessage, Message } from "@/types/message";
 import { migrateAISettings } from "./lib/migrate-settings-handler";
@@ -41,12 +57,15 @@ export default defineBackground({
     registerModelService();
     registerSessionService();
     registerSyncService();
+    registerVaultService();
     const authService = getAuthService();
     const autofillService = getAutofillService();
     const captureMemoryService = getCaptureMemoryService();
-    const keyVault = getKeyVaultService();
     const sessionService = getSessionService();
     const syncService = getSyncService();
+    const vaultService = getVaultService();
+
+    vaultService.startAutoLock();
 
     const updateContextMenu = async (enabled: boolean) => {
       try {
@@ -89,6 +108,36 @@ export default defineBackground({
       }
     });
 
+    browser.commands.onCommand.addListener(async (command, tab) => {
+      logger.debug("Keyboard command triggered", { command, tabId: tab?.id });
+
+      try {
+        switch (command as KeyboardCommand) {
+          case "fill-page":
+            await autofillService.startAutofillOnTab(tab?.id);
+            break;
+          case "fill-focused-field":
+            await autofillService.fillFocusedField(tab?.id);
+            break;
+          case "open-preview":
+            await autofillService.openPreview(tab?.id);
+            break;
+          case "toggle-autopilot":
+            await autofillService.toggleAutopilot(tab?.id);
+            break;
+          case "capture-form":
+            if (tab?.id) {
+              await autofillService.captureCurrentForm(tab.id);
+            }
+            break;
+          default:
+            logger.warn("Unknown keyboard command:", command);
+        }
+      } catch (error) {
+        logger.error(`Keyboard command ${command} failed:`, error);
+      }
+    });
+
     const handleAuthentication = async (
       message: Message<AuthSuccessMessage>,
       sender: globalThis.Browser.runtime.MessageSender,
@@ -171,6 +220,69 @@ export default defineBackground({
       return sessionService.saveFormMappings(data.sessionId, data.formMappings);
     });
 
+    contentAutofillMessaging.onMessage(
+      "resumeWizardAutofill",
+      async ({ sender }) => {
+        const tabId = sender.tab?.id;
+        if (!tabId) return false;
+
+        logger.info("Resuming autofill on new wizard step in tab", tabId);
+        const result = await getAutofillService().startAutofillOnTab(tabId);
+        return result.success;
+      },
+    );
+
+    contentAutofillMessaging.onMessage("saveFillCache", async ({ data }) => {
+      return saveFillCacheEntry(data.cacheKey, data.mappings);
+    });
+
+    contentAutofillMessaging.onMessage(
+      "recordFieldFeedback",
+      async ({ data }) => {
+        return recordFieldFeedback(data.events);
+      },
+    );
+
+    contentAutofillMessaging.onMessage(
+      "incrementMemoryUsage",
+      async ({ data, sender }) => {
+        return recordMemoryUsage(data.memoryIds, sender.tab?.url ?? "");
+      },
+    );
+
+    contentAutofillMessaging.onMessage("getDocumentFile", async ({ data }) => {
+      try {
+        return await getDocumentFile(data.documentId);
+      } catch (error) {
+        logger.error("Failed to load document for file input:", error);
+        return null;
+      }
+    });
+
+    contentAutofillMessaging.onMessage(
+      "getFieldSuggestions",
+      async ({ data, sender }) => {
+        try {
+          return await autofillService.suggestForField(
+            data.field,
+            data.typedText,
+            sender.tab?.url ?? "",
+          );
+        } catch (error) {
+          logger.error("Failed to load field suggestions:", error);
+          return [];
+        }
+      },
+    );
+
+    pruneFillSessions();
+
+    storage.memories.watch((memories) => {
+      pruneFillCache(memories).catch(logger.error);
+      pruneFieldFeedback(memories).catch(logger.error);
+      pruneMemoryUsage(memories).catch(logger.error);
+    });
+
     contentAutofillMessaging.onMessage(
       "broadcastFillToAllFrames",
       async ({ data, sender }) => {
@@ -189,6 +301,18 @@ export default defineBackground({
 
         if (cdpFields.length > 0) {
           logger.info(`Routing ${cdpFields.length} CDP fields to CDP filler`);
+
+          // Marked before filling so later edits can be told apart from ours
+          await contentAutofillMessaging
+            .sendMessage(
+              "markCDPFieldsFilled",
+              { fieldsToFill: cdpFields },
+              tabId,
+            )
+            .catch((error) => {
+              logger.error("Failed to mark CDP fields as filled:", error);
+            });
+
           try {
             const autofillService = getAutofillService();
             await autofillService.executeCDPFill(
@@ -196,6 +320,7 @@ export default defineBackground({
               cdpFields.map((f) => ({
                 fieldOpid: f.fieldOpid,
                 value: f.value,
+                documentId: f.documentId,
                 cdpField: f.cdpField,
               })),
             );
@@ -222,28 +347,25 @@ export default defineBackground({
       "saveCapturedMemories",
       async ({ data }) => {
         try {
-          const aiSettings = await storage.aiSettings.getValue();
-          const provider = aiSettings.selectedProvider;
-
-          if (!provider) {
-            logger.error("No AI provider configured");
-            return { success: false, savedCount: 0 };
+          if ((await getVaultStatus()) === "locked") {
+            logger.warn("Vault is locked, not saving captured memories");
+            return {
+              success: false,
+              savedCount: 0,
+              error: ERROR_MESSAGE_VAULT_LOCKED,
+            };
           }
 
-          const apiKey = await keyVault.getKey(provider);
+          const targets = await getModelChain("deduplicate");
 
-          if (!apiKey) {
-            logger.error("Failed to retrieve API key for categorization");
+          if (targets.length === 0) {
+            logger.error("No AI provider with an API key configured");
             return { success: false, savedCount: 0 };
           }
 
-          const modelName = aiSettings.selectedModels?.[provider];
-
           const result = await captureMemoryService.saveCapturedMemories(
             data.capturedFields,
-            provider,
-            apiKey,
-            modelName,
+            targets,
           );
 
           logger.info("Captured memories saved:", result);
@@ -264,6 +386,7 @@ export default defineBackground({
     if (import.meta.hot) {
       import.meta.hot.dispose(() => {
         autofillService.dispose();
+        vaultService.stopAutoLock();
         logger.debug("Background script HMR cleanup completed");
       });
     }
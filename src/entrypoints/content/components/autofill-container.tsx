@@ -1,7 +1,15 @@
-import { QueryClientProvider } from "@tanstack/react-query";
-import { PlusIcon, XIcon } from "lucide-react";
-import { useEffect, useMemo, useState } from "react";
+import {
+  KeyboardIcon,
+  PlusIcon,
+  ThumbsDownIcon,
+  ThumbsUpIcon,
+  XIcon,
+} from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useHotkeys } from "react-hotkeys-hook";
 import { EntryForm } from "@/components/features/memory/entry-form";
+import { HotkeyKeys } from "@/components/features/shortcuts/hotkey-keys";
+import { InPageShortcutsEditor } from "@/components/features/shortcuts/in-page-shortcuts-editor";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -15,8 +23,9 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Spinner } from "@/components/ui/spinner";
 import { Switch } from "@/components/ui/switch";
+import { useInPageShortcuts } from "@/hooks/use-in-page-shortcuts";
 import { cn } from "@/lib/cn";
-import { queryClient } from "@/lib/query";
+import { isTypingEvent } from "@/lib/hotkeys";
 import type {
   AutofillProgress,
   FieldOpId,
@@ -66,6 +75,7 @@ interface FieldRowProps {
   onHighlight: AutofillContainerProps["onHighlight"];
   onUnhighlight: AutofillContainerProps["onUnhighlight"];
   onMemoryAddition: AutofillContainerProps["onMemoryAddition"];
+  onFeedback: AutofillContainerProps["onFeedback"];
 }
 
 const FieldRow = ({
@@ -75,6 +85,7 @@ const FieldRow = ({
   onHighlight,
   onUnhighlight,
   onMemoryAddition,
+  onFeedback,
 }: FieldRowProps) => {
   const confidence = field.mapping.confidence;
   const { label, intent } = confidenceMeta(confidence);
@@ -82,6 +93,18 @@ const FieldRow = ({
   const shouldShowEditOption = confidence < 0.5 || !field.mapping.value;
 
   const [isEditing, setIsEditing] = useState(false);
+  const [vote, setVote] = useState<"upvote" | "downvote" | null>(null);
+  const canVote = !!field.mapping.value && !!field.mapping.memoryIds?.length;
+
+  const handleVote = (next: "upvote" | "downvote") => {
+    if (vote === next) return;
+
+    setVote(next);
+    onFeedback(field.fieldOpid, next);
+    if (next === "downvote") {
+      onToggle(false);
+    }
+  };
 
   const handleSetEditing = (next: boolean) => {
     setIsEditing(next);
@@ -120,19 +143,65 @@ const FieldRow = ({
             >
               {label} · {Math.round(confidence * 100)}%
             </Badge>
+            {field.mapping.fromCache && field.mapping.value && (
+              <Badge variant="outline">From cache</Badge>
+            )}
+            {field.mapping.sensitivity && field.mapping.value && (
+              <Badge variant="outline">
+                {field.mapping.requiresConfirmation
+                  ? "Sensitive · confirm"
+                  : "Sensitive"}
+              </Badge>
+            )}
           </div>
         </div>
         <Switch checked={selected} onCheckedChange={onToggle} />
       </div>
 
       {field.mapping.value && (
-        <p
-          className={cn(
-            "text-xs leading-relaxed wrap-break-word rounded-md bg-muted/50 p-2 text-foreground",
+        <div className="flex items-start gap-1">
+          <p
+            className={cn(
+              "flex-1 text-xs leading-relaxed wrap-break-word rounded-md bg-muted/50 p-2 text-foreground",
+            )}
+          >
+            {suggestion}
+          </p>
+          {canVote && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => handleVote("upvote")}
+                aria-label="Good suggestion"
+                aria-pressed={vote === "upvote"}
+              >
+                <ThumbsUpIcon
+                  className={cn(
+                    "size-3.5",
+                    vote === "upvote" && "fill-current text-primary",
+                  )}
+                />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="size-7"
+                onClick={() => handleVote("downvote")}
+                aria-label="Bad suggestion"
+                aria-pressed={vote === "downvote"}
+              >
+                <ThumbsDownIcon
+                  className={cn(
+                    "size-3.5",
+                    vote === "downvote" && "fill-current text-destructive",
+                  )}
+                />
+              </Button>
+            </>
           )}
-        >
-          {suggestion}
-        </p>
+        </div>
       )}
 
       {field.mapping.reasoning && (
@@ -197,6 +266,7 @@ type AutofillContainerProps = {
   onHighlight: (fieldOpid: FieldOpId) => void;
   onUnhighlight: () => void;
   onMemoryAddition: (fieldOpid: FieldOpId, data: MemoryEntry) => Promise<void>;
+  onFeedback: (fieldOpid: FieldOpId, signal: "upvote" | "downvote") => void;
 };
 
 export const AutofillContainer = ({
@@ -208,9 +278,13 @@ export const AutofillContainer = ({
   onHighlight,
   onUnhighlight,
   onMemoryAddition,
+  onFeedback,
 }: AutofillContainerProps) => {
   const [isContentTransitioning, setIsContentTransitioning] = useState(false);
   const [currentMode, setCurrentMode] = useState<"loading" | "preview">(mode);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const shortcuts = useInPageShortcuts();
 
   useEffect(() => {
     if (mode !== currentMode) {
@@ -275,6 +349,49 @@ export const AutofillContainer = ({
     onFill(fieldsToFill);
   };
 
+  const handleToggleAll = () => {
+    const selectable =
+      data?.forms.flatMap((form) =>
+        form.fields
+          .filter((field) => field.mapping.value)
+          .map((field) => field.fieldOpid),
+      ) ?? [];
+
+    setSelection((prev) =>
+      selectable.every((fieldOpid) => prev.has(fieldOpid))
+        ? new Set()
+        : new Set(selectable),
+    );
+  };
+
+  const hotkeyOptions = {
+    enabled: !showShortcuts,
+    enableOnFormTags: true,
+    preventDefault: true,
+    // Typing into the sidebar's own forms should not trigger shortcuts
+    ignoreEventWhen: (event: KeyboardEvent) =>
+      isTypingEvent(event) &&
+      !!rootRef.current &&
+      event.composedPath().includes(rootRef.current),
+  };
+  const previewHotkeyOptions = {
+    ...hotkeyOptions,
+    enabled: !showShortcuts && currentMode === "preview",
+  };
+
+  useHotkeys(
+    shortcuts.fillSelected,
+    () => {
+      if (selectedCount > 0) handleFill();
+    },
+    previewHotkeyOptions,
+    [selection, data],
+  );
+  useHotkeys(shortcuts.selectAll, handleToggleAll, previewHotkeyOptions, [
+    data,
+  ]);
+  useHotkeys(shortcuts.closePreview, onClose, hotkeyOptions, [onClose]);
+
   const handleToggle = (fieldOpid: FieldOpId, next: boolean) => {
     setSelection((prev) => {
       const updated = new Set(prev);
@@ -287,13 +404,15 @@ export const AutofillContainer = ({
     });
   };
 
-  const headerTitle =
-    currentMode === "loading"
+  const headerTitle = showShortcuts
+    ? "Keyboard shortcuts"
+    : currentMode === "loading"
       ? getProgressTitle(progress?.state ?? "detecting")
       : "Autofill suggestions";
 
-  const headerDescription =
-    currentMode === "loading"
+  const headerDescription = showShortcuts
+    ? "Click a shortcut, then press the keys to use instead"
+    : currentMode === "loading"
       ? "Please do not navigate away from this page."
       : `${data?.summary.matchedFields ?? 0} of ${totalFields} fields have matches${
           typeof data?.summary.processingTime === "number"
@@ -311,7 +430,10 @@ export const AutofillContainer = ({
     ) : null;
 
   return (
-    <div className="pointer-events-auto h-full w-full flex flex-col text-foreground border-l border-border shadow-lg animate-[slide-in-right_0.3s_ease-out]">
+    <div
+      ref={rootRef}
+      className="pointer-events-auto h-full w-full flex flex-col text-foreground border-l border-border shadow-lg animate-[slide-in-right_0.3s_ease-out]"
+    >
       <Card className="flex h-full flex-col rounded-none border-0 shadow-none p-0 gap-0">
         <CardHeader className="border-b bg-background/95 px-5 py-4 flex items-start justify-between gap-3">
           <div className="space-y-1 flex-1">
@@ -323,52 +445,74 @@ export const AutofillContainer = ({
               {headerDescription}
             </CardDescription>
           </div>
-          <Button variant="ghost" size="icon" onClick={onClose}>
-            <XIcon />
-          </Button>
+          <div className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowShortcuts((prev) => !prev)}
+              aria-label="Keyboard shortcuts"
+              aria-pressed={showShortcuts}
+            >
+              <KeyboardIcon />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={onClose}>
+              <XIcon />
+            </Button>
+          </div>
         </CardHeader>
 
-        <QueryClientProvider client={queryClient}>
-          <CardContent
-            className={cn(
-              "flex min-h-0 flex-1 flex-col gap-0 px-5 py-4 transition-opacity duration-150",
-              isContentTransitioning ? "opacity-0" : "opacity-100",
-            )}
-          >
-            {currentMode === "loading" && progress ? (
-              <div className="flex-1 flex flex-col gap-4 items-center justify-center">
-                <MemoryLoader />
-                <p className="text-sm text-muted-foreground max-w-xs text-center">
-                  {getProgressDescription(progress, "preview")}
-                </p>
+        <CardContent
+          className={cn(
+            "flex min-h-0 flex-1 flex-col gap-0 px-5 py-4 transition-opacity duration-150",
+            isContentTransitioning ? "opacity-0" : "opacity-100",
+          )}
+        >
+          {showShortcuts ? (
+            <ScrollArea className="flex-1 min-h-0">
+              <div className="py-2">
+                <InPageShortcutsEditor />
               </div>
-            ) : currentMode === "preview" && data ? (
-              <ScrollArea className="flex-1 min-h-0">
-                <div className="space-y-3 py-2">
-                  {data.forms.flatMap(
-                    (form: PreviewRenderData["forms"][number]) =>
-                      form.fields.map((field: PreviewFieldData) => (
-                        <FieldRow
-                          key={field.fieldOpid}
-                          field={field}
-                          selected={selection.has(field.fieldOpid)}
-                          onToggle={(next) =>
-                            handleToggle(field.fieldOpid, next)
-                          }
-                          onHighlight={() => onHighlight?.(field.fieldOpid)}
-                          onUnhighlight={() => onUnhighlight?.()}
-                          onMemoryAddition={onMemoryAddition}
-                        />
-                      )),
-                  )}
-                </div>
-              </ScrollArea>
-            ) : null}
-          </CardContent>
-        </QueryClientProvider>
+            </ScrollArea>
+          ) : currentMode === "loading" && progress ? (
+            <div className="flex-1 flex flex-col gap-4 items-center justify-center">
+              <MemoryLoader />
+              <p className="text-sm text-muted-foreground max-w-xs text-center">
+                {getProgressDescription(progress, "preview")}
+              </p>
+            </div>
+          ) : currentMode === "preview" && data ? (
+            <ScrollArea className="flex-1 min-h-0">
+              <div className="space-y-3 py-2">
+                {data.forms.flatMap(
+                  (form: PreviewRenderData["forms"][number]) =>
+                    form.fields.map((field: PreviewFieldData) => (
+                      <FieldRow
+                        key={field.fieldOpid}
+                        field={field}
+                        selected={selection.has(field.fieldOpid)}
+                        onToggle={(next) => handleToggle(field.fieldOpid, next)}
+                        onHighlight={() => onHighlight?.(field.fieldOpid)}
+                        onUnhighlight={() => onUnhighlight?.()}
+                        onMemoryAddition={onMemoryAddition}
+                        onFeedback={onFeedback}
+                      />
+                    )),
+                )}
+              </div>
+            </ScrollArea>
+          ) : null}
+        </CardContent>
 
         <CardFooter className="border-t bg-background px-5 py-4">
-          {currentMode === "loading" ? (
+          {showShortcuts ? (
+            <Button
+              size="sm"
+              className="ml-auto"
+              onClick={() => setShowShortcuts(false)}
+            >
+              Done
+            </Button>
+          ) : currentMode === "loading" ? (
             <p className="text-xs text-muted-foreground">
               This may take a few seconds...
             </p>
@@ -387,6 +531,10 @@ export const AutofillContainer = ({
                   disabled={selectedCount === 0}
                 >
                   Fill selected
+                  <HotkeyKeys
+                    hotkey={shortcuts.fillSelected}
+                    className="opacity-80"
+                  />
                 </Button>
               </div>
             </div>
@@ -29,6 +29,7 @@ export interface AutopilotFillData {
   fieldOpid: FieldOpId;
   value: string;
   confidence: number;
+  documentId?: string;
 }
 
 const getPrimaryLabel = (
@@ -66,6 +67,7 @@ export class AutopilotManager {
   private reactRoot: Root | null = null;
   private currentProgress: AutofillProgress | null = null;
   private fieldsToFill: AutopilotFillData[] = [];
+  private heldBackCount = 0;
   private mappingLookup: Map<string, FieldMapping> = new Map();
   private sessionId: string | null = null;
 
@@ -158,11 +160,7 @@ export class AutopilotManager {
     }
   }
 
-  async processAutofillData(
-    mappings: Array<FieldMapping>,
-    confidenceThreshold: number,
-    sessionId: string,
-  ) {
+  async processAutofillData(mappings: Array<FieldMapping>, sessionId: string) {
     try {
       if (mappings.length === 0) {
         logger.warn("No field mappings provided for autopilot processing");
@@ -178,23 +176,28 @@ export class AutopilotManager {
       });
       this.sessionId = sessionId;
 
+      // The background's fill policy has already weighed the per field
+      // thresholds and never auto-fill list into `autoFill`
       const fieldsToFill: AutopilotFillData[] = [];
+      let heldBackCount = 0;
       for (const mapping of mappings) {
         const valueToFill = mapping.value;
 
-        if (
-          valueToFill !== null &&
-          mapping.confidence >= confidenceThreshold &&
-          mapping.autoFill !== false
-        ) {
+        if (valueToFill !== null && mapping.requiresConfirmation) {
+          heldBackCount++;
+        }
+
+        if (valueToFill !== null && mapping.autoFill === true) {
           fieldsToFill.push({
             fieldOpid: mapping.fieldOpid as FieldOpId,
             value: valueToFill,
             confidence: mapping.confidence,
+            documentId: mapping.documentId,
           });
         }
       }
       this.fieldsToFill = fieldsToFill;
+      this.heldBackCount = heldBackCount;
 
       logger.info(
         `Prepared ${this.fieldsToFill.length} fields for autopilot fill`,
@@ -262,7 +265,10 @@ export class AutopilotManager {
 
       await this.showProgress({
         state: "completed",
-        message: "Auto-fill completed successfully",
+        message:
+          this.heldBackCount > 0
+            ? `Auto-fill completed. ${this.heldBackCount} sensitive ${this.heldBackCount === 1 ? "field was" : "fields were"} left for you to fill.`
+            : "Auto-fill completed successfully",
         fieldsDetected: this.fieldsToFill.length,
         fieldsMatched: this.fieldsToFill.length,
       });
@@ -275,6 +281,8 @@ export class AutopilotManager {
         `Autopilot completed: filled ${this.fieldsToFill.length} fields`,
       );
 
+      await this.recordUsage();
+
       if (this.sessionId) {
         await this.completeSession();
       }
@@ -293,6 +301,22 @@ export class AutopilotManager {
     }
   }
 
+  private async recordUsage(): Promise<void> {
+    const memoryIds = this.fieldsToFill.flatMap(
+      (f) => this.mappingLookup.get(f.fieldOpid)?.memoryIds ?? [],
+    );
+
+    if (memoryIds.length === 0) return;
+
+    try {
+      await contentAutofillMessaging.sendMessage("incrementMemoryUsage", {
+        memoryIds,
+      });
+    } catch (error) {
+      logger.error("Failed to record memory usage:", error);
+    }
+  }
+
   private async completeSession(): Promise<void> {
     if (!this.sessionId) {
       logger.warn("No session ID available to complete");
@@ -23,6 +23,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
+import { ERROR_MESSAGE_VAULT_LOCKED } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
 import { storage } from "@/lib/storage";
 import { addNeverAskSite } from "@/lib/storage/capture-settings";
@@ -34,7 +35,7 @@ const logger = createLogger("capture-memory-manager");
 
 const HOST_ID = "superfill-capture-memory";
 
-type CaptureResultState = "saving" | "success" | "info" | "error";
+type CaptureResultState = "saving" | "success" | "info" | "error" | "locked";
 
 interface CaptureMemoryProps {
   siteTitle: string;
@@ -340,8 +341,9 @@ export class CaptureMemoryManager {
         await new Promise((resolve) => setTimeout(resolve, 3000));
         await this.hide();
       } else {
-        logger.error("Failed to save memories");
-        this.resultState = "error";
+        logger.error("Failed to save memories:", result.error);
+        this.resultState =
+          result.error === ERROR_MESSAGE_VAULT_LOCKED ? "locked" : "error";
         this.render(siteTitle, siteDomain);
 
         await new Promise((resolve) => setTimeout(resolve, 3000));
@@ -1,4 +1,9 @@
-import { CheckCircle2Icon, HeartCrackIcon, InfoIcon } from "lucide-react";
+import {
+  CheckCircle2Icon,
+  HeartCrackIcon,
+  InfoIcon,
+  LockIcon,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import {
   Card,
@@ -11,7 +16,7 @@ import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
 import { cn } from "@/lib/cn";
 
-type CaptureResultState = "saving" | "success" | "info" | "error";
+type CaptureResultState = "saving" | "success" | "info" | "error" | "locked";
 
 type CaptureResultLoaderProps = {
   state: CaptureResultState;
@@ -47,6 +52,14 @@ const getStateConfig = (state: CaptureResultState) => {
         icon: <InfoIcon className="size-4 text-blue-500 shrink-0" />,
         progressClass: "[&>div]:bg-blue-500",
       };
+    case "locked":
+      return {
+        title: "Memory vault is locked",
+        description: "Unlock it from the extension popup to save memories",
+        progressValue: 100,
+        icon: <LockIcon className="size-4 text-amber-500 shrink-0" />,
+        progressClass: "[&>div]:bg-amber-500",
+      };
     case "error":
       return {
         title: "Failed to save memories",
@@ -68,7 +81,7 @@ export const CaptureResultLoader = ({
   const [isVisible, setIsVisible] = useState(true);
 
   useEffect(() => {
-    if (state === "success" || state === "info" || state === "error") {
+    if (state !== "saving") {
       const timer = setTimeout(() => {
         setIsVisible(false);
         setTimeout(onClose, 300);
@@ -1,3 +1,4 @@
+import { QueryClientProvider } from "@tanstack/react-query";
 import { createRoot, type Root } from "react-dom/client";
 import type { ContentScriptContext } from "wxt/utils/content-script-context";
 import {
@@ -7,17 +8,20 @@ import {
 import { handleFill as fillFields } from "@/entrypoints/content/lib/fill-handler";
 import { getFrameInfo } from "@/entrypoints/content/lib/iframe-handler";
 import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
+import { getFieldDisplayLabel } from "@/lib/autofill/fill-replay";
 import { createLogger } from "@/lib/logger";
+import { queryClient } from "@/lib/query";
 import { storage } from "@/lib/storage";
 import type {
   AutofillProgress,
   CDPDetectedField,
   DetectedField,
-  DetectedFieldSnapshot,
   DetectedForm,
   DetectedFormSnapshot,
+  FieldFeedbackSignal,
   FieldMapping,
   FieldOpId,
+  FillCacheKey,
   FormOpId,
   PreviewFieldData,
   PreviewSidebarPayload,
@@ -53,29 +57,6 @@ const ensureHighlightStyle = () => {
   document.head.append(style);
 };
 
-const getPrimaryLabel = (
-  metadata: DetectedFieldSnapshot["metadata"],
-): string => {
-  const candidates = [
-    metadata.labelTag,
-    metadata.labelAria,
-    metadata.labelData,
-    metadata.labelTop,
-    metadata.labelLeft,
-    metadata.placeholder,
-    metadata.name,
-    metadata.id,
-  ];
-
-  for (const candidate of candidates) {
-    if (candidate && candidate.trim().length > 0) {
-      return candidate.trim();
-    }
-  }
-
-  return metadata.type;
-};
-
 const buildPreviewFields = (
   form: DetectedFormSnapshot,
   mappingLookup: Map<string, FieldMapping>,
@@ -97,7 +78,7 @@ const buildPreviewFields = (
         formOpid: field.formOpid,
         metadata: field.metadata,
         mapping,
-        primaryLabel: getPrimaryLabel(field.metadata),
+        primaryLabel: getFieldDisplayLabel(field.metadata),
       };
     },
   );
@@ -132,6 +113,7 @@ export class PreviewSidebarManager {
   private mappingLookup: Map<string, FieldMapping> = new Map();
   private cdpFieldLookup: Map<string, CDPDetectedField> = new Map();
   private sessionId: string | null = null;
+  private cacheKey: FillCacheKey | null = null;
   private currentMode: "loading" | "preview" = "loading";
   private currentProgress: AutofillProgress | null = null;
   private currentData: PreviewRenderData | null = null;
@@ -148,6 +130,7 @@ export class PreviewSidebarManager {
     }
 
     this.sessionId = payload.sessionId;
+    this.cacheKey = payload.cacheKey ?? null;
     this.cdpFieldLookup = new Map(
       payload.cdpFields?.map((f) => [f.opid, f]) ?? [],
     );
@@ -196,29 +179,35 @@ export class PreviewSidebarManager {
     }
 
     this.reactRoot.render(
-      <AutofillContainer
-        mode={this.currentMode}
-        progress={this.currentProgress ?? undefined}
-        data={this.currentData ?? undefined}
-        onClose={() => this.destroy()}
-        onFill={(fieldsToFill) => this.handleFill(fieldsToFill)}
-        onHighlight={(fieldOpid: FieldOpId) => this.highlightField(fieldOpid)}
-        onUnhighlight={() => this.clearHighlight()}
-        onMemoryAddition={async (fieldOpid, data) =>
-          this.handleMemoryAddition(fieldOpid, data)
-        }
-      />,
+      <QueryClientProvider client={queryClient}>
+        <AutofillContainer
+          mode={this.currentMode}
+          progress={this.currentProgress ?? undefined}
+          data={this.currentData ?? undefined}
+          onClose={() => this.destroy()}
+          onFill={(fieldsToFill) => this.handleFill(fieldsToFill)}
+          onHighlight={(fieldOpid: FieldOpId) => this.highlightField(fieldOpid)}
+          onUnhighlight={() => this.clearHighlight()}
+          onMemoryAddition={async (fieldOpid, data) =>
+            this.handleMemoryAddition(fieldOpid, data)
+          }
+          onFeedback={(fieldOpid, signal) =>
+            this.recordFeedback([fieldOpid], signal)
+          }
+        />
+      </QueryClientProvider>,
     );
   }
 
   private async handleMemoryAddition(fieldOpid: FieldOpId, data: MemoryEntry) {
     try {
-      const updatedMapping = {
+      const updatedMapping: FieldMapping = {
         fieldOpid,
         value: data.answer,
         confidence: 1.0,
         reasoning: "User-provided value",
         autoFill: true,
+        memoryIds: [data.id],
       };
 
       logger.info(`Mapping fields: ${data.id} to fieldOpid: ${fieldOpid}`);
@@ -271,6 +260,7 @@ export class PreviewSidebarManager {
 
     this.mappingLookup.clear();
     this.cdpFieldLookup.clear();
+    this.cacheKey = null;
   }
 
   private async handleFill(
@@ -287,13 +277,23 @@ export class PreviewSidebarManager {
         await contentAutofillMessaging.sendMessage("broadcastFillToAllFrames", {
           fieldsToFill: fieldsToFill.map((f) => ({
             ...f,
+            memoryIds: this.mappingLookup.get(f.fieldOpid)?.memoryIds,
+            fieldKey: this.cacheKey?.fieldKeys[f.fieldOpid],
+            documentId: this.mappingLookup.get(f.fieldOpid)?.documentId,
             cdpField: this.cdpFieldLookup.get(f.fieldOpid) ?? undefined,
           })),
         });
       } else {
-        await fillFields(fieldsToFill, frameInfo, {
-          getCachedField: this.options.getFieldMetadata,
-        });
+        await fillFields(
+          fieldsToFill.map((f) => ({
+            ...f,
+            documentId: this.mappingLookup.get(f.fieldOpid)?.documentId,
+          })),
+          frameInfo,
+          {
+            getCachedField: this.options.getFieldMetadata,
+          },
+        );
       }
     } catch (error) {
       logger.error("Failed to fill fields:", error);
@@ -307,6 +307,10 @@ export class PreviewSidebarManager {
 
     const filledFieldOpids = fieldsToFill.map((f) => f.fieldOpid);
 
+    await this.saveAcceptedMappings(filledFieldOpids);
+    await this.recordFeedback(filledFieldOpids, "accepted");
+    await this.recordUsage(filledFieldOpids);
+
     if (this.sessionId) {
       try {
         await contentAutofillMessaging.sendMessage("updateSessionStatus", {
@@ -347,6 +351,67 @@ export class PreviewSidebarManager {
     this.destroy();
   }
 
+  private async saveAcceptedMappings(filledFieldOpids: FieldOpId[]) {
+    if (!this.cacheKey) return;
+
+    const accepted = filledFieldOpids
+      .map((opid) => this.mappingLookup.get(opid))
+      .filter((mapping): mapping is FieldMapping => !!mapping?.value);
+
+    if (accepted.length === 0) return;
+
+    try {
+      await contentAutofillMessaging.sendMessage("saveFillCache", {
+        cacheKey: this.cacheKey,
+        mappings: accepted,
+      });
+    } catch (error) {
+      logger.error("Failed to save fill cache:", error);
+    }
+  }
+
+  private async recordFeedback(
+    fieldOpids: FieldOpId[],
+    signal: FieldFeedbackSignal,
+  ) {
+    if (!this.cacheKey) return;
+
+    const { fieldKeys } = this.cacheKey;
+    const events = fieldOpids.flatMap((opid) => {
+      const memoryIds = this.mappingLookup.get(opid)?.memoryIds;
+      const fieldKey = fieldKeys[opid];
+      return fieldKey && memoryIds?.length
+        ? [{ fieldKey, memoryIds, signal }]
+        : [];
+    });
+
+    if (events.length === 0) return;
+
+    try {
+      await contentAutofillMessaging.sendMessage("recordFieldFeedback", {
+        events,
+      });
+    } catch (error) {
+      logger.error("Failed to record field feedback:", error);
+    }
+  }
+
+  private async recordUsage(fieldOpids: FieldOpId[]) {
+    const memoryIds = fieldOpids.flatMap(
+      (opid) => this.mappingLookup.get(opid)?.memoryIds ?? [],
+    );
+
+    if (memoryIds.length === 0) return;
+
+    try {
+      await contentAutofillMessaging.sendMessage("incrementMemoryUsage", {
+        memoryIds,
+      });
+    } catch (error) {
+      logger.error("Failed to record memory usage:", error);
+    }
+  }
+
   private async buildFormMappings(
     selectedFieldOpids: FieldOpId[],
   ): Promise<FormMapping[]> {
@@ -377,7 +442,7 @@ export class PreviewSidebarManager {
 
           const filledField: FilledField = {
             selector: "", // Selector removed - use opid for lookup instead
-            label: getPrimaryLabel(field.metadata),
+            label: getFieldDisplayLabel(field.metadata),
             filledValue: mapping.value || "",
             fieldType: field.metadata.fieldType,
           };
@@ -15,7 +15,12 @@ import {
   isSiteBlocked,
 } from "@/lib/storage/capture-settings";
 import { isFormInteractionEligible } from "@/lib/tours/form-interaction-utils";
-import type { AutofillProgress, PreviewSidebarPayload } from "@/types/autofill";
+import type {
+  AutofillProgress,
+  DetectedForm,
+  PreviewSidebarPayload,
+} from "@/types/autofill";
+import type { AISettings } from "@/types/settings";
 import { CaptureMemoryManager } from "./components/capture-memory-manager";
 import { RightClickGuideManager } from "./components/right-click-guide-manager";
 import { getToastManager } from "./components/toast-manager";
@@ -25,11 +30,13 @@ import { getFieldDataTracker } from "./lib/field-data-tracker";
 import { handleFill } from "./lib/fill-handler";
 import { FormDetectionService } from "./lib/form-detection-service";
 import { getFormSubmissionMonitor } from "./lib/form-submission-monitor";
+import { InlineSuggestions } from "./lib/inline-suggestions";
 import {
   destroyUIManagers,
   handleShowPreview,
   handleUpdateProgress,
 } from "./lib/ui-handler";
+import { getWizardTracker } from "./lib/wizard-tracker";
 
 const logger = createLogger("content");
 
@@ -124,6 +131,33 @@ export default defineContentScript({
     let captureMemoryManager: CaptureMemoryManager | null = null;
     let unwatchCaptureSettings: (() => void) | null = null;
     let unlistenSubmission: (() => void) | null = null;
+    let unlistenStepAdvance: (() => void) | null = null;
+    let unlistenStepReady: (() => void) | null = null;
+    let unlistenWizardResume: (() => void) | null = null;
+
+    const wizardTracker = getWizardTracker();
+
+    const ensureWizardAutofillResume = (): void => {
+      if (!frameInfo.isMainFrame || unlistenWizardResume) return;
+
+      const monitor = getFormSubmissionMonitor();
+      if (!monitor.isRunning()) {
+        monitor.start();
+      }
+
+      unlistenWizardResume = monitor.onStepReady(async () => {
+        if (!wizardTracker.isAutofillArmed()) return;
+
+        try {
+          await contentAutofillMessaging.sendMessage(
+            "resumeWizardAutofill",
+            undefined,
+          );
+        } catch (error) {
+          logger.error("Failed to resume autofill on wizard step:", error);
+        }
+      });
+    };
 
     const stopAutoCapture = async (reason: string): Promise<void> => {
       if (!frameInfo.isMainFrame) return;
@@ -138,12 +172,19 @@ export default defineContentScript({
 
       try {
         unlistenSubmission?.();
+        unlistenStepAdvance?.();
+        unlistenStepReady?.();
       } catch {}
       unlistenSubmission = null;
+      unlistenStepAdvance = null;
+      unlistenStepReady = null;
 
-      try {
-        submissionMonitor?.dispose();
-      } catch {}
+      // Keep monitoring wizard steps when autofill should resume on them
+      if (!unlistenWizardResume) {
+        try {
+          submissionMonitor?.dispose();
+        } catch {}
+      }
       submissionMonitor = null;
 
       if (fieldTracker) {
@@ -190,7 +231,9 @@ export default defineContentScript({
         captureService = new CaptureService();
         captureMemoryManager = new CaptureMemoryManager();
 
-        submissionMonitor.start();
+        if (!submissionMonitor.isRunning()) {
+          submissionMonitor.start();
+        }
         await captureService.initializeAutoTracking(
           formDetectionService,
           fieldTracker,
@@ -230,6 +273,7 @@ export default defineContentScript({
 
               const trackedFields =
                 await currentFieldTracker.getCapturedFields();
+              await currentFieldTracker.resetSteps();
 
               if (trackedFields.length === 0) {
                 logger.info("No tracked fields to capture");
@@ -260,6 +304,14 @@ export default defineContentScript({
             }
           },
         );
+
+        unlistenStepAdvance = submissionMonitor.onStepAdvance(async () => {
+          await fieldTracker?.advanceStep();
+        });
+
+        unlistenStepReady = submissionMonitor.onStepReady(async () => {
+          await captureService?.refreshTracking();
+        });
       } catch (error) {
         logger.error("Failed to start auto capture:", error);
         await stopAutoCapture("initialization failure");
@@ -280,6 +332,13 @@ export default defineContentScript({
 
     await syncAutoCaptureFromSettings("initial settings");
 
+    if (frameInfo.isMainFrame) {
+      await wizardTracker.initialize();
+      if (wizardTracker.isAutofillArmed()) {
+        ensureWizardAutofillResume();
+      }
+    }
+
     unwatchCaptureSettings = storage.captureSettings.watch(() => {
       if (!frameInfo.isMainFrame) return;
 
@@ -351,6 +410,52 @@ export default defineContentScript({
       rightClickGuideManager.destroy();
     };
 
+    const inlineSuggestions = new InlineSuggestions(
+      formDetectionService,
+      (field, suggestion) => {
+        fieldTracker?.markFieldAsAIFilled(
+          field.opid,
+          suggestion.answer,
+          undefined,
+          [suggestion.memoryId],
+        );
+        contentAutofillMessaging
+          .sendMessage("incrementMemoryUsage", {
+            memoryIds: [suggestion.memoryId],
+          })
+          .catch((error) => {
+            logger.error("Failed to record suggestion usage:", error);
+          });
+      },
+    );
+
+    const syncInlineSuggestions = (settings: AISettings) => {
+      const { hostname, pathname } = window.location;
+
+      if (
+        settings.autoFillEnabled &&
+        settings.inlineSuggestionsEnabled &&
+        !isMessagingSite(hostname, pathname)
+      ) {
+        inlineSuggestions.start();
+      } else {
+        inlineSuggestions.stop();
+      }
+    };
+
+    storage.aiSettings
+      .getValue()
+      .then(syncInlineSuggestions)
+      .catch((error) => {
+        logger.error("Failed to load inline suggestion settings:", error);
+      });
+
+    const unwatchAiSettings = storage.aiSettings.watch((newSettings) => {
+      if (newSettings) {
+        syncInlineSuggestions(newSettings);
+      }
+    });
+
     contentAutofillMessaging.onMessage(
       "updateProgress",
       async ({ data: progress }: { data: AutofillProgress }) => {
@@ -376,6 +481,10 @@ export default defineContentScript({
           return true;
         }
 
+        // Lets autofill pick up again on later steps of a multi-step form
+        await wizardTracker.armAutofill();
+        ensureWizardAutofillResume();
+
         return handleShowPreview(
           data,
           ctx,
@@ -392,9 +501,55 @@ export default defineContentScript({
         `Filling ${fieldsToFill.length} fields in ${frameInfo.isMainFrame ? "main frame" : "iframe"}`,
       );
 
+      // Marked before filling so later edits can be told apart from ours
+      for (const {
+        fieldOpid,
+        value,
+        confidence,
+        memoryIds,
+        fieldKey,
+      } of fieldsToFill) {
+        fieldTracker?.markFieldAsAIFilled(
+          fieldOpid,
+          value,
+          confidence,
+          memoryIds,
+          fieldKey,
+        );
+      }
+
       await handleFill(fieldsToFill, frameInfo, formDetectionService);
     });
 
+    // CDP fills skip `fillFields`, so each frame looks for the elements the
+    // background is about to fill and tracks them the same way
+    contentAutofillMessaging.onMessage(
+      "markCDPFieldsFilled",
+      async ({ data }) => {
+        if (!fieldTracker) return;
+
+        for (const {
+          cdpField,
+          value,
+          confidence,
+          memoryIds,
+          fieldKey,
+        } of data.fieldsToFill) {
+          const field =
+            cdpField && formDetectionService.detectCDPField(cdpField);
+          if (!field) continue;
+
+          fieldTracker.markFieldAsAIFilled(
+            field.opid,
+            value,
+            confidence,
+            memoryIds,
+            fieldKey,
+          );
+        }
+      },
+    );
+
     contentAutofillMessaging.onMessage("closePreview", async () => {
       if (!frameInfo.isMainFrame) {
         return true;
@@ -426,6 +581,44 @@ export default defineContentScript({
       return true;
     });
 
+    contentAutofillMessaging.onMessage("captureCurrentForm", async () => {
+      if (!frameInfo.isMainFrame) {
+        return 0;
+      }
+
+      const result = await formDetectionService.detectFormsInCurrentFrame();
+      const detectedForms = result.forms
+        .map((form) => formDetectionService.getCachedForm(form.opid))
+        .filter((form): form is DetectedForm => form !== null);
+      const focusedForms = detectedForms.filter((form) =>
+        form.fields.some(
+          (field) => result.success && field.opid === result.focusedFieldOpid,
+        ),
+      );
+
+      const capturedFields = (
+        captureService ?? new CaptureService()
+      ).captureCurrentValues(
+        focusedForms.length > 0 ? focusedForms : detectedForms,
+      );
+
+      if (capturedFields.length === 0) {
+        await getToastManager().show(
+          ctx,
+          "Nothing to save here yet. Fill in the form first.",
+          "info",
+        );
+        return 0;
+      }
+
+      await (captureMemoryManager ?? new CaptureMemoryManager()).show(
+        ctx,
+        capturedFields,
+      );
+
+      return capturedFields.length;
+    });
+
     ctx.onInvalidated(() => {
       try {
         formDetectionService.dispose();
@@ -436,17 +629,26 @@ export default defineContentScript({
       } catch {}
       unwatchCaptureSettings = null;
 
+      try {
+        unwatchAiSettings();
+        inlineSuggestions.stop();
+      } catch {}
+
       try {
         unlistenSubmission?.();
+        unlistenStepAdvance?.();
+        unlistenStepReady?.();
+        unlistenWizardResume?.();
       } catch {}
       unlistenSubmission = null;
+      unlistenStepAdvance = null;
+      unlistenStepReady = null;
+      unlistenWizardResume = null;
 
       if (fieldTracker) {
         fieldTracker.dispose();
       }
-      if (submissionMonitor) {
-        submissionMonitor.dispose();
-      }
+      getFormSubmissionMonitor().dispose();
       if (captureService) {
         captureService.dispose();
       }
@@ -15,6 +15,7 @@ import type { FieldDataTracker } from "./field-data-tracker";
 import type { FormDetectionService } from "./form-detection-service";
 import type { FormSubmissionMonitor } from "./form-submission-monitor";
 import { serializeForms } from "./iframe-handler";
+import { getWizardTracker } from "./wizard-tracker";
 
 const logger = createLogger("capture-service");
 
@@ -53,11 +54,15 @@ export class CaptureService {
         allForms = formDetectionService.getCachedForms();
       }
 
+      const wizard = getWizardTracker();
+      await wizard.initialize();
+
       this.sessionId = crypto.randomUUID();
       await fieldTracker.startTracking(
         window.location.href,
         document.title,
         this.sessionId,
+        wizard.isActive(),
       );
 
       if (allForms.length === 0) {
@@ -230,6 +235,20 @@ export class CaptureService {
     }, 500);
   };
 
+  /**
+   * Re-detects fields after a wizard step change, which often swaps the
+   * fields of a form without changing the number of forms on the page.
+   */
+  refreshTracking = async () => {
+    if (!this.formDetectionService) return;
+
+    await this.formDetectionService.detectFormsInCurrentFrame();
+    const allForms = this.formDetectionService.getCachedForms();
+
+    this.lastFormCount = allForms.length;
+    this.attachFieldListeners(allForms);
+  };
+
   dispose(): void {
     if (this.recheckFormsTimeout) {
       clearTimeout(this.recheckFormsTimeout);
@@ -260,6 +279,33 @@ export class CaptureService {
     return userEntered;
   }
 
+  /**
+   * Reads the values currently typed into the given forms, for capturing a
+   * form on request rather than on submit.
+   */
+  captureCurrentValues(forms: DetectedForm[]): CapturedFieldData[] {
+    const timestamp = Date.now();
+    const elements = new Map(
+      forms.flatMap((form) =>
+        form.fields.map((field) => [field.opid, field.element] as const),
+      ),
+    );
+
+    const trackedFields: TrackedFieldData[] = serializeForms(forms)
+      .flatMap((form) => form.fields)
+      .filter((field) => field.metadata.fieldType !== "password")
+      .map((field) => ({
+        fieldOpid: field.opid,
+        formOpid: field.formOpid,
+        value: elements.get(field.opid)?.value.trim() ?? "",
+        timestamp,
+        wasAIFilled: false,
+        metadata: field.metadata,
+      }));
+
+    return this.identifyCaptureOpportunities(trackedFields);
+  }
+
   private findUserEnteredFields(
     trackedFields: TrackedFieldData[],
   ): CapturedFieldData[] {
@@ -250,6 +250,10 @@ export class FieldAnalyzer {
             ? element.maxLength
             : null
           : null,
+      accept:
+        element instanceof HTMLInputElement && element.type === "file"
+          ? element.getAttribute("accept") || null
+          : null,
     };
   }
 
@@ -499,6 +503,7 @@ export class FieldAnalyzer {
         date: "date",
         radio: "radio",
         checkbox: "checkbox",
+        file: "file",
       };
 
       return typeMap[type] || "text";
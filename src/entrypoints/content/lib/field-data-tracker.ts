@@ -1,3 +1,5 @@
+import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
+import { buildDomFieldKey } from "@/lib/autofill/form-fingerprint";
 import { isTrackableFieldType } from "@/lib/copies";
 import { createLogger } from "@/lib/logger";
 import type {
@@ -14,6 +16,22 @@ const logger = createLogger("field-data-tracker");
 const STORAGE_KEY = "local:capture:session";
 const SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
 
+/**
+ * Appends the current step to the archived ones. Going Back and then Next
+ * again archives a step twice, so fields seen again replace their older copy.
+ */
+const mergeSteps = (
+  archived: TrackedFieldData[],
+  current: TrackedFieldData[],
+): TrackedFieldData[] => {
+  const currentKeys = new Set(current.map((field) => buildDomFieldKey(field)));
+
+  return [
+    ...archived.filter((field) => !currentKeys.has(buildDomFieldKey(field))),
+    ...current,
+  ];
+};
+
 export class FieldDataTracker {
   private session: CaptureSession | null = null;
   private activeListeners = new Map<FieldOpId, () => void>();
@@ -21,8 +39,14 @@ export class FieldDataTracker {
   private initialized = false;
   private aiFilledFields = new Map<
     FieldOpId,
-    { value: string; confidence?: number }
+    {
+      value: string;
+      confidence?: number;
+      memoryIds?: string[];
+      fieldKey?: string;
+    }
   >();
+  private editedFields = new Set<FieldOpId>();
 
   async initialize(): Promise<void> {
     if (this.initialized) return;
@@ -35,12 +59,25 @@ export class FieldDataTracker {
     url: string,
     pageTitle: string,
     sessionId: string,
+    continueWizard = false,
   ): Promise<void> {
     if (this.session && this.session.url === url) {
       logger.info("Reusing existing tracking session for URL:", url);
       return;
     }
 
+    if (
+      this.session &&
+      continueWizard &&
+      new URL(this.session.url).origin === new URL(url).origin
+    ) {
+      logger.info("Continuing wizard tracking session on new page:", url);
+      this.session.url = url;
+      this.session.pageTitle = pageTitle;
+      await this.saveSession();
+      return;
+    }
+
     const existingTrackedFields =
       this.session?.url === url ? this.session.trackedFields : new Map();
 
@@ -49,6 +86,7 @@ export class FieldDataTracker {
       url,
       pageTitle,
       trackedFields: existingTrackedFields,
+      previousSteps: [],
       startedAt: Date.now(),
     };
 
@@ -132,18 +170,78 @@ export class FieldDataTracker {
     this.session.trackedFields.set(field.opid, trackedData);
     await this.saveSession();
 
+    if (aiFilledData && value !== aiFilledData.value.trim()) {
+      await this.reportEditedSuggestion(
+        field,
+        aiFilledData.memoryIds,
+        aiFilledData.fieldKey,
+      );
+    }
+
     logger.info(`Tracked field ${field.opid}:`, {
       value: value.substring(0, 20),
       wasAIFilled,
     });
   }
 
+  // An edited AI value counts against its memories, once per fill. The key
+  // the preview voted under is reused so CDP fills land on the same entries.
+  private async reportEditedSuggestion(
+    field: DetectedFieldSnapshot,
+    memoryIds: string[] | undefined,
+    fieldKey = buildDomFieldKey(field),
+  ): Promise<void> {
+    if (!memoryIds?.length || this.editedFields.has(field.opid)) return;
+
+    this.editedFields.add(field.opid);
+
+    try {
+      await contentAutofillMessaging.sendMessage("recordFieldFeedback", {
+        events: [{ fieldKey, memoryIds, signal: "edited" }],
+      });
+    } catch (error) {
+      logger.error("Failed to record edited suggestion:", error);
+    }
+  }
+
   async getCapturedFields(): Promise<TrackedFieldData[]> {
     const session = await this.getSession();
 
     if (!session) return [];
 
-    return Array.from(session.trackedFields.values());
+    return mergeSteps(
+      session.previousSteps,
+      Array.from(session.trackedFields.values()),
+    );
+  }
+
+  /**
+   * Moves the current step's fields aside so the next wizard step starts
+   * clean while the final submission still sees every step.
+   */
+  async advanceStep(): Promise<void> {
+    const session = await this.getSession();
+    if (!session) return;
+
+    session.previousSteps = mergeSteps(
+      session.previousSteps,
+      Array.from(session.trackedFields.values()),
+    );
+    session.trackedFields = new Map();
+    await this.saveSession();
+
+    logger.info(
+      `Archived wizard step, ${session.previousSteps.length} fields so far`,
+    );
+  }
+
+  async resetSteps(): Promise<void> {
+    const session = await this.getSession();
+    if (!session) return;
+
+    session.previousSteps = [];
+    session.trackedFields = new Map();
+    await this.saveSession();
   }
 
   async getSession(): Promise<CaptureSession | null> {
@@ -158,6 +256,8 @@ export class FieldDataTracker {
     opid: FieldOpId,
     value: string,
     confidence?: number,
+    memoryIds?: string[],
+    fieldKey?: string,
   ): void {
     if (confidence !== undefined) {
       if (typeof confidence !== "number" || Number.isNaN(confidence)) {
@@ -174,13 +274,15 @@ export class FieldDataTracker {
       }
     }
 
-    this.aiFilledFields.set(opid, { value, confidence });
+    this.aiFilledFields.set(opid, { value, confidence, memoryIds, fieldKey });
+    this.editedFields.delete(opid);
   }
 
   async clearSession(): Promise<void> {
     this.removeAllListeners();
     this.session = null;
     this.aiFilledFields.clear();
+    this.editedFields.clear();
 
     await browser.storage.local.remove(STORAGE_KEY);
     logger.info("Cleared capture session");
@@ -210,6 +312,7 @@ export class FieldDataTracker {
       url: this.session.url,
       pageTitle: this.session.pageTitle,
       trackedFields: Array.from(this.session.trackedFields.entries()),
+      previousSteps: this.session.previousSteps,
       startedAt: this.session.startedAt,
     };
 
@@ -225,6 +328,7 @@ export class FieldDataTracker {
             url: string;
             pageTitle: string;
             trackedFields: [FieldOpId, TrackedFieldData][];
+            previousSteps?: TrackedFieldData[];
             startedAt: number;
           }
         | undefined;
@@ -247,6 +351,7 @@ export class FieldDataTracker {
         url: stored.url,
         pageTitle: stored.pageTitle,
         trackedFields: new Map(stored.trackedFields),
+        previousSteps: stored.previousSteps ?? [],
         startedAt: stored.startedAt,
       };
 
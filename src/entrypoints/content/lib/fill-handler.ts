@@ -1,3 +1,4 @@
+import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
 import { delay } from "@/lib/delay";
 import { createLogger } from "@/lib/logger";
 import type {
@@ -62,7 +63,7 @@ const fillWithHumanTyping = async (
   }
 };
 
-const fillWithNativeSetter = (
+export const fillWithNativeSetter = (
   element: HTMLInputElement | HTMLTextAreaElement,
   value: string,
 ): void => {
@@ -254,6 +255,40 @@ const fillReactSelect = async (
   }
 };
 
+const attachDocument = async (
+  element: HTMLInputElement,
+  documentId: string,
+): Promise<boolean> => {
+  try {
+    // Contents are read in the background, which holds the vault key
+    const file = await contentAutofillMessaging.sendMessage("getDocumentFile", {
+      documentId,
+    });
+
+    if (!file) {
+      logger.warn(`Document ${documentId} is not available, skipping`);
+      return false;
+    }
+
+    const bytes = Uint8Array.from(atob(file.data), (char) =>
+      char.charCodeAt(0),
+    );
+    const transfer = new DataTransfer();
+    transfer.items.add(
+      new File([bytes], file.fileName, { type: file.mimeType }),
+    );
+    element.files = transfer.files;
+
+    element.dispatchEvent(new Event("input", { bubbles: true }));
+    element.dispatchEvent(new Event("change", { bubbles: true }));
+
+    return true;
+  } catch (error) {
+    logger.error("Failed to attach document:", error);
+    return false;
+  }
+};
+
 export const handleFill = async (
   fieldsToFill: FieldsToFillData,
   frameInfo: { isMainFrame: boolean },
@@ -265,7 +300,7 @@ export const handleFill = async (
     `Filling ${fieldsToFill.length} fields in ${frameInfo.isMainFrame ? "main frame" : "iframe"}`,
   );
 
-  for (const { fieldOpid, value } of fieldsToFill) {
+  for (const { fieldOpid, value, documentId } of fieldsToFill) {
     const field = formDetectionService.getCachedField(fieldOpid as FieldOpId);
 
     if (!field) {
@@ -275,6 +310,13 @@ export const handleFill = async (
 
     const element = field.element;
 
+    if (element instanceof HTMLInputElement && element.type === "file") {
+      if (documentId && (await attachDocument(element, documentId))) {
+        logger.info(`Attached document to field ${fieldOpid}`);
+      }
+      continue;
+    }
+
     if (element instanceof HTMLInputElement) {
       element.focus({ preventScroll: true });
 
@@ -10,7 +10,9 @@ import {
 import type { WebsiteContextExtractor } from "@/lib/context/website-context-extractor";
 import { createLogger } from "@/lib/logger";
 import type {
+  CDPDetectedField,
   DetectedField,
+  DetectedFieldSnapshot,
   DetectedForm,
   DetectedFormSnapshot,
   DetectFormsResult,
@@ -29,7 +31,6 @@ const ignoredTypes = new Set([
   "reset",
   "button",
   "image",
-  "file",
   "radio",
   "checkbox",
   "color",
@@ -107,6 +108,7 @@ export class FormDetectionService {
         totalFields,
         websiteContext,
         frameInfo,
+        focusedFieldOpid: this.findFocusedField(processedForms),
       };
     } catch (error) {
       logger.error("Error detecting forms:", error);
@@ -120,6 +122,61 @@ export class FormDetectionService {
     }
   }
 
+  /**
+   * Analyzes one field without rescanning the page, for suggestions while
+   * the user types. A field seen by the last scan keeps its opid.
+   */
+  detectField(element: HTMLElement): DetectedFieldSnapshot | null {
+    if (!this.isFieldElement(element) || !this.isValidField(element)) {
+      return null;
+    }
+
+    let field = Array.from(this.fieldCache.values()).find(
+      (cached) => cached.element === element,
+    );
+
+    if (field) {
+      field.metadata = this.analyzer.analyzeField(field);
+    } else {
+      field = this.createDetectedField(element as FormFieldElement);
+      this.fieldCache.set(field.opid, field);
+    }
+
+    return this.serializeField(
+      field,
+      this.getIframeOffset(this.getFrameInfo()),
+    );
+  }
+
+  /**
+   * Finds the element a CDP field was detected on, so fills made over CDP
+   * can be tracked like ours. Returns null outside the field's frame.
+   */
+  detectCDPField(cdpField: CDPDetectedField): DetectedFieldSnapshot | null {
+    const { cssSelector, htmlId, htmlName } = cdpField.domMetadata ?? {};
+
+    let element: Element | null = null;
+    try {
+      if (cssSelector) {
+        element = document.querySelector(cssSelector);
+      }
+      if (!element && htmlId) {
+        element = document.getElementById(htmlId);
+      }
+      if (!element && htmlName) {
+        const named = document.querySelectorAll(
+          `[name="${CSS.escape(htmlName)}"]`,
+        );
+        element = named.length === 1 ? named[0] : null;
+      }
+    } catch (error) {
+      logger.warn("Invalid selector for CDP field:", cdpField.opid, error);
+      return null;
+    }
+
+    return element instanceof HTMLElement ? this.detectField(element) : null;
+  }
+
   private detectAll(): DetectedForm[] {
     const forms: DetectedForm[] = [];
     const formElements = this.findFormElements();
@@ -227,26 +284,33 @@ export class FormDetectionService {
       action: form.action,
       method: form.method,
       name: form.name,
-      fields: form.fields.map((field) => {
-        const { rect, ...metadata } = field.metadata;
-        const transformedRect = {
-          x: (rect.x ?? 0) + iframeOffset.x,
-          y: (rect.y ?? 0) + iframeOffset.y,
-          width: rect.width,
-          height: rect.height,
-        };
-
-        return {
-          opid: field.opid,
-          formOpid: field.formOpid,
-          frameId: undefined,
-          highlightIndex: field.highlightIndex,
-          metadata: { ...metadata, rect: transformedRect },
-        };
-      }),
+      fields: form.fields.map((field) =>
+        this.serializeField(field, iframeOffset),
+      ),
     }));
   }
 
+  private serializeField(
+    field: DetectedField,
+    iframeOffset: { x: number; y: number },
+  ): DetectedFieldSnapshot {
+    const { rect, ...metadata } = field.metadata;
+    const transformedRect = {
+      x: (rect.x ?? 0) + iframeOffset.x,
+      y: (rect.y ?? 0) + iframeOffset.y,
+      width: rect.width,
+      height: rect.height,
+    };
+
+    return {
+      opid: field.opid,
+      formOpid: field.formOpid,
+      frameId: undefined,
+      highlightIndex: field.highlightIndex,
+      metadata: { ...metadata, rect: transformedRect },
+    };
+  }
+
   private assignHighlightIndices(forms: DetectedForm[]): void {
     for (const form of forms) {
       for (const field of form.fields) {
@@ -387,7 +451,9 @@ export class FormDetectionService {
       element.hasAttribute("data-bwignore") ||
       element instanceof HTMLButtonElement ||
       (element.offsetParent === null &&
-        element.getAttribute("type") !== "hidden")
+        element.getAttribute("type") !== "hidden" &&
+        // Upload widgets usually hide the real input behind a styled button
+        element.getAttribute("type") !== "file")
     ) {
       return false;
     }
@@ -462,6 +528,19 @@ export class FormDetectionService {
     return { x, y };
   }
 
+  private findFocusedField(forms: DetectedForm[]): FieldOpId | undefined {
+    if (!document.hasFocus()) return undefined;
+
+    let active = document.activeElement;
+    while (active?.shadowRoot?.activeElement) {
+      active = active.shadowRoot.activeElement;
+    }
+
+    return forms
+      .flatMap((form) => form.fields)
+      .find((field) => field.element === active)?.opid;
+  }
+
   getCachedField(fieldOpid: FieldOpId): DetectedField | null {
     return this.fieldCache.get(fieldOpid) ?? null;
   }
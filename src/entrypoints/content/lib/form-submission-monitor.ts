@@ -1,5 +1,6 @@
 import { createLogger } from "@/lib/logger";
 import type { FieldOpId } from "@/types/autofill";
+import { getWizardTracker } from "./wizard-tracker";
 
 const logger = createLogger("form-submission-monitor");
 
@@ -31,11 +32,21 @@ type SubmissionCallback = (
   submittedFields: Set<FieldOpId>,
 ) => void | Promise<void>;
 
+type StepReadyCallback = (stepIndex: number) => void | Promise<void>;
+
 const DUPLICATE_SUBMISSION_THRESHOLD_MS = 1000;
 const FORM_SUBMISSION_TIMEOUT_MS = 1500;
+const STEP_READY_DEBOUNCE_MS = 800;
+const STEP_READY_TIMEOUT_MS = 10000;
 
 export class FormSubmissionMonitor {
   private submissionCallbacks: Set<SubmissionCallback> = new Set();
+  private stepAdvanceCallbacks: Set<SubmissionCallback> = new Set();
+  private stepReadyCallbacks: Set<StepReadyCallback> = new Set();
+  private wizard = getWizardTracker();
+  private awaitingStep = false;
+  private stepReadyDebounce: number | null = null;
+  private stepReadyTimeout: number | null = null;
   private buttonListeners: Map<
     HTMLButtonElement | HTMLInputElement,
     () => void
@@ -64,14 +75,29 @@ export class FormSubmissionMonitor {
     this.startUrlChangeDetection();
     this.isMonitoring = true;
 
+    // A full page load while a wizard awaits its next step is that step
+    void this.wizard.initialize().then(() => {
+      if (this.isMonitoring && this.wizard.isAwaitingNextStep()) {
+        this.awaitNextStep();
+        this.scheduleStepReady();
+      }
+    });
+
     logger.info("Form submission monitor started");
   }
 
+  isRunning(): boolean {
+    return this.isMonitoring;
+  }
+
   dispose(): void {
     if (!this.isMonitoring) return;
 
     this.removeAllListeners();
     this.submissionCallbacks.clear();
+    this.stepAdvanceCallbacks.clear();
+    this.stepReadyCallbacks.clear();
+    this.clearStepWatch();
 
     if (this.observer) {
       this.observer.disconnect();
@@ -102,6 +128,10 @@ export class FormSubmissionMonitor {
     logger.info("Form submission monitor stopped");
   }
 
+  /**
+   * Fires on final submissions only. In a multi-step wizard, the fields of
+   * earlier steps are reported through `onStepAdvance` instead.
+   */
   onSubmission(callback: SubmissionCallback): () => void {
     this.submissionCallbacks.add(callback);
     return () => {
@@ -109,6 +139,20 @@ export class FormSubmissionMonitor {
     };
   }
 
+  onStepAdvance(callback: SubmissionCallback): () => void {
+    this.stepAdvanceCallbacks.add(callback);
+    return () => {
+      this.stepAdvanceCallbacks.delete(callback);
+    };
+  }
+
+  onStepReady(callback: StepReadyCallback): () => void {
+    this.stepReadyCallbacks.add(callback);
+    return () => {
+      this.stepReadyCallbacks.delete(callback);
+    };
+  }
+
   registerFields(
     fields: Array<{
       opid: FieldOpId;
@@ -164,24 +208,36 @@ export class FormSubmissionMonitor {
       return true;
     }
 
-    const text = (
-      element.textContent ||
-      element.getAttribute("value") ||
-      element.getAttribute("aria-label") ||
-      ""
-    ).toLowerCase();
-
-    const id = (element.getAttribute("id") || "").toLowerCase();
-    const className = (element.getAttribute("class") || "").toLowerCase();
-    const name = (element.getAttribute("name") || "").toLowerCase();
-
-    const searchText = `${text} ${id} ${className} ${name}`;
+    const searchText = this.getButtonSearchText(element);
 
     return SUBMIT_BUTTON_KEYWORDS.some((keyword) =>
       searchText.includes(keyword),
     );
   }
 
+  private getButtonSearchText(element: HTMLElement): string {
+    return `${this.getButtonLabel(element)} ${this.getButtonAttributes(element)}`.toLowerCase();
+  }
+
+  private getButtonLabel(element: HTMLElement): string {
+    return (
+      element.textContent?.trim() ||
+      element.getAttribute("value") ||
+      element.getAttribute("aria-label") ||
+      ""
+    );
+  }
+
+  private getButtonAttributes(element: HTMLElement): string {
+    return [
+      element.getAttribute("id"),
+      element.getAttribute("class"),
+      element.getAttribute("name"),
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+
   private attachButtonListener(
     button: HTMLButtonElement | HTMLInputElement,
   ): void {
@@ -190,9 +246,22 @@ export class FormSubmissionMonitor {
     const listener = () => {
       logger.info("Submit button clicked", button);
 
+      const form = button.closest("form");
+
+      if (
+        this.wizard.classifyAction(
+          this.getButtonLabel(button),
+          this.getButtonAttributes(button),
+        ) === "step-advance"
+      ) {
+        this.handleStepAdvance(form).catch((error) => {
+          logger.error("handleStepAdvance error:", error);
+        });
+        return;
+      }
+
       this.scheduleSubmissionTimeout();
 
-      const form = button.closest("form");
       const handleCompletion = () => {
         this.clearPendingSubmissionTimeout();
       };
@@ -218,6 +287,30 @@ export class FormSubmissionMonitor {
     this.buttonListeners.set(button, listener);
   }
 
+  private async handleStepAdvance(form: HTMLFormElement | null): Promise<void> {
+    const key = form ?? "standalone";
+    if (this.isDuplicateSubmission(key)) {
+      logger.info("Skipping duplicate step advance");
+      return;
+    }
+
+    if (form) {
+      this.recentFormSubmissions.set(form, Date.now());
+    } else {
+      this.lastStandaloneSubmission = Date.now();
+    }
+
+    const fields = form
+      ? this.extractFieldOpids(form)
+      : this.extractAllVisibleFieldOpids();
+
+    await this.wizard.recordStepAdvance();
+    logger.info(`Wizard step advance with ${fields.size} fields`);
+
+    this.awaitNextStep();
+    await this.notifyCallbacks(fields, this.stepAdvanceCallbacks);
+  }
+
   private async handleFormSubmission(form: HTMLFormElement): Promise<void> {
     if (this.isDuplicateSubmission(form)) {
       logger.info("Skipping duplicate form submission");
@@ -228,6 +321,7 @@ export class FormSubmissionMonitor {
     const fields = this.extractFieldOpids(form);
     logger.info(`Form submission detected with ${fields.size} fields`);
     await this.notifyCallbacks(fields);
+    await this.completeWizard();
   }
 
   private async handleStandaloneSubmission(): Promise<void> {
@@ -240,6 +334,14 @@ export class FormSubmissionMonitor {
     const fields = this.extractAllVisibleFieldOpids();
     logger.info(`Standalone submission detected with ${fields.size} fields`);
     await this.notifyCallbacks(fields);
+    await this.completeWizard();
+  }
+
+  private async completeWizard(): Promise<void> {
+    if (!this.wizard.isActive() && !this.wizard.isAutofillArmed()) return;
+
+    this.clearStepWatch();
+    await this.wizard.complete();
   }
 
   private isDuplicateSubmission(key: HTMLFormElement | "standalone"): boolean {
@@ -274,10 +376,13 @@ export class FormSubmissionMonitor {
     return new Set(this.trackedFields);
   }
 
-  private async notifyCallbacks(fields: Set<FieldOpId>): Promise<void> {
+  private async notifyCallbacks(
+    fields: Set<FieldOpId>,
+    callbacks: Set<SubmissionCallback> = this.submissionCallbacks,
+  ): Promise<void> {
     const promises: Promise<void>[] = [];
 
-    for (const callback of this.submissionCallbacks) {
+    for (const callback of callbacks) {
       try {
         const result = callback(fields);
         if (result instanceof Promise) {
@@ -300,6 +405,10 @@ export class FormSubmissionMonitor {
       for (const mutation of mutations) {
         for (const node of mutation.addedNodes) {
           if (node instanceof HTMLElement) {
+            if (this.awaitingStep && this.containsFormFields(node)) {
+              this.scheduleStepReady();
+            }
+
             if (
               (node instanceof HTMLButtonElement ||
                 node instanceof HTMLInputElement) &&
@@ -375,6 +484,65 @@ export class FormSubmissionMonitor {
       if (this.pendingSubmissionTimeout) {
         this.triggerPendingSubmission();
       }
+
+      if (this.awaitingStep) {
+        this.scheduleStepReady();
+      }
+    }
+  }
+
+  private containsFormFields(node: HTMLElement): boolean {
+    return (
+      node.matches("input, textarea, select") ||
+      !!node.querySelector("input:not([type='hidden']), textarea, select")
+    );
+  }
+
+  private awaitNextStep(): void {
+    this.clearStepWatch();
+    this.awaitingStep = true;
+
+    // e.g. validation errors kept the user on the same step
+    this.stepReadyTimeout = window.setTimeout(() => {
+      logger.info("No new wizard step appeared, staying on current step");
+      this.clearStepWatch();
+      void this.wizard.markStepReady();
+    }, STEP_READY_TIMEOUT_MS);
+  }
+
+  private scheduleStepReady(): void {
+    if (this.stepReadyDebounce) {
+      window.clearTimeout(this.stepReadyDebounce);
+    }
+
+    this.stepReadyDebounce = window.setTimeout(async () => {
+      this.clearStepWatch();
+      await this.wizard.markStepReady();
+
+      const stepIndex = this.wizard.getStepIndex();
+      logger.info(`Wizard step ${stepIndex} is ready`);
+
+      for (const callback of this.stepReadyCallbacks) {
+        try {
+          await callback(stepIndex);
+        } catch (error) {
+          logger.error("Step ready callback error:", error);
+        }
+      }
+    }, STEP_READY_DEBOUNCE_MS);
+  }
+
+  private clearStepWatch(): void {
+    this.awaitingStep = false;
+
+    if (this.stepReadyDebounce) {
+      window.clearTimeout(this.stepReadyDebounce);
+      this.stepReadyDebounce = null;
+    }
+
+    if (this.stepReadyTimeout) {
+      window.clearTimeout(this.stepReadyTimeout);
+      this.stepReadyTimeout = null;
     }
   }
 
@@ -0,0 +1,246 @@
+import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
+import { createLogger } from "@/lib/logger";
+import type {
+  DetectedFieldSnapshot,
+  FieldSuggestion,
+  FieldType,
+} from "@/types/autofill";
+import { fillWithNativeSetter } from "./fill-handler";
+import type { FormDetectionService } from "./form-detection-service";
+import { SuggestionDropdown } from "./suggestion-dropdown";
+
+const logger = createLogger("inline-suggestions");
+
+const SUGGESTION_DEBOUNCE_MS = 150;
+
+const SUGGESTIBLE_FIELD_TYPES = new Set<FieldType>([
+  "text",
+  "email",
+  "tel",
+  "url",
+  "textarea",
+]);
+
+type TextFieldElement = HTMLInputElement | HTMLTextAreaElement;
+
+const getEventTarget = (event: Event): EventTarget | null =>
+  event.composedPath()[0] ?? event.target;
+
+/**
+ * Offers ranked memories in a dropdown under the focused text field and
+ * narrows them as the user types. Only the focused field is analyzed, so
+ * the page is never rescanned while typing. Suggestions wait for the user
+ * to type, so a page focusing a field from script never sees any.
+ */
+export class InlineSuggestions {
+  private dropdown = new SuggestionDropdown((suggestion) =>
+    this.accept(suggestion),
+  );
+  private element: TextFieldElement | null = null;
+  private field: DetectedFieldSnapshot | null = null;
+  private debounceTimer: number | null = null;
+  private requestId = 0;
+  private isFilling = false;
+  private running = false;
+
+  constructor(
+    private formDetectionService: FormDetectionService,
+    private onAccept: (
+      field: DetectedFieldSnapshot,
+      suggestion: FieldSuggestion,
+    ) => void,
+  ) {}
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+
+    document.addEventListener("focusin", this.handleFocusIn, true);
+    document.addEventListener("focusout", this.handleFocusOut, true);
+    document.addEventListener("input", this.handleInput, true);
+    document.addEventListener("keydown", this.handleKeyDown, true);
+    window.addEventListener("scroll", this.handleReposition, true);
+    window.addEventListener("resize", this.handleReposition);
+
+    logger.info("Inline suggestions started");
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+
+    document.removeEventListener("focusin", this.handleFocusIn, true);
+    document.removeEventListener("focusout", this.handleFocusOut, true);
+    document.removeEventListener("input", this.handleInput, true);
+    document.removeEventListener("keydown", this.handleKeyDown, true);
+    window.removeEventListener("scroll", this.handleReposition, true);
+    window.removeEventListener("resize", this.handleReposition);
+
+    this.detach();
+    logger.info("Inline suggestions stopped");
+  }
+
+  private handleFocusIn = (event: FocusEvent) => {
+    const target = getEventTarget(event);
+
+    if (
+      !(
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement
+      )
+    ) {
+      return;
+    }
+
+    if (target === this.element) return;
+
+    this.detach();
+
+    const field = this.formDetectionService.detectField(target);
+    if (!field || !SUGGESTIBLE_FIELD_TYPES.has(field.metadata.fieldType)) {
+      return;
+    }
+
+    this.element = target;
+    this.field = field;
+  };
+
+  private handleFocusOut = (event: FocusEvent) => {
+    if (getEventTarget(event) === this.element) {
+      this.detach();
+    }
+  };
+
+  private handleInput = (event: Event) => {
+    const element = this.element;
+
+    if (
+      !element ||
+      this.isFilling ||
+      !event.isTrusted ||
+      getEventTarget(event) !== element
+    ) {
+      return;
+    }
+
+    if (!element.value.trim()) {
+      this.cancelPending();
+      this.dropdown.remove();
+      return;
+    }
+
+    this.scheduleSuggestions();
+  };
+
+  private handleKeyDown = (event: KeyboardEvent) => {
+    // Synthetic keys from the page must not pick an answer into the field
+    if (
+      !event.isTrusted ||
+      !this.dropdown.isOpen ||
+      getEventTarget(event) !== this.element
+    ) {
+      return;
+    }
+
+    switch (event.key) {
+      case "ArrowDown":
+      case "ArrowUp":
+        this.dropdown.move(event.key === "ArrowDown" ? 1 : -1);
+        break;
+      case "Enter":
+      case "Tab": {
+        const suggestion = this.dropdown.activeSuggestion;
+        if (!suggestion) return;
+        this.accept(suggestion);
+        break;
+      }
+      case "Escape":
+        this.cancelPending();
+        this.dropdown.remove();
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+  };
+
+  private handleReposition = () => {
+    this.dropdown.reposition();
+  };
+
+  private scheduleSuggestions() {
+    this.cancelPending();
+    this.debounceTimer = window.setTimeout(() => {
+      this.debounceTimer = null;
+      void this.loadSuggestions();
+    }, SUGGESTION_DEBOUNCE_MS);
+  }
+
+  private async loadSuggestions() {
+    const element = this.element;
+    const field = this.field;
+    if (!element || !field) return;
+
+    const requestId = ++this.requestId;
+
+    try {
+      const suggestions = await contentAutofillMessaging.sendMessage(
+        "getFieldSuggestions",
+        { field, typedText: element.value },
+      );
+
+      // Typing moved on while the background was ranking
+      if (requestId !== this.requestId || element !== this.element) return;
+
+      const { maxLength } = field.metadata;
+      this.dropdown.show(
+        element,
+        suggestions.filter(
+          (suggestion) =>
+            !maxLength ||
+            maxLength < 0 ||
+            suggestion.answer.length <= maxLength,
+        ),
+      );
+    } catch (error) {
+      logger.error("Failed to load suggestions:", error);
+    }
+  }
+
+  private accept(suggestion: FieldSuggestion) {
+    const element = this.element;
+    const field = this.field;
+    if (!element || !field) return;
+
+    this.cancelPending();
+    this.dropdown.remove();
+
+    // The setter fires input events that would reopen the dropdown
+    this.isFilling = true;
+    try {
+      fillWithNativeSetter(element, suggestion.answer);
+    } finally {
+      this.isFilling = false;
+    }
+
+    logger.info(`Filled field ${field.opid} from suggestion`);
+    this.onAccept(field, suggestion);
+  }
+
+  private cancelPending() {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.requestId++;
+  }
+
+  private detach() {
+    this.cancelPending();
+    this.dropdown.remove();
+    this.element = null;
+    this.field = null;
+  }
+}
@@ -0,0 +1,244 @@
+import { createLogger } from "@/lib/logger";
+import type { FieldSuggestion } from "@/types/autofill";
+
+const logger = createLogger("content:suggestion-dropdown");
+
+const MIN_WIDTH = 240;
+const MAX_WIDTH = 420;
+const FIELD_GAP = 4;
+
+const STYLES = `
+  * {
+    margin: 0;
+    padding: 0;
+    border: none;
+    box-sizing: border-box;
+  }
+  .panel {
+    overflow: hidden;
+    background: #fff;
+    color: #1a1a1a;
+    border: 1px solid rgba(0, 0, 0, 0.1);
+    border-radius: 8px;
+    box-shadow: 0 6px 16px rgba(0, 0, 0, 0.15);
+    font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif;
+    font-size: 13px;
+  }
+  .list {
+    list-style: none;
+    max-height: 280px;
+    overflow-y: auto;
+    padding: 4px;
+  }
+  .item {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    padding: 8px 10px;
+    border-radius: 6px;
+    cursor: pointer;
+    user-select: none;
+  }
+  .item[aria-selected="true"] {
+    background: #fef3e2;
+  }
+  .answer {
+    display: -webkit-box;
+    -webkit-line-clamp: 2;
+    -webkit-box-orient: vertical;
+    overflow: hidden;
+    line-height: 1.4;
+    white-space: pre-wrap;
+    word-break: break-word;
+  }
+  .question {
+    overflow: hidden;
+    color: #6b6b6b;
+    font-size: 11px;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+  .footer {
+    padding: 6px 10px;
+    border-top: 1px solid rgba(0, 0, 0, 0.08);
+    color: #6b6b6b;
+    font-size: 11px;
+  }
+  @media (prefers-color-scheme: dark) {
+    .panel {
+      background: #1f1f1f;
+      color: #f5f5f5;
+      border-color: rgba(255, 255, 255, 0.12);
+    }
+    .item[aria-selected="true"] {
+      background: #3a2d1f;
+    }
+    .question,
+    .footer {
+      color: #a3a3a3;
+    }
+    .footer {
+      border-top-color: rgba(255, 255, 255, 0.08);
+    }
+  }
+`;
+
+export class SuggestionDropdown {
+  private host: HTMLElement | null = null;
+  private list: HTMLUListElement | null = null;
+  private anchor: HTMLElement | null = null;
+  private suggestions: FieldSuggestion[] = [];
+  private activeIndex = -1;
+
+  constructor(private onSelect: (suggestion: FieldSuggestion) => void) {}
+
+  get isOpen(): boolean {
+    return this.host !== null;
+  }
+
+  get activeSuggestion(): FieldSuggestion | null {
+    return this.suggestions[this.activeIndex] ?? null;
+  }
+
+  show(anchor: HTMLElement, suggestions: FieldSuggestion[]) {
+    if (suggestions.length === 0) {
+      this.remove();
+      return;
+    }
+
+    try {
+      if (!this.host || this.anchor !== anchor) {
+        this.mount(anchor);
+      }
+
+      this.suggestions = suggestions;
+      this.activeIndex = -1;
+      this.render();
+    } catch (err) {
+      logger.error("Show error:", err);
+      this.remove();
+    }
+  }
+
+  /** Moves the highlight, wrapping around at either end */
+  move(step: 1 | -1) {
+    if (this.suggestions.length === 0) return;
+
+    const count = this.suggestions.length;
+    this.activeIndex =
+      this.activeIndex === -1 && step === -1
+        ? count - 1
+        : (this.activeIndex + step + count) % count;
+    this.render();
+  }
+
+  reposition() {
+    if (!this.host || !this.anchor) return;
+
+    if (!this.anchor.isConnected) {
+      this.remove();
+      return;
+    }
+
+    const rect = this.anchor.getBoundingClientRect();
+    const width = Math.min(Math.max(rect.width, MIN_WIDTH), MAX_WIDTH);
+
+    this.host.style.left = `${Math.round(rect.left + window.scrollX)}px`;
+    this.host.style.top = `${Math.round(rect.bottom + window.scrollY + FIELD_GAP)}px`;
+    this.host.style.width = `${Math.round(width)}px`;
+  }
+
+  private mount(anchor: HTMLElement) {
+    this.remove();
+
+    this.anchor = anchor;
+    this.host = document.createElement("div");
+    this.host.id = "superfill-suggestion-host";
+    this.host.style.cssText = `
+      position: absolute;
+      z-index: 2147483647;
+      pointer-events: auto;
+      margin: 0;
+      padding: 0;
+      display: block;
+      box-sizing: border-box;
+    `;
+
+    // Closed so the page cannot read the suggested answers
+    const shadow = this.host.attachShadow({ mode: "closed" });
+
+    const styleEl = document.createElement("style");
+    styleEl.textContent = STYLES;
+    shadow.appendChild(styleEl);
+
+    const panel = document.createElement("div");
+    panel.className = "panel";
+
+    this.list = document.createElement("ul");
+    this.list.className = "list";
+    this.list.setAttribute("role", "listbox");
+    this.list.setAttribute("aria-label", "superfill.ai suggestions");
+    // Keeps focus in the field while an item is clicked
+    this.list.addEventListener("mousedown", (e) => e.preventDefault());
+
+    const footer = document.createElement("div");
+    footer.className = "footer";
+    footer.textContent = "↑↓ to choose · Tab or Enter to fill · Esc to close";
+
+    panel.append(this.list, footer);
+    shadow.appendChild(panel);
+    document.body.appendChild(this.host);
+
+    this.reposition();
+  }
+
+  private render() {
+    if (!this.list) return;
+
+    this.list.replaceChildren(
+      ...this.suggestions.map((suggestion, index) => {
+        const item = document.createElement("li");
+        item.className = "item";
+        item.setAttribute("role", "option");
+        item.setAttribute("aria-selected", String(index === this.activeIndex));
+
+        const answer = document.createElement("span");
+        answer.className = "answer";
+        answer.textContent = suggestion.answer;
+        item.appendChild(answer);
+
+        if (suggestion.question) {
+          const question = document.createElement("span");
+          question.className = "question";
+          question.textContent = suggestion.question;
+          item.appendChild(question);
+        }
+
+        item.addEventListener("click", (e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          if (!e.isTrusted) return;
+          this.onSelect(suggestion);
+        });
+
+        return item;
+      }),
+    );
+
+    this.list.children[this.activeIndex]?.scrollIntoView({ block: "nearest" });
+  }
+
+  remove() {
+    try {
+      this.host?.remove();
+    } catch (err) {
+      logger.warn("Remove error:", err);
+    }
+
+    this.host = null;
+    this.list = null;
+    this.anchor = null;
+    this.suggestions = [];
+    this.activeIndex = -1;
+  }
+}
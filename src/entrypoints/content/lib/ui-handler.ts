@@ -58,7 +58,7 @@ export const handleUpdateProgress = async (
   try {
     const settingStore = await storage.aiSettings.getValue();
 
-    if (settingStore.autopilotMode) {
+    if (settingStore.autopilotMode && !progress.forcePreview) {
       if (
         progress.state === "showing-preview" ||
         progress.state === "completed"
@@ -103,23 +103,20 @@ export const handleShowPreview = async (
   });
 
   const settingStore = await storage.aiSettings.getValue();
+  const useAutopilot = settingStore.autopilotMode && !data.forcePreview;
   let manager: PreviewSidebarManager | AutopilotManager;
 
-  if (settingStore.autopilotMode) {
+  if (useAutopilot) {
     manager = ensureAutopilotManager(ctx, getFieldMetadata, getFormMetadata);
   } else {
     manager = ensurePreviewManager(ctx, getFieldMetadata, getFormMetadata);
   }
 
   try {
-    if (settingStore.autopilotMode && manager instanceof AutopilotManager) {
+    if (useAutopilot && manager instanceof AutopilotManager) {
       logger.info("Autopilot manager created, attempting to show...");
 
-      await manager.processAutofillData(
-        data.mappings,
-        settingStore.confidenceThreshold,
-        data.sessionId,
-      );
+      await manager.processAutofillData(data.mappings, data.sessionId);
 
       logger.info("Autopilot manager processed data successfully");
     } else if (manager instanceof PreviewSidebarManager) {
@@ -0,0 +1,205 @@
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger("wizard-tracker");
+
+const STORAGE_KEY_PREFIX = "local:capture:wizard:";
+const WIZARD_TIMEOUT = 30 * 60 * 1000; // 30 minutes
+
+const STEP_ADVANCE_KEYWORDS = [
+  "next",
+  "continue",
+  "proceed",
+  "review",
+  "go to step",
+];
+
+// Checked first so "Review and submit" is not mistaken for a step
+const FINAL_SUBMIT_KEYWORDS = [
+  "submit",
+  "finish",
+  "complete",
+  "place order",
+  "apply",
+  "send",
+];
+
+const WIZARD_INDICATOR_SELECTORS = [
+  '[aria-current="step"]',
+  '[role="progressbar"]',
+  "[data-step]",
+  '[class*="stepper" i]',
+  '[class*="wizard" i]',
+  '[class*="progress-step" i]',
+  '[data-automation-id*="progressBar" i]',
+];
+
+const STEP_TEXT_PATTERN = /\bstep\s+\d+\s*(of|\/)\s*\d+\b/i;
+
+// Whole words only, so "autocomplete" or "sender" are not final submits
+const toWordPattern = (keywords: string[]) =>
+  new RegExp(`\\b(${keywords.join("|")})\\b`);
+
+const FINAL_SUBMIT_PATTERN = toWordPattern(FINAL_SUBMIT_KEYWORDS);
+const STEP_ADVANCE_PATTERN = toWordPattern(STEP_ADVANCE_KEYWORDS);
+
+export type SubmitActionKind = "step-advance" | "final-submit";
+
+interface WizardState {
+  stepIndex: number;
+  awaitingNextStep: boolean;
+  autofillArmed: boolean;
+  updatedAt: number;
+}
+
+// Splits "nextStep", "btn-submit" and "final_submit" into words
+const toWords = (text: string): string =>
+  text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[-_.]+/g, " ")
+    .toLowerCase();
+
+const matchActionKeywords = (text: string): SubmitActionKind | null => {
+  const words = toWords(text);
+  if (FINAL_SUBMIT_PATTERN.test(words)) return "final-submit";
+  if (STEP_ADVANCE_PATTERN.test(words)) return "step-advance";
+  return null;
+};
+
+const hasWizardIndicators = (): boolean => {
+  if (
+    WIZARD_INDICATOR_SELECTORS.some((selector) =>
+      document.querySelector(selector),
+    )
+  ) {
+    return true;
+  }
+
+  return STEP_TEXT_PATTERN.test(document.body?.textContent ?? "");
+};
+
+/**
+ * Keeps track of multi-step forms (e.g. Workday-style applications) across
+ * SPA route changes and full page loads on the same origin.
+ */
+export class WizardTracker {
+  private readonly storageKey =
+    `${STORAGE_KEY_PREFIX}${window.location.origin}`;
+  private state: WizardState | null = null;
+  private initPromise: Promise<void> | null = null;
+
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.loadState();
+    }
+    return this.initPromise;
+  }
+
+  isActive(): boolean {
+    return this.state !== null && this.state.stepIndex > 0;
+  }
+
+  isAwaitingNextStep(): boolean {
+    return this.state?.awaitingNextStep ?? false;
+  }
+
+  isAutofillArmed(): boolean {
+    return this.state?.autofillArmed ?? false;
+  }
+
+  getStepIndex(): number {
+    return this.state?.stepIndex ?? 0;
+  }
+
+  /**
+   * Classifies a button by its visible text or value. The id, class and name
+   * are only a fallback for buttons without text, since they often describe
+   * the page ("completed-steps") rather than the action.
+   */
+  classifyAction(label: string, attributes = ""): SubmitActionKind {
+    const kind = matchActionKeywords(label) ?? matchActionKeywords(attributes);
+
+    if (kind !== "step-advance") return "final-submit";
+
+    // A lone "Continue" on a regular form is still a submission
+    return this.isActive() || hasWizardIndicators()
+      ? "step-advance"
+      : "final-submit";
+  }
+
+  async recordStepAdvance(): Promise<void> {
+    const state = this.ensureState();
+    state.stepIndex++;
+    state.awaitingNextStep = true;
+    await this.saveState();
+
+    logger.info(`Wizard advanced to step ${state.stepIndex}`);
+  }
+
+  async markStepReady(): Promise<void> {
+    if (!this.state?.awaitingNextStep) return;
+
+    this.state.awaitingNextStep = false;
+    await this.saveState();
+  }
+
+  async armAutofill(): Promise<void> {
+    const state = this.ensureState();
+    if (state.autofillArmed) return;
+
+    state.autofillArmed = true;
+    await this.saveState();
+  }
+
+  async complete(): Promise<void> {
+    this.state = null;
+    await browser.storage.local.remove(this.storageKey);
+    logger.info("Wizard completed");
+  }
+
+  private ensureState(): WizardState {
+    if (!this.state) {
+      this.state = {
+        stepIndex: 0,
+        awaitingNextStep: false,
+        autofillArmed: false,
+        updatedAt: Date.now(),
+      };
+    }
+    return this.state;
+  }
+
+  private async saveState(): Promise<void> {
+    if (!this.state) return;
+
+    this.state.updatedAt = Date.now();
+    await browser.storage.local.set({ [this.storageKey]: this.state });
+  }
+
+  private async loadState(): Promise<void> {
+    try {
+      const result = await browser.storage.local.get(this.storageKey);
+      const stored = result[this.storageKey] as WizardState | undefined;
+
+      if (!stored) return;
+
+      if (Date.now() - stored.updatedAt > WIZARD_TIMEOUT) {
+        await browser.storage.local.remove(this.storageKey);
+        return;
+      }
+
+      this.state = stored;
+      logger.info("Resumed wizard at step", stored.stepIndex);
+    } catch (error) {
+      logger.error("Failed to load wizard state:", error);
+    }
+  }
+}
+
+let wizardInstance: WizardTracker | null = null;
+
+export function getWizardTracker(): WizardTracker {
+  if (!wizardInstance) {
+    wizardInstance = new WizardTracker();
+  }
+  return wizardInstance;
+}
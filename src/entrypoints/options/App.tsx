@@ -3,15 +3,28 @@ import { useEffect, useState } from "react";
 import { useHotkeys } from "react-hotkeys-hook";
 import { browser } from "wxt/browser";
 import { LoginDialog } from "@/components/features/auth/login-dialog";
+import { FillHistory } from "@/components/features/history/fill-history";
 import { EntryForm } from "@/components/features/memory/entry-form";
 import { EntryList } from "@/components/features/memory/entry-list";
 import { AiProviderSettings } from "@/components/features/setting/ai-provider-settings";
+import { AiUsageSettings } from "@/components/features/setting/ai-usage-settings";
 import { AutofillSettings } from "@/components/features/setting/autofill-settings";
 import { CaptureSettings } from "@/components/features/setting/capture-settings";
 import { CloudUsageDisplay } from "@/components/features/setting/cloud-usage-display";
+import { DocumentStoreSettings } from "@/components/features/setting/document-store-settings";
+import { FieldRulesSettings } from "@/components/features/setting/field-rules-settings";
+import { KeyboardShortcutsSettings } from "@/components/features/setting/keyboard-shortcuts-settings";
+import { MemoryProfileSettings } from "@/components/features/setting/memory-profile-settings";
+import { ModelRoutingSettings } from "@/components/features/setting/model-routing-settings";
 import { OnboardingDialog } from "@/components/features/setting/onboarding-dialog";
+import { PromptSettings } from "@/components/features/setting/prompt-settings";
+import { SyncEncryptionSettings } from "@/components/features/setting/sync-encryption-settings";
+import { SyncSettings } from "@/components/features/setting/sync-settings";
 import { UpdateTourDialog } from "@/components/features/setting/update-tour-dialog";
+import { VaultSettings } from "@/components/features/setting/vault-settings";
 import { WelcomeTourDialog } from "@/components/features/setting/welcome-tour-dialog";
+import { SyncConflictDialog } from "@/components/features/sync/sync-conflict-dialog";
+import { VaultUnlockCard } from "@/components/features/vault/vault-unlock-card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -40,6 +53,8 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMemories } from "@/hooks/use-memories";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useSync } from "@/hooks/use-sync";
+import { useSyncBackend } from "@/hooks/use-sync-backend";
+import { useSyncConflicts } from "@/hooks/use-sync-conflicts";
 import { createLogger } from "@/lib/logger";
 import { storage } from "@/lib/storage";
 import { getCurrentAppTour } from "@/lib/tours/tour-definitions";
@@ -59,10 +74,17 @@ export const App = () => {
   } = useAuth();
   const { syncing, canSync, timeUntilNextSync, syncStatus, performSync } =
     useSync();
-  const [activeTab, setActiveTab] = useState<"settings" | "memory">("settings");
+  const [activeTab, setActiveTab] = useState<"settings" | "memory" | "history">(
+    "settings",
+  );
   const [editingEntryId, setEditingEntryId] = useState<string | null>(null);
   const [loginDialogOpen, setLoginDialogOpen] = useState(false);
-  const { entries } = useMemories();
+  const [conflictDialogOpen, setConflictDialogOpen] = useState(false);
+  const { conflicts } = useSyncConflicts();
+  const { backend: syncBackend } = useSyncBackend();
+  // Only the hosted backend needs an account
+  const syncAvailable = isAuthenticated || syncBackend.type !== "supabase";
+  const { entries, isLocked } = useMemories();
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [showWelcomeTour, setShowWelcomeTour] = useState(false);
   const [showUpdateTour, setShowUpdateTour] = useState(false);
@@ -151,6 +173,10 @@ export const App = () => {
     setActiveTab("settings");
   });
 
+  useHotkeys("h", () => {
+    setActiveTab("history");
+  });
+
   const handleEdit = (entryId: string) => {
     setEditingEntryId(entryId);
   };
@@ -175,7 +201,7 @@ export const App = () => {
   };
 
   const handleSync = async () => {
-    if (!isAuthenticated) {
+    if (!syncAvailable) {
       setLoginDialogOpen(true);
       return;
     }
@@ -278,16 +304,7 @@ export const App = () => {
           <CloudUsageDisplay />
         </div>
         <div className="flex items-center gap-2 shrink-0">
-          {!isAuthenticated ? (
-            <Button
-              onClick={() => setLoginDialogOpen(true)}
-              disabled={loading}
-              variant="outline"
-              size="sm"
-            >
-              {loading ? "Loading auth..." : "Sign in"}
-            </Button>
-          ) : (
+          {syncAvailable && (
             <>
               <Button
                 onClick={handleSync}
@@ -297,11 +314,34 @@ export const App = () => {
               >
                 {getSyncButtonText()}
               </Button>
-              <Button onClick={handleSignOut} variant="ghost" size="sm">
-                Sign out
-              </Button>
+              {conflicts.length > 0 && (
+                <Button
+                  onClick={() => setConflictDialogOpen(true)}
+                  variant="outline"
+                  size="sm"
+                >
+                  Resolve conflicts
+                  <Badge size="sm" variant="secondary">
+                    {conflicts.length}
+                  </Badge>
+                </Button>
+              )}
             </>
           )}
+          {!isAuthenticated ? (
+            <Button
+              onClick={() => setLoginDialogOpen(true)}
+              disabled={loading}
+              variant="outline"
+              size="sm"
+            >
+              {loading ? "Loading auth..." : "Sign in"}
+            </Button>
+          ) : (
+            <Button onClick={handleSignOut} variant="ghost" size="sm">
+              Sign out
+            </Button>
+          )}
           <Tooltip>
             <TooltipTrigger asChild>
               <Button
@@ -320,6 +360,10 @@ export const App = () => {
       </header>
 
       <LoginDialog open={loginDialogOpen} onOpenChange={setLoginDialogOpen} />
+      <SyncConflictDialog
+        open={conflictDialogOpen}
+        onOpenChange={setConflictDialogOpen}
+      />
 
       <main className="flex-1 overflow-hidden">
         {pendingApproval && (
@@ -351,62 +395,90 @@ export const App = () => {
                 <Kbd>c</Kbd>
               </KbdGroup>
             </TabsTrigger>
+            <TabsTrigger value="history">
+              History
+              <Kbd>h</Kbd>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="settings" className="flex-1 overflow-auto p-6">
             <div className="max-w-3xl mx-auto space-y-6">
               <AutofillSettings />
+              <KeyboardShortcutsSettings />
+              <FieldRulesSettings />
               <CaptureSettings />
+              <MemoryProfileSettings />
+              <DocumentStoreSettings />
+              <VaultSettings />
+              <SyncSettings />
+              {syncAvailable && <SyncEncryptionSettings />}
               <AiProviderSettings />
+              <ModelRoutingSettings />
+              <AiUsageSettings />
+              <PromptSettings />
             </div>
           </TabsContent>
 
           <TabsContent value="memory" className="flex-1 overflow-hidden p-0">
-            <ResizablePanelGroup
-              direction={isMobile ? "vertical" : "horizontal"}
-              className="h-full"
-            >
-              <ResizablePanel defaultSize={50} minSize={30}>
-                <div className="h-full overflow-auto p-4">
-                  <EntryList
-                    onEdit={handleEdit}
-                    onDelete={handleDelete}
-                    onDuplicate={handleDuplicate}
-                  />
-                </div>
-              </ResizablePanel>
-
-              <ResizableHandle withHandle />
-
-              <ResizablePanel defaultSize={50} minSize={30}>
-                <div className="h-full overflow-auto p-4">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>
-                        {editingEntryId ? "Edit Memory" : "Add New Memory"}
-                      </CardTitle>
-                      <CardDescription>
-                        {editingEntryId
-                          ? "Update an existing memory entry"
-                          : "Create a new memory entry"}
-                      </CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <EntryForm
-                        mode={editingEntryId ? "edit" : "create"}
-                        initialData={
-                          editingEntryId
-                            ? entries.find((e) => e.id === editingEntryId)
-                            : undefined
-                        }
-                        onSuccess={handleFormSuccess}
-                        onCancel={editingEntryId ? handleCancelEdit : undefined}
-                      />
-                    </CardContent>
-                  </Card>
-                </div>
-              </ResizablePanel>
-            </ResizablePanelGroup>
+            {isLocked ? (
+              <div className="h-full overflow-auto p-6">
+                <VaultUnlockCard className="max-w-md mx-auto" />
+              </div>
+            ) : (
+              <ResizablePanelGroup
+                direction={isMobile ? "vertical" : "horizontal"}
+                className="h-full"
+              >
+                <ResizablePanel defaultSize={50} minSize={30}>
+                  <div className="h-full overflow-auto p-4">
+                    <EntryList
+                      onEdit={handleEdit}
+                      onDelete={handleDelete}
+                      onDuplicate={handleDuplicate}
+                    />
+                  </div>
+                </ResizablePanel>
+
+                <ResizableHandle withHandle />
+
+                <ResizablePanel defaultSize={50} minSize={30}>
+                  <div className="h-full overflow-auto p-4">
+                    <Card>
+                      <CardHeader>
+                        <CardTitle>
+                          {editingEntryId ? "Edit Memory" : "Add New Memory"}
+                        </CardTitle>
+                        <CardDescription>
+                          {editingEntryId
+                            ? "Update an existing memory entry"
+                            : "Create a new memory entry"}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <EntryForm
+                          mode={editingEntryId ? "edit" : "create"}
+                          initialData={
+                            editingEntryId
+                              ? entries.find((e) => e.id === editingEntryId)
+                              : undefined
+                          }
+                          onSuccess={handleFormSuccess}
+                          onCancel={
+                            editingEntryId ? handleCancelEdit : undefined
+                          }
+                        />
+                      </CardContent>
+                    </Card>
+                  </div>
+                </ResizablePanel>
+              </ResizablePanelGroup>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="flex-1 overflow-auto p-6">
+            <div className="max-w-3xl mx-auto">
+              <FillHistory />
+            </div>
           </TabsContent>
         </Tabs>
       </main>
@@ -10,6 +10,9 @@ import { toast } from "sonner";
 import { browser } from "wxt/browser";
 import { EntryCard } from "@/components/features/memory/entry-card";
 import { EntryForm } from "@/components/features/memory/entry-form";
+import { ProfileSwitcher } from "@/components/features/profile/profile-switcher";
+import { SiteProfileSelect } from "@/components/features/profile/site-profile-select";
+import { VaultUnlockCard } from "@/components/features/vault/vault-unlock-card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -47,6 +50,7 @@ import {
   useMemoryMutations,
   useMemoryStats,
 } from "@/hooks/use-memories";
+import { useProfiles } from "@/hooks/use-profiles";
 import { getAutofillService } from "@/lib/autofill/autofill-service";
 import {
   ERROR_MESSAGE_API_KEY_NOT_CONFIGURED,
@@ -56,11 +60,12 @@ import { createLogger, DEBUG } from "@/lib/logger";
 import type { AIProvider } from "@/lib/providers/registry";
 import { getKeyVaultService } from "@/lib/security/key-vault-service";
 import { storage } from "@/lib/storage";
+import { filterMemoriesByProfile } from "@/lib/storage/profiles";
 
 const logger = createLogger("popup");
 
 export const App = () => {
-  const { entries, loading } = useMemories();
+  const { entries, loading, isLocked } = useMemories();
   const { deleteEntry } = useMemoryMutations();
   const [selectedModels, setSelectedModels] = useState<
     Partial<Record<AIProvider, string>>
@@ -69,7 +74,11 @@ export const App = () => {
     AIProvider | undefined
   >();
   const stats = useMemoryStats();
-  const recentMemories = [...entries]
+  const { activeProfile } = useProfiles();
+  const [activeTabUrl, setActiveTabUrl] = useState("");
+  const recentMemories = [
+    ...filterMemoriesByProfile(entries, activeProfile?.id ?? null),
+  ]
     .sort(
       (a, b) =>
         new Date(b.metadata.updatedAt).getTime() -
@@ -143,6 +152,13 @@ export const App = () => {
     };
   }, []);
 
+  useEffect(() => {
+    browser.tabs
+      .query({ active: true, currentWindow: true })
+      .then(([tab]) => setActiveTabUrl(tab?.url ?? ""))
+      .catch((error) => logger.error("Failed to read active tab:", error));
+  }, []);
+
   useHotkeys("c", () => {
     setActiveTab("add-memory");
     setTimeout(() => {
@@ -310,6 +326,17 @@ export const App = () => {
     );
   }
 
+  if (isLocked) {
+    return (
+      <section
+        className="relative w-full h-[600px] flex items-center justify-center p-6"
+        aria-label="Vault locked"
+      >
+        <VaultUnlockCard />
+      </section>
+    );
+  }
+
   return (
     <section
       className="relative w-full h-[600px] flex flex-col overflow-hidden"
@@ -325,6 +352,7 @@ export const App = () => {
           <h1 className="text-lg font-bold text-primary">{APP_NAME}</h1>
         </div>
         <div className="flex gap-1 items-center">
+          <ProfileSwitcher className="w-[130px]" />
           <ThemeToggle />
           <Tooltip>
             <TooltipTrigger asChild>
@@ -388,6 +416,11 @@ export const App = () => {
                     : "Create your first memory entry to start using AI-powered autofill on web forms."}
                 </CardDescription>
               </CardHeader>
+              {hasMemories && activeTabUrl && (
+                <CardContent>
+                  <SiteProfileSelect pageUrl={activeTabUrl} />
+                </CardContent>
+              )}
               <CardFooter>
                 <span className="text-muted-foreground text-xs underline">
                   {cloudModelsEnabled
@@ -0,0 +1,75 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import { usageBudgetFallback } from "@/lib/storage/ai-settings";
+import {
+  clearAIUsage,
+  getAIUsage,
+  getUsageBudget,
+  setUsageBudget,
+} from "@/lib/storage/ai-usage";
+import type { UsageBudget } from "@/types/usage";
+
+const AI_USAGE_QUERY_KEY = ["ai-usage"];
+const USAGE_BUDGET_QUERY_KEY = ["usage-budget"];
+
+export const useAIUsage = () => {
+  const query = useQuery({
+    queryKey: AI_USAGE_QUERY_KEY,
+    queryFn: getAIUsage,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.aiUsage.watch(() => {
+      queryClient.invalidateQueries({ queryKey: AI_USAGE_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    usage: query.data ?? [],
+    loading: query.isLoading,
+  };
+};
+
+export const useUsageBudget = () => {
+  const query = useQuery({
+    queryKey: USAGE_BUDGET_QUERY_KEY,
+    queryFn: getUsageBudget,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.usageBudget.watch(() => {
+      queryClient.invalidateQueries({ queryKey: USAGE_BUDGET_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    budget: query.data ?? usageBudgetFallback,
+    loading: query.isLoading,
+  };
+};
+
+export const useAIUsageMutations = () => {
+  const setBudget = useMutation({
+    mutationFn: (budget: UsageBudget) => setUsageBudget(budget),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USAGE_BUDGET_QUERY_KEY });
+    },
+  });
+
+  const clear = useMutation({
+    mutationFn: clearAIUsage,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AI_USAGE_QUERY_KEY });
+    },
+  });
+
+  return { setBudget, clear };
+};
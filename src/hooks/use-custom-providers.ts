@@ -0,0 +1,107 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { PROVIDER_KEYS_QUERY_KEY } from "@/hooks/use-provider-keys";
+import { removeEndpointPermission } from "@/lib/providers/host-permissions";
+import { getModelService } from "@/lib/providers/model-service";
+import { NO_API_KEY } from "@/lib/providers/registry";
+import { queryClient } from "@/lib/query";
+import { getKeyValidationService } from "@/lib/security/key-validation-service";
+import { getKeyVaultService } from "@/lib/security/key-vault-service";
+import { storage } from "@/lib/storage";
+import {
+  addCustomProvider,
+  deleteCustomProvider,
+  getCustomProviders,
+  normalizeBaseURL,
+} from "@/lib/storage/custom-providers";
+import type { CustomProvider } from "@/types/settings";
+
+const CUSTOM_PROVIDERS_QUERY_KEY = ["custom-providers"];
+
+export const useCustomProviders = () => {
+  const query = useQuery({
+    queryKey: CUSTOM_PROVIDERS_QUERY_KEY,
+    queryFn: getCustomProviders,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.customProviders.watch(() => {
+      queryClient.invalidateQueries({ queryKey: CUSTOM_PROVIDERS_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    providers: query.data ?? [],
+    loading: query.isLoading,
+  };
+};
+
+export const useCustomProviderMutations = () => {
+  const onSuccess = async () => {
+    await queryClient.invalidateQueries({
+      queryKey: CUSTOM_PROVIDERS_QUERY_KEY,
+    });
+    await queryClient.invalidateQueries({ queryKey: PROVIDER_KEYS_QUERY_KEY });
+  };
+
+  const add = useMutation({
+    mutationFn: async (details: {
+      name: string;
+      baseURL: string;
+      headers: Record<string, string>;
+      apiKey: string;
+      model: string;
+    }) => {
+      const baseURL = normalizeBaseURL(details.baseURL);
+      const apiKey = details.apiKey.trim() || NO_API_KEY;
+
+      const reachable = await getKeyValidationService().validateEndpoint(
+        baseURL,
+        details.headers,
+        apiKey,
+      );
+
+      if (!reachable) {
+        throw new Error(
+          `Could not list models at ${baseURL}/models. Check the URL, key and headers.`,
+        );
+      }
+
+      const provider = await addCustomProvider({ ...details, baseURL });
+      await getKeyVaultService().storeKey(provider.id, apiKey);
+
+      const model =
+        details.model.trim() ||
+        (await getModelService().getModels(provider.id, apiKey))[0]?.id;
+      const settings = await storage.aiSettings.getValue();
+
+      await storage.aiSettings.setValue({
+        ...settings,
+        selectedProvider: provider.id,
+        selectedModels: model
+          ? { ...settings.selectedModels, [provider.id]: model }
+          : settings.selectedModels,
+      });
+
+      return provider;
+    },
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (provider: CustomProvider) => {
+      await deleteCustomProvider(provider.id);
+      await getKeyVaultService().deleteKey(provider.id);
+      await removeEndpointPermission(
+        provider.baseURL,
+        (await getCustomProviders()).map((p) => p.baseURL),
+      );
+    },
+    onSuccess,
+  });
+
+  return { add, remove };
+};
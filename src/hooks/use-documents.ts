@@ -0,0 +1,71 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import {
+  addDocument,
+  deleteDocument,
+  getDocuments,
+  updateDocument,
+} from "@/lib/storage/documents";
+import type { StoredDocument, StoredDocumentKind } from "@/types/document";
+
+const DOCUMENTS_QUERY_KEY = ["documents"];
+
+export const useDocuments = () => {
+  const query = useQuery({
+    queryKey: DOCUMENTS_QUERY_KEY,
+    queryFn: getDocuments,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.documents.watch(() => {
+      queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    documents: query.data ?? [],
+    loading: query.isLoading,
+  };
+};
+
+export const useDocumentMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: DOCUMENTS_QUERY_KEY });
+  };
+
+  const add = useMutation({
+    mutationFn: ({
+      file,
+      label,
+      kind,
+    }: {
+      file: File;
+      label: string;
+      kind: StoredDocumentKind;
+    }) => addDocument(file, { label, kind }),
+    onSuccess,
+  });
+
+  const update = useMutation({
+    mutationFn: ({
+      id,
+      updates,
+    }: {
+      id: string;
+      updates: Partial<Pick<StoredDocument, "label" | "kind">>;
+    }) => updateDocument(id, updates),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => deleteDocument(id),
+    onSuccess,
+  });
+
+  return { add, update, remove };
+};
@@ -0,0 +1,109 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { getAutofillService } from "@/lib/autofill/autofill-service";
+import { queryClient } from "@/lib/query";
+import { isVaultLockedError } from "@/lib/security/vault";
+import { storage } from "@/lib/storage";
+import {
+  type FillHistorySettings,
+  fillHistorySettingsFallback,
+} from "@/lib/storage/data";
+import {
+  clearFillHistory,
+  deleteFillHistoryForDomain,
+  getFillHistory,
+  getFillHistorySettings,
+  updateFillHistorySettings,
+} from "@/lib/storage/sessions";
+
+const FILL_HISTORY_QUERY_KEY = ["fill-history"];
+const FILL_HISTORY_SETTINGS_QUERY_KEY = ["fill-history-settings"];
+
+export const useFillHistory = () => {
+  const query = useQuery({
+    queryKey: FILL_HISTORY_QUERY_KEY,
+    queryFn: getFillHistory,
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: (failureCount, error) =>
+      !isVaultLockedError(error) && failureCount < 3,
+  });
+
+  useEffect(() => {
+    const unwatchSessions = storage.fillSessions.watch(() => {
+      queryClient.invalidateQueries({ queryKey: FILL_HISTORY_QUERY_KEY });
+    });
+    const unwatchSession = storage.vaultSession.watch(() => {
+      queryClient.invalidateQueries({ queryKey: FILL_HISTORY_QUERY_KEY });
+    });
+
+    return () => {
+      unwatchSessions();
+      unwatchSession();
+    };
+  }, []);
+
+  return {
+    sessions: query.data ?? [],
+    isLoading: query.isLoading,
+    isLocked: isVaultLockedError(query.error),
+  };
+};
+
+export const useFillHistorySettings = () => {
+  const query = useQuery({
+    queryKey: FILL_HISTORY_SETTINGS_QUERY_KEY,
+    queryFn: getFillHistorySettings,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.fillHistorySettings.watch(() => {
+      queryClient.invalidateQueries({
+        queryKey: FILL_HISTORY_SETTINGS_QUERY_KEY,
+      });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return query.data ?? fillHistorySettingsFallback;
+};
+
+export const useFillHistoryMutations = () => {
+  const invalidateHistory = () => {
+    queryClient.invalidateQueries({ queryKey: FILL_HISTORY_QUERY_KEY });
+  };
+
+  const deleteSite = useMutation({
+    mutationFn: (domain: string) => deleteFillHistoryForDomain(domain),
+    onSuccess: invalidateHistory,
+  });
+
+  const clearAll = useMutation({
+    mutationFn: () => clearFillHistory(),
+    onSuccess: invalidateHistory,
+  });
+
+  const refill = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const result = await getAutofillService().refillFromHistory(sessionId);
+      if (!result.success) {
+        throw new Error(result.error ?? "Failed to re-fill the form");
+      }
+      return result;
+    },
+  });
+
+  const updateSettings = useMutation({
+    mutationFn: (updates: Partial<FillHistorySettings>) =>
+      updateFillHistorySettings(updates),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: FILL_HISTORY_SETTINGS_QUERY_KEY,
+      });
+      invalidateHistory();
+    },
+  });
+
+  return { deleteSite, clearAll, refill, updateSettings };
+};
@@ -98,7 +98,7 @@ export function useImportDialog<
           answer: item.answer,
           category: item.category,
           tags: [...item.tags, importTag],
-          confidence: 1.0,
+          confidence: item.confidence ?? 1.0,
         }),
       );
 
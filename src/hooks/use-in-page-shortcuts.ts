@@ -0,0 +1,55 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import {
+  getInPageShortcuts,
+  inPageShortcutsFallback,
+  resetInPageShortcuts,
+  updateInPageShortcut,
+} from "@/lib/storage/shortcut-settings";
+import type { InPageShortcutAction } from "@/types/settings";
+
+const IN_PAGE_SHORTCUTS_QUERY_KEY = ["in-page-shortcuts"];
+
+export const useInPageShortcuts = () => {
+  const query = useQuery({
+    queryKey: IN_PAGE_SHORTCUTS_QUERY_KEY,
+    queryFn: getInPageShortcuts,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.inPageShortcuts.watch(() => {
+      queryClient.invalidateQueries({ queryKey: IN_PAGE_SHORTCUTS_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return query.data ?? inPageShortcutsFallback;
+};
+
+export const useInPageShortcutsMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: IN_PAGE_SHORTCUTS_QUERY_KEY });
+  };
+
+  const updateShortcut = useMutation({
+    mutationFn: ({
+      action,
+      hotkey,
+    }: {
+      action: InPageShortcutAction;
+      hotkey: string;
+    }) => updateInPageShortcut(action, hotkey),
+    onSuccess,
+  });
+
+  const resetShortcuts = useMutation({
+    mutationFn: () => resetInPageShortcuts(),
+    onSuccess,
+  });
+
+  return { updateShortcut, resetShortcuts };
+};
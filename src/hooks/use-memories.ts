@@ -1,13 +1,23 @@
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useMemo } from "react";
 import { queryClient } from "@/lib/query";
+import { isVaultLockedError } from "@/lib/security/vault";
 import { storage } from "@/lib/storage";
+import {
+  exportToEncryptedBackup,
+  exportToJSON,
+  exportToVCard,
+  importFromEncryptedBackup as importFromEncryptedBackupHelper,
+  importFromJSON as importFromJSONHelper,
+  importFromVCard as importFromVCardHelper,
+} from "@/lib/storage/backup";
 import {
   addEntries as addEntriesHelper,
   addEntry as addEntryHelper,
   deleteEntry as deleteEntryHelper,
   downloadCSVTemplate as downloadCSVTemplateHelper,
   exportToCSV as exportToCSVHelper,
+  getMemories,
   importFromCSV as importFromCSVHelper,
   updateEntry as updateEntryHelper,
 } from "@/lib/storage/memories";
@@ -16,25 +26,32 @@ import type { MemoryEntry } from "@/types/memory";
 type CreateMemoryEntry = Omit<MemoryEntry, "id" | "metadata">;
 type UpdateMemoryEntry = Partial<Omit<MemoryEntry, "id" | "metadata">>;
 
-const MEMORIES_QUERY_KEY = ["memories"];
+export const MEMORIES_QUERY_KEY = ["memories"];
 
 export const useMemories = () => {
   const query = useQuery({
     queryKey: MEMORIES_QUERY_KEY,
     queryFn: async () => {
-      return await storage.memories.getValue();
+      return await getMemories();
     },
     staleTime: Number.POSITIVE_INFINITY,
+    retry: (failureCount, error) =>
+      !isVaultLockedError(error) && failureCount < 3,
   });
 
   useMemo(() => {
-    const unwatch = storage.memories.watch((newMemories) => {
-      if (newMemories !== null) {
-        queryClient.setQueryData(MEMORIES_QUERY_KEY, newMemories);
-      }
-    });
+    // Stored entries may be encrypted, so re-read them through the vault
+    const refresh = () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    };
+
+    const unwatchMemories = storage.memories.watch(refresh);
+    const unwatchVault = storage.vaultSession.watch(refresh);
 
-    return () => unwatch();
+    return () => {
+      unwatchMemories();
+      unwatchVault();
+    };
   }, []);
 
   return {
@@ -42,6 +59,7 @@ export const useMemories = () => {
     loading: query.isLoading,
     error: query.error,
     isError: query.isError,
+    isLocked: isVaultLockedError(query.error),
   };
 };
 
@@ -97,12 +115,48 @@ export const useMemoryMutations = () => {
     },
   });
 
+  const importFromJSON = useMutation({
+    mutationFn: async (content: string) => {
+      return await importFromJSONHelper(content);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    },
+  });
+
+  const importFromEncryptedBackup = useMutation({
+    mutationFn: async ({
+      content,
+      password,
+    }: {
+      content: string;
+      password: string;
+    }) => {
+      return await importFromEncryptedBackupHelper(content, password);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    },
+  });
+
+  const importFromVCard = useMutation({
+    mutationFn: async (content: string) => {
+      return await importFromVCardHelper(content);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    },
+  });
+
   return {
     addEntry,
     addEntries,
     updateEntry,
     deleteEntry,
     importFromCSV,
+    importFromJSON,
+    importFromEncryptedBackup,
+    importFromVCard,
   };
 };
 
@@ -186,3 +240,9 @@ export const csvUtils = {
   exportToCSV: exportToCSVHelper,
   downloadCSVTemplate: downloadCSVTemplateHelper,
 };
+
+export const backupUtils = {
+  exportToJSON,
+  exportToEncryptedBackup,
+  exportToVCard,
+};
@@ -0,0 +1,62 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { MEMORIES_QUERY_KEY } from "@/hooks/use-memories";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import {
+  restoreRevision as restoreRevisionHelper,
+  undoLastBulkOperation as undoLastBulkOperationHelper,
+} from "@/lib/storage/memories";
+import {
+  getLastBulkOperation,
+  getMemoryRevisions,
+} from "@/lib/storage/memory-history";
+
+const MEMORY_HISTORY_QUERY_KEY = ["memory-history"];
+const BULK_OPERATION_QUERY_KEY = ["bulk-operation"];
+
+const invalidateHistory = () => {
+  queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+  queryClient.invalidateQueries({ queryKey: MEMORY_HISTORY_QUERY_KEY });
+  queryClient.invalidateQueries({ queryKey: BULK_OPERATION_QUERY_KEY });
+};
+
+export const useMemoryRevisions = (memoryId: string, enabled = true) => {
+  return useQuery({
+    queryKey: [...MEMORY_HISTORY_QUERY_KEY, memoryId],
+    queryFn: () => getMemoryRevisions(memoryId),
+    enabled,
+  });
+};
+
+export const useLastBulkOperation = () => {
+  const query = useQuery({
+    queryKey: BULK_OPERATION_QUERY_KEY,
+    queryFn: async () => (await getLastBulkOperation()) ?? null,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.bulkOperations.watch(() => {
+      queryClient.invalidateQueries({ queryKey: BULK_OPERATION_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return query.data ?? null;
+};
+
+export const useMemoryHistoryMutations = () => {
+  const restoreRevision = useMutation({
+    mutationFn: (revisionId: string) => restoreRevisionHelper(revisionId),
+    onSuccess: invalidateHistory,
+  });
+
+  const undoLastBulkOperation = useMutation({
+    mutationFn: () => undoLastBulkOperationHelper(),
+    onSuccess: invalidateHistory,
+  });
+
+  return { restoreRevision, undoLastBulkOperation };
+};
@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import { getMemoryUsage } from "@/lib/storage/memory-usage";
+
+const MEMORY_USAGE_QUERY_KEY = ["memory-usage"];
+
+export const useMemoryUsage = () => {
+  const query = useQuery({
+    queryKey: MEMORY_USAGE_QUERY_KEY,
+    queryFn: async () =>
+      new Map((await getMemoryUsage()).map((u) => [u.memoryId, u])),
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.memoryUsage.watch(() => {
+      queryClient.invalidateQueries({ queryKey: MEMORY_USAGE_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    usage: query.data ?? new Map(),
+    loading: query.isLoading,
+  };
+};
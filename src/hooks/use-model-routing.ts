@@ -0,0 +1,53 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import {
+  getModelRouting,
+  setFallbackChain,
+  setTaskRoute,
+} from "@/lib/storage/model-routing";
+import type { AITask, ModelRoute } from "@/types/settings";
+
+const MODEL_ROUTING_QUERY_KEY = ["model-routing"];
+
+export const useModelRouting = () => {
+  const query = useQuery({
+    queryKey: MODEL_ROUTING_QUERY_KEY,
+    queryFn: getModelRouting,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.aiSettings.watch(() => {
+      queryClient.invalidateQueries({ queryKey: MODEL_ROUTING_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    taskRoutes: query.data?.taskRoutes ?? {},
+    fallbackChain: query.data?.fallbackChain ?? [],
+    loading: query.isLoading,
+  };
+};
+
+export const useModelRoutingMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: MODEL_ROUTING_QUERY_KEY });
+  };
+
+  const setRoute = useMutation({
+    mutationFn: ({ task, route }: { task: AITask; route?: ModelRoute }) =>
+      setTaskRoute(task, route),
+    onSuccess,
+  });
+
+  const setChain = useMutation({
+    mutationFn: (chain: ModelRoute[]) => setFallbackChain(chain),
+    onSuccess,
+  });
+
+  return { setRoute, setChain };
+};
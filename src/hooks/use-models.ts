@@ -1,6 +1,10 @@
 import { useQuery } from "@tanstack/react-query";
 import { getModelService, type ModelInfo } from "@/lib/providers/model-service";
-import type { AIProvider } from "@/lib/providers/registry";
+import {
+  type AIProvider,
+  type BuiltInProvider,
+  isCustomProvider,
+} from "@/lib/providers/registry";
 import { getKeyVaultService } from "@/lib/security/key-vault-service";
 
 export const useProviderModels = (provider: AIProvider) => {
@@ -19,7 +23,7 @@ export const useProviderModels = (provider: AIProvider) => {
 };
 
 export const useDefaultModel = (provider: AIProvider): string => {
-  const defaults: Record<AIProvider, string> = {
+  const defaults: Record<BuiltInProvider, string> = {
     openai: "gpt-5-nano",
     anthropic: "claude-haiku-4-5-latest",
     groq: "llama-4-maverick",
@@ -27,5 +31,5 @@ export const useDefaultModel = (provider: AIProvider): string => {
     gemini: "gemini-2.5-flash",
     ollama: "llama3.2",
   };
-  return defaults[provider];
+  return isCustomProvider(provider) ? "" : defaults[provider];
 };
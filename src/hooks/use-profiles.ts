@@ -0,0 +1,102 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { MEMORIES_QUERY_KEY } from "@/hooks/use-memories";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import { profileSettingsFallback } from "@/lib/storage/data";
+import {
+  createProfile,
+  deleteProfile,
+  getProfileSettings,
+  getProfiles,
+  renameProfile,
+  setActiveProfile,
+  setSiteProfileRule,
+} from "@/lib/storage/profiles";
+
+const PROFILES_QUERY_KEY = ["profiles"];
+const PROFILE_SETTINGS_QUERY_KEY = ["profile-settings"];
+
+export const useProfiles = () => {
+  const profilesQuery = useQuery({
+    queryKey: PROFILES_QUERY_KEY,
+    queryFn: getProfiles,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  const settingsQuery = useQuery({
+    queryKey: PROFILE_SETTINGS_QUERY_KEY,
+    queryFn: getProfileSettings,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatchProfiles = storage.profiles.watch(() => {
+      queryClient.invalidateQueries({ queryKey: PROFILES_QUERY_KEY });
+    });
+    const unwatchSettings = storage.profileSettings.watch(() => {
+      queryClient.invalidateQueries({ queryKey: PROFILE_SETTINGS_QUERY_KEY });
+    });
+
+    return () => {
+      unwatchProfiles();
+      unwatchSettings();
+    };
+  }, []);
+
+  const profiles = profilesQuery.data ?? [];
+  const settings = settingsQuery.data ?? profileSettingsFallback;
+  const activeProfile =
+    profiles.find((p) => p.id === settings.activeProfileId) ?? null;
+
+  return {
+    profiles,
+    settings,
+    activeProfile,
+    loading: profilesQuery.isLoading || settingsQuery.isLoading,
+  };
+};
+
+export const useProfileMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: PROFILES_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: PROFILE_SETTINGS_QUERY_KEY });
+  };
+
+  const create = useMutation({
+    mutationFn: (name: string) => createProfile(name),
+    onSuccess,
+  });
+
+  const rename = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) =>
+      renameProfile(id, name),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (id: string) => deleteProfile(id),
+    onSuccess: () => {
+      onSuccess();
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    },
+  });
+
+  const setActive = useMutation({
+    mutationFn: (profileId: string | null) => setActiveProfile(profileId),
+    onSuccess,
+  });
+
+  const setSiteRule = useMutation({
+    mutationFn: ({
+      domain,
+      profileId,
+    }: {
+      domain: string;
+      profileId: string | null;
+    }) => setSiteProfileRule(domain, profileId),
+    onSuccess,
+  });
+
+  return { create, rename, remove, setActive, setSiteRule };
+};
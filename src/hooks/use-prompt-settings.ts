@@ -0,0 +1,76 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import {
+  getPromptSettings,
+  resetPromptSettings,
+  setDomainPromptRule,
+  setGlobalInstructions,
+  setWebsiteTypeInstructions,
+} from "@/lib/storage/custom-prompts";
+import { promptSettingsFallback } from "@/lib/storage/prompt-settings";
+import type { WebsiteType } from "@/types/context";
+
+const PROMPT_SETTINGS_QUERY_KEY = ["prompt-settings"];
+
+export const usePromptSettings = () => {
+  const query = useQuery({
+    queryKey: PROMPT_SETTINGS_QUERY_KEY,
+    queryFn: getPromptSettings,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.promptSettings.watch(() => {
+      queryClient.invalidateQueries({ queryKey: PROMPT_SETTINGS_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    settings: query.data ?? promptSettingsFallback,
+    loading: query.isLoading,
+  };
+};
+
+export const usePromptSettingsMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: PROMPT_SETTINGS_QUERY_KEY });
+  };
+
+  const setGlobal = useMutation({
+    mutationFn: (instructions: string) => setGlobalInstructions(instructions),
+    onSuccess,
+  });
+
+  const setWebsiteType = useMutation({
+    mutationFn: ({
+      websiteType,
+      instructions,
+    }: {
+      websiteType: WebsiteType;
+      instructions: string;
+    }) => setWebsiteTypeInstructions(websiteType, instructions),
+    onSuccess,
+  });
+
+  const setDomainRule = useMutation({
+    mutationFn: ({
+      domain,
+      instructions,
+    }: {
+      domain: string;
+      instructions: string;
+    }) => setDomainPromptRule(domain, instructions),
+    onSuccess,
+  });
+
+  const reset = useMutation({
+    mutationFn: resetPromptSettings,
+    onSuccess,
+  });
+
+  return { setGlobal, setWebsiteType, setDomainRule, reset };
+};
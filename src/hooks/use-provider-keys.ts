@@ -3,12 +3,13 @@ import { toast } from "sonner";
 import type { AIProvider } from "@/lib/providers/registry";
 import {
   AI_PROVIDERS,
-  getProviderConfig,
+  resolveProviderConfig,
   validateProviderKey,
 } from "@/lib/providers/registry";
 import { queryClient } from "@/lib/query";
 import { getKeyVaultService } from "@/lib/security/key-vault-service";
 import { storage } from "@/lib/storage";
+import { getCustomProviders } from "@/lib/storage/custom-providers";
 import type { AISettings } from "@/types/settings";
 
 export const PROVIDER_KEYS_QUERY_KEY = ["provider-keys"] as const;
@@ -20,8 +21,14 @@ export function useProviderKeyStatuses() {
       const statuses: Record<string, boolean> = {};
       const keyVaultService = getKeyVaultService();
 
+      const customProviders = await getCustomProviders();
+      const providers: AIProvider[] = [
+        ...AI_PROVIDERS,
+        ...customProviders.map((p) => p.id),
+      ];
+
       await Promise.all(
-        AI_PROVIDERS.map(async (provider) => {
+        providers.map(async (provider) => {
           const hasKey = await keyVaultService.hasKey(provider);
           statuses[provider] = hasKey;
         }),
@@ -44,9 +51,9 @@ export function useSaveApiKeyWithModel() {
       key: string;
       defaultModel: string;
     }) => {
-      const config = getProviderConfig(provider);
+      const config = await resolveProviderConfig(provider);
 
-      if (config.requiresApiKey && !validateProviderKey(provider, key)) {
+      if (config?.requiresApiKey && !validateProviderKey(provider, key)) {
         throw new Error(`Invalid ${config.name} API key format`);
       }
 
@@ -75,7 +82,7 @@ export function useSaveApiKeyWithModel() {
       return { provider, key, defaultModel };
     },
     onSuccess: async ({ provider }) => {
-      const config = getProviderConfig(provider);
+      const config = await resolveProviderConfig(provider);
 
       await queryClient.invalidateQueries({
         queryKey: PROVIDER_KEYS_QUERY_KEY,
@@ -83,7 +90,7 @@ export function useSaveApiKeyWithModel() {
 
       await queryClient.invalidateQueries({ queryKey: ["models", provider] });
 
-      toast.success(`${config.name} API key saved successfully`);
+      toast.success(`${config?.name ?? provider} API key saved successfully`);
     },
     onError: (error: Error) => {
       toast.error(error.message || "Failed to save API key");
@@ -99,7 +106,7 @@ export function useDeleteApiKey() {
       return provider;
     },
     onSuccess: async (provider) => {
-      const config = getProviderConfig(provider);
+      const config = await resolveProviderConfig(provider);
 
       await queryClient.invalidateQueries({
         queryKey: PROVIDER_KEYS_QUERY_KEY,
@@ -107,7 +114,7 @@ export function useDeleteApiKey() {
 
       await queryClient.invalidateQueries({ queryKey: ["models", provider] });
 
-      toast.success(`${config.name} API key deleted successfully`);
+      toast.success(`${config?.name ?? provider} API key deleted successfully`);
     },
     onError: (error: Error) => {
       toast.error(error.message || "Failed to delete API key");
@@ -0,0 +1,42 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import { getSyncService, type SyncBackendInput } from "@/lib/sync/sync-service";
+import type { SyncBackendConfig } from "@/types/sync";
+
+export const SYNC_BACKEND_QUERY_KEY = ["sync-backend"] as const;
+
+const DEFAULT_SYNC_BACKEND: SyncBackendConfig = { type: "supabase" };
+
+export const useSyncBackend = () => {
+  const query = useQuery({
+    queryKey: SYNC_BACKEND_QUERY_KEY,
+    queryFn: () => storage.syncBackend.getValue(),
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.syncBackend.watch(() => {
+      queryClient.invalidateQueries({ queryKey: SYNC_BACKEND_QUERY_KEY });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return {
+    backend: query.data ?? DEFAULT_SYNC_BACKEND,
+    loading: query.isLoading,
+  };
+};
+
+export const useSyncBackendMutations = () => {
+  const setBackend = useMutation({
+    mutationFn: (input: SyncBackendInput) => getSyncService().setBackend(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SYNC_BACKEND_QUERY_KEY });
+    },
+  });
+
+  return { setBackend };
+};
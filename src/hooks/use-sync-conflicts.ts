@@ -0,0 +1,102 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { MEMORIES_QUERY_KEY } from "@/hooks/use-memories";
+import { queryClient } from "@/lib/query";
+import { isVaultLockedError } from "@/lib/security/vault";
+import { storage } from "@/lib/storage";
+import {
+  getSyncConflicts,
+  type MergedConflictValue,
+  resolveSyncConflict,
+  type SyncConflictResolution,
+} from "@/lib/storage/sync-conflicts";
+import type { SyncState } from "@/types/memory";
+
+const SYNC_CONFLICTS_QUERY_KEY = ["sync-conflicts"];
+const CONFLICT_RESOLUTION_QUERY_KEY = ["sync-conflict-resolution"];
+
+export const useSyncConflicts = () => {
+  const query = useQuery({
+    queryKey: SYNC_CONFLICTS_QUERY_KEY,
+    queryFn: getSyncConflicts,
+    staleTime: Number.POSITIVE_INFINITY,
+    retry: (failureCount, error) =>
+      !isVaultLockedError(error) && failureCount < 3,
+  });
+
+  useEffect(() => {
+    const unwatchConflicts = storage.syncConflicts.watch(() => {
+      queryClient.invalidateQueries({ queryKey: SYNC_CONFLICTS_QUERY_KEY });
+    });
+    const unwatchSession = storage.vaultSession.watch(() => {
+      queryClient.invalidateQueries({ queryKey: SYNC_CONFLICTS_QUERY_KEY });
+    });
+
+    return () => {
+      unwatchConflicts();
+      unwatchSession();
+    };
+  }, []);
+
+  return {
+    conflicts: query.data ?? [],
+    isLoading: query.isLoading,
+    isLocked: isVaultLockedError(query.error),
+  };
+};
+
+export const useConflictResolution = () => {
+  const query = useQuery({
+    queryKey: CONFLICT_RESOLUTION_QUERY_KEY,
+    queryFn: async () =>
+      (await storage.syncStateAndSettings.getValue()).conflictResolution,
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatch = storage.syncStateAndSettings.watch(() => {
+      queryClient.invalidateQueries({
+        queryKey: CONFLICT_RESOLUTION_QUERY_KEY,
+      });
+    });
+
+    return () => unwatch();
+  }, []);
+
+  return query.data ?? "newest";
+};
+
+export const useSyncConflictMutations = () => {
+  const resolveConflict = useMutation({
+    mutationFn: ({
+      localId,
+      resolution,
+      merged,
+    }: {
+      localId: string;
+      resolution: SyncConflictResolution;
+      merged?: MergedConflictValue;
+    }) => resolveSyncConflict(localId, resolution, merged),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SYNC_CONFLICTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+    },
+  });
+
+  const setConflictResolution = useMutation({
+    mutationFn: async (conflictResolution: SyncState["conflictResolution"]) => {
+      const syncState = await storage.syncStateAndSettings.getValue();
+      await storage.syncStateAndSettings.setValue({
+        ...syncState,
+        conflictResolution,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: CONFLICT_RESOLUTION_QUERY_KEY,
+      });
+    },
+  });
+
+  return { resolveConflict, setConflictResolution };
+};
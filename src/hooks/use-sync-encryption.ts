@@ -0,0 +1,79 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { queryClient } from "@/lib/query";
+import { storage } from "@/lib/storage";
+import { getSyncService } from "@/lib/sync/sync-service";
+
+export const SYNC_ENCRYPTION_QUERY_KEY = ["sync-encryption"] as const;
+
+export const useSyncEncryption = () => {
+  const query = useQuery({
+    queryKey: SYNC_ENCRYPTION_QUERY_KEY,
+    queryFn: () => getSyncService().getEncryptionStatus(),
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const unwatchKey = storage.syncEncryptionKey.watch(() => {
+      queryClient.invalidateQueries({ queryKey: SYNC_ENCRYPTION_QUERY_KEY });
+    });
+    // Each backend keeps its own encryption settings
+    const unwatchBackend = storage.syncBackend.watch(() => {
+      queryClient.invalidateQueries({ queryKey: SYNC_ENCRYPTION_QUERY_KEY });
+    });
+
+    return () => {
+      unwatchKey();
+      unwatchBackend();
+    };
+  }, []);
+
+  return {
+    status: query.data,
+    loading: query.isLoading,
+    error: query.error,
+  };
+};
+
+export const useSyncEncryptionMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: SYNC_ENCRYPTION_QUERY_KEY });
+  };
+
+  const enable = useMutation({
+    mutationFn: (passphrase: string) =>
+      getSyncService().enableEncryption(passphrase),
+    onSuccess,
+  });
+
+  const unlock = useMutation({
+    mutationFn: async (passphrase: string) => {
+      const unlocked = await getSyncService().unlockEncryption(passphrase);
+      if (!unlocked) {
+        throw new Error("Incorrect passphrase");
+      }
+    },
+    onSuccess,
+  });
+
+  const recover = useMutation({
+    mutationFn: async ({
+      recoveryKey,
+      passphrase,
+    }: {
+      recoveryKey: string;
+      passphrase: string;
+    }) => {
+      const recovered = await getSyncService().recoverEncryption(
+        recoveryKey,
+        passphrase,
+      );
+      if (!recovered) {
+        throw new Error("Incorrect recovery key");
+      }
+    },
+    onSuccess,
+  });
+
+  return { enable, unlock, recover };
+};
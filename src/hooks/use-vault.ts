@@ -0,0 +1,88 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { MEMORIES_QUERY_KEY } from "@/hooks/use-memories";
+import { queryClient } from "@/lib/query";
+import { getVaultStatus } from "@/lib/security/vault";
+import { getVaultService } from "@/lib/security/vault-service";
+import { storage } from "@/lib/storage";
+
+export const VAULT_QUERY_KEY = ["vault"] as const;
+
+export const useVault = () => {
+  const query = useQuery({
+    queryKey: VAULT_QUERY_KEY,
+    queryFn: async () => {
+      const [status, config] = await Promise.all([
+        getVaultStatus(),
+        storage.vaultConfig.getValue(),
+      ]);
+      return { status, autoLockMinutes: config.autoLockMinutes };
+    },
+    staleTime: Number.POSITIVE_INFINITY,
+  });
+
+  useEffect(() => {
+    const refresh = () => {
+      queryClient.invalidateQueries({ queryKey: VAULT_QUERY_KEY });
+    };
+
+    const unwatchConfig = storage.vaultConfig.watch(refresh);
+    const unwatchSession = storage.vaultSession.watch(refresh);
+
+    return () => {
+      unwatchConfig();
+      unwatchSession();
+    };
+  }, []);
+
+  return {
+    status: query.data?.status,
+    autoLockMinutes: query.data?.autoLockMinutes,
+    loading: query.isLoading,
+  };
+};
+
+export const useVaultMutations = () => {
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: VAULT_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+  };
+
+  const enable = useMutation({
+    mutationFn: (passphrase: string) => getVaultService().enable(passphrase),
+    onSuccess,
+  });
+
+  const unlock = useMutation({
+    mutationFn: async (passphrase: string) => {
+      const unlocked = await getVaultService().unlock(passphrase);
+      if (!unlocked) {
+        throw new Error("Incorrect passphrase");
+      }
+    },
+    onSuccess,
+  });
+
+  const lock = useMutation({
+    mutationFn: () => getVaultService().lock(),
+    onSuccess,
+  });
+
+  const disable = useMutation({
+    mutationFn: async (passphrase: string) => {
+      const disabled = await getVaultService().disable(passphrase);
+      if (!disabled) {
+        throw new Error("Incorrect passphrase");
+      }
+    },
+    onSuccess,
+  });
+
+  const setAutoLockMinutes = useMutation({
+    mutationFn: (minutes: number) =>
+      getVaultService().setAutoLockMinutes(minutes),
+    onSuccess,
+  });
+
+  return { enable, unlock, lock, disable, setAutoLockMinutes };
+};
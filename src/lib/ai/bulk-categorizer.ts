@@ -78,7 +78,7 @@ export class BulkCategorizer {
     try {
       const startTime = performance.now();
 
-      const model = getAIModel(provider, apiKey, modelName);
+      const model = await getAIModel(provider, apiKey, modelName);
 
       const systemPrompt = this.buildSystemPrompt();
       const userPrompt = this.buildUserPrompt(fields);
@@ -93,7 +93,10 @@ export class BulkCategorizer {
         system: systemPrompt,
         prompt: userPrompt,
         providerOptions: getProviderOptions(provider),
-        ...getTelemetryConfig("bulk-categorization"),
+        ...getTelemetryConfig("bulk-categorization", {
+          provider,
+          operation: "bulk_categorize",
+        }),
       });
 
       const categorized = this.mapResultsToFields(result, fields);
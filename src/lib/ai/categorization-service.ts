@@ -1,6 +1,6 @@
 import { defineProxyService } from "@webext-core/proxy-service";
 import { createLogger } from "@/lib/logger";
-import { getKeyVaultService } from "@/lib/security/key-vault-service";
+import { getModelChain, withModelFallback } from "@/lib/providers/model-router";
 import { storage } from "@/lib/storage";
 import { ERROR_MESSAGE_API_KEY_NOT_CONFIGURED } from "../errors";
 import {
@@ -52,29 +52,21 @@ class CategorizationService {
     question?: string,
   ): Promise<AnalysisResult> {
     try {
-      const aiSettings = await storage.aiSettings.getValue();
-      const { selectedProvider, selectedModels } = aiSettings;
+      const targets = await getModelChain("categorize");
 
-      if (!selectedProvider) {
-        throw new Error("AI provider not configured");
-      }
-
-      const keyVaultService = getKeyVaultService();
-      const apiKey = await keyVaultService.getKey(selectedProvider);
-
-      if (!apiKey) {
+      if (targets.length === 0) {
         logger.warn(ERROR_MESSAGE_API_KEY_NOT_CONFIGURED);
         throw new Error(ERROR_MESSAGE_API_KEY_NOT_CONFIGURED);
       }
 
-      const selectedModel = selectedModels?.[selectedProvider];
-
-      const result = await categorizationAgent(
-        answer,
-        question,
-        selectedProvider,
-        apiKey,
-        selectedModel,
+      const result = await withModelFallback(targets, (target) =>
+        categorizationAgent(
+          answer,
+          question,
+          target.provider,
+          target.apiKey,
+          target.model,
+        ),
       );
 
       return result;
@@ -115,29 +107,21 @@ class CategorizationService {
     question?: string,
   ): Promise<RephraseResult> {
     try {
-      const aiSettings = await storage.aiSettings.getValue();
-      const { selectedProvider, selectedModels } = aiSettings;
+      const targets = await getModelChain("rephrase");
 
-      if (!selectedProvider) {
-        throw new Error("AI provider not configured");
-      }
-
-      const keyVaultService = getKeyVaultService();
-      const apiKey = await keyVaultService.getKey(selectedProvider);
-
-      if (!apiKey) {
+      if (targets.length === 0) {
         logger.warn(ERROR_MESSAGE_API_KEY_NOT_CONFIGURED);
         throw new Error(ERROR_MESSAGE_API_KEY_NOT_CONFIGURED);
       }
 
-      const selectedModel = selectedModels?.[selectedProvider];
-
-      return await rephraseAgent(
-        answer,
-        question,
-        selectedProvider,
-        apiKey,
-        selectedModel,
+      return await withModelFallback(targets, (target) =>
+        rephraseAgent(
+          answer,
+          question,
+          target.provider,
+          target.apiKey,
+          target.model,
+        ),
       );
     } catch (error) {
       logger.error("AI rephrasing error in service:", error);
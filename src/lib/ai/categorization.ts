@@ -1,5 +1,12 @@
 import { generateText, Output } from "ai";
 import { z } from "zod";
+import {
+  CATEGORIZATION_SYSTEM_PROMPT,
+  CONTEXT_REPHRASE_SYSTEM_PROMPT,
+  getCustomInstructions,
+  REPHRASE_SYSTEM_PROMPT,
+  withCustomInstructions,
+} from "@/lib/ai/prompts";
 import { getTelemetryConfig } from "@/lib/ai/telemetry";
 import { createLogger } from "@/lib/logger";
 import { getAIModel, getProviderOptions } from "@/lib/providers/model-factory";
@@ -123,20 +130,12 @@ export const categorizationAgent = async (
   modelName?: string,
 ): Promise<AnalysisResult> => {
   try {
-    const model = getAIModel(provider, apiKey, modelName);
+    const model = await getAIModel(provider, apiKey, modelName);
 
-    const systemPrompt = `You are a data categorization expert. Your task is to analyze user input and determine:
-1. The most appropriate category from: contact, location, personal, work, education, or general
-2. Relevant tags (1-5 one worded tags in lowercase like: "email", "phone", "address", "work", "education", "books", "personal", "date", "time") that describe the information
-3. Your confidence level (0-1) in this categorization
-
-Be precise and consider context. For example:
-- Email addresses, phone numbers → contact
-- Addresses, cities, countries → location  
-- Names, birthdays, personal details → personal
-- Job titles, company names → work
-- Degrees, schools, certifications → education
-- Anything unclear → general`;
+    const systemPrompt = withCustomInstructions(
+      CATEGORIZATION_SYSTEM_PROMPT,
+      await getCustomInstructions(),
+    );
 
     const userPrompt = question
       ? `Question: ${question}\nAnswer: ${answer}`
@@ -153,13 +152,16 @@ Be precise and consider context. For example:
       prompt: userPrompt,
       temperature: 0.3,
       providerOptions: getProviderOptions(provider),
-      ...getTelemetryConfig("categorization"),
+      ...getTelemetryConfig("categorization", {
+        provider,
+        operation: "categorize",
+      }),
     });
 
     return result.output;
   } catch (error) {
     logger.error("AI categorization failed:", error);
-    return fallbackCategorization(answer, question);
+    throw error;
   }
 };
 
@@ -172,52 +174,15 @@ export const rephraseAnswerForContextAgent = async (
   modelName?: string,
 ): Promise<string> => {
   try {
-    const model = getAIModel(provider, apiKey, modelName);
-
-    const systemPrompt = `You are an expert assistant that rephrases text to fit a specific context.
-Your task is to take a user's stored answer and adapt it for a specific form field on a specific website.
-
-**CRUCIAL RULES**:
-1.  **Analyze the Context**: Use the Website and Field context to understand the required tone (professional, casual), length, and format.
-2.  **Preserve Core Meaning**: The rephrased answer MUST retain the original answer's core information. DO NOT invent new facts or hallucinate information not present in the original answer.
-3.  **Be Subtle**: If the original answer already fits well, make minimal or no changes. Only rephrase when the context clearly demands it. For example, a simple name or email address rarely needs rephrasing.
-4.  **Focus on Tone and Format**: A long-form answer for a "Bio" on a professional site (job_portal) should be formal. The same answer for a "Bio" on a 'dating' site should be more casual and personal.
-5.  **Handle Compound Data**: For data like names, analyze the field's purpose. If the original answer is a full name and the field asks for a specific part (e.g., 'First Name'), extract only that part. Do not return the full answer.
-
-**Complex Field Examples**:
-
-*Example 1: Tone & Brevity*
-- Original Answer: "I am a skilled software engineer with 5 years of experience in React and Node.js."
-- Field: "Short Bio" on a 'social' network.
-- Rephrased Answer: "Software engineer, 5 years with React & Node.js."
-
-*Example 2: Splitting Name Data*
-- Original Answer: "John Fitzgerald Doe"
-- Field Context: Field Purpose is 'name.first', Field Label is 'First Name'
-- Rephrased Answer: "John"
-
-- Original Answer: "John Fitzgerald Doe"
-- Field Context: Field Purpose is 'name.last', Field Label is 'Last Name'
-- Rephrased Answer: "Doe"
+    const model = await getAIModel(provider, apiKey, modelName);
 
-*Example 3: Splitting Address Data*
-- Original Answer: "123 Main St, Anytown, CA 94105, USA"
-- Field Context: Field Purpose is 'address.street', Field Label is 'Street Address'
-- Rephrased Answer: "123 Main St"
-
-- Original Answer: "123 Main St, Anytown, CA 94105, USA"
-- Field Context: Field Purpose is 'address.city', Field Label is 'City'
-- Rephrased Answer: "Anytown"
-
-*Example 4: Email purpose*
-- Original Answer: "user@example.com category: personal"
-- Field Context: Field Purpose is 'email', Field Label is 'Personal Email'
-- Rephrased Answer: "user@example.com"
-
-- Original Answer: "user@work.com category: work"
-- Field Context: Field Purpose is 'email', Field Label is 'Work Email'
-- Rephrased Answer: "user@work.com"
-`;
+    const systemPrompt = withCustomInstructions(
+      CONTEXT_REPHRASE_SYSTEM_PROMPT,
+      await getCustomInstructions({
+        pageUrl: websiteContext.metadata.url,
+        websiteType: websiteContext.websiteType,
+      }),
+    );
 
     const userPrompt = `
 Rephrase the following answer based on the provided context.
@@ -245,7 +210,10 @@ Rephrase the following answer based on the provided context.
       prompt: userPrompt,
       temperature: 0.4,
       providerOptions: getProviderOptions(provider),
-      ...getTelemetryConfig("rephrase-context"),
+      ...getTelemetryConfig("rephrase-context", {
+        provider,
+        operation: "rephrase",
+      }),
     });
 
     return output.rephrasedAnswer;
@@ -267,12 +235,12 @@ export const rephraseAgent = async (
   modelName?: string,
 ): Promise<RephraseResult> => {
   try {
-    const model = getAIModel(provider, apiKey, modelName);
+    const model = await getAIModel(provider, apiKey, modelName);
 
-    const systemPrompt = `You are an expert in clarity and conciseness. Your task is to rephrase a user's question and answer to be more clear, professional, and easily searchable.
-- For the question, create a clear, interrogative sentence that accurately represents the data in the answer. If no question is provided, infer one.
-- For the answer, refine it for clarity and consistency without losing the original meaning. Correct any typos or grammatical errors.
-- Return the rephrased content.`;
+    const systemPrompt = withCustomInstructions(
+      REPHRASE_SYSTEM_PROMPT,
+      await getCustomInstructions(),
+    );
 
     const userPrompt = `Original Question: "${question || "Not provided"}"\nOriginal Answer: "${answer}"`;
 
@@ -287,7 +255,7 @@ export const rephraseAgent = async (
       prompt: userPrompt,
       temperature: 0.5,
       providerOptions: getProviderOptions(provider),
-      ...getTelemetryConfig("rephrase"),
+      ...getTelemetryConfig("rephrase", { provider, operation: "rephrase" }),
     });
 
     return output;
@@ -1,5 +1,6 @@
 import { browser } from "wxt/browser";
 import type { z } from "zod";
+import { getCustomInstructions } from "@/lib/ai/prompts";
 import { getAuthService } from "@/lib/auth/auth-service";
 import { createLogger } from "@/lib/logger";
 import { queryClient } from "@/lib/query";
@@ -210,7 +211,7 @@ export async function cloudCategorize(
 ): Promise<CloudAIResult<AnalysisResult>> {
   return cloudRequest(
     "/routes/api/ai/categorize",
-    { answer, question },
+    { answer, question, customInstructions: await getCustomInstructions() },
     AnalysisResultSchema,
   );
 }
@@ -221,7 +222,7 @@ export async function cloudRephrase(
 ): Promise<CloudAIResult<RephraseResult>> {
   return cloudRequest(
     "/routes/api/ai/rephrase",
-    { answer, question },
+    { answer, question, customInstructions: await getCustomInstructions() },
     RephraseResultSchema,
   );
 }
@@ -3,7 +3,10 @@ import { z } from "zod";
 import { CategoryEnum, TagSchema } from "@/lib/ai/categorization";
 import { getTelemetryConfig } from "@/lib/ai/telemetry";
 import { createLogger } from "@/lib/logger";
-import type { AIProvider } from "@/lib/providers/registry";
+import {
+  type ModelTarget,
+  withModelFallback,
+} from "@/lib/providers/model-router";
 import { storage } from "@/lib/storage";
 import type { MemoryEntry } from "@/types/memory";
 import { getAIModel, getProviderOptions } from "../providers/model-factory";
@@ -66,9 +69,7 @@ export class DeduplicationCategorizer {
   async processFields(
     newFields: FieldToProcess[],
     existingMemories: MemoryEntry[],
-    provider: AIProvider,
-    apiKey: string,
-    modelName?: string,
+    targets: ModelTarget[],
   ): Promise<DeduplicationResult> {
     if (newFields.length === 0) {
       return { operations: [] };
@@ -102,48 +103,50 @@ export class DeduplicationCategorizer {
       }
     }
 
-    return this.processFieldsLocal(
-      newFields,
-      existingMemories,
-      provider,
-      apiKey,
-      modelName,
-    );
+    return this.processFieldsLocal(newFields, existingMemories, targets);
   }
 
   private async processFieldsLocal(
     newFields: FieldToProcess[],
     existingMemories: MemoryEntry[],
-    provider: AIProvider,
-    apiKey: string,
-    modelName?: string,
+    targets: ModelTarget[],
   ): Promise<DeduplicationResult> {
     try {
-      const model = getAIModel(provider, apiKey, modelName);
-
       const systemPrompt = this.buildSystemPrompt();
       const userPrompt = this.buildUserPrompt(newFields, existingMemories);
 
-      logger.info("Deduplication + Categorization LLM request:", {
-        newFieldsCount: newFields.length,
-        existingMemoriesCount: existingMemories.length,
-        provider,
-      });
-
-      const { output: result } = await generateText({
-        model,
-        output: Output.object({
-          schema: DeduplicationResultSchema,
-          name: "DeduplicationResult",
-          description:
-            "Deduplication and categorization results for captured fields",
-        }),
-        system: systemPrompt,
-        prompt: userPrompt,
-        temperature: 0.3,
-        providerOptions: getProviderOptions(provider),
-        ...getTelemetryConfig("deduplication"),
-      });
+      const result = await withModelFallback(
+        targets,
+        async ({ provider, apiKey, model: modelName }) => {
+          const model = await getAIModel(provider, apiKey, modelName);
+
+          logger.info("Deduplication + Categorization LLM request:", {
+            newFieldsCount: newFields.length,
+            existingMemoriesCount: existingMemories.length,
+            provider,
+          });
+
+          const { output } = await generateText({
+            model,
+            output: Output.object({
+              schema: DeduplicationResultSchema,
+              name: "DeduplicationResult",
+              description:
+                "Deduplication and categorization results for captured fields",
+            }),
+            system: systemPrompt,
+            prompt: userPrompt,
+            temperature: 0.3,
+            providerOptions: getProviderOptions(provider),
+            ...getTelemetryConfig("deduplication", {
+              provider,
+              operation: "deduplicate",
+            }),
+          });
+
+          return output;
+        },
+      );
 
       logger.info("Deduplication + Categorization result:", {
         operationsCount: result.operations.length,
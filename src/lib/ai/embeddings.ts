@@ -0,0 +1,202 @@
+import { STOP_WORDS } from "@/lib/autofill/constants";
+import { createLogger } from "@/lib/logger";
+import type { MemoryEntry } from "@/types/memory";
+
+const logger = createLogger("embeddings");
+
+const HASHING_DIMENSIONS = 256;
+const TRIGRAM_WEIGHT = 0.5;
+const EMBEDDING_PRECISION = 10_000;
+
+export interface Embedder {
+  readonly id: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+type EmbeddableMemory = Pick<
+  MemoryEntry,
+  "question" | "answer" | "category" | "tags"
+> & {
+  metadata?: Pick<MemoryEntry["metadata"], "fieldPurpose">;
+};
+
+const tokenize = (text: string): string[] =>
+  text
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+// FNV-1a, 32-bit
+const hashFeature = (feature: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalize = (vector: number[]): number[] => {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) return vector;
+
+  return vector.map(
+    (v) => Math.round((v / norm) * EMBEDDING_PRECISION) / EMBEDDING_PRECISION,
+  );
+};
+
+/**
+ * Deterministic, offline embedder based on the hashing trick over word
+ * unigrams and character trigrams. Used whenever no other embedder is set.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id = "hashing-v1";
+  readonly dimensions = HASHING_DIMENSIONS;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = hashFeature(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      addFeature(`w:${token}`, 1);
+
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`c:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    return normalize(vector);
+  }
+}
+
+const hashingEmbedder = new HashingEmbedder();
+let activeEmbedder: Embedder = hashingEmbedder;
+
+export const getEmbedder = (): Embedder => activeEmbedder;
+
+/**
+ * Replaces the embedder used for memories and fields in this context.
+ * Pass `null` to go back to the hashing embedder.
+ */
+export const setEmbedder = (embedder: Embedder | null) => {
+  activeEmbedder = embedder ?? hashingEmbedder;
+  logger.info("Embedder set to", activeEmbedder.id);
+};
+
+export interface EmbeddingBatch {
+  /** Id of the embedder that produced the vectors, after any fallback */
+  embedderId: string;
+  embeddings: number[][];
+}
+
+export const embedTexts = async (texts: string[]): Promise<EmbeddingBatch> => {
+  if (texts.length === 0) {
+    return { embedderId: activeEmbedder.id, embeddings: [] };
+  }
+
+  if (activeEmbedder !== hashingEmbedder) {
+    try {
+      return {
+        embedderId: activeEmbedder.id,
+        embeddings: await activeEmbedder.embed(texts),
+      };
+    } catch (error) {
+      logger.warn(
+        `Embedder ${activeEmbedder.id} failed, using hashing embedder:`,
+        error,
+      );
+    }
+  }
+
+  return {
+    embedderId: hashingEmbedder.id,
+    embeddings: await hashingEmbedder.embed(texts),
+  };
+};
+
+export const buildMemoryEmbeddingText = (memory: EmbeddableMemory): string =>
+  [
+    memory.question,
+    memory.answer,
+    memory.category,
+    ...(memory.tags ?? []),
+    memory.metadata?.fieldPurpose,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+export const embedMemory = async (
+  memory: EmbeddableMemory,
+): Promise<Pick<MemoryEntry, "embedding" | "embedderId">> => {
+  const {
+    embedderId,
+    embeddings: [embedding],
+  } = await embedTexts([buildMemoryEmbeddingText(memory)]);
+  return { embedding, embedderId };
+};
+
+// Vectors from different embedders can share dimensions without being
+// comparable, so the embedder id decides rather than the length
+export const isEmbeddingStale = (memory: MemoryEntry): boolean =>
+  !memory.embedding || memory.embedderId !== getEmbedder().id;
+
+/**
+ * Fills in embeddings for memories that are missing one or that were
+ * produced by another embedder (e.g. pulled via sync or before the
+ * embedder was switched).
+ */
+export const ensureMemoryEmbeddings = async (
+  memories: MemoryEntry[],
+): Promise<MemoryEntry[]> => {
+  const staleIndices = memories
+    .map((memory, index) => (isEmbeddingStale(memory) ? index : -1))
+    .filter((index) => index !== -1);
+
+  if (staleIndices.length === 0) return memories;
+
+  const { embedderId, embeddings } = await embedTexts(
+    staleIndices.map((index) => buildMemoryEmbeddingText(memories[index])),
+  );
+
+  const updated = [...memories];
+  staleIndices.forEach((memoryIndex, i) => {
+    updated[memoryIndex] = {
+      ...updated[memoryIndex],
+      embedding: embeddings[i],
+      embedderId,
+    };
+  });
+
+  return updated;
+};
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
@@ -1,5 +1,10 @@
 import { generateText, Output } from "ai";
 import { z } from "zod";
+import {
+  getCustomInstructions,
+  MATCHING_SYSTEM_PROMPT,
+  withCustomInstructions,
+} from "@/lib/ai/prompts";
 import { getTelemetryConfig } from "@/lib/ai/telemetry";
 import { getAuthService } from "@/lib/auth/auth-service";
 import { FallbackMatcher } from "@/lib/autofill/fallback-matcher";
@@ -9,6 +14,10 @@ import {
 } from "@/lib/autofill/mapping-utils";
 import { createLogger } from "@/lib/logger";
 import { getAIModel, getProviderOptions } from "@/lib/providers/model-factory";
+import {
+  type ModelTarget,
+  withModelFallback,
+} from "@/lib/providers/model-router";
 import type { AIProvider } from "@/lib/providers/registry";
 import type {
   CompressedFieldData,
@@ -63,9 +72,7 @@ export class AIMatcher {
     memories: CompressedMemoryData[],
     websiteContext: WebsiteContext,
     useCloudMode: boolean,
-    provider?: AIProvider,
-    apiKey?: string,
-    modelName?: string,
+    targets: ModelTarget[] = [],
     domContext?: string,
     screenshot?: string,
   ): Promise<FieldMapping[]> {
@@ -106,18 +113,16 @@ export class AIMatcher {
         return mappings;
       }
 
-      if (!provider || !apiKey) {
-        throw new Error("Provider and API key required for BYOK mode");
-      }
-
-      const aiResults = await this.performAIMatching(
-        fields,
-        memories,
-        websiteContext,
-        provider,
-        apiKey,
-        modelName,
-        domContext,
+      const aiResults = await withModelFallback(targets, (target) =>
+        this.performAIMatching(
+          fields,
+          memories,
+          websiteContext,
+          target.provider,
+          target.apiKey,
+          target.model,
+          domContext,
+        ),
       );
       const mappings = this.convertAIResultsToMappings(aiResults, fields);
       const elapsed = performance.now() - startTime;
@@ -164,6 +169,10 @@ export class AIMatcher {
           fields,
           memories,
           websiteContext,
+          customInstructions: await getCustomInstructions({
+            pageUrl: websiteContext.metadata.url,
+            websiteType: websiteContext.websiteType,
+          }),
           ...(screenshot ? { screenshot } : {}),
         }),
       });
@@ -198,8 +207,8 @@ export class AIMatcher {
     domContext?: string,
   ): Promise<AIBatchMatchResult> {
     try {
-      const model = getAIModel(provider, apiKey, modelName);
-      const systemPrompt = this.buildSystemPrompt();
+      const model = await getAIModel(provider, apiKey, modelName);
+      const systemPrompt = await this.buildSystemPrompt(websiteContext);
       const userPrompt = this.buildUserPrompt(
         fields,
         memories,
@@ -223,7 +232,10 @@ export class AIMatcher {
         prompt: userPrompt,
         temperature: 0.3,
         providerOptions: getProviderOptions(provider),
-        ...getTelemetryConfig("field-matching"),
+        ...getTelemetryConfig("field-matching", {
+          provider,
+          operation: "match",
+        }),
       });
 
       return result.output;
@@ -233,119 +245,16 @@ export class AIMatcher {
     }
   }
 
-  private buildSystemPrompt(): string {
-    return `You are an expert form-filling assistant that matches form fields to stored user memories.
-    Your task is to analyze form fields and determine which stored memory entry (or entries) best matches each field.
-    
-    Matching Criteria:
-    1. **Semantic Similarity**: The field's purpose should align with the memory's content
-    2. **Context Alignment**: Field labels, placeholders, and helper text should relate to the memory's question/category
-    3. **Type Compatibility**: Email fields need email memories, phone fields need phone memories, etc.
-    4. **Confidence Scoring**: Only suggest matches you're confident about (0.5+ confidence)
-    5. **Website Context is KING**: The website's type and purpose heavily influence the meaning of a field.
-    6. **DOM Context**: Use the provided serialized DOM context to understand field relationships, groupings, and form structure.
-    
-    **CRUCIAL**: Use the provided Website Context to understand the form's purpose. A field labeled "Name" on a 'job_portal' is for a person's name, but on an 'e-commerce' site during checkout, it might be for a credit card name.
-    
-    ## SELECT FIELDS (Dropdowns)
-    For select/dropdown fields, you MUST:
-    - Return a value that EXACTLY matches one of the provided options. The value must be one of the strings from the 'options' array for the field.
-    - Match the user's memory to the closest option semantically.
-    - If user's memory is "United States", and options are ["USA", "Canada", "UK"], return "USA".
-    - If no option matches well or you are uncertain, you MUST set the value to null.
-    
-    ## RADIO BUTTON GROUPS
-    For radio button groups (type: "radiogroup"), you MUST:
-    - Return a value that EXACTLY matches one of the provided options (by value or label).
-    - Match the user's memory to the closest option semantically.
-    - If no option matches, set the value to null.
-    
-    ## CHECKBOXES & SWITCHES
-    For checkbox and switch fields:
-    - Return "true" if the checkbox should be checked, "false" if unchecked.
-    - Infer the correct state from the user's memories and the field's label/context.
-    - Common patterns: "I agree to terms" → "true" if user has accepted terms, newsletter opt-in based on user preferences.
-    - When uncertain, set value to null rather than guessing.
-    
-    ## SLIDERS & SPIN BUTTONS
-    For slider and spinbutton fields:
-    - Return the numeric value as a string.
-    - Match to the user's memory, respecting any min/max constraints implied by the field context.
-    
-    Important Rules:
-    1. **ALWAYS USE MEMORIES**: If a user has stored a memory that matches the field, USE IT. The whole point is to fill forms with user's stored data.
-    2. **DERIVE FROM MEMORIES**: You can extract parts from stored memories (e.g., first name from full name, city from full address). This is encouraged.
-    3. **Matching**: Set 'value' to null ONLY if no memory matches AND the data cannot be derived from existing memories.
-    4. **Reasoning**: Provide clear reasoning for each match or derivation.
-    5. **NEVER** match password fields (they should have been filtered out already)
-    6. **Handle Compound Data - SPLITTING**: For data like names or addresses, analyze the field's purpose. If the original answer is a full name and the field asks for a specific part (e.g., 'First Name'), extract only that part.
-    7. **Handle Compound Data - COMBINING**: For compound fields (e.g., 'Full Name', 'Complete Address'), combine multiple related memories intelligently.
-    8. **EXACT OPTION MATCHING**: For select fields, ALWAYS return an exact option value from the provided options list, never the raw memory value.
-
-    ### When NO relevant memory exists:
-    Do NOT invent data - return null instead. The AI should never fabricate:
-    - Personal information (name, email, phone, address)
-    - Dates (birth date, graduation date)  
-    - Numbers (salary, years of experience, GPA)
-    - Unique identifiers (SSN, passport, license numbers)
-    
-    BUT if a memory exists that contains this information (even partially), USE IT or DERIVE from it.
-  
-    **Complex Field Examples**:
-    
-    *Example 1: SELECT Field - Country*
-    - Memory: "United States of America"
-    - Field type: select
-    - Field options: ["USA", "Canada", "United Kingdom", "Australia"]
-    - 'value': "USA" (exact match from options)
-    
-    *Example 2: Tone & Brevity*
-    - Original Answer: "I am a skilled software engineer with 5 years of experience in React and Node.js."
-    - Field: "Short Bio" on a 'social' network.
-    - 'value': "Software engineer, 5 years with React & Node.js."
-    
-    *Example 3: Splitting Name Data*
-    - Original Answer: "John Fitzgerald Doe"
-    - Field Context: Field Purpose is 'name.first', Field Label is 'First Name'
-    - 'value': "John"
-    
-    *Example 4: COMBINING Name Data*
-    - Memory 1: "John" (category: 'name.first')
-    - Memory 2: "Fitzgerald" (category: 'name.middle')
-    - Memory 3: "Doe" (category: 'name.last')
-    - Field Context: Field Purpose is 'name.full', Field Label is 'Full Name'
-    - 'value': "John Fitzgerald Doe"
-
-    *Example 5: COMBINING Address Data*
-    - Memory 1: "123 Main St" (category: 'address.street')
-    - Memory 2: "Anytown" (category: 'address.city')
-    - Memory 3: "CA" (category: 'address.state')
-    - Memory 4: "94105" (category: 'address.zip')
-    - Field Context: Field Purpose is 'address.full', Field Label is 'Full Address' or 'Complete Address'
-    - 'value': "123 Main St, Anytown, CA 94105"
-
-    *Example 6: Splitting Address Data*
-    - Original Answer: "123 Main St, Anytown, CA 94105, USA"
-    - Field Context: Field Purpose is 'address.street', Field Label is 'Street Address'
-    - 'value': "123 Main St"
-    - Original Answer: "123 Main St, Anytown, CA 94105, USA"
-    - Field Context: Field Purpose is 'address.city', Field Label is 'City'
-    - 'value': "Anytown"
-
-    *Example 7: Email Purpose*
-    - Original Answer: "user@example.com category: personal"
-    - Field Context: Field Purpose is 'email', Field Label is 'Personal Email'
-    - 'value': "user@example.com"
-    - Original Answer: "user@work.com category: work"
-    - Field Context: Field Purpose is 'email', Field Label is 'Work Email'
-    - 'value': "user@work.com"
-    
-    Output Format:
-    - Return an array of matches, one per field
-    - Include confidence scores (0-1) for match quality
-    - Explain your reasoning concisely
-    - For select fields, ALWAYS return exact option values
-    `;
+  private async buildSystemPrompt(
+    websiteContext: WebsiteContext,
+  ): Promise<string> {
+    return withCustomInstructions(
+      MATCHING_SYSTEM_PROMPT,
+      await getCustomInstructions({
+        pageUrl: websiteContext.metadata.url,
+        websiteType: websiteContext.websiteType,
+      }),
+    );
   }
 
   private buildUserPrompt(
@@ -354,6 +263,8 @@ export class AIMatcher {
     websiteContext: WebsiteContext,
     domContext?: string,
   ): string {
+    const memoryNumbers = new Map(memories.map((m, idx) => [m.id, idx + 1]));
+
     const fieldsMarkdown = fields
       .filter((f) => f.highlightIndex !== null)
       .map((f) => {
@@ -372,6 +283,34 @@ export class AIMatcher {
           parts.push(`- options: [${optionsList}]`);
         }
 
+        const candidates = (f.candidateMemoryIds ?? [])
+          .map((id) => memoryNumbers.get(id))
+          .filter((n): n is number => n !== undefined);
+        if (candidates.length > 0) {
+          parts.push(
+            `- likely memories: ${candidates.map((n) => `Memory ${n}`).join(", ")}`,
+          );
+        }
+
+        const feedback = Object.entries(f.feedbackPriors ?? {}).flatMap(
+          ([id, prior]) => {
+            const n = memoryNumbers.get(id);
+            return n !== undefined && prior !== 0 ? [{ n, prior }] : [];
+          },
+        );
+        const approved = feedback.filter(({ prior }) => prior > 0);
+        const rejected = feedback.filter(({ prior }) => prior < 0);
+        if (approved.length > 0) {
+          parts.push(
+            `- user approved before: ${approved.map(({ n }) => `Memory ${n}`).join(", ")}`,
+          );
+        }
+        if (rejected.length > 0) {
+          parts.push(
+            `- user rejected before: ${rejected.map(({ n }) => `Memory ${n}`).join(", ")}`,
+          );
+        }
+
         return parts.join("\n          ");
       })
       .join("\n");
@@ -415,6 +354,10 @@ ${fieldsMarkdown}
 ## Available Memories
 ${memoriesMarkdown}
 
+          "likely memories" on a field are pre-ranked by semantic similarity, best first. Prefer them, but use any memory that fits better.
+
+          "user approved before" and "user rejected before" record how the user reacted when those memories were suggested for this field. Favor approved memories, and avoid rejected ones unless nothing else fits.
+
           For each field, determine:
           1. Which memory (if any) is the best match
           2. Your confidence in that match (0-1)
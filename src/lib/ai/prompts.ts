@@ -0,0 +1,263 @@
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import type { WebsiteType } from "@/types/context";
+import type { PromptSettings } from "@/types/settings";
+
+const logger = createLogger("ai:prompts");
+
+export type PromptTask =
+  | "matching"
+  | "categorization"
+  | "rephrase"
+  | "context-rephrase";
+
+export interface PromptContext {
+  pageUrl?: string;
+  websiteType?: WebsiteType;
+}
+
+export const MATCHING_SYSTEM_PROMPT = `You are an expert form-filling assistant that matches form fields to stored user memories.
+    Your task is to analyze form fields and determine which stored memory entry (or entries) best matches each field.
+    
+    Matching Criteria:
+    1. **Semantic Similarity**: The field's purpose should align with the memory's content
+    2. **Context Alignment**: Field labels, placeholders, and helper text should relate to the memory's question/category
+    3. **Type Compatibility**: Email fields need email memories, phone fields need phone memories, etc.
+    4. **Confidence Scoring**: Only suggest matches you're confident about (0.5+ confidence)
+    5. **Website Context is KING**: The website's type and purpose heavily influence the meaning of a field.
+    6. **DOM Context**: Use the provided serialized DOM context to understand field relationships, groupings, and form structure.
+    
+    **CRUCIAL**: Use the provided Website Context to understand the form's purpose. A field labeled "Name" on a 'job_portal' is for a person's name, but on an 'e-commerce' site during checkout, it might be for a credit card name.
+    
+    ## SELECT FIELDS (Dropdowns)
+    For select/dropdown fields, you MUST:
+    - Return a value that EXACTLY matches one of the provided options. The value must be one of the strings from the 'options' array for the field.
+    - Match the user's memory to the closest option semantically.
+    - If user's memory is "United States", and options are ["USA", "Canada", "UK"], return "USA".
+    - If no option matches well or you are uncertain, you MUST set the value to null.
+    
+    ## RADIO BUTTON GROUPS
+    For radio button groups (type: "radiogroup"), you MUST:
+    - Return a value that EXACTLY matches one of the provided options (by value or label).
+    - Match the user's memory to the closest option semantically.
+    - If no option matches, set the value to null.
+    
+    ## CHECKBOXES & SWITCHES
+    For checkbox and switch fields:
+    - Return "true" if the checkbox should be checked, "false" if unchecked.
+    - Infer the correct state from the user's memories and the field's label/context.
+    - Common patterns: "I agree to terms" → "true" if user has accepted terms, newsletter opt-in based on user preferences.
+    - When uncertain, set value to null rather than guessing.
+    
+    ## SLIDERS & SPIN BUTTONS
+    For slider and spinbutton fields:
+    - Return the numeric value as a string.
+    - Match to the user's memory, respecting any min/max constraints implied by the field context.
+    
+    Important Rules:
+    1. **ALWAYS USE MEMORIES**: If a user has stored a memory that matches the field, USE IT. The whole point is to fill forms with user's stored data.
+    2. **DERIVE FROM MEMORIES**: You can extract parts from stored memories (e.g., first name from full name, city from full address). This is encouraged.
+    3. **Matching**: Set 'value' to null ONLY if no memory matches AND the data cannot be derived from existing memories.
+    4. **Reasoning**: Provide clear reasoning for each match or derivation.
+    5. **NEVER** match password fields (they should have been filtered out already)
+    6. **Handle Compound Data - SPLITTING**: For data like names or addresses, analyze the field's purpose. If the original answer is a full name and the field asks for a specific part (e.g., 'First Name'), extract only that part.
+    7. **Handle Compound Data - COMBINING**: For compound fields (e.g., 'Full Name', 'Complete Address'), combine multiple related memories intelligently.
+    8. **EXACT OPTION MATCHING**: For select fields, ALWAYS return an exact option value from the provided options list, never the raw memory value.
+
+    ### When NO relevant memory exists:
+    Do NOT invent data - return null instead. The AI should never fabricate:
+    - Personal information (name, email, phone, address)
+    - Dates (birth date, graduation date)  
+    - Numbers (salary, years of experience, GPA)
+    - Unique identifiers (SSN, passport, license numbers)
+    
+    BUT if a memory exists that contains this information (even partially), USE IT or DERIVE from it.
+  
+    **Complex Field Examples**:
+    
+    *Example 1: SELECT Field - Country*
+    - Memory: "United States of America"
+    - Field type: select
+    - Field options: ["USA", "Canada", "United Kingdom", "Australia"]
+    - 'value': "USA" (exact match from options)
+    
+    *Example 2: Tone & Brevity*
+    - Original Answer: "I am a skilled software engineer with 5 years of experience in React and Node.js."
+    - Field: "Short Bio" on a 'social' network.
+    - 'value': "Software engineer, 5 years with React & Node.js."
+    
+    *Example 3: Splitting Name Data*
+    - Original Answer: "John Fitzgerald Doe"
+    - Field Context: Field Purpose is 'name.first', Field Label is 'First Name'
+    - 'value': "John"
+    
+    *Example 4: COMBINING Name Data*
+    - Memory 1: "John" (category: 'name.first')
+    - Memory 2: "Fitzgerald" (category: 'name.middle')
+    - Memory 3: "Doe" (category: 'name.last')
+    - Field Context: Field Purpose is 'name.full', Field Label is 'Full Name'
+    - 'value': "John Fitzgerald Doe"
+
+    *Example 5: COMBINING Address Data*
+    - Memory 1: "123 Main St" (category: 'address.street')
+    - Memory 2: "Anytown" (category: 'address.city')
+    - Memory 3: "CA" (category: 'address.state')
+    - Memory 4: "94105" (category: 'address.zip')
+    - Field Context: Field Purpose is 'address.full', Field Label is 'Full Address' or 'Complete Address'
+    - 'value': "123 Main St, Anytown, CA 94105"
+
+    *Example 6: Splitting Address Data*
+    - Original Answer: "123 Main St, Anytown, CA 94105, USA"
+    - Field Context: Field Purpose is 'address.street', Field Label is 'Street Address'
+    - 'value': "123 Main St"
+    - Original Answer: "123 Main St, Anytown, CA 94105, USA"
+    - Field Context: Field Purpose is 'address.city', Field Label is 'City'
+    - 'value': "Anytown"
+
+    *Example 7: Email Purpose*
+    - Original Answer: "user@example.com category: personal"
+    - Field Context: Field Purpose is 'email', Field Label is 'Personal Email'
+    - 'value': "user@example.com"
+    - Original Answer: "user@work.com category: work"
+    - Field Context: Field Purpose is 'email', Field Label is 'Work Email'
+    - 'value': "user@work.com"
+    
+    Output Format:
+    - Return an array of matches, one per field
+    - Include confidence scores (0-1) for match quality
+    - Explain your reasoning concisely
+    - For select fields, ALWAYS return exact option values
+    `;
+
+export const CATEGORIZATION_SYSTEM_PROMPT = `You are a data categorization expert. Your task is to analyze user input and determine:
+1. The most appropriate category from: contact, location, personal, work, education, or general
+2. Relevant tags (1-5 one worded tags in lowercase like: "email", "phone", "address", "work", "education", "books", "personal", "date", "time") that describe the information
+3. Your confidence level (0-1) in this categorization
+
+Be precise and consider context. For example:
+- Email addresses, phone numbers → contact
+- Addresses, cities, countries → location  
+- Names, birthdays, personal details → personal
+- Job titles, company names → work
+- Degrees, schools, certifications → education
+- Anything unclear → general`;
+
+export const CONTEXT_REPHRASE_SYSTEM_PROMPT = `You are an expert assistant that rephrases text to fit a specific context.
+Your task is to take a user's stored answer and adapt it for a specific form field on a specific website.
+
+**CRUCIAL RULES**:
+1.  **Analyze the Context**: Use the Website and Field context to understand the required tone (professional, casual), length, and format.
+2.  **Preserve Core Meaning**: The rephrased answer MUST retain the original answer's core information. DO NOT invent new facts or hallucinate information not present in the original answer.
+3.  **Be Subtle**: If the original answer already fits well, make minimal or no changes. Only rephrase when the context clearly demands it. For example, a simple name or email address rarely needs rephrasing.
+4.  **Focus on Tone and Format**: A long-form answer for a "Bio" on a professional site (job_portal) should be formal. The same answer for a "Bio" on a 'dating' site should be more casual and personal.
+5.  **Handle Compound Data**: For data like names, analyze the field's purpose. If the original answer is a full name and the field asks for a specific part (e.g., 'First Name'), extract only that part. Do not return the full answer.
+
+**Complex Field Examples**:
+
+*Example 1: Tone & Brevity*
+- Original Answer: "I am a skilled software engineer with 5 years of experience in React and Node.js."
+- Field: "Short Bio" on a 'social' network.
+- Rephrased Answer: "Software engineer, 5 years with React & Node.js."
+
+*Example 2: Splitting Name Data*
+- Original Answer: "John Fitzgerald Doe"
+- Field Context: Field Purpose is 'name.first', Field Label is 'First Name'
+- Rephrased Answer: "John"
+
+- Original Answer: "John Fitzgerald Doe"
+- Field Context: Field Purpose is 'name.last', Field Label is 'Last Name'
+- Rephrased Answer: "Doe"
+
+*Example 3: Splitting Address Data*
+- Original Answer: "123 Main St, Anytown, CA 94105, USA"
+- Field Context: Field Purpose is 'address.street', Field Label is 'Street Address'
+- Rephrased Answer: "123 Main St"
+
+- Original Answer: "123 Main St, Anytown, CA 94105, USA"
+- Field Context: Field Purpose is 'address.city', Field Label is 'City'
+- Rephrased Answer: "Anytown"
+
+*Example 4: Email purpose*
+- Original Answer: "user@example.com category: personal"
+- Field Context: Field Purpose is 'email', Field Label is 'Personal Email'
+- Rephrased Answer: "user@example.com"
+
+- Original Answer: "user@work.com category: work"
+- Field Context: Field Purpose is 'email', Field Label is 'Work Email'
+- Rephrased Answer: "user@work.com"
+`;
+
+export const REPHRASE_SYSTEM_PROMPT = `You are an expert in clarity and conciseness. Your task is to rephrase a user's question and answer to be more clear, professional, and easily searchable.
+- For the question, create a clear, interrogative sentence that accurately represents the data in the answer. If no question is provided, infer one.
+- For the answer, refine it for clarity and consistency without losing the original meaning. Correct any typos or grammatical errors.
+- Return the rephrased content.`;
+
+export const DEFAULT_SYSTEM_PROMPTS: Record<PromptTask, string> = {
+  matching: MATCHING_SYSTEM_PROMPT,
+  categorization: CATEGORIZATION_SYSTEM_PROMPT,
+  rephrase: REPHRASE_SYSTEM_PROMPT,
+  "context-rephrase": CONTEXT_REPHRASE_SYSTEM_PROMPT,
+};
+
+const getHostname = (pageUrl: string): string | null => {
+  try {
+    return new URL(pageUrl).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Picks the user's instructions that apply to a request: global ones always,
+ * then the most specific domain rule for the page, or else the instructions
+ * for its website type.
+ */
+export const resolveCustomInstructions = (
+  settings: PromptSettings,
+  context: PromptContext = {},
+): string[] => {
+  const hostname = context.pageUrl ? getHostname(context.pageUrl) : null;
+  const domainRule = hostname
+    ? settings.domainRules
+        .filter(
+          (rule) =>
+            hostname === rule.domain || hostname.endsWith(`.${rule.domain}`),
+        )
+        .sort((a, b) => b.domain.length - a.domain.length)[0]
+    : undefined;
+  const siteInstructions =
+    domainRule?.instructions ??
+    (context.websiteType
+      ? settings.websiteTypeInstructions[context.websiteType]
+      : undefined);
+
+  return [settings.globalInstructions, siteInstructions]
+    .map((instructions) => instructions?.trim())
+    .filter((instructions): instructions is string => !!instructions);
+};
+
+export const getCustomInstructions = async (
+  context?: PromptContext,
+): Promise<string[]> => {
+  try {
+    return resolveCustomInstructions(
+      await storage.promptSettings.getValue(),
+      context,
+    );
+  } catch (error) {
+    logger.error("Failed to read prompt settings:", error);
+    return [];
+  }
+};
+
+export const withCustomInstructions = (
+  systemPrompt: string,
+  instructions: string[],
+): string =>
+  instructions.length === 0
+    ? systemPrompt
+    : `${systemPrompt}
+
+## User Instructions
+Follow these instructions from the user. They take precedence over the guidance above, but never invent facts that are not in the stored memories.
+${instructions.map((instruction) => `- ${instruction}`).join("\n")}`;
@@ -1,6 +1,9 @@
 import type { TelemetryIntegration } from "ai";
 import { bindTelemetryIntegration } from "ai";
 import { createLogger } from "@/lib/logger";
+import type { AIProvider } from "@/lib/providers/registry";
+import { recordAIUsage } from "@/lib/storage/ai-usage";
+import type { CloudOperationType } from "@/types/cloud";
 
 const logger = createLogger("ai:telemetry");
 
@@ -141,31 +144,66 @@ class DevTelemetryIntegration implements TelemetryIntegration {
   }
 }
 
+interface UsageContext {
+  provider: AIProvider;
+  operation: CloudOperationType;
+}
+
+class UsageLedgerIntegration implements TelemetryIntegration {
+  constructor(private readonly context: UsageContext) {}
+
+  async onFinish(event: {
+    model: { provider: string; modelId: string };
+    totalUsage: {
+      inputTokens: number | undefined;
+      outputTokens: number | undefined;
+    };
+  }) {
+    await recordAIUsage({
+      ...this.context,
+      model: event.model.modelId,
+      inputTokens: event.totalUsage.inputTokens ?? 0,
+      outputTokens: event.totalUsage.outputTokens ?? 0,
+    }).catch((err) => logger.debug("Usage ledger write failed:", err));
+  }
+}
+
 function devTelemetryIntegration(): TelemetryIntegration {
   return bindTelemetryIntegration(new DevTelemetryIntegration());
 }
 
 /**
  * Returns telemetry config to spread into generateText/streamText calls.
- * In production, returns an empty object (no-op when spread).
- * In dev, enables telemetry with console logging + optional Langfuse.
+ * Token usage always goes to the local usage ledger. In dev, also enables
+ * telemetry with console logging + optional Langfuse.
  */
-export function getTelemetryConfig(functionId: string): {
-  experimental_telemetry?: {
+export function getTelemetryConfig(
+  functionId: string,
+  usage: UsageContext,
+): {
+  experimental_telemetry: {
     isEnabled: boolean;
     functionId: string;
     integrations: TelemetryIntegration[];
   };
 } {
+  const ledger = bindTelemetryIntegration(new UsageLedgerIntegration(usage));
+
   if (!import.meta.env.DEV) {
-    return {};
+    return {
+      experimental_telemetry: {
+        isEnabled: false,
+        functionId,
+        integrations: [ledger],
+      },
+    };
   }
 
   return {
     experimental_telemetry: {
       isEnabled: true,
       functionId,
-      integrations: [devTelemetryIntegration()],
+      integrations: [ledger, devTelemetryIntegration()],
     },
   };
 }
@@ -0,0 +1,493 @@
+import type {
+  CDPDetectedField,
+  DetectedFieldSnapshot,
+  FieldMapping,
+  FieldPurpose,
+} from "@/types/autofill";
+import type { MemoryEntry, StructuredAnswer } from "@/types/memory";
+import { inferFieldPurpose } from "./field-purpose";
+
+type DateAnswer = Extract<StructuredAnswer, { type: "date" }>;
+type PhoneAnswer = Extract<StructuredAnswer, { type: "phone" }>;
+type AddressAnswer = Extract<StructuredAnswer, { type: "address" }>;
+type NameAnswer = Extract<StructuredAnswer, { type: "name" }>;
+type MoneyAnswer = Extract<StructuredAnswer, { type: "money" }>;
+
+/** What the renderer needs to know about a field, from DOM or CDP detection */
+export interface RenderTarget {
+  htmlType: string | null;
+  autocomplete: string | null;
+  maxLength: number | null;
+  placeholder: string | null;
+  purpose: FieldPurpose;
+  labels: string;
+  options: { value: string; label: string | null }[];
+  multiline: boolean;
+}
+
+const AUTOCOMPLETE_TOKENS = new Set([
+  "bday-day",
+  "bday-month",
+  "bday-year",
+  "tel-country-code",
+  "tel-national",
+  "tel-area-code",
+  "tel-local",
+  "street-address",
+  "address-line1",
+  "address-line2",
+  "address-level1",
+  "address-level2",
+  "postal-code",
+  "country",
+  "country-name",
+  "name",
+  "given-name",
+  "additional-name",
+  "family-name",
+  "honorific-prefix",
+  "honorific-suffix",
+  "transaction-amount",
+  "transaction-currency",
+]);
+
+const DATE_PLACEHOLDER_PATTERN =
+  /^(d{1,2}|m{1,2}|y{2,4})([/.\- ])(d{1,2}|m{1,2}|y{2,4})\2(d{1,2}|m{1,2}|y{2,4})$/i;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const compact = (parts: (string | undefined)[]) =>
+  parts.map((part) => part?.trim()).filter((part): part is string => !!part);
+
+// Autocomplete may carry section and billing/shipping prefixes
+const getAutocompleteToken = (target: RenderTarget): string | null =>
+  target.autocomplete
+    ?.toLowerCase()
+    .split(/\s+/)
+    .find((token) => AUTOCOMPLETE_TOKENS.has(token)) ?? null;
+
+const pickOption = (
+  options: RenderTarget["options"],
+  candidates: string[],
+): string | null => {
+  for (const candidate of candidates.map(normalize)) {
+    const match = options.find(
+      (option) =>
+        normalize(option.value) === candidate ||
+        normalize(option.label ?? "") === candidate,
+    );
+    if (match) return match.value;
+  }
+
+  // Numeric options often differ only in zero padding, e.g. "05" and "5"
+  for (const candidate of candidates) {
+    if (!/^\d+$/.test(candidate)) continue;
+    const match = options.find(
+      (option) =>
+        /^\d+$/.test(option.value.trim()) &&
+        Number(option.value) === Number(candidate),
+    );
+    if (match) return match.value;
+  }
+
+  return null;
+};
+
+const getCountryName = (country: string): string => {
+  if (!/^[a-z]{2}$/i.test(country.trim())) return country;
+
+  try {
+    return (
+      new Intl.DisplayNames(["en"], { type: "region" }).of(
+        country.trim().toUpperCase(),
+      ) ?? country
+    );
+  } catch {
+    return country;
+  }
+};
+
+const getCurrencyName = (currency: string): string => {
+  try {
+    return (
+      new Intl.DisplayNames(["en"], { type: "currency" }).of(currency) ??
+      currency
+    );
+  } catch {
+    return currency;
+  }
+};
+
+const formatMoney = ({ amount, currency }: MoneyAnswer): string => {
+  if (!amount) return "";
+
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(Number(amount));
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+const formatAddress = (address: AddressAnswer, multiline: boolean): string => {
+  const locality = compact([
+    address.city,
+    compact([address.region, address.postalCode]).join(" "),
+  ]).join(", ");
+  const lines = compact([
+    address.street1,
+    address.street2,
+    locality,
+    getCountryName(address.country),
+  ]);
+
+  return lines.join(multiline ? "\n" : ", ");
+};
+
+const formatName = (name: NameAnswer): string =>
+  compact([
+    name.prefix,
+    name.given,
+    name.middle,
+    name.family,
+    name.suffix,
+  ]).join(" ");
+
+/** Canonical display text for a typed answer, stored as the memory's answer */
+export const formatStructuredAnswer = (answer: StructuredAnswer): string => {
+  switch (answer.type) {
+    case "date":
+      return answer.date;
+    case "phone":
+      return answer.nationalNumber
+        ? `+${answer.countryCode}${answer.nationalNumber}`
+        : "";
+    case "address":
+      return formatAddress(answer, false);
+    case "name":
+      return formatName(answer);
+    case "money":
+      return formatMoney(answer);
+  }
+};
+
+const formatDateWithPattern = (
+  [year, month, day]: string[],
+  placeholder: string,
+): string | null => {
+  const match = placeholder.trim().match(DATE_PLACEHOLDER_PATTERN);
+  if (!match) return null;
+
+  const [, first, separator, second, third] = match;
+  const formatToken = (token: string) => {
+    const lower = token.toLowerCase();
+    if (lower === "dd") return day;
+    if (lower === "d") return String(Number(day));
+    if (lower === "mm") return month;
+    if (lower === "m") return String(Number(month));
+    if (lower === "yy") return year.slice(2);
+    return year;
+  };
+
+  return [first, second, third].map(formatToken).join(separator);
+};
+
+const getDatePart = (
+  token: string | null,
+  target: RenderTarget,
+): "day" | "month" | "year" | null => {
+  if (token === "bday-day") return "day";
+  if (token === "bday-month") return "month";
+  if (token === "bday-year") return "year";
+  if (target.htmlType === "date" || target.htmlType === "month") return null;
+
+  if (/\bday\b/i.test(target.labels)) return "day";
+  if (/\bmonth\b/i.test(target.labels)) return "month";
+  if (/\byear\b/i.test(target.labels)) return "year";
+  if (target.maxLength === 4) return "year";
+  return null;
+};
+
+const renderDate = ({ date }: DateAnswer, target: RenderTarget): string[] => {
+  const parts = date.split("-");
+  const [year, month, day] = parts;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  const monthName = (style: "long" | "short") =>
+    Number.isNaN(parsed.getTime())
+      ? month
+      : new Intl.DateTimeFormat("en-US", {
+          month: style,
+          timeZone: "UTC",
+        }).format(parsed);
+
+  switch (getDatePart(getAutocompleteToken(target), target)) {
+    case "day":
+      return [day, String(Number(day))];
+    case "month":
+      return [month, monthName("long"), monthName("short")];
+    case "year":
+      return [year, year.slice(2)];
+  }
+
+  if (target.htmlType === "month") return [`${year}-${month}`];
+  if (target.htmlType === "date") return [date];
+
+  const patterned =
+    target.placeholder && formatDateWithPattern(parts, target.placeholder);
+  return patterned ? [patterned] : [date];
+};
+
+// Fills the digits of a placeholder like "(555) 555-0100" with our own
+const fillDigitTemplate = (template: string, digits: string): string | null => {
+  if (template.replace(/\D/g, "").length !== digits.length) return null;
+
+  let index = 0;
+  return template.replace(/\d/g, () => digits[index++]);
+};
+
+const renderPhone = (
+  { countryCode, nationalNumber }: PhoneAnswer,
+  target: RenderTarget,
+): string[] => {
+  const e164 = `+${countryCode}${nationalNumber}`;
+  const token = getAutocompleteToken(target);
+  // North American numbers are the only ones with a fixed area code split
+  const isNanp = countryCode === "1" && nationalNumber.length === 10;
+
+  if (
+    token === "tel-country-code" ||
+    /\b(country|dial(ing)?)[\s-]?code\b/i.test(target.labels)
+  ) {
+    return [`+${countryCode}`, countryCode];
+  }
+  if (token === "tel-national") return [nationalNumber];
+  if (token === "tel-area-code")
+    return isNanp ? [nationalNumber.slice(0, 3)] : [];
+  if (token === "tel-local") return isNanp ? [nationalNumber.slice(3)] : [];
+
+  if (target.placeholder) {
+    const templated = target.placeholder.trim().startsWith("+")
+      ? fillDigitTemplate(target.placeholder, `${countryCode}${nationalNumber}`)
+      : fillDigitTemplate(target.placeholder, nationalNumber);
+    if (templated) return [templated];
+  }
+
+  if (target.maxLength && target.maxLength < e164.length) {
+    return [nationalNumber];
+  }
+  return [e164, nationalNumber];
+};
+
+const renderAddress = (
+  address: AddressAnswer,
+  target: RenderTarget,
+): string[] => {
+  const countryName = getCountryName(address.country);
+
+  switch (getAutocompleteToken(target)) {
+    case "street-address":
+      return [
+        compact([address.street1, address.street2]).join(
+          target.multiline ? "\n" : ", ",
+        ),
+      ];
+    case "address-line1":
+      return [address.street1];
+    case "address-line2":
+      return compact([address.street2]);
+    case "address-level2":
+      return [address.city];
+    case "address-level1":
+      return compact([address.region]);
+    case "postal-code":
+      return [address.postalCode];
+    case "country":
+      return [address.country, countryName];
+    case "country-name":
+      return [countryName, address.country];
+  }
+
+  switch (target.purpose) {
+    case "city":
+      return [address.city];
+    case "state":
+      return compact([address.region]);
+    case "zip":
+      return [address.postalCode];
+    case "country":
+      return [countryName, address.country];
+  }
+
+  if (/\b(line[\s-]?2|apt|apartment|suite|unit)\b/i.test(target.labels)) {
+    return compact([address.street2]);
+  }
+  if (/\b(line[\s-]?1|street)\b/i.test(target.labels)) {
+    return [address.street1];
+  }
+
+  const full = formatAddress(address, target.multiline);
+  return target.maxLength && full.length > target.maxLength
+    ? [address.street1]
+    : [full];
+};
+
+const renderName = (name: NameAnswer, target: RenderTarget): string[] => {
+  switch (getAutocompleteToken(target)) {
+    case "given-name":
+      return [name.given];
+    case "family-name":
+      return [name.family];
+    case "additional-name":
+      return compact([name.middle]);
+    case "honorific-prefix":
+      return compact([name.prefix]);
+    case "honorific-suffix":
+      return compact([name.suffix]);
+    case "name":
+      return [formatName(name)];
+  }
+
+  if (/\b(first|given|fore)[\s-]?name\b/i.test(target.labels)) {
+    return [name.given];
+  }
+  if (/\b((last|family)[\s-]?name|surname)\b/i.test(target.labels)) {
+    return [name.family];
+  }
+  if (/\bmiddle\b/i.test(target.labels)) return compact([name.middle]);
+  if (/\bsuffix\b/i.test(target.labels)) return compact([name.suffix]);
+  if (/\b(prefix|salutation|honorific)\b/i.test(target.labels)) {
+    return compact([name.prefix]);
+  }
+
+  return [formatName(name)];
+};
+
+const renderMoney = (money: MoneyAnswer, target: RenderTarget): string[] => {
+  const token = getAutocompleteToken(target);
+
+  if (token === "transaction-currency" || /\bcurrency\b/i.test(target.labels)) {
+    return [money.currency, getCurrencyName(money.currency)];
+  }
+  if (
+    token === "transaction-amount" ||
+    target.htmlType === "number" ||
+    target.options.length > 0
+  ) {
+    return [money.amount];
+  }
+
+  const formatted = formatMoney(money);
+  return target.maxLength && formatted.length > target.maxLength
+    ? [money.amount]
+    : [formatted, money.amount];
+};
+
+/**
+ * Renders a typed answer for one field. Returns null when no component or
+ * format fits, e.g. no select option matches, so the caller keeps its value.
+ */
+export const renderStructuredAnswer = (
+  answer: StructuredAnswer,
+  target: RenderTarget,
+): string | null => {
+  const candidates = (() => {
+    switch (answer.type) {
+      case "date":
+        return renderDate(answer, target);
+      case "phone":
+        return renderPhone(answer, target);
+      case "address":
+        return renderAddress(answer, target);
+      case "name":
+        return renderName(answer, target);
+      case "money":
+        return renderMoney(answer, target);
+    }
+  })().filter(Boolean);
+
+  if (candidates.length === 0) return null;
+  if (target.options.length > 0) return pickOption(target.options, candidates);
+  return candidates[0];
+};
+
+export const toRenderTarget = ({
+  metadata,
+}: DetectedFieldSnapshot): RenderTarget => ({
+  htmlType: metadata.type.toLowerCase(),
+  autocomplete: metadata.autocomplete,
+  maxLength: metadata.maxLength,
+  placeholder: metadata.placeholder,
+  purpose: metadata.fieldPurpose,
+  labels: compact([
+    metadata.labelTag ?? undefined,
+    metadata.labelAria ?? undefined,
+    metadata.labelData ?? undefined,
+    metadata.labelLeft ?? undefined,
+    metadata.labelTop ?? undefined,
+    metadata.name ?? undefined,
+    metadata.id ?? undefined,
+  ]).join(" "),
+  options: metadata.options ?? [],
+  multiline: metadata.fieldType === "textarea",
+});
+
+export const cdpFieldToRenderTarget = (
+  field: CDPDetectedField,
+): RenderTarget => {
+  const dm = field.domMetadata;
+  const labels = compact([
+    dm?.labelText ?? undefined,
+    field.name,
+    dm?.htmlName ?? undefined,
+    dm?.htmlId ?? undefined,
+  ]);
+
+  return {
+    htmlType: dm?.inputType?.toLowerCase() ?? null,
+    autocomplete: dm?.autocomplete ?? null,
+    maxLength: dm?.maxLength ?? null,
+    placeholder: dm?.placeholder ?? null,
+    purpose: inferFieldPurpose({
+      fieldType: field.role === "textarea" ? "textarea" : "text",
+      autocomplete: dm?.autocomplete ?? null,
+      labels,
+      placeholder: dm?.placeholder ?? null,
+      htmlName: dm?.htmlName ?? null,
+      htmlId: dm?.htmlId ?? null,
+    }),
+    labels: labels.join(" "),
+    options: field.options ?? [],
+    multiline: field.role === "textarea",
+  };
+};
+
+/**
+ * Re-renders mapped values from the best attributed memory that is typed, so
+ * the field gets the component and format it expects rather than the raw
+ * answer. The AI often reformats values, so attribution may only have the
+ * field's retrieval candidates to go on.
+ */
+export const applyStructuredAnswers = <
+  T extends Pick<FieldMapping, "fieldOpid" | "value" | "memoryIds">,
+>(
+  mappings: T[],
+  targets: Map<string, RenderTarget>,
+  memories: MemoryEntry[],
+): T[] => {
+  const memoriesById = new Map(memories.map((m) => [m.id, m]));
+
+  return mappings.map((mapping) => {
+    if (mapping.value === null) return mapping;
+
+    const structured = mapping.memoryIds
+      ?.map((id) => memoriesById.get(id)?.structured)
+      .find(Boolean);
+    const target = targets.get(mapping.fieldOpid);
+    if (!structured || !target) return mapping;
+
+    const value = renderStructuredAnswer(structured, target);
+    return value === null ? mapping : { ...mapping, value };
+  });
+};
@@ -1,6 +1,11 @@
 import { defineProxyService } from "@webext-core/proxy-service";
 import { AIMatcher } from "@/lib/ai/matcher";
 import { getAuthService } from "@/lib/auth/auth-service";
+import {
+  applyStructuredAnswers,
+  cdpFieldToRenderTarget,
+  toRenderTarget,
+} from "@/lib/autofill/answer-renderer";
 import { contentAutofillMessaging } from "@/lib/autofill/content-autofill-messaging";
 import { getSessionService } from "@/lib/autofill/session-service";
 import {
@@ -12,8 +17,14 @@ import {
   isCDPSupported,
 } from "@/lib/cdp";
 import { createLogger } from "@/lib/logger";
-import { getKeyVaultService } from "@/lib/security/key-vault-service";
-import { storage } from "@/lib/storage";
+import { getModelChain } from "@/lib/providers/model-router";
+import { getVaultStatus, VaultLockedError } from "@/lib/security/vault";
+import { getDocumentFile, getDocuments } from "@/lib/storage/documents";
+import { getFieldFeedbackPriors } from "@/lib/storage/field-feedback";
+import { getCachedMappings } from "@/lib/storage/fill-cache";
+import { getMemoryUsageScores } from "@/lib/storage/memory-usage";
+import { getMemoriesForUrl } from "@/lib/storage/profiles";
+import { getFillHistory } from "@/lib/storage/sessions";
 import type {
   AutofillResult,
   CDPDetectedField,
@@ -25,23 +36,92 @@ import type {
   DetectFormsResult,
   FieldMapping,
   FieldOpId,
+  FieldSuggestion,
+  FillCacheKey,
   FormOpId,
   PreviewSidebarPayload,
 } from "@/types/autofill";
 import type { WebsiteContext } from "@/types/context";
-import type { MemoryEntry } from "@/types/memory";
+import type { FilledField, MemoryEntry } from "@/types/memory";
 import type { AISettings } from "@/types/settings";
 import { ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED } from "../errors";
 import { aiSettings } from "../storage/ai-settings";
-import { MAX_FIELDS_PER_PAGE, MAX_MEMORIES_FOR_MATCHING } from "./constants";
+import { MAX_FIELDS_PER_PAGE, MAX_INLINE_SUGGESTIONS } from "./constants";
+import {
+  cdpFieldToDocumentTarget,
+  type DocumentTarget,
+  matchDocumentFields,
+  toDocumentTarget,
+} from "./document-matcher";
 import { FallbackMatcher } from "./fallback-matcher";
 import { inferFieldPurpose } from "./field-purpose";
 import { isCrypticString } from "./field-quality";
-import { createEmptyMapping } from "./mapping-utils";
+import { applyFillPolicy, filterSuggestibleMemories } from "./fill-policy";
+import { matchFilledFields } from "./fill-replay";
+import {
+  attributeMappingsToMemories,
+  buildCDPFieldKey,
+  buildDomFieldKey,
+  buildFillCacheKey,
+} from "./form-fingerprint";
+import { createEmptyMapping, dropRejectedMappings } from "./mapping-utils";
+import {
+  rankMemoriesForField,
+  retrieveRelevantMemories,
+} from "./memory-retrieval";
 
 const logger = createLogger("autofill-service");
 
 const MAX_LABEL_LENGTH = 100;
+const TAB_LOAD_TIMEOUT_MS = 30000;
+
+const waitForTabLoad = (tabId: number) =>
+  new Promise<void>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      browser.tabs.onUpdated.removeListener(listener);
+      reject(new Error("The page took too long to load"));
+    }, TAB_LOAD_TIMEOUT_MS);
+
+    const listener = (
+      updatedTabId: number,
+      changeInfo: { status?: string },
+    ) => {
+      if (updatedTabId !== tabId || changeInfo.status !== "complete") return;
+
+      clearTimeout(timeout);
+      browser.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+
+    browser.tabs.onUpdated.addListener(listener);
+  });
+
+interface AutofillRunOptions {
+  /** Offers the values of a past fill instead of matching memories */
+  replay?: FilledField[];
+  /** Limits the fill to the field that has keyboard focus */
+  focusedFieldOnly?: boolean;
+  forcePreview?: boolean;
+}
+
+// Only the frame the user is typing in reports a focused field
+const narrowToFocusedField = (
+  results: DetectFormsResult[],
+): DetectedFormSnapshot[] => {
+  for (const result of results) {
+    if (!result.success || !result.focusedFieldOpid) continue;
+
+    const { focusedFieldOpid } = result;
+    return result.forms
+      .map((form) => ({
+        ...form,
+        fields: form.fields.filter((field) => field.opid === focusedFieldOpid),
+      }))
+      .filter((form) => form.fields.length > 0);
+  }
+
+  return [];
+};
 
 function deduplicateLabels(labels: string[]): string[] {
   const truncated = labels.map((l) =>
@@ -92,18 +172,34 @@ class AutofillService {
     fieldsDetected: number;
     mappingsFound: number;
     error?: string;
+  }> {
+    return this.startAutofillOnTab();
+  }
+
+  /** Runs autofill on a tab, the active one when no tab is given */
+  async startAutofillOnTab(
+    targetTabId?: number,
+    options: AutofillRunOptions = {},
+  ): Promise<{
+    success: boolean;
+    fieldsDetected: number;
+    mappingsFound: number;
+    error?: string;
   }> {
     let sessionId: string | undefined;
     let tabId: number | undefined;
     const sessionService = getSessionService();
+    const { replay, focusedFieldOnly, forcePreview } = options;
 
     logger.info("Starting autofill");
 
     try {
-      const [tab] = await browser.tabs.query({
-        active: true,
-        currentWindow: true,
-      });
+      const [tab] = targetTabId
+        ? [await browser.tabs.get(targetTabId)]
+        : await browser.tabs.query({
+            active: true,
+            currentWindow: true,
+          });
 
       if (!tab.id) {
         throw new Error("No active tab found");
@@ -118,6 +214,7 @@ class AutofillService {
           {
             state: "detecting",
             message: "Detecting forms...",
+            forcePreview,
           },
           tabId,
         );
@@ -128,14 +225,22 @@ class AutofillService {
         );
       }
 
+      if ((await getVaultStatus()) === "locked") {
+        throw new VaultLockedError();
+      }
+
       const session = await sessionService.startSession();
       sessionId = session.id;
       logger.info("Started autofill session:", sessionId);
 
       // Try CDP path (Chrome/Edge) — falls back to DOM path if CDP finds nothing
-      if (isCDPSupported()) {
+      if (isCDPSupported() && !replay && !focusedFieldOnly) {
         try {
-          const cdpResult = await this.runCDPAutofill(tabId, sessionId);
+          const cdpResult = await this.runCDPAutofill(
+            tabId,
+            sessionId,
+            tab.url || "",
+          );
           if (cdpResult) return cdpResult;
         } catch (cdpError) {
           logger.warn("CDP path failed, falling back to DOM path:", cdpError);
@@ -189,9 +294,16 @@ class AutofillService {
         throw new Error("No forms detected in any frame");
       }
 
-      const allForms = successfulResults.flatMap((result) => result.forms);
-      const totalFields = successfulResults.reduce(
-        (sum, result) => sum + result.totalFields,
+      const allForms = focusedFieldOnly
+        ? narrowToFocusedField(successfulResults)
+        : successfulResults.flatMap((result) => result.forms);
+
+      if (allForms.length === 0) {
+        throw new Error("Click into a form field, then try the shortcut again");
+      }
+
+      const totalFields = allForms.reduce(
+        (sum, form) => sum + form.fields.length,
         0,
       );
       const mainFrameResult = successfulResults.find(
@@ -210,6 +322,7 @@ class AutofillService {
           state: "analyzing",
           message: "Analyzing fields...",
           fieldsDetected: totalFields,
+          forcePreview,
         },
         tabId,
       );
@@ -225,15 +338,14 @@ class AutofillService {
           state: "matching",
           message: "Matching memories...",
           fieldsDetected: totalFields,
+          forcePreview,
         },
         tabId,
       );
 
-      const processingResult = await this.processForms(
-        allForms,
-        pageUrl,
-        websiteContext,
-      );
+      const processingResult = replay
+        ? this.replayForms(allForms, replay)
+        : await this.processForms(allForms, pageUrl, websiteContext);
 
       logger.info("Autofill processing result:", processingResult);
 
@@ -250,6 +362,7 @@ class AutofillService {
           message: "Preparing preview...",
           fieldsDetected: totalFields,
           fieldsMatched: matchedCount,
+          forcePreview,
         },
         tabId,
       );
@@ -257,7 +370,10 @@ class AutofillService {
       try {
         await contentAutofillMessaging.sendMessage(
           "showPreview",
-          this.buildPreviewPayload(allForms, processingResult, sessionId),
+          {
+            ...this.buildPreviewPayload(allForms, processingResult, sessionId),
+            forcePreview,
+          },
           tabId,
         );
       } catch (previewError) {
@@ -298,6 +414,7 @@ class AutofillService {
               state: "failed",
               message: "Autofill failed",
               error: error instanceof Error ? error.message : "Unknown error",
+              forcePreview,
             },
             tabId,
           );
@@ -318,6 +435,7 @@ class AutofillService {
   private async runCDPAutofill(
     tabId: number,
     sessionId: string,
+    pageUrl: string,
   ): Promise<{
     success: boolean;
     fieldsDetected: number;
@@ -365,17 +483,6 @@ class AutofillService {
       const settings = this.currentAiSettings;
       if (!settings) throw new Error("AI settings not loaded");
 
-      const useCloudMode = settings.cloudModelsEnabled;
-      let screenshot: string | undefined;
-
-      if (useCloudMode) {
-        try {
-          screenshot = await captureScreenshot(tabId);
-        } catch (screenshotError) {
-          logger.warn("Screenshot capture failed:", screenshotError);
-        }
-      }
-
       await contentAutofillMessaging.sendMessage(
         "updateProgress",
         {
@@ -387,12 +494,16 @@ class AutofillService {
       );
 
       const limitedFields = cdpFields.slice(0, MAX_FIELDS_PER_PAGE);
-      const compressedFields = limitedFields.map((f) =>
-        this.compressCDPField(f),
-      );
+      const fileFields = limitedFields.filter((f) => f.role === "file");
+      const compressedFields = limitedFields
+        .filter((f) => f.role !== "file")
+        .map((f) => this.compressCDPField(f));
 
-      const allMemories = await storage.memories.getValue();
-      if (allMemories.length === 0) {
+      const documentMappings = await this.matchFileFields(
+        fileFields.map(cdpFieldToDocumentTarget),
+      );
+      const allMemories = await getMemoriesForUrl(pageUrl);
+      if (allMemories.length === 0 && documentMappings.length === 0) {
         return {
           success: true,
           fieldsDetected: cdpFields.length,
@@ -400,45 +511,40 @@ class AutofillService {
         };
       }
 
-      const memories = allMemories.slice(0, MAX_MEMORIES_FOR_MATCHING);
-      const compressedMemories = memories.map((m) => this.compressMemory(m));
-
-      // Get website context from content script
-      let websiteContext: WebsiteContext = {
-        metadata: {
-          title: "",
-          description: null,
-          keywords: null,
-          ogTitle: null,
-          ogDescription: null,
-          ogSiteName: null,
-          ogType: null,
-          url: "",
-        },
-        websiteType: "unknown",
-        formPurpose: "unknown",
-      };
+      const cacheKey = await buildFillCacheKey(
+        limitedFields,
+        pageUrl,
+        buildCDPFieldKey,
+      );
+      const cachedMappings = await getCachedMappings(cacheKey, allMemories);
 
-      try {
-        const detectResult = await contentAutofillMessaging.sendMessage(
-          "detectForms",
-          undefined,
-          tabId,
-        );
-        if (detectResult?.success) {
-          websiteContext = detectResult.websiteContext;
-        }
-      } catch {
-        logger.warn("Could not get website context from content script");
+      if (cachedMappings) {
+        logger.info("Fill cache hit for", cacheKey.urlPattern);
       }
 
-      const mappings = await this.matchCDPFields(
-        compressedFields,
-        compressedMemories,
-        websiteContext,
-        settings,
-        screenshot,
-      );
+      const feedbackPriors = await getFieldFeedbackPriors(cacheKey.fieldKeys);
+      const matchedMappings =
+        cachedMappings ??
+        (allMemories.length > 0
+          ? await this.matchCDPFields(
+              tabId,
+              compressedFields,
+              allMemories,
+              settings,
+              feedbackPriors,
+              await getMemoryUsageScores(pageUrl),
+            )
+          : []);
+      const mappings = [
+        ...applyStructuredAnswers(
+          dropRejectedMappings(matchedMappings, feedbackPriors),
+          new Map(
+            limitedFields.map((f) => [f.opid, cdpFieldToRenderTarget(f)]),
+          ),
+          allMemories,
+        ),
+        ...documentMappings,
+      ];
 
       const matchedCount = mappings.filter((m) => m.value !== null).length;
 
@@ -449,6 +555,7 @@ class AutofillService {
         limitedFields,
         mappings,
         sessionId,
+        cacheKey,
       );
 
       await contentAutofillMessaging.sendMessage(
@@ -490,19 +597,30 @@ class AutofillService {
     fieldsToFill: Array<{
       fieldOpid: string;
       value: string;
+      documentId?: string;
       cdpField?: CDPDetectedField;
     }>,
   ): Promise<void> {
-    const cdpMappings: CDPFieldMapping[] = fieldsToFill
-      .filter(
-        (item): item is typeof item & { cdpField: CDPDetectedField } =>
-          item.cdpField != null,
-      )
-      .map((item) => ({
+    const cdpMappings: CDPFieldMapping[] = [];
+
+    for (const item of fieldsToFill) {
+      if (!item.cdpField) continue;
+
+      const file = item.documentId
+        ? await getDocumentFile(item.documentId)
+        : undefined;
+      if (item.documentId && !file) {
+        logger.warn("Document to attach no longer exists:", item.documentId);
+        continue;
+      }
+
+      cdpMappings.push({
         field: item.cdpField,
         value: item.value,
         confidence: 1,
-      }));
+        ...(file ? { file } : {}),
+      });
+    }
 
     if (cdpMappings.length === 0) {
       logger.warn("executeCDPFill: no CDP fields provided in fill payload");
@@ -531,6 +649,7 @@ class AutofillService {
       radiogroup: "radio",
       spinbutton: "number",
       slider: "number",
+      file: "file",
     };
 
     const dm = field.domMetadata;
@@ -604,13 +723,60 @@ class AutofillService {
   }
 
   private async matchCDPFields(
-    fields: CompressedFieldData[],
-    memories: CompressedMemoryData[],
-    websiteContext: WebsiteContext,
+    tabId: number,
+    compressedFields: CompressedFieldData[],
+    allMemories: MemoryEntry[],
     settings: AISettings,
-    screenshot?: string,
+    feedbackPriors: Map<string, Record<string, number>>,
+    usageScores: Map<string, number>,
   ): Promise<FieldMapping[]> {
-    return this.runMatchingPipeline(
+    const { fields, memories } = await this.attachRelevantMemories(
+      compressedFields,
+      allMemories,
+      feedbackPriors,
+      usageScores,
+    );
+
+    // Get website context from content script
+    let websiteContext: WebsiteContext = {
+      metadata: {
+        title: "",
+        description: null,
+        keywords: null,
+        ogTitle: null,
+        ogDescription: null,
+        ogSiteName: null,
+        ogType: null,
+        url: "",
+      },
+      websiteType: "unknown",
+      formPurpose: "unknown",
+    };
+
+    try {
+      const detectResult = await contentAutofillMessaging.sendMessage(
+        "detectForms",
+        undefined,
+        tabId,
+      );
+      if (detectResult?.success) {
+        websiteContext = detectResult.websiteContext;
+      }
+    } catch {
+      logger.warn("Could not get website context from content script");
+    }
+
+    let screenshot: string | undefined;
+
+    if (settings.cloudModelsEnabled) {
+      try {
+        screenshot = await captureScreenshot(tabId);
+      } catch (screenshotError) {
+        logger.warn("Screenshot capture failed:", screenshotError);
+      }
+    }
+
+    const mappings = await this.runMatchingPipeline(
       fields,
       memories,
       websiteContext,
@@ -618,22 +784,16 @@ class AutofillService {
       screenshot,
       "CDP",
     );
+
+    return attributeMappingsToMemories(mappings, fields, memories);
   }
 
   private buildCDPPreviewPayload(
     fields: CDPDetectedField[],
     mappings: FieldMapping[],
     sessionId: string,
+    cacheKey: FillCacheKey,
   ): PreviewSidebarPayload {
-    const confidenceThreshold =
-      this.currentAiSettings?.confidenceThreshold ?? 0.6;
-
-    const mappingsWithThreshold = mappings.map((mapping) => ({
-      ...mapping,
-      autoFill:
-        mapping.value !== null && mapping.confidence >= confidenceThreshold,
-    }));
-
     const isPlaceholderName = (s: string | null | undefined): boolean => {
       if (!s) return true;
       return /^(select|choose|pick|enter|type|search|find|none|--|—)\b/i.test(
@@ -684,6 +844,12 @@ class AutofillService {
       };
     });
 
+    const mappingsWithPolicy = applyFillPolicy(
+      mappings,
+      syntheticFields,
+      this.currentAiSettings,
+    );
+
     const syntheticForm: DetectedFormSnapshot = {
       opid: "__form__cdp" as FormOpId,
       action: "",
@@ -694,15 +860,166 @@ class AutofillService {
 
     return {
       forms: [syntheticForm],
-      mappings: mappingsWithThreshold,
+      mappings: mappingsWithPolicy,
       sessionId,
       cdpFields: fields,
+      cacheKey,
+    };
+  }
+
+  /**
+   * Opens the page of a past fill in a new tab and offers the same values
+   * again, for the user to review like any other fill.
+   */
+  async refillFromHistory(sessionId: string): Promise<{
+    success: boolean;
+    fieldsDetected: number;
+    mappingsFound: number;
+    error?: string;
+  }> {
+    const session = (await getFillHistory()).find((s) => s.id === sessionId);
+    const [formMapping] = session?.formMappings ?? [];
+
+    if (!session || !formMapping) {
+      return {
+        success: false,
+        fieldsDetected: 0,
+        mappingsFound: 0,
+        error: "This fill is no longer in your history",
+      };
+    }
+
+    const tab = await browser.tabs.create({ url: formMapping.url });
+    if (!tab.id) {
+      throw new Error("Failed to open the page");
+    }
+
+    await waitForTabLoad(tab.id);
+    logger.info("Re-filling from history:", sessionId, formMapping.url);
+
+    return this.startAutofillOnTab(tab.id, {
+      replay: session.formMappings.flatMap((mapping) => mapping.fields),
+    });
+  }
+
+  async fillFocusedField(tabId?: number): Promise<{
+    success: boolean;
+    fieldsDetected: number;
+    mappingsFound: number;
+    error?: string;
+  }> {
+    return this.startAutofillOnTab(tabId, { focusedFieldOnly: true });
+  }
+
+  async openPreview(tabId?: number): Promise<{
+    success: boolean;
+    fieldsDetected: number;
+    mappingsFound: number;
+    error?: string;
+  }> {
+    return this.startAutofillOnTab(tabId, { forcePreview: true });
+  }
+
+  async toggleAutopilot(tabId?: number): Promise<boolean> {
+    const settings = await aiSettings.getValue();
+    const autopilotMode = !settings.autopilotMode;
+
+    await aiSettings.setValue({ ...settings, autopilotMode });
+    logger.info("Autopilot toggled:", autopilotMode);
+
+    if (tabId) {
+      await contentAutofillMessaging
+        .sendMessage(
+          "showToast",
+          {
+            message: autopilotMode
+              ? "Autopilot on: confident matches are filled without a preview"
+              : "Autopilot off: suggestions are shown for review first",
+            type: "info",
+          },
+          tabId,
+        )
+        .catch((error) => {
+          logger.error("Failed to show autopilot toast:", error);
+        });
+    }
+
+    return autopilotMode;
+  }
+
+  /** Offers the values typed into the current form for saving as memories */
+  async captureCurrentForm(tabId: number): Promise<number> {
+    return contentAutofillMessaging.sendMessage(
+      "captureCurrentForm",
+      undefined,
+      {
+        tabId,
+        frameId: 0,
+      },
+    );
+  }
+
+  /**
+   * Ranks memories for the one field being typed in, without the AI matcher
+   * so suggestions keep up with typing. Only answers that start with the
+   * typed text are offered, and nothing is offered before the user types.
+   */
+  async suggestForField(
+    field: DetectedFieldSnapshot,
+    typedText: string,
+    pageUrl: string,
+  ): Promise<FieldSuggestion[]> {
+    const prefix = typedText.trim().toLowerCase();
+
+    if (!prefix || (await getVaultStatus()) === "locked") {
+      return [];
+    }
+
+    const memories = filterSuggestibleMemories(
+      field,
+      await getMemoriesForUrl(pageUrl),
+      this.currentAiSettings,
+    ).filter(
+      (memory) =>
+        memory.answer.toLowerCase().startsWith(prefix) &&
+        memory.answer.trim().toLowerCase() !== prefix,
+    );
+    const ranked = await rankMemoriesForField(
+      this.compressField(field),
+      memories,
+      await getMemoryUsageScores(pageUrl),
+    );
+
+    return ranked.slice(0, MAX_INLINE_SUGGESTIONS).map(({ memory, score }) => ({
+      memoryId: memory.id,
+      question: memory.question || "",
+      answer: memory.answer,
+      category: memory.category,
+      score,
+    }));
+  }
+
+  private replayForms(
+    forms: DetectedFormSnapshot[],
+    filledFields: FilledField[],
+  ): AutofillResult {
+    const fields = forms
+      .flatMap((form) => form.fields)
+      .filter((field) => field.metadata.fieldType !== "password");
+
+    return {
+      success: true,
+      mappings: this.combineMappings(
+        fields,
+        matchFilledFields(fields, filledFields),
+      ),
+      processingTime: 0,
     };
   }
 
   private async processForms(
     forms: DetectedFormSnapshot[],
-    _pageUrl: string,
+    pageUrl: string,
     websiteContext: WebsiteContext,
   ): Promise<AutofillResult> {
     const startTime = performance.now();
@@ -734,23 +1051,61 @@ class AutofillService {
         );
       }
 
-      const allMemories = await storage.memories.getValue();
+      const documentMappings = await this.matchFileFields(
+        fieldsToProcess
+          .filter((field) => field.metadata.fieldType === "file")
+          .map(toDocumentTarget),
+      );
+      const allMemories = await getMemoriesForUrl(pageUrl);
 
       if (allMemories.length === 0) {
+        const documentLookup = new Map(
+          documentMappings.map((m) => [m.fieldOpid, m]),
+        );
+
         return {
           success: true,
-          mappings: fieldsToProcess.map((field) =>
-            createEmptyMapping<DetectedFieldSnapshot, FieldMapping>(
-              field,
-              "No stored memories available",
-            ),
+          mappings: fieldsToProcess.map(
+            (field) =>
+              documentLookup.get(field.opid) ??
+              createEmptyMapping<DetectedFieldSnapshot, FieldMapping>(
+                field,
+                "No stored memories available",
+              ),
           ),
           processingTime: performance.now() - startTime,
         };
       }
 
-      const memories = allMemories.slice(0, MAX_MEMORIES_FOR_MATCHING);
-      const mappings = await this.matchFields(fields, memories, websiteContext);
+      const cacheKey = await buildFillCacheKey(
+        fieldsToProcess,
+        pageUrl,
+        buildDomFieldKey,
+      );
+      const cachedMappings = await getCachedMappings(cacheKey, allMemories);
+
+      if (cachedMappings) {
+        logger.info("Fill cache hit for", cacheKey.urlPattern);
+      }
+
+      const feedbackPriors = await getFieldFeedbackPriors(cacheKey.fieldKeys);
+      const matchedMappings =
+        cachedMappings ??
+        (await this.matchFields(
+          fields.filter((field) => field.metadata.fieldType !== "file"),
+          allMemories,
+          websiteContext,
+          feedbackPriors,
+          await getMemoryUsageScores(pageUrl),
+        ));
+      const mappings = [
+        ...applyStructuredAnswers(
+          dropRejectedMappings(matchedMappings, feedbackPriors),
+          new Map(fieldsToProcess.map((f) => [f.opid, toRenderTarget(f)])),
+          allMemories,
+        ),
+        ...documentMappings,
+      ];
       const allMappings = this.combineMappings(fieldsToProcess, mappings);
       const processingTime = performance.now() - startTime;
 
@@ -762,6 +1117,7 @@ class AutofillService {
         success: true,
         mappings: allMappings,
         processingTime,
+        cacheKey,
       };
     } catch (error) {
       logger.error("Error processing fields:", error);
@@ -777,13 +1133,20 @@ class AutofillService {
     fields: DetectedFieldSnapshot[],
     memories: MemoryEntry[],
     websiteContext: WebsiteContext,
+    feedbackPriors: Map<string, Record<string, number>>,
+    usageScores: Map<string, number>,
   ): Promise<FieldMapping[]> {
     if (fields.length === 0) {
       return [];
     }
 
-    const compressedFields = fields.map((f) => this.compressField(f));
-    const compressedMemories = memories.map((m) => this.compressMemory(m));
+    const { fields: compressedFields, memories: compressedMemories } =
+      await this.attachRelevantMemories(
+        fields.map((f) => this.compressField(f)),
+        memories,
+        feedbackPriors,
+        usageScores,
+      );
 
     const settings = this.currentAiSettings;
 
@@ -791,7 +1154,7 @@ class AutofillService {
       throw new Error("AI settings not loaded");
     }
 
-    return this.runMatchingPipeline(
+    const mappings = await this.runMatchingPipeline(
       compressedFields,
       compressedMemories,
       websiteContext,
@@ -799,6 +1162,50 @@ class AutofillService {
       undefined,
       "DOM",
     );
+
+    return attributeMappingsToMemories(
+      mappings,
+      compressedFields,
+      compressedMemories,
+    );
+  }
+
+  private async matchFileFields(
+    targets: DocumentTarget[],
+  ): Promise<FieldMapping[]> {
+    if (targets.length === 0) return [];
+
+    try {
+      return matchDocumentFields(targets, await getDocuments());
+    } catch (error) {
+      logger.error("Failed to match file fields to documents:", error);
+      return [];
+    }
+  }
+
+  private async attachRelevantMemories(
+    fields: CompressedFieldData[],
+    memories: MemoryEntry[],
+    feedbackPriors: Map<string, Record<string, number>>,
+    usageScores: Map<string, number>,
+  ): Promise<{
+    fields: CompressedFieldData[];
+    memories: CompressedMemoryData[];
+  }> {
+    const retrieval = await retrieveRelevantMemories(
+      fields,
+      memories,
+      usageScores,
+    );
+
+    return {
+      fields: fields.map((field) => ({
+        ...field,
+        candidateMemoryIds: retrieval.candidatesByField.get(field.opid),
+        feedbackPriors: feedbackPriors.get(field.opid),
+      })),
+      memories: retrieval.memories.map((m) => this.compressMemory(m)),
+    };
   }
 
   private async runMatchingPipeline(
@@ -825,9 +1232,7 @@ class AutofillService {
             memories,
             websiteContext,
             true,
-            undefined,
-            undefined,
-            undefined,
+            [],
             undefined,
             screenshot,
           );
@@ -838,37 +1243,29 @@ class AutofillService {
         );
       }
 
-      const provider = settings.selectedProvider;
-      if (!provider) {
-        throw new Error(ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED);
+      const targets = await getModelChain("match");
+      if (targets.length === 0) {
+        if (!settings.selectedProvider) {
+          throw new Error(ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED);
+        }
+
+        logger.warn("No API key found, using fallback matcher");
+        return await this.fallbackMatcher.matchFields(fields, memories);
       }
 
-      const selectedModel = settings.selectedModels?.[provider];
       if (source === "DOM") {
         logger.info(
-          "AutofillService: Using AI provider",
-          provider,
-          "with model",
-          selectedModel,
+          "AutofillService: Using AI providers",
+          targets.map((t) => `${t.provider}/${t.model ?? "default"}`),
         );
       }
 
-      const keyVaultService = getKeyVaultService();
-      const apiKey = await keyVaultService.getKey(provider);
-
-      if (!apiKey) {
-        logger.warn("No API key found, using fallback matcher");
-        return await this.fallbackMatcher.matchFields(fields, memories);
-      }
-
       return await this.aiMatcher.matchFields(
         fields,
         memories,
         websiteContext,
         false,
-        provider,
-        apiKey,
-        selectedModel,
+        targets,
       );
     } catch (error) {
       logger.error(`${source} AI matching failed, using fallback:`, error);
@@ -954,43 +1351,35 @@ class AutofillService {
     processingResult: AutofillResult,
     sessionId: string,
   ): PreviewSidebarPayload {
-    const confidenceThreshold =
-      this.currentAiSettings?.confidenceThreshold ?? 0.6;
-
-    logger.info(
-      `Applying confidence threshold: ${confidenceThreshold} to ${processingResult.mappings.length} mappings`,
+    const mappingsWithPolicy = applyFillPolicy(
+      processingResult.mappings,
+      forms.flatMap((form) => form.fields),
+      this.currentAiSettings,
     );
 
-    const mappingsWithThreshold = processingResult.mappings.map((mapping) => {
-      const meetsThreshold =
-        mapping.value !== null && mapping.confidence >= confidenceThreshold;
-
+    for (const mapping of mappingsWithPolicy) {
       if (mapping.value !== null) {
         logger.info(
-          `Field ${mapping.fieldOpid}: confidence=${mapping.confidence}, threshold=${confidenceThreshold}, autoFill=${meetsThreshold}`,
+          `Field ${mapping.fieldOpid}: confidence=${mapping.confidence}, sensitivity=${mapping.sensitivity ?? "none"}, autoFill=${mapping.autoFill}`,
         );
       }
+    }
 
-      return {
-        ...mapping,
-        autoFill: meetsThreshold,
-      };
-    });
-
-    const autoEnabledCount = mappingsWithThreshold.filter(
+    const autoEnabledCount = mappingsWithPolicy.filter(
       (m) => m.autoFill,
     ).length;
 
     logger.info(
-      `${autoEnabledCount} of ${mappingsWithThreshold.length} fields auto-enabled based on threshold`,
-      mappingsWithThreshold,
+      `${autoEnabledCount} of ${mappingsWithPolicy.length} fields auto-enabled by the fill policy`,
+      mappingsWithPolicy,
     );
 
     return {
       forms,
-      mappings: mappingsWithThreshold,
+      mappings: mappingsWithPolicy,
       processingTime: processingResult.processingTime,
       sessionId,
+      cacheKey: processingResult.cacheKey,
     };
   }
 
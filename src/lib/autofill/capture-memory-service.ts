@@ -4,10 +4,11 @@ import {
   DeduplicationCategorizer,
   type DeduplicationOperation,
 } from "@/lib/ai/deduplication-categorizer";
+import { ensureMemoryEmbeddings } from "@/lib/ai/embeddings";
 import { allowedCategories } from "@/lib/copies";
 import { createLogger } from "@/lib/logger";
-import type { AIProvider } from "@/lib/providers/registry";
-import { storage } from "@/lib/storage";
+import type { ModelTarget } from "@/lib/providers/model-router";
+import { getMemories, saveMemories } from "@/lib/storage/memories";
 import type { CapturedFieldData } from "@/types/autofill";
 import type { MemoryEntry } from "@/types/memory";
 
@@ -24,10 +25,8 @@ export class CaptureMemoryService {
 
   async saveCapturedMemories(
     capturedFields: CapturedFieldData[],
-    provider?: AIProvider,
-    apiKey?: string,
-    modelName?: string,
-  ): Promise<{ success: boolean; savedCount: number }> {
+    targets: ModelTarget[] = [],
+  ): Promise<{ success: boolean; savedCount: number; error?: string }> {
     try {
       if (capturedFields.length === 0) {
         logger.info("No fields to capture");
@@ -64,9 +63,9 @@ export class CaptureMemoryService {
         `${fieldsToSave.length} fields passed question+answer filter`,
       );
 
-      const currentMemories = await storage.memories.getValue();
+      const currentMemories = await getMemories();
 
-      if (!provider || !apiKey) {
+      if (targets.length === 0) {
         logger.info("No AI provider configured, using fallback deduplication");
         const fallbackResult = this.deduplicator.fallbackDeduplication(
           fieldsToSave.map((f, index) => ({
@@ -84,8 +83,14 @@ export class CaptureMemoryService {
           currentMemories,
         );
 
-        const finalMemories = [...existingMemories, ...newMemories];
-        await storage.memories.setValue(finalMemories);
+        const finalMemories = await ensureMemoryEmbeddings([
+          ...existingMemories,
+          ...newMemories,
+        ]);
+        await saveMemories(finalMemories, {
+          source: "capture",
+          bulkLabel: `Captured ${fieldsToSave.length} fields`,
+        });
 
         const totalChanges =
           newMemories.length +
@@ -106,9 +111,7 @@ export class CaptureMemoryService {
           fieldPurpose: f.fieldMetadata.purpose,
         })),
         currentMemories,
-        provider,
-        apiKey,
-        modelName,
+        targets,
       );
 
       logger.info(
@@ -125,8 +128,14 @@ export class CaptureMemoryService {
         currentMemories,
       );
 
-      const finalMemories = [...existingMemories, ...newMemories];
-      await storage.memories.setValue(finalMemories);
+      const finalMemories = await ensureMemoryEmbeddings([
+        ...existingMemories,
+        ...newMemories,
+      ]);
+      await saveMemories(finalMemories, {
+        source: "dedup",
+        bulkLabel: `AI deduplication of ${fieldsToSave.length} captured fields`,
+      });
 
       const createCount = deduplicationResult.operations.filter(
         (op) => op.action === "create",
@@ -148,6 +157,7 @@ export class CaptureMemoryService {
       return {
         success: false,
         savedCount: 0,
+        error: error instanceof Error ? error.message : "Unknown error",
       };
     }
   }
@@ -196,12 +206,20 @@ export class CaptureMemoryService {
             ? op.category
             : existingMemory.category;
 
+          const answer = op.newAnswer ?? existingMemory.answer;
+
           memoryMap.set(op.existingMemoryId, {
             ...existingMemory,
-            answer: op.newAnswer ?? existingMemory.answer,
+            answer,
+            // A captured answer replaces the typed value it no longer matches
+            structured:
+              answer === existingMemory.answer
+                ? existingMemory.structured
+                : undefined,
             category: validCategory,
             tags: op.tags || existingMemory.tags,
             confidence: op.confidence ?? existingMemory.confidence,
+            embedding: undefined,
             metadata: {
               ...existingMemory.metadata,
               updatedAt: new Date().toISOString(),
@@ -20,6 +20,37 @@ export const MAX_FIELDS_PER_PAGE = 200;
 
 export const MAX_MEMORIES_FOR_MATCHING = 50;
 
+export const MEMORY_RETRIEVAL_TOP_K = 8;
+
+export const MEMORY_RETRIEVAL_PURPOSE_BONUS = 0.2;
+
+export const MAX_INLINE_SUGGESTIONS = 5;
+
+export const MAX_FILL_CACHE_ENTRIES = 200;
+
+export const MAX_FIELD_FEEDBACK_ENTRIES = 1000;
+
+// How far a learned feedback prior can move a fallback match score
+export const FEEDBACK_PRIOR_WEIGHT = 0.3;
+
+// Priors at or below this drop a suggestion outright
+export const FEEDBACK_REJECT_THRESHOLD = -0.6;
+
+export const MAX_USAGE_DOMAINS_PER_MEMORY = 20;
+
+// How far usage can lift a memory's retrieval score
+export const MEMORY_RETRIEVAL_USAGE_BONUS = 0.1;
+
+// Half-life of the recency part of a memory's usage score
+export const MEMORY_USAGE_HALF_LIFE_DAYS = 30;
+
+// Memories unused for this long are flagged for cleanup
+export const STALE_MEMORY_DAYS = 90;
+
+export const MAX_STORED_DOCUMENTS = 20;
+
+export const MAX_DOCUMENT_SIZE_BYTES = 5 * 1024 * 1024;
+
 export const CONFIDENCE_LEVELS = {
   HIGH: 0.8,
   MEDIUM: 0.5,
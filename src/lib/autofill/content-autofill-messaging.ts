@@ -3,10 +3,16 @@ import type { ToastType } from "@/components/ui/sonner";
 import type {
   AutofillProgress,
   CapturedFieldData,
+  DetectedFieldSnapshot,
   DetectFormsResult,
+  FieldFeedbackEvent,
+  FieldMapping,
+  FieldSuggestion,
   FieldsToFillData,
+  FillCacheKey,
   PreviewSidebarPayload,
 } from "@/types/autofill";
+import type { DocumentFile } from "@/types/document";
 import type { FillSession, FormMapping } from "@/types/memory";
 
 export interface ShowToastData {
@@ -27,6 +33,7 @@ interface ContentAutofillProtocolMap {
   closePreview: () => boolean;
   updateProgress: (progress: AutofillProgress) => boolean;
   broadcastFillToAllFrames: (data: { fieldsToFill: FieldsToFillData }) => void;
+  markCDPFieldsFilled: (data: { fieldsToFill: FieldsToFillData }) => void;
   frameFormsDetected: (data: {
     requestId: string;
     result: DetectFormsResult;
@@ -43,10 +50,23 @@ interface ContentAutofillProtocolMap {
     sessionId: string;
     formMappings: FormMapping[];
   }) => boolean;
+  resumeWizardAutofill: () => boolean;
+  saveFillCache: (data: {
+    cacheKey: FillCacheKey;
+    mappings: FieldMapping[];
+  }) => boolean;
+  recordFieldFeedback: (data: { events: FieldFeedbackEvent[] }) => boolean;
+  getDocumentFile: (data: { documentId: string }) => DocumentFile | null;
+  getFieldSuggestions: (data: {
+    field: DetectedFieldSnapshot;
+    typedText: string;
+  }) => FieldSuggestion[];
 
   saveCapturedMemories: (data: {
     capturedFields: CapturedFieldData[];
-  }) => Promise<{ success: boolean; savedCount: number }>;
+  }) => Promise<{ success: boolean; savedCount: number; error?: string }>;
+
+  captureCurrentForm: () => number;
 
   showToast: (data: ShowToastData) => boolean;
 }
@@ -0,0 +1,153 @@
+import type {
+  CDPDetectedField,
+  DetectedFieldSnapshot,
+  FieldMapping,
+} from "@/types/autofill";
+import type { StoredDocument, StoredDocumentKind } from "@/types/document";
+import { MIN_MATCH_CONFIDENCE, STOP_WORDS } from "./constants";
+
+/** What the matcher needs to know about a file input, from DOM or CDP */
+export interface DocumentTarget {
+  opid: string;
+  labels: string;
+  accept: string | null;
+}
+
+const KIND_PATTERNS: Record<StoredDocumentKind, RegExp | null> = {
+  resume: /\b(resume|cv|curriculum[\s-]?vitae)\b/i,
+  cover_letter: /\b(cover[\s-]?letter|motivation(al)?[\s-]?letter)\b/i,
+  id_document:
+    /\b(passport|id[\s-]?(card|document|scan)|identity|identification|driver'?s?[\s-]?licen[cs]e)\b/i,
+  transcript: /\b(transcripts?|grades|academic[\s-]?records?)\b/i,
+  other: null,
+};
+
+const KIND_WEIGHT = 0.7;
+const LABEL_WEIGHT = 0.5;
+
+const compact = (parts: (string | null | undefined)[]) =>
+  parts.map((part) => part?.trim()).filter((part): part is string => !!part);
+
+// Drops accents so "Résumé" matches the same patterns as "resume"
+const stripAccents = (text: string) =>
+  text.normalize("NFD").replace(/\p{M}/gu, "");
+
+const tokenize = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+/** Checks a document against an accept attribute like ".pdf,image/*" */
+export const isAcceptedDocument = (
+  document: Pick<StoredDocument, "fileName" | "mimeType">,
+  accept: string | null,
+): boolean => {
+  if (!accept?.trim()) return true;
+
+  const fileName = document.fileName.toLowerCase();
+  const mimeType = document.mimeType.toLowerCase();
+
+  return accept
+    .toLowerCase()
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean)
+    .some((token) => {
+      if (token.startsWith(".")) return fileName.endsWith(token);
+      if (token.endsWith("/*")) return mimeType.startsWith(token.slice(0, -1));
+      return mimeType === token;
+    });
+};
+
+const scoreDocument = (
+  target: DocumentTarget,
+  document: StoredDocument,
+): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (KIND_PATTERNS[document.kind]?.test(stripAccents(target.labels))) {
+    score += KIND_WEIGHT;
+    reasons.push(`field asks for a ${document.kind.replace("_", " ")}`);
+  }
+
+  const fieldTokens = new Set(tokenize(stripAccents(target.labels)));
+  const labelTokens = tokenize(stripAccents(document.label));
+  const shared = labelTokens.filter((token) => fieldTokens.has(token));
+
+  if (labelTokens.length > 0 && shared.length > 0) {
+    score += LABEL_WEIGHT * (shared.length / labelTokens.length);
+    reasons.push(`label "${document.label}" matches`);
+  }
+
+  return { score: Math.min(score, 1), reasons };
+};
+
+/**
+ * Picks a stored document for each file input from its labels, skipping
+ * documents the input's accept attribute would reject.
+ */
+export const matchDocumentFields = (
+  targets: DocumentTarget[],
+  documents: StoredDocument[],
+): FieldMapping[] => {
+  if (documents.length === 0) return [];
+
+  return targets.flatMap((target) => {
+    const best = documents
+      .filter((document) => isAcceptedDocument(document, target.accept))
+      .map((document) => ({ document, ...scoreDocument(target, document) }))
+      .sort((a, b) => b.score - a.score)[0];
+
+    if (!best || best.score < MIN_MATCH_CONFIDENCE) return [];
+
+    return [
+      {
+        fieldOpid: target.opid,
+        value: best.document.fileName,
+        confidence: best.score,
+        reasoning: `Attach ${best.document.label}: ${best.reasons.join(", ")}`,
+        documentId: best.document.id,
+      },
+    ];
+  });
+};
+
+export const toDocumentTarget = ({
+  opid,
+  metadata,
+}: DetectedFieldSnapshot): DocumentTarget => ({
+  opid,
+  labels: compact([
+    metadata.labelTag,
+    metadata.labelAria,
+    metadata.labelData,
+    metadata.labelLeft,
+    metadata.labelTop,
+    metadata.placeholder,
+    metadata.helperText,
+    metadata.name,
+    metadata.id,
+  ]).join(" "),
+  accept: metadata.accept ?? null,
+});
+
+export const cdpFieldToDocumentTarget = (
+  field: CDPDetectedField,
+): DocumentTarget => {
+  const dm = field.domMetadata;
+
+  return {
+    opid: field.opid,
+    labels: compact([
+      dm?.labelText,
+      field.name,
+      field.description,
+      dm?.helperText,
+      dm?.htmlName,
+      dm?.htmlId,
+    ]).join(" "),
+    accept: dm?.accept ?? null,
+  };
+};
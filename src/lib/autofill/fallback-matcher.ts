@@ -5,6 +5,7 @@ import type {
   FieldMapping,
 } from "@/types/autofill";
 import {
+  FEEDBACK_PRIOR_WEIGHT,
   FIELD_PURPOSE_KEYWORDS,
   MIN_MATCH_CONFIDENCE,
   STOP_WORDS,
@@ -97,10 +98,19 @@ export class FallbackMatcher {
     const contextScore = this.scoreContextSimilarity(field, memory) * 0.3;
     const categoryScore = this.scoreCategoryMatch(field, memory) * 0.2;
     const labelScore = this.scoreLabelOverlap(field, memory) * 0.1;
-
-    return Math.min(
-      1,
-      purposeScore + contextScore + categoryScore + labelScore,
+    const feedbackScore =
+      (field.feedbackPriors?.[memory.id] ?? 0) * FEEDBACK_PRIOR_WEIGHT;
+
+    return Math.max(
+      0,
+      Math.min(
+        1,
+        purposeScore +
+          contextScore +
+          categoryScore +
+          labelScore +
+          feedbackScore,
+      ),
     );
   }
 
@@ -219,6 +229,13 @@ export class FallbackMatcher {
       }
     }
 
+    const prior = field.feedbackPriors?.[memory.id] ?? 0;
+    if (prior > 0) {
+      reasons.push("You accepted this memory for this field before");
+    } else if (prior < 0) {
+      reasons.push("You rejected this memory for this field before");
+    }
+
     if (reasons.length === 0) {
       reasons.push("Weak match based on partial context overlap");
     }
@@ -0,0 +1,94 @@
+import type { FieldSensitivity } from "@/types/autofill";
+import type { PurposeInferenceInput } from "./field-purpose";
+
+const AUTOCOMPLETE_TO_SENSITIVITY: Record<string, FieldSensitivity> = {
+  bday: "date_of_birth",
+  "bday-day": "date_of_birth",
+  "bday-month": "date_of_birth",
+  "bday-year": "date_of_birth",
+  "cc-number": "credit_card",
+  "cc-csc": "credit_card",
+  "cc-exp": "credit_card",
+  "cc-exp-month": "credit_card",
+  "cc-exp-year": "credit_card",
+};
+
+// Ordered so that the more specific kinds win, e.g. "passport number" is
+// not mistaken for a national id
+const SENSITIVITY_PATTERNS: Array<{
+  regex: RegExp;
+  sensitivity: FieldSensitivity;
+}> = [
+  { regex: /\bpassport\b/i, sensitivity: "passport" },
+  {
+    regex: /\b(driver'?s?|driving)[\s-]?licen[cs]e\b|\bdl[\s-]?(number|no)\b/i,
+    sensitivity: "drivers_license",
+  },
+  {
+    regex:
+      /\b(credit[\s-]?card|debit[\s-]?card|card[\s-]?number|cvv|cvc|csc)\b/i,
+    sensitivity: "credit_card",
+  },
+  {
+    regex:
+      /\b(bank[\s-]?account|account[\s-]?number|iban|routing[\s-]?number|sort[\s-]?code|swift|bic)\b/i,
+    sensitivity: "bank_account",
+  },
+  {
+    regex:
+      /\b(tax[\s-]?id|tin|itin|ein|vat[\s-]?(number|id)|pan[\s-]?number)\b/i,
+    sensitivity: "tax_id",
+  },
+  {
+    regex:
+      /\b(ssn|social[\s-]?security|national[\s-]?(id|identity|insurance)|aadhaa?r|sin[\s-]?number)\b/i,
+    sensitivity: "national_id",
+  },
+  {
+    regex:
+      /\b(salary|compensation|wage|pay[\s-]?rate|income|ctc|expected[\s-]?pay)\b/i,
+    sensitivity: "salary",
+  },
+  {
+    regex: /\b(date[\s-]?of[\s-]?birth|birth[\s-]?date|birthday|dob)\b/i,
+    sensitivity: "date_of_birth",
+  },
+];
+
+/**
+ * Classifies fields whose values are too sensitive to fill on a guess.
+ * Returns null for ordinary fields.
+ */
+export function classifyFieldSensitivity(
+  input: PurposeInferenceInput,
+): FieldSensitivity | null {
+  const autocomplete = input.autocomplete?.toLowerCase();
+  if (autocomplete) {
+    for (const token of autocomplete.split(/\s+/)) {
+      const sensitivity = AUTOCOMPLETE_TO_SENSITIVITY[token];
+      if (sensitivity) return sensitivity;
+    }
+  }
+
+  // Split camelCase and snake_case so html names like "dateOfBirth" or
+  // "ssn_last4" match the word patterns
+  const allText = [
+    ...input.labels,
+    input.placeholder,
+    input.htmlName,
+    input.htmlId,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .replace(/[_.]+/g, " ")
+    .toLowerCase();
+
+  for (const { regex, sensitivity } of SENSITIVITY_PATTERNS) {
+    if (regex.test(allText)) {
+      return sensitivity;
+    }
+  }
+
+  return null;
+}
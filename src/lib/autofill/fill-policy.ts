@@ -0,0 +1,192 @@
+import type {
+  DetectedFieldSnapshot,
+  FieldMapping,
+  FieldPurpose,
+  FieldSensitivity,
+} from "@/types/autofill";
+import type { MemoryEntry } from "@/types/memory";
+import type { AISettings, FillRuleTarget } from "@/types/settings";
+import { classifyFieldSensitivity } from "./field-sensitivity";
+
+/** Threshold for sensitive fields that have no threshold of their own */
+export const SENSITIVE_FIELD_THRESHOLD = 0.95;
+
+/** Used until the user edits the never auto-fill list */
+export const DEFAULT_NEVER_AUTOFILL: FillRuleTarget[] = [
+  "national_id",
+  "tax_id",
+  "passport",
+  "drivers_license",
+  "bank_account",
+  "credit_card",
+];
+
+export const FILL_RULE_TARGET_LABELS: Record<FillRuleTarget, string> = {
+  name: "Name",
+  email: "Email",
+  phone: "Phone",
+  address: "Address",
+  city: "City",
+  state: "State",
+  zip: "Postal code",
+  country: "Country",
+  company: "Company",
+  title: "Job title",
+  national_id: "SSN / national ID",
+  tax_id: "Tax ID",
+  passport: "Passport",
+  drivers_license: "Driver's license",
+  bank_account: "Bank account",
+  credit_card: "Payment card",
+  salary: "Salary",
+  date_of_birth: "Date of birth",
+};
+
+export const SENSITIVE_FIELD_KINDS: FieldSensitivity[] = [
+  "national_id",
+  "tax_id",
+  "passport",
+  "drivers_license",
+  "bank_account",
+  "credit_card",
+  "salary",
+  "date_of_birth",
+];
+
+interface FillDecision {
+  autoFill: boolean;
+  sensitivity: FieldSensitivity | null;
+  requiresConfirmation: boolean;
+}
+
+function getFieldSensitivity(
+  field: DetectedFieldSnapshot,
+): FieldSensitivity | null {
+  const { metadata } = field;
+  return classifyFieldSensitivity({
+    fieldType: metadata.fieldType,
+    autocomplete: metadata.autocomplete,
+    labels: [
+      metadata.labelTag,
+      metadata.labelAria,
+      metadata.labelData,
+      metadata.labelLeft,
+      metadata.labelTop,
+      metadata.helperText,
+    ],
+    placeholder: metadata.placeholder,
+    htmlName: metadata.name,
+    htmlId: metadata.id,
+  });
+}
+
+function getMemorySensitivity(memory: MemoryEntry): FieldSensitivity | null {
+  return classifyFieldSensitivity({
+    fieldType: "text",
+    autocomplete: null,
+    labels: [memory.question],
+    placeholder: null,
+    htmlName: null,
+    htmlId: null,
+  });
+}
+
+function isNeverAutoFill(
+  sensitivity: FieldSensitivity | null,
+  purpose: FieldPurpose,
+  settings: AISettings | null,
+): boolean {
+  const neverAutoFill = settings?.neverAutoFill ?? DEFAULT_NEVER_AUTOFILL;
+  return sensitivity
+    ? neverAutoFill.includes(sensitivity)
+    : purpose !== "unknown" && neverAutoFill.includes(purpose);
+}
+
+/**
+ * Decides whether a mapping may be filled without the user confirming it.
+ * The field's sensitivity takes precedence over its purpose, so a "zip"
+ * field that turns out to ask for a bank sort code is held to the bank rule.
+ */
+function decideFill(
+  mapping: FieldMapping,
+  field: DetectedFieldSnapshot | undefined,
+  settings: AISettings | null,
+): FillDecision {
+  const sensitivity = field ? getFieldSensitivity(field) : null;
+  const purpose = field?.metadata.fieldPurpose ?? "unknown";
+  const thresholds = settings?.fieldThresholds ?? {};
+
+  const threshold = sensitivity
+    ? (thresholds[sensitivity] ?? SENSITIVE_FIELD_THRESHOLD)
+    : ((purpose !== "unknown" ? thresholds[purpose] : undefined) ??
+      settings?.confidenceThreshold ??
+      0.6);
+
+  const requiresConfirmation = isNeverAutoFill(sensitivity, purpose, settings);
+
+  return {
+    autoFill:
+      !requiresConfirmation &&
+      mapping.value !== null &&
+      mapping.confidence >= threshold,
+    sensitivity,
+    requiresConfirmation,
+  };
+}
+
+/** Applies the per field thresholds and never auto-fill list to mappings */
+export function applyFillPolicy(
+  mappings: FieldMapping[],
+  fields: DetectedFieldSnapshot[],
+  settings: AISettings | null,
+): FieldMapping[] {
+  const fieldsByOpid = new Map<string, DetectedFieldSnapshot>(
+    fields.map((field) => [field.opid, field]),
+  );
+
+  return mappings.map((mapping) => {
+    const { autoFill, sensitivity, requiresConfirmation } = decideFill(
+      mapping,
+      fieldsByOpid.get(mapping.fieldOpid),
+      settings,
+    );
+
+    return {
+      ...mapping,
+      autoFill,
+      sensitivity: sensitivity ?? undefined,
+      requiresConfirmation: requiresConfirmation || undefined,
+    };
+  });
+}
+
+/**
+ * Picks the memories that may be offered as inline suggestions for a field.
+ * Nothing is offered on fields from the never auto-fill list, memories on
+ * that list are never offered, and other sensitive memories only show up on
+ * a field of the same kind.
+ */
+export function filterSuggestibleMemories(
+  field: DetectedFieldSnapshot,
+  memories: MemoryEntry[],
+  settings: AISettings | null,
+): MemoryEntry[] {
+  const fieldSensitivity = getFieldSensitivity(field);
+
+  if (
+    isNeverAutoFill(fieldSensitivity, field.metadata.fieldPurpose, settings)
+  ) {
+    return [];
+  }
+
+  return memories.filter((memory) => {
+    const sensitivity = getMemorySensitivity(memory);
+    const purpose = (memory.metadata.fieldPurpose ?? "unknown") as FieldPurpose;
+
+    if (isNeverAutoFill(sensitivity, purpose, settings)) {
+      return false;
+    }
+
+    return !sensitivity || sensitivity === fieldSensitivity;
+  });
+}
@@ -0,0 +1,84 @@
+import type {
+  DetectedFieldSnapshot,
+  FieldMapping,
+  FieldMetadataSnapshot,
+} from "@/types/autofill";
+import type { FilledField } from "@/types/memory";
+
+/** The label a filled field is recorded under in fill history */
+export const getFieldDisplayLabel = (
+  metadata: Pick<
+    FieldMetadataSnapshot,
+    | "labelTag"
+    | "labelAria"
+    | "labelData"
+    | "labelTop"
+    | "labelLeft"
+    | "placeholder"
+    | "name"
+    | "id"
+    | "type"
+  >,
+): string => {
+  const candidates = [
+    metadata.labelTag,
+    metadata.labelAria,
+    metadata.labelData,
+    metadata.labelTop,
+    metadata.labelLeft,
+    metadata.placeholder,
+    metadata.name,
+    metadata.id,
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate && candidate.trim().length > 0) {
+      return candidate.trim();
+    }
+  }
+
+  return metadata.type;
+};
+
+const toReplayKey = (label: string, fieldType: string) =>
+  `${fieldType}:${label.trim().toLowerCase()}`;
+
+/**
+ * Maps the values of a past fill back onto the fields detected now. Fields
+ * are paired by label and type, in page order when a label repeats, since
+ * field ids do not survive a reload.
+ */
+export const matchFilledFields = (
+  fields: DetectedFieldSnapshot[],
+  filledFields: FilledField[],
+): FieldMapping[] => {
+  const valuesByKey = new Map<string, string[]>();
+  for (const filled of filledFields) {
+    if (!filled.filledValue) continue;
+
+    const key = toReplayKey(filled.label, filled.fieldType);
+    valuesByKey.set(key, [...(valuesByKey.get(key) ?? []), filled.filledValue]);
+  }
+
+  return fields.flatMap((field) => {
+    const value = valuesByKey
+      .get(
+        toReplayKey(
+          getFieldDisplayLabel(field.metadata),
+          field.metadata.fieldType,
+        ),
+      )
+      ?.shift();
+
+    return value
+      ? [
+          {
+            fieldOpid: field.opid,
+            value,
+            confidence: 1,
+            reasoning: "Same value as a previous fill of this form",
+          },
+        ]
+      : [];
+  });
+};
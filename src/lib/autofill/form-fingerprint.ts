@@ -0,0 +1,159 @@
+import type {
+  CDPDetectedField,
+  CompressedFieldData,
+  CompressedMemoryData,
+  DetectedFieldSnapshot,
+  FieldMapping,
+  FillCacheKey,
+} from "@/types/autofill";
+import { isCrypticString } from "./field-quality";
+
+const MIN_ATTRIBUTION_LENGTH = 2;
+const MAX_CANDIDATE_ATTRIBUTIONS = 3;
+
+const normalizeKeyPart = (value: string | null | undefined): string => {
+  if (!value || isCrypticString(value)) return "";
+
+  return value
+    .normalize("NFKD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+};
+
+const isVolatileSegment = (segment: string): boolean =>
+  /^\d+$/.test(segment) ||
+  /^[a-f0-9-]{16,}$/i.test(segment) ||
+  isCrypticString(segment);
+
+/**
+ * Reduces a URL to `host/path` with ids and hashes replaced by `*`, so
+ * `/jobs/123/apply` and `/jobs/456/apply` share cache entries.
+ */
+export const buildUrlPattern = (url: string): string => {
+  try {
+    const { host, pathname } = new URL(url);
+    const path = pathname
+      .split("/")
+      .filter(Boolean)
+      .map((segment) => (isVolatileSegment(segment) ? "*" : segment))
+      .join("/");
+
+    return `${host}/${path}`;
+  } catch {
+    return url;
+  }
+};
+
+export const buildDomFieldKey = (
+  field: Pick<DetectedFieldSnapshot, "metadata">,
+): string => {
+  const { metadata } = field;
+  const label =
+    metadata.labelTag ??
+    metadata.labelAria ??
+    metadata.labelData ??
+    metadata.labelTop ??
+    metadata.labelLeft ??
+    metadata.placeholder;
+
+  return [
+    "dom",
+    metadata.fieldType,
+    normalizeKeyPart(metadata.name),
+    normalizeKeyPart(metadata.id),
+    normalizeKeyPart(label),
+  ].join("|");
+};
+
+export const buildCDPFieldKey = (field: CDPDetectedField): string => {
+  const fp = field.fingerprint;
+
+  return [
+    "cdp",
+    fp?.inputType ?? field.role,
+    normalizeKeyPart(fp?.htmlName ?? field.domMetadata?.htmlName),
+    normalizeKeyPart(fp?.htmlId ?? field.domMetadata?.htmlId),
+    normalizeKeyPart(fp?.labelText ?? fp?.name ?? field.name),
+  ].join("|");
+};
+
+const sha256Hex = async (input: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(input);
+  const hashBuffer = await globalThis.crypto.subtle.digest("SHA-256", bytes);
+
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export const buildFillCacheKey = async <T extends { opid: string }>(
+  fields: T[],
+  url: string,
+  getFieldKey: (field: T) => string,
+): Promise<FillCacheKey> => {
+  const fieldKeys: Record<string, string> = {};
+
+  for (const field of fields) {
+    fieldKeys[field.opid] = getFieldKey(field);
+  }
+
+  const urlPattern = buildUrlPattern(url);
+  const sortedKeys = Object.values(fieldKeys).sort();
+
+  return {
+    fingerprint: await sha256Hex(`${urlPattern}\n${sortedKeys.join("\n")}`),
+    urlPattern,
+    fieldKeys,
+  };
+};
+
+/**
+ * Best-effort attribution of each suggested value to the memories it came
+ * from, best first: memories whose answer contains (or is contained in) the
+ * value, closest in length first, else the field's top retrieval candidates.
+ */
+export const attributeMappingsToMemories = (
+  mappings: FieldMapping[],
+  fields: CompressedFieldData[],
+  memories: CompressedMemoryData[],
+): FieldMapping[] => {
+  const fieldsByOpid = new Map(fields.map((f) => [f.opid, f]));
+
+  return mappings.map((mapping) => {
+    if (mapping.value === null) return mapping;
+
+    const value = mapping.value.toLowerCase().trim();
+    const matched = memories
+      .map((memory) => ({
+        id: memory.id,
+        answer: memory.answer.toLowerCase().trim(),
+      }))
+      .filter(({ answer }) => {
+        if (
+          answer.length < MIN_ATTRIBUTION_LENGTH ||
+          value.length < MIN_ATTRIBUTION_LENGTH
+        ) {
+          return false;
+        }
+        return answer.includes(value) || value.includes(answer);
+      })
+      .sort(
+        (a, b) =>
+          Math.abs(a.answer.length - value.length) -
+          Math.abs(b.answer.length - value.length),
+      )
+      .map(({ id }) => id);
+
+    const memoryIds =
+      matched.length > 0
+        ? matched
+        : (fieldsByOpid.get(mapping.fieldOpid)?.candidateMemoryIds ?? []).slice(
+            0,
+            MAX_CANDIDATE_ATTRIBUTIONS,
+          );
+
+    return { ...mapping, memoryIds };
+  });
+};
@@ -1,3 +1,5 @@
+import { FEEDBACK_REJECT_THRESHOLD } from "./constants";
+
 type MappingBase = {
   fieldOpid: string;
   value: string | null;
@@ -41,3 +43,33 @@ export const createEmptyMapping = <
 
 export const roundConfidence = (value: number): number =>
   Math.round(Math.max(0, Math.min(1, value)) * 100) / 100;
+
+type AttributedMapping = MappingBase & { memoryIds?: string[] };
+
+/**
+ * Clears suggestions whose source memories the user has kept rejecting for
+ * this field, so the same bad value does not come back on every fill.
+ */
+export const dropRejectedMappings = <T extends AttributedMapping>(
+  mappings: T[],
+  feedbackPriors: Map<string, Record<string, number>>,
+): T[] =>
+  mappings.map((mapping) => {
+    const priors = feedbackPriors.get(mapping.fieldOpid);
+    if (!priors || mapping.value === null || !mapping.memoryIds?.length) {
+      return mapping;
+    }
+
+    const rejected = mapping.memoryIds.every(
+      (id) => (priors[id] ?? 0) <= FEEDBACK_REJECT_THRESHOLD,
+    );
+
+    return rejected
+      ? {
+          ...mapping,
+          value: null,
+          confidence: 0,
+          reasoning: "You rejected this suggestion for this field before",
+        }
+      : mapping;
+  });
@@ -0,0 +1,174 @@
+import {
+  cosineSimilarity,
+  embedTexts,
+  ensureMemoryEmbeddings,
+} from "@/lib/ai/embeddings";
+import { createLogger } from "@/lib/logger";
+import type { CompressedFieldData } from "@/types/autofill";
+import type { MemoryEntry } from "@/types/memory";
+import {
+  FIELD_PURPOSE_KEYWORDS,
+  MAX_MEMORIES_FOR_MATCHING,
+  MEMORY_RETRIEVAL_PURPOSE_BONUS,
+  MEMORY_RETRIEVAL_TOP_K,
+  MEMORY_RETRIEVAL_USAGE_BONUS,
+} from "./constants";
+
+const logger = createLogger("memory-retrieval");
+
+export interface MemoryRetrievalResult {
+  memories: MemoryEntry[];
+  candidatesByField: Map<string, string[]>;
+}
+
+const buildFieldEmbeddingText = (field: CompressedFieldData): string => {
+  const parts = [...field.labels, field.context];
+
+  if (field.purpose !== "unknown") {
+    parts.push(field.purpose, ...FIELD_PURPOSE_KEYWORDS[field.purpose]);
+  }
+
+  return parts.filter(Boolean).join(" ");
+};
+
+const scoreMemory = (
+  field: CompressedFieldData,
+  fieldEmbedding: number[],
+  embedderId: string,
+  memory: MemoryEntry,
+  usageScores: Map<string, number>,
+): number => {
+  // The field falls back to the hashing embedder when the active one fails
+  let score =
+    memory.embedderId === embedderId
+      ? cosineSimilarity(fieldEmbedding, memory.embedding ?? [])
+      : 0;
+  if (
+    field.purpose !== "unknown" &&
+    memory.metadata.fieldPurpose === field.purpose
+  ) {
+    score += MEMORY_RETRIEVAL_PURPOSE_BONUS;
+  }
+  if (score > 0) {
+    score += MEMORY_RETRIEVAL_USAGE_BONUS * (usageScores.get(memory.id) ?? 0);
+  }
+  return score;
+};
+
+/**
+ * Ranks memories for every field and returns the union of each field's
+ * top-k candidates, interleaved by rank so every field gets its best
+ * matches in before the overall limit is reached. Usage scores nudge
+ * frequently and recently filled memories ahead of similar ones.
+ */
+export const retrieveRelevantMemories = async (
+  fields: CompressedFieldData[],
+  memories: MemoryEntry[],
+  usageScores = new Map<string, number>(),
+  topK = MEMORY_RETRIEVAL_TOP_K,
+  limit = MAX_MEMORIES_FOR_MATCHING,
+): Promise<MemoryRetrievalResult> => {
+  const candidatesByField = new Map<string, string[]>();
+  const bestScores = new Map<string, number>();
+
+  if (fields.length === 0 || memories.length === 0) {
+    return { memories: memories.slice(0, limit), candidatesByField };
+  }
+
+  const indexedMemories = await ensureMemoryEmbeddings(memories);
+  const { embedderId, embeddings: fieldEmbeddings } = await embedTexts(
+    fields.map((field) => buildFieldEmbeddingText(field)),
+  );
+
+  const rankedPerField: MemoryEntry[][] = fields.map((field, index) => {
+    const fieldEmbedding = fieldEmbeddings[index];
+
+    const ranked = indexedMemories
+      .map((memory) => {
+        const score = scoreMemory(
+          field,
+          fieldEmbedding,
+          embedderId,
+          memory,
+          usageScores,
+        );
+        bestScores.set(
+          memory.id,
+          Math.max(bestScores.get(memory.id) ?? 0, score),
+        );
+        return { memory, score };
+      })
+      .filter((candidate) => candidate.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+      .map((candidate) => candidate.memory);
+
+    candidatesByField.set(
+      field.opid,
+      ranked.map((memory) => memory.id),
+    );
+
+    return ranked;
+  });
+
+  const selected = new Map<string, MemoryEntry>();
+
+  for (let rank = 0; rank < topK && selected.size < limit; rank++) {
+    for (const ranked of rankedPerField) {
+      const memory = ranked[rank];
+      if (memory && !selected.has(memory.id)) {
+        selected.set(memory.id, memory);
+        if (selected.size >= limit) break;
+      }
+    }
+  }
+
+  // Spend any remaining budget on the next best memories overall, which
+  // helps compound fields that draw on several memories.
+  const remaining = indexedMemories
+    .filter((memory) => !selected.has(memory.id))
+    .sort((a, b) => (bestScores.get(b.id) ?? 0) - (bestScores.get(a.id) ?? 0));
+
+  for (const memory of remaining) {
+    if (selected.size >= limit) break;
+    selected.set(memory.id, memory);
+  }
+
+  logger.info(
+    `Retrieved ${selected.size} of ${memories.length} memories for ${fields.length} fields`,
+  );
+
+  return { memories: Array.from(selected.values()), candidatesByField };
+};
+
+/**
+ * Scores every memory against a single field, best match first. Memories
+ * that share nothing with the field are left out.
+ */
+export const rankMemoriesForField = async (
+  field: CompressedFieldData,
+  memories: MemoryEntry[],
+  usageScores = new Map<string, number>(),
+): Promise<{ memory: MemoryEntry; score: number }[]> => {
+  if (memories.length === 0) return [];
+
+  const indexedMemories = await ensureMemoryEmbeddings(memories);
+  const {
+    embedderId,
+    embeddings: [fieldEmbedding],
+  } = await embedTexts([buildFieldEmbeddingText(field)]);
+
+  return indexedMemories
+    .map((memory) => ({
+      memory,
+      score: scoreMemory(
+        field,
+        fieldEmbedding,
+        embedderId,
+        memory,
+        usageScores,
+      ),
+    }))
+    .filter((candidate) => candidate.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
@@ -2,6 +2,7 @@ import { defineProxyService } from "@webext-core/proxy-service";
 import { createLogger } from "@/lib/logger";
 import {
   completeSession,
+  saveSessionFormMappings,
   startSession,
   updateSession,
 } from "@/lib/storage/sessions";
@@ -51,9 +52,7 @@ class SessionService {
     formMappings: FormMapping[],
   ): Promise<boolean> {
     try {
-      await updateSession(sessionId, {
-        formMappings,
-      });
+      await saveSessionFormMappings(sessionId, formMappings);
 
       logger.info(
         "Form mappings saved for session:",
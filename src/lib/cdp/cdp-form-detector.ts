@@ -141,12 +141,16 @@ export async function detectFormFields(
     fields.push(...grouped);
   }
 
+  fields.push(...(await detectFileInputs(tabId)));
+
   const enrichedFields = await enrichAllFields(tabId, fields);
   for (const field of enrichedFields) {
     field.fingerprint = buildFieldFingerprint(field);
   }
 
   const visibleFields = enrichedFields.filter((f) => {
+    // Upload widgets usually hide the real input behind a styled button
+    if (f.role === "file") return true;
     if (f.domMetadata && !f.domMetadata.isVisible) return false;
     if (f.domMetadata && !f.domMetadata.isTopElement) return false;
     if (f.domMetadata?.inputType === "password") return false;
@@ -172,6 +176,59 @@ export async function detectFormFields(
   return visibleFields;
 }
 
+/**
+ * File inputs are exposed as buttons in the AX tree, so they are looked up
+ * in the DOM instead.
+ */
+async function detectFileInputs(tabId: number): Promise<CDPDetectedField[]> {
+  try {
+    const { root } = await sendCommand<{ root: { nodeId: number } }>(
+      tabId,
+      "DOM.getDocument",
+      { depth: 0 },
+    );
+    const { nodeIds } = await sendCommand<{ nodeIds: number[] }>(
+      tabId,
+      "DOM.querySelectorAll",
+      { nodeId: root.nodeId, selector: 'input[type="file"]' },
+    );
+
+    const fields: CDPDetectedField[] = [];
+
+    for (const nodeId of nodeIds) {
+      const { node } = await sendCommand<{
+        node: { backendNodeId: number; attributes?: string[] };
+      }>(tabId, "DOM.describeNode", { nodeId });
+
+      const attributes = node.attributes ?? [];
+      if (attributes.includes("disabled")) continue;
+
+      fields.push({
+        opid: `cdp-${node.backendNodeId}`,
+        highlightIndex: 0,
+        backendNodeId: node.backendNodeId,
+        role: "file",
+        name: "",
+        description: "",
+        value: "",
+        required: attributes.includes("required"),
+        disabled: false,
+        rect: (await getNodeRect(tabId, node.backendNodeId)) ?? {
+          x: 0,
+          y: 0,
+          width: 0,
+          height: 0,
+        },
+      });
+    }
+
+    return fields;
+  } catch (error) {
+    logger.warn("Failed to detect file inputs:", error);
+    return [];
+  }
+}
+
 function hasRadioGroupParent(
   node: AXNode,
   nodeMap: Map<string, AXNode>,
@@ -429,6 +486,11 @@ async function enrichAllFields(
       if (meta.placeholder && !field.name) {
         field.name = meta.placeholder;
       }
+
+      // File inputs come from the DOM and have no accessible name yet
+      if (field.role === "file" && !field.name) {
+        field.name = meta.labelText ?? "";
+      }
     }
 
     if (field.role === "radiogroup" && field.radioOptions?.length) {
@@ -751,7 +813,8 @@ async function enrichFieldFromDOM(
           isTopElement: isTopElement,
           isContentEditable: el.isContentEditable || false,
           isShadowHost: isShadowHost,
-          cssSelector: cssSelector
+          cssSelector: cssSelector,
+          accept: el.getAttribute('accept') || null
         });
       }`,
       returnByValue: true,
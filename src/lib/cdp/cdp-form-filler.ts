@@ -6,6 +6,7 @@ import type {
   CDPFillOutcome,
   CDPFillSummary,
 } from "@/types/autofill";
+import type { DocumentFile } from "@/types/document";
 import { resolveFieldBackendNodeId } from "./cdp-field-fingerprint";
 import {
   parseBooleanLike,
@@ -66,6 +67,7 @@ async function fillField(
   field: CDPDetectedField,
   backendNodeId: number,
   value: string,
+  file?: DocumentFile,
 ): Promise<void> {
   const { role } = field;
 
@@ -101,6 +103,11 @@ async function fillField(
       await fillSlider(tabId, backendNodeId, value);
       break;
 
+    case "file":
+      if (!file) throw new Error("No document to attach");
+      await attachFile(tabId, backendNodeId, file);
+      break;
+
     default:
       logger.warn(`Unsupported role for filling: ${role}`);
   }
@@ -145,7 +152,13 @@ async function fillFieldWithRecoveryAndVerification(
   while (attempts < MAX_FILL_ATTEMPTS) {
     attempts++;
     try {
-      await fillField(tabId, field, backendNodeId, requestedValue);
+      await fillField(
+        tabId,
+        field,
+        backendNodeId,
+        requestedValue,
+        mapping.file,
+      );
       const verification = await verifyFilledField(
         tabId,
         field,
@@ -313,6 +326,64 @@ async function setNodeValueViaRuntime(
   }
 }
 
+/**
+ * DOM.setFileInputFiles only takes paths on disk, which an extension can't
+ * provide, so the file is rebuilt in the page and set through DataTransfer.
+ */
+async function attachFile(
+  tabId: number,
+  backendNodeId: number,
+  file: DocumentFile,
+): Promise<void> {
+  const resolved = await sendCommand<{ object: { objectId: string } }>(
+    tabId,
+    "DOM.resolveNode",
+    { backendNodeId },
+  );
+
+  if (!resolved?.object?.objectId) {
+    throw new Error("Could not resolve file input");
+  }
+
+  const result = await sendCommand<{ result: { value?: boolean } }>(
+    tabId,
+    "Runtime.callFunctionOn",
+    {
+      objectId: resolved.object.objectId,
+      functionDeclaration: `function(data, fileName, mimeType) {
+        const el = this;
+        if (!(el instanceof HTMLInputElement) || el.type !== 'file') {
+          return false;
+        }
+
+        const binary = atob(data);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) {
+          bytes[i] = binary.charCodeAt(i);
+        }
+
+        const transfer = new DataTransfer();
+        transfer.items.add(new File([bytes], fileName, { type: mimeType }));
+        el.files = transfer.files;
+
+        el.dispatchEvent(new Event('input', { bubbles: true }));
+        el.dispatchEvent(new Event('change', { bubbles: true }));
+        return true;
+      }`,
+      arguments: [
+        { value: file.data },
+        { value: file.fileName },
+        { value: file.mimeType },
+      ],
+      returnByValue: true,
+    },
+  );
+
+  if (result?.result?.value !== true) {
+    throw new Error("Element is not a file input");
+  }
+}
+
 async function fillContentEditable(
   tabId: number,
   backendNodeId: number,
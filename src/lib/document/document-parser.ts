@@ -2,19 +2,34 @@ import { generateText, Output } from "ai";
 import type * as PdfjsDist from "pdfjs-dist";
 import { z } from "zod";
 import { getTelemetryConfig } from "@/lib/ai/telemetry";
+import {
+  extractTextFromDOCX,
+  extractTextFromHTML,
+  extractTextFromMarkdown,
+  extractTextFromRTF,
+} from "@/lib/document/text-extractors";
 import { createLogger } from "@/lib/logger";
 import { getAIModel, getProviderOptions } from "@/lib/providers/model-factory";
-import { getKeyVaultService } from "@/lib/security/key-vault-service";
-import { storage } from "@/lib/storage";
+import {
+  getModelChain,
+  type ModelTarget,
+  withModelFallback,
+} from "@/lib/providers/model-router";
 import type {
+  DocumentFormat,
   DocumentImportItem,
   DocumentParseResult,
   ExtractedItem,
   ParseDocumentOptions,
   PDFAnnotation,
+  PDFContent,
+  PDFLink,
+  PDFTextLine,
   TextItem,
 } from "@/types/document";
 import type { AllowedCategory } from "@/types/memory";
+import { jsonResumeToItems, parseJsonResume } from "./json-resume";
+import { extractItemsFromPDF, extractItemsOffline } from "./offline-extractor";
 
 const logger = createLogger("document-parser");
 
@@ -54,7 +69,91 @@ const ExtractedInfoSchema = z.object({
   ),
 });
 
-export async function extractTextFromPDF(file: File): Promise<string> {
+// Text items whose baselines are closer than this, in font sizes, share a line
+const BASELINE_TOLERANCE = 0.3;
+// A gap this wide, in font sizes, separates columns, like a job title and its
+// right-aligned dates
+const COLUMN_GAP = 2;
+
+function getFontSize(item: TextItem): number {
+  return Math.hypot(item.transform[2], item.transform[3]) || item.height;
+}
+
+function groupIntoLines(items: TextItem[], page: number): PDFTextLine[] {
+  const rows: TextItem[][] = [];
+  const sorted = items
+    .filter((item) => item.str?.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5]);
+
+  for (const item of sorted) {
+    const row = rows.at(-1);
+
+    if (
+      row &&
+      Math.abs(row[0].transform[5] - item.transform[5]) <=
+        getFontSize(row[0]) * BASELINE_TOLERANCE
+    ) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map((row) => {
+    row.sort((a, b) => a.transform[4] - b.transform[4]);
+
+    let text = "";
+    let lastX = 0;
+
+    for (const item of row) {
+      const x = item.transform[4];
+      const fontSize = getFontSize(item);
+
+      if (text && x - lastX > fontSize * COLUMN_GAP) {
+        text += " | ";
+      } else if (text && x - lastX > fontSize * 0.2) {
+        text += " ";
+      }
+
+      text += item.str;
+      lastX = x + item.width;
+    }
+
+    return {
+      text: text.replace(/\s+/g, " ").trim(),
+      page,
+      x: row[0].transform[4],
+      y: row[0].transform[5],
+      fontSize: Math.max(...row.map(getFontSize)),
+    };
+  });
+}
+
+/** The text under a link annotation, so "GitHub" can be told from "Portfolio" */
+function findLinkText(
+  rect: number[] | undefined,
+  items: TextItem[],
+): string | undefined {
+  if (!rect) return undefined;
+
+  const [left, bottom, right, top] = rect;
+  const text = items
+    .filter((item) => {
+      const [, , , , x, y] = item.transform;
+      const center = x + item.width / 2;
+      return (
+        center >= left && center <= right && y >= bottom - 2 && y <= top + 2
+      );
+    })
+    .map((item) => item.str)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return text || undefined;
+}
+
+export async function extractPDFContent(file: File): Promise<PDFContent> {
   if (!_pdfjsLib) {
     _pdfjsLib = await import("pdfjs-dist");
     _pdfjsLib.GlobalWorkerOptions.workerSrc =
@@ -64,82 +163,63 @@ export async function extractTextFromPDF(file: File): Promise<string> {
   const pdfjsLib = _pdfjsLib;
   const arrayBuffer = await file.arrayBuffer();
   const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  let fullText = "";
-  const allLinks: string[] = [];
+  const lines: PDFTextLine[] = [];
+  const links: PDFLink[] = [];
 
   for (let i = 1; i <= pdf.numPages; i++) {
     const page = await pdf.getPage(i);
     const textContent = await page.getTextContent();
+    const items = textContent.items as TextItem[];
 
     try {
       const annotations = await page.getAnnotations();
       for (const annotation of annotations as PDFAnnotation[]) {
         if (annotation.subtype === "Link" && annotation.url) {
-          allLinks.push(annotation.url);
+          links.push({
+            url: annotation.url,
+            page: i,
+            text: findLinkText(annotation.rect, items),
+          });
         }
       }
     } catch (e) {
       logger.debug("Could not extract annotations:", e);
     }
 
-    const items = textContent.items as TextItem[];
-    const lineMap = new Map<number, TextItem[]>();
-
-    for (const item of items) {
-      if (!item.str) continue;
-
-      const y = Math.round(item.transform[5]);
-
-      if (!lineMap.has(y)) {
-        lineMap.set(y, []);
-      }
-
-      lineMap.get(y)?.push(item);
-    }
-
-    const sortedYPositions = [...lineMap.keys()].sort((a, b) => b - a);
-
-    for (const y of sortedYPositions) {
-      const lineItems = lineMap.get(y);
-
-      if (!lineItems) continue;
-
-      lineItems.sort((a, b) => a.transform[4] - b.transform[4]);
-
-      let lineText = "";
-      let lastX = 0;
-
-      for (const item of lineItems) {
-        const x = item.transform[4];
+    lines.push(...groupIntoLines(items, i));
+  }
 
-        if (lineText && x - lastX > 5) {
-          lineText += " ";
-        }
+  logger.debug("Extracted PDF lines:", lines.length);
+  logger.debug("Found hyperlinks:", links.length);
+  return { lines, links };
+}
 
-        lineText += item.str;
-        lastX = x + item.width;
-      }
+export function pdfContentToText({ lines, links }: PDFContent): string {
+  let fullText = "";
 
-      if (lineText.trim()) {
-        fullText += `${lineText.trim()}\n`;
-      }
+  lines.forEach((line, index) => {
+    if (index > 0 && line.page !== lines[index - 1].page) {
+      fullText += "\n";
     }
+    fullText += `${line.text}\n`;
+  });
 
-    fullText += "\n";
-  }
-
-  if (allLinks.length > 0) {
-    const uniqueLinks = [...new Set(allLinks)];
+  if (links.length > 0) {
+    const uniqueLinks = [...new Set(links.map((link) => link.url))];
 
-    fullText += "\n--- HYPERLINKS FOUND IN DOCUMENT ---\n";
+    fullText += "\n\n--- HYPERLINKS FOUND IN DOCUMENT ---\n";
 
     for (const link of uniqueLinks) {
       fullText += `${link}\n`;
     }
   }
 
+  return fullText;
+}
+
+export async function extractTextFromPDF(file: File): Promise<string> {
+  const fullText = pdfContentToText(await extractPDFContent(file));
   logger.debug("Extracted PDF text length:", fullText.length);
-  logger.debug("Found hyperlinks:", allLinks.length);
   return fullText;
 }
 
@@ -180,53 +260,115 @@ Be thorough - users want to capture as much useful information as possible from
 
 async function parseDocumentWithAI(
   text: string,
+  targets: ModelTarget[],
   logPrefix: string,
   signal?: AbortSignal,
 ): Promise<ExtractedItem[]> {
-  const aiSettings = await storage.aiSettings.getValue();
-  const { selectedProvider, selectedModels } = aiSettings;
+  const output = await withModelFallback(
+    targets,
+    async ({ provider, apiKey, model: modelName }) => {
+      throwIfAborted(signal);
 
-  if (!selectedProvider) {
-    throw new Error(
-      "AI provider not configured. Please set up an AI provider in settings.",
-    );
-  }
+      const model = await getAIModel(provider, apiKey, modelName);
 
-  throwIfAborted(signal);
+      logger.debug(
+        `${logPrefix} AI call start — provider: ${provider}, model: ${modelName ?? "default"}, text length: ${text.length} chars`,
+      );
 
-  const keyVaultService = getKeyVaultService();
-  const apiKey = await keyVaultService.getKey(selectedProvider);
+      const { output } = await generateText({
+        model,
+        output: Output.object({
+          schema: ExtractedInfoSchema,
+          name: "ExtractedInfo",
+          description: "Information extracted from a document for form filling",
+        }),
+        system: DOCUMENT_PARSING_PROMPT,
+        prompt: `Extract all useful personal and professional information from this document:\n\n${text}`,
+        temperature: 0.1,
+        providerOptions: getProviderOptions(provider),
+        ...getTelemetryConfig("document-parsing", {
+          provider,
+          operation: "parse_document",
+        }),
+      });
+
+      return output;
+    },
+  );
 
-  if (!apiKey && selectedProvider !== "ollama") {
-    throw new Error(
-      `API key not configured for ${selectedProvider}. Please add your API key in settings.`,
-    );
+  logger.debug("AI extracted items:", output.items.length);
+
+  return output.items;
+}
+
+const DOCUMENT_FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: "pdf",
+  txt: "txt",
+  docx: "docx",
+  rtf: "rtf",
+  md: "markdown",
+  markdown: "markdown",
+  html: "html",
+  htm: "html",
+  json: "json",
+};
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = Object.keys(
+  DOCUMENT_FORMATS_BY_EXTENSION,
+).map((extension) => `.${extension}`);
+
+const TEXT_EXTRACTORS: Record<
+  Exclude<DocumentFormat, "json">,
+  (file: File) => Promise<string>
+> = {
+  pdf: extractTextFromPDF,
+  txt: (file) => file.text(),
+  docx: extractTextFromDOCX,
+  rtf: extractTextFromRTF,
+  markdown: extractTextFromMarkdown,
+  html: extractTextFromHTML,
+};
+
+export function getDocumentFormat(file: File): DocumentFormat | null {
+  const extension = file.name.toLowerCase().split(".").pop() ?? "";
+  if (extension in DOCUMENT_FORMATS_BY_EXTENSION) {
+    return DOCUMENT_FORMATS_BY_EXTENSION[extension];
   }
 
-  const selectedModel = selectedModels?.[selectedProvider];
-  const model = getAIModel(selectedProvider, apiKey || "", selectedModel);
+  if (file.type === "application/pdf") return "pdf";
+  if (file.type === "text/plain") return "txt";
+  return null;
+}
 
-  logger.debug(
-    `${logPrefix} AI call start — provider: ${selectedProvider}, model: ${selectedModel ?? "default"}, text length: ${text.length} chars`,
-  );
+// JSON Resumes map straight onto items, no AI provider needed
+async function parseJsonDocument(
+  file: File,
+  logPrefix: string,
+  signal?: AbortSignal,
+): Promise<DocumentParseResult> {
+  const text = await file.text();
+  throwIfAborted(signal);
 
-  const { output } = await generateText({
-    model,
-    output: Output.object({
-      schema: ExtractedInfoSchema,
-      name: "ExtractedInfo",
-      description: "Information extracted from a document for form filling",
-    }),
-    system: DOCUMENT_PARSING_PROMPT,
-    prompt: `Extract all useful personal and professional information from this document:\n\n${text}`,
-    temperature: 0.1,
-    providerOptions: getProviderOptions(selectedProvider),
-    ...getTelemetryConfig("document-parsing"),
-  });
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: "The file is not valid JSON." };
+  }
 
-  logger.debug("AI extracted items:", output.items.length);
+  const resume = parseJsonResume(json);
+  if (!resume) {
+    return {
+      success: false,
+      error:
+        "Only JSON Resume files (jsonresume.org) can be imported from JSON.",
+    };
+  }
 
-  return output.items;
+  const items = jsonResumeToItems(resume);
+  logger.debug(`${logPrefix} JSON Resume mapped — items: ${items.length}`);
+
+  return { success: true, items, rawText: text };
 }
 
 export async function parseDocument(
@@ -243,37 +385,33 @@ export async function parseDocument(
       `${logPrefix} Starting document parsing — file: ${file.name}, size: ${file.size} bytes`,
     );
 
-    let text: string;
-    const isPdf =
-      file.type === "application/pdf" ||
-      file.name.toLowerCase().endsWith(".pdf");
-    const isTxt =
-      file.type === "text/plain" || file.name.toLowerCase().endsWith(".txt");
-
-    if (isPdf) {
-      onStageChange?.("reading");
-      const readStart = performance.now();
-      text = await extractTextFromPDF(file);
-      throwIfAborted(signal);
-      logger.debug(
-        `${logPrefix} PDF text extracted — ${Math.round(performance.now() - readStart)}ms, ${text.length} chars`,
-      );
-    } else if (isTxt) {
-      onStageChange?.("reading");
-      const readStart = performance.now();
-      text = await file.text();
-      throwIfAborted(signal);
-      logger.debug(
-        `${logPrefix} TXT text read — ${Math.round(performance.now() - readStart)}ms, ${text.length} chars`,
-      );
-    } else {
+    const format = getDocumentFormat(file);
+    if (!format) {
       logger.warn(`${logPrefix} Unsupported file type: ${file.type}`);
       return {
         success: false,
-        error: "Unsupported file type. Please upload a PDF or text file.",
+        error: `Unsupported file type. Please upload one of: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")}.`,
       };
     }
 
+    onStageChange?.("reading");
+    const readStart = performance.now();
+
+    if (format === "json") {
+      return await parseJsonDocument(file, logPrefix, signal);
+    }
+
+    // PDFs keep their layout and link annotations for offline extraction
+    const pdfContent =
+      format === "pdf" ? await extractPDFContent(file) : undefined;
+    const text = pdfContent
+      ? pdfContentToText(pdfContent)
+      : await TEXT_EXTRACTORS[format](file);
+    throwIfAborted(signal);
+    logger.debug(
+      `${logPrefix} ${format.toUpperCase()} text extracted — ${Math.round(performance.now() - readStart)}ms, ${text.length} chars`,
+    );
+
     if (!text || text.trim().length < 50) {
       logger.warn(
         `${logPrefix} Document text too short (${text.trim().length} chars) — possibly image-based or empty`,
@@ -286,16 +424,45 @@ export async function parseDocument(
     }
 
     onStageChange?.("parsing");
-    const items = await parseDocumentWithAI(text, logPrefix, signal);
+    const targets = await getModelChain("parse_document");
+    let items: ExtractedItem[] | null = null;
+
+    if (targets.length > 0) {
+      try {
+        items = await parseDocumentWithAI(text, targets, logPrefix, signal);
+      } catch (error) {
+        if (error instanceof AbortError) throw error;
+        logger.warn(
+          `${logPrefix} AI parsing failed, using offline extraction:`,
+          error,
+        );
+      }
+    }
+
+    const offline = items === null;
+    if (!items) {
+      items = pdfContent
+        ? extractItemsFromPDF(pdfContent)
+        : extractItemsOffline(text);
+
+      if (items.length === 0) {
+        return {
+          success: false,
+          error:
+            "No information could be extracted without AI. Set up an AI provider in settings and try again.",
+        };
+      }
+    }
 
     logger.debug(
-      `${logPrefix} Parse complete — total: ${Math.round(performance.now() - totalStart)}ms, items: ${items.length}`,
+      `${logPrefix} Parse complete — total: ${Math.round(performance.now() - totalStart)}ms, items: ${items.length}, offline: ${offline}`,
     );
 
     return {
       success: true,
       items,
       rawText: text,
+      offline,
     };
   } catch (error) {
     if (error instanceof AbortError) {
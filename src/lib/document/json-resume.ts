@@ -0,0 +1,445 @@
+import { z } from "zod";
+import type { ExtractedItem } from "@/types/document";
+
+// Only the parts of the jsonresume.org schema that answer form questions.
+// Every field is optional there, and unknown fields are ignored.
+const DatedSchema = z.object({
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+});
+
+const JsonResumeSchema = z.object({
+  basics: z
+    .object({
+      name: z.string().optional(),
+      label: z.string().optional(),
+      email: z.string().optional(),
+      phone: z.string().optional(),
+      url: z.string().optional(),
+      summary: z.string().optional(),
+      location: z
+        .object({
+          address: z.string().optional(),
+          postalCode: z.string().optional(),
+          city: z.string().optional(),
+          countryCode: z.string().optional(),
+          region: z.string().optional(),
+        })
+        .optional(),
+      profiles: z
+        .array(
+          z.object({
+            network: z.string().optional(),
+            username: z.string().optional(),
+            url: z.string().optional(),
+          }),
+        )
+        .optional(),
+    })
+    .optional(),
+  work: z
+    .array(
+      DatedSchema.extend({
+        name: z.string().optional(),
+        position: z.string().optional(),
+        location: z.string().optional(),
+        url: z.string().optional(),
+        summary: z.string().optional(),
+        highlights: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  volunteer: z
+    .array(
+      DatedSchema.extend({
+        organization: z.string().optional(),
+        position: z.string().optional(),
+        summary: z.string().optional(),
+      }),
+    )
+    .optional(),
+  education: z
+    .array(
+      DatedSchema.extend({
+        institution: z.string().optional(),
+        area: z.string().optional(),
+        studyType: z.string().optional(),
+        score: z.string().optional(),
+      }),
+    )
+    .optional(),
+  awards: z
+    .array(
+      z.object({
+        title: z.string().optional(),
+        date: z.string().optional(),
+        awarder: z.string().optional(),
+      }),
+    )
+    .optional(),
+  certificates: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        date: z.string().optional(),
+        issuer: z.string().optional(),
+        url: z.string().optional(),
+      }),
+    )
+    .optional(),
+  publications: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        publisher: z.string().optional(),
+        releaseDate: z.string().optional(),
+        url: z.string().optional(),
+      }),
+    )
+    .optional(),
+  skills: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        level: z.string().optional(),
+        keywords: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  languages: z
+    .array(
+      z.object({
+        language: z.string().optional(),
+        fluency: z.string().optional(),
+      }),
+    )
+    .optional(),
+  interests: z
+    .array(
+      z.object({
+        name: z.string().optional(),
+        keywords: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  projects: z
+    .array(
+      DatedSchema.extend({
+        name: z.string().optional(),
+        description: z.string().optional(),
+        url: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+type JsonResume = z.infer<typeof JsonResumeSchema>;
+
+const join = (parts: (string | undefined)[], separator = ", ") =>
+  parts.filter((part) => part?.trim()).join(separator);
+
+const formatPeriod = ({ startDate, endDate }: z.infer<typeof DatedSchema>) =>
+  startDate ? `${startDate} – ${endDate || "present"}` : endDate;
+
+const toTag = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Returns the resume when the value looks like a JSON Resume, i.e. has
+ * at least one of its main sections.
+ */
+export function parseJsonResume(value: unknown): JsonResume | null {
+  const result = JsonResumeSchema.safeParse(value);
+  if (!result.success) return null;
+
+  const { basics, work, education } = result.data;
+  return basics || work || education ? result.data : null;
+}
+
+/** Maps a JSON Resume onto import items, one per fact, without an LLM */
+export function jsonResumeToItems(resume: JsonResume): ExtractedItem[] {
+  const items: ExtractedItem[] = [];
+  const add = (
+    label: string,
+    question: string,
+    answer: string | undefined,
+    category: ExtractedItem["category"],
+    tags: string[],
+  ) => {
+    const trimmed = answer?.trim();
+    if (!trimmed) return;
+
+    const validTags = [...new Set(tags.map(toTag))].filter(
+      (tag) => tag.length >= 2,
+    );
+    items.push({
+      label,
+      question,
+      answer: trimmed,
+      category,
+      tags: (validTags.length > 0 ? validTags : [category]).slice(0, 5),
+    });
+  };
+
+  const { basics } = resume;
+  if (basics) {
+    const [firstName, ...rest] = (basics.name ?? "").trim().split(/\s+/);
+
+    add("Full Name", "What is your full name?", basics.name, "personal", [
+      "name",
+      "full-name",
+    ]);
+    if (rest.length > 0) {
+      add("First Name", "What is your first name?", firstName, "personal", [
+        "name",
+        "first-name",
+      ]);
+      add("Last Name", "What is your last name?", rest.at(-1), "personal", [
+        "name",
+        "last-name",
+      ]);
+    }
+    add(
+      "Professional Title",
+      "What is your current job title?",
+      basics.label,
+      "work",
+      ["title", "job", "headline"],
+    );
+    add("Email", "What is your email address?", basics.email, "contact", [
+      "email",
+    ]);
+    add("Phone", "What is your phone number?", basics.phone, "contact", [
+      "phone",
+    ]);
+    add("Website", "What is your personal website?", basics.url, "contact", [
+      "website",
+      "portfolio",
+      "url",
+    ]);
+    add(
+      "Professional Summary",
+      "Tell us about yourself",
+      basics.summary,
+      "general",
+      ["summary", "bio", "about"],
+    );
+
+    const location = basics.location;
+    if (location) {
+      add(
+        "Street Address",
+        "What is your street address?",
+        location.address,
+        "location",
+        ["address", "street"],
+      );
+      add("City", "What city do you live in?", location.city, "location", [
+        "city",
+      ]);
+      add(
+        "State / Region",
+        "What state or region do you live in?",
+        location.region,
+        "location",
+        ["state", "region"],
+      );
+      add(
+        "Postal Code",
+        "What is your postal code?",
+        location.postalCode,
+        "location",
+        ["zip", "postal-code"],
+      );
+      add(
+        "Country",
+        "What country do you live in?",
+        location.countryCode,
+        "location",
+        ["country"],
+      );
+    }
+
+    for (const profile of basics.profiles ?? []) {
+      const network = profile.network?.trim();
+      if (!network) continue;
+
+      add(
+        `${network} Profile`,
+        `What is your ${network} profile?`,
+        profile.url || profile.username,
+        "contact",
+        [network, "profile", "social"],
+      );
+    }
+  }
+
+  for (const job of resume.work ?? []) {
+    if (!job.name && !job.position) continue;
+
+    add(
+      job.position && job.name
+        ? `${job.position} at ${job.name}`
+        : (job.position ?? job.name ?? ""),
+      `What was your role at ${job.name ?? "this company"}?`,
+      join(
+        [
+          join([job.position, job.name, job.location]),
+          formatPeriod(job) && `(${formatPeriod(job)})`,
+          job.summary && `— ${job.summary}`,
+        ],
+        " ",
+      ),
+      "work",
+      ["job", "experience", "employer"],
+    );
+  }
+
+  for (const role of resume.volunteer ?? []) {
+    if (!role.organization) continue;
+
+    add(
+      `Volunteer at ${role.organization}`,
+      `What did you do at ${role.organization}?`,
+      join(
+        [
+          join([role.position, role.organization]),
+          formatPeriod(role) && `(${formatPeriod(role)})`,
+        ],
+        " ",
+      ),
+      "work",
+      ["volunteer", "experience"],
+    );
+  }
+
+  for (const school of resume.education ?? []) {
+    if (!school.institution) continue;
+
+    const degree = join([school.studyType, school.area], " in ");
+    add(
+      degree ? `${degree}, ${school.institution}` : school.institution,
+      `What did you study at ${school.institution}?`,
+      join(
+        [
+          join([degree, school.institution]),
+          formatPeriod(school) && `(${formatPeriod(school)})`,
+          school.score && `— ${school.score}`,
+        ],
+        " ",
+      ),
+      "education",
+      ["education", "degree", "school"],
+    );
+  }
+
+  const skills = (resume.skills ?? []).filter((skill) => skill.name);
+  add(
+    "Skills",
+    "What are your skills?",
+    join(skills.map((skill) => skill.name)),
+    "work",
+    ["skills"],
+  );
+  for (const skill of skills) {
+    if (!skill.keywords?.length) continue;
+
+    add(
+      `${skill.name} Skills`,
+      `What ${skill.name} skills do you have?`,
+      join([skill.level && `${skill.level}:`, join(skill.keywords)], " "),
+      "work",
+      ["skills", skill.name ?? ""],
+    );
+  }
+
+  add(
+    "Languages",
+    "What languages do you speak?",
+    join(
+      (resume.languages ?? []).map((l) =>
+        l.fluency ? `${l.language} (${l.fluency})` : l.language,
+      ),
+    ),
+    "personal",
+    ["languages"],
+  );
+
+  for (const certificate of resume.certificates ?? []) {
+    if (!certificate.name) continue;
+
+    add(
+      certificate.name,
+      `Do you hold the ${certificate.name} certification?`,
+      join([
+        certificate.name,
+        certificate.issuer,
+        certificate.date,
+        certificate.url,
+      ]),
+      "education",
+      ["certification", "license"],
+    );
+  }
+
+  for (const award of resume.awards ?? []) {
+    if (!award.title) continue;
+
+    add(
+      award.title,
+      `When did you receive ${award.title}?`,
+      join([award.title, award.awarder, award.date]),
+      "general",
+      ["award", "achievement"],
+    );
+  }
+
+  for (const publication of resume.publications ?? []) {
+    if (!publication.name) continue;
+
+    add(
+      publication.name,
+      `Where was "${publication.name}" published?`,
+      join([
+        publication.name,
+        publication.publisher,
+        publication.releaseDate,
+        publication.url,
+      ]),
+      "work",
+      ["publication"],
+    );
+  }
+
+  for (const project of resume.projects ?? []) {
+    if (!project.name) continue;
+
+    add(
+      `Project: ${project.name}`,
+      `Tell us about ${project.name}`,
+      join(
+        [
+          join([project.name, project.description], " — "),
+          formatPeriod(project) && `(${formatPeriod(project)})`,
+          project.url,
+        ],
+        " ",
+      ),
+      "work",
+      ["project", "portfolio"],
+    );
+  }
+
+  add(
+    "Interests",
+    "What are your interests?",
+    join((resume.interests ?? []).map((interest) => interest.name)),
+    "general",
+    ["interests", "hobbies"],
+  );
+
+  return items;
+}
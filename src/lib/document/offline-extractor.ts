@@ -0,0 +1,470 @@
+import type { ExtractedItem, PDFContent } from "@/types/document";
+
+/**
+ * Rule-based extraction of contact details and resume sections, for when no
+ * AI provider is available. PDFs are read from their pdf.js text lines and
+ * link annotations; other formats from the extracted text and its hyperlink
+ * trailer.
+ */
+
+const HYPERLINKS_HEADER = "--- HYPERLINKS FOUND IN DOCUMENT ---";
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+const PHONE = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d[\d\s.-]{5,14}\d/g;
+const URL =
+  /\b(?:https?:\/\/|www\.)[^\s<>"')]+|\b(?:linkedin\.com|github\.com)\/[^\s<>"')]+/gi;
+const MONTH =
+  "(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}[/.]\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now|today)`,
+  "i",
+);
+const SINGLE_DATE = new RegExp(`\\b${DATE}\\b`, "i");
+const STREET =
+  /\d+\s+[\w\s.'-]+\b(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|strasse|straße|weg)\b\.?/i;
+const CITY_STATE_ZIP = /\b[A-Z][a-zA-Z\s.-]+,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/;
+const POSTAL_CITY = /\b\d{4,5}\s+[A-Z][a-zäöüß]+(?:[\s-][A-Z][a-zäöüß]+)*\b/;
+const BULLET = /^[•●▪‣◦*\-–]\s*/;
+
+type SectionKind =
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "languages"
+  | "certifications";
+
+const SECTION_HEADINGS: Record<SectionKind, RegExp> = {
+  summary: /^(summary|profile|about( me)?|professional summary|objective)$/i,
+  experience:
+    /^((work|professional|relevant) experience|experience|employment( history)?|work history|career history)$/i,
+  education: /^(education|academic background|qualifications|academics)$/i,
+  skills: /^((technical |core |key )?skills|competencies|technologies)$/i,
+  languages: /^languages?$/i,
+  certifications: /^(certifications?|licenses?( (and|&) certifications)?)$/i,
+};
+
+const SOCIAL_PROFILES: { pattern: RegExp; network: string }[] = [
+  { pattern: /linkedin\.com\/(in|pub)\//i, network: "LinkedIn" },
+  { pattern: /github\.com\/[^/]+\/?$/i, network: "GitHub" },
+  { pattern: /(twitter|x)\.com\/[^/]+\/?$/i, network: "Twitter" },
+  { pattern: /gitlab\.com\/[^/]+\/?$/i, network: "GitLab" },
+  { pattern: /dribbble\.com\/[^/]+\/?$/i, network: "Dribbble" },
+  { pattern: /behance\.net\/[^/]+\/?$/i, network: "Behance" },
+  { pattern: /stackoverflow\.com\/users\//i, network: "Stack Overflow" },
+];
+
+// Hosts that are never someone's own site
+const NON_PORTFOLIO_HOSTS =
+  /(linkedin|github|gitlab|twitter|x|facebook|instagram|youtube|google|dribbble|behance|stackoverflow)\.(com|net)/i;
+
+interface DocumentLine {
+  text: string;
+  page?: number;
+  /** Only known for PDFs */
+  fontSize?: number;
+}
+
+interface DocumentLink {
+  url: string;
+  /** The text the link sits on, only known for PDFs */
+  text?: string;
+}
+
+// Link text naming someone's own site rather than a profile
+const PORTFOLIO_LINK_TEXT = /portfolio|website|homepage|blog|personal site/i;
+
+function splitDocumentText(text: string): {
+  lines: DocumentLine[];
+  links: DocumentLink[];
+} {
+  const [body, trailer = ""] = text.split(HYPERLINKS_HEADER);
+
+  return {
+    lines: body
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .map((line) => ({ text: line })),
+    links: trailer
+      .split("\n")
+      .map((link) => link.trim())
+      .filter(Boolean)
+      .map((link) => ({ url: link })),
+  };
+}
+
+/** The address part of a mailto: or tel: link */
+function linkTarget(url: string): string {
+  const target = url.slice(url.indexOf(":") + 1).split("?")[0];
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+function normalizeUrl(url: string): string {
+  const trimmed = url.replace(/[.,;]+$/, "");
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+function findSectionKind(line: string): SectionKind | undefined {
+  const heading = line.replace(/[:|]+$/, "").trim();
+  if (heading.length > 40) return undefined;
+
+  return (Object.keys(SECTION_HEADINGS) as SectionKind[]).find((kind) =>
+    SECTION_HEADINGS[kind].test(heading),
+  );
+}
+
+function looksLikeName(line: string): boolean {
+  const words = line.split(" ");
+  return (
+    words.length >= 2 &&
+    words.length <= 4 &&
+    !/[\d@/:|]/.test(line) &&
+    !findSectionKind(line) &&
+    words.every((word) => /^\p{Lu}[\p{L}'.-]*$/u.test(word))
+  );
+}
+
+/**
+ * The name is usually set in the largest type at the top of the first page.
+ * Without font sizes, the first line that looks like a name wins.
+ */
+function findNameLine(lines: DocumentLine[]): string | undefined {
+  const candidates = lines
+    .slice(0, 5)
+    .filter((line) => (line.page ?? 1) === 1 && looksLikeName(line.text));
+
+  return candidates.reduce<DocumentLine | undefined>(
+    (best, line) =>
+      !best || (line.fontSize ?? 0) > (best.fontSize ?? 0) ? line : best,
+    undefined,
+  )?.text;
+}
+
+/**
+ * Headings match a known section name. With font sizes, a line set larger
+ * than the body text also counts when it starts with one, like "Experience
+ * (selected)".
+ */
+function findHeadingKind(
+  line: DocumentLine,
+  bodyFontSize: number | undefined,
+): SectionKind | undefined {
+  const kind = findSectionKind(line.text);
+  if (kind || !bodyFontSize || !line.fontSize) return kind;
+  if (line.fontSize < bodyFontSize * 1.15) return undefined;
+
+  return findSectionKind(line.text.split(/\s+[(\-–|]/)[0]);
+}
+
+/** The most common font size, taken as the size of body text */
+function findBodyFontSize(lines: DocumentLine[]): number | undefined {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    if (!line.fontSize) continue;
+    const size = Math.round(line.fontSize);
+    counts.set(size, (counts.get(size) ?? 0) + 1);
+  }
+
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/** Splits a section into entries, starting a new one at each dated line */
+function splitEntries(lines: string[]): string[][] {
+  const entries: string[][] = [];
+  let current: string[] = [];
+  let currentHasDate = false;
+
+  for (const line of lines) {
+    const hasDate = DATE_RANGE.test(line) || SINGLE_DATE.test(line);
+    const isBullet = BULLET.test(line);
+
+    if (hasDate && currentHasDate && !isBullet) {
+      // The title usually sits on the line above its dates
+      const previous = current.at(-1);
+      const carry =
+        previous && !BULLET.test(previous) && !DATE_RANGE.test(previous)
+          ? [current.pop() as string]
+          : [];
+      if (current.length > 0) entries.push(current);
+      current = carry;
+      currentHasDate = false;
+    }
+
+    current.push(line);
+    currentHasDate ||= hasDate;
+  }
+
+  if (current.length > 0) entries.push(current);
+  return entries.filter((entry) =>
+    entry.some((line) => DATE_RANGE.test(line) || SINGLE_DATE.test(line)),
+  );
+}
+
+/** Title lines and dates of an entry, leaving out bullet points */
+function summarizeEntry(entry: string[]): { title: string; answer: string } {
+  const headerLines = entry
+    .filter((line) => !BULLET.test(line))
+    .slice(0, 3)
+    .map((line) => line.replace(/\s*[|·•]\s*/g, ", "));
+
+  return {
+    title: (headerLines[0] ?? entry[0])
+      .replace(DATE_RANGE, "")
+      .replace(/[\s,]+$/, "")
+      .trim(),
+    answer: headerLines.join(", "),
+  };
+}
+
+export function extractItemsOffline(text: string): ExtractedItem[] {
+  const { lines, links } = splitDocumentText(text);
+  return extractItems(lines, links);
+}
+
+export function extractItemsFromPDF(content: PDFContent): ExtractedItem[] {
+  return extractItems(content.lines, content.links);
+}
+
+function extractItems(
+  documentLines: DocumentLine[],
+  links: DocumentLink[],
+): ExtractedItem[] {
+  const lines = documentLines.map((line) => line.text);
+  const body = lines.join("\n");
+  const items: ExtractedItem[] = [];
+  const seen = new Set<string>();
+
+  const add = (item: ExtractedItem) => {
+    const key = `${item.label}|${item.answer}`.toLowerCase();
+    if (!item.answer.trim() || seen.has(key)) return;
+    seen.add(key);
+    items.push(item);
+  };
+
+  const nameLine = findNameLine(documentLines);
+  if (nameLine) {
+    add({
+      label: "Full Name",
+      question: "What is your full name?",
+      answer: nameLine,
+      category: "personal",
+      tags: ["name", "full-name"],
+      confidence: 0.6,
+    });
+  }
+
+  const mailtoEmails = links
+    .filter(({ url }) => /^mailto:/i.test(url))
+    .map(({ url }) => linkTarget(url));
+  const emails = [
+    ...new Set([...mailtoEmails, ...(body.match(EMAIL) ?? [])]),
+  ].map((email) => email.toLowerCase());
+
+  emails.forEach((email, index) => {
+    add({
+      label: index === 0 ? "Email" : `Email ${index + 1}`,
+      question: "What is your email address?",
+      answer: email,
+      category: "contact",
+      tags: ["email"],
+      confidence: 0.95,
+    });
+  });
+
+  const telPhones = links
+    .filter(({ url }) => /^tel:/i.test(url))
+    .map(({ url }) => linkTarget(url));
+  // Date ranges look like phone numbers, so only lines without them count
+  const phones = [
+    ...telPhones,
+    ...lines
+      .filter((line) => !DATE_RANGE.test(line))
+      .flatMap((line) => line.match(PHONE) ?? []),
+  ].filter((phone) => phone.replace(/\D/g, "").length >= 7);
+
+  [...new Set(phones)].slice(0, 2).forEach((phone, index) => {
+    add({
+      label: index === 0 ? "Phone" : `Phone ${index + 1}`,
+      question: "What is your phone number?",
+      answer: phone.trim(),
+      category: "contact",
+      tags: ["phone"],
+      confidence: 0.8,
+    });
+  });
+
+  const urls = new Map<string, string | undefined>();
+  for (const { url, text } of [
+    ...links,
+    ...(body.match(URL) ?? []).map((url) => ({ url, text: undefined })),
+  ]) {
+    if (/^(mailto|tel):/i.test(url)) continue;
+    const normalized = normalizeUrl(url);
+    if (!urls.get(normalized)) urls.set(normalized, text);
+  }
+
+  // Links labelled as a portfolio go first, ahead of bare URLs in the text
+  const sortedUrls = [...urls].sort(
+    ([, a], [, b]) =>
+      Number(PORTFOLIO_LINK_TEXT.test(b ?? "")) -
+      Number(PORTFOLIO_LINK_TEXT.test(a ?? "")),
+  );
+  let portfolioFound = false;
+
+  for (const [url, linkText] of sortedUrls) {
+    const profile = SOCIAL_PROFILES.find(({ pattern }) => pattern.test(url));
+    const labelledPortfolio = PORTFOLIO_LINK_TEXT.test(linkText ?? "");
+
+    if (profile) {
+      add({
+        label: `${profile.network} Profile`,
+        question: `What is your ${profile.network} profile URL?`,
+        answer: url,
+        category: "contact",
+        tags: [profile.network.toLowerCase().replace(/\s+/g, "-"), "profile"],
+        confidence: 0.9,
+      });
+    } else if (!portfolioFound && !NON_PORTFOLIO_HOSTS.test(url)) {
+      portfolioFound = true;
+      add({
+        label: "Portfolio Website",
+        question: "What is your personal website or portfolio?",
+        answer: url,
+        category: "contact",
+        tags: ["website", "portfolio"],
+        confidence: labelledPortfolio ? 0.8 : 0.6,
+      });
+    }
+  }
+
+  const bodyFontSize = findBodyFontSize(documentLines);
+  const headingKinds = documentLines.map((line) =>
+    findHeadingKind(line, bodyFontSize),
+  );
+
+  // Addresses sit in the header, above the first section
+  const firstSection = headingKinds.findIndex(Boolean);
+  const headerLines = lines.slice(
+    0,
+    firstSection === -1 ? 8 : Math.min(firstSection, 8),
+  );
+  const addressLine = headerLines.find(
+    (line) =>
+      STREET.test(line) ||
+      CITY_STATE_ZIP.test(line) ||
+      (POSTAL_CITY.test(line) && !DATE_RANGE.test(line)),
+  );
+
+  if (addressLine) {
+    const address = addressLine
+      .split(/\s*[|·•]\s*/)
+      .find(
+        (part) =>
+          STREET.test(part) ||
+          CITY_STATE_ZIP.test(part) ||
+          POSTAL_CITY.test(part),
+      );
+
+    add({
+      label: "Address",
+      question: "What is your address?",
+      answer: address ?? addressLine,
+      category: "location",
+      tags: ["address"],
+      confidence: 0.5,
+    });
+  }
+
+  const sections = new Map<SectionKind, string[]>();
+  let currentSection: SectionKind | undefined;
+
+  lines.forEach((line, index) => {
+    const kind = headingKinds[index];
+    if (kind) {
+      currentSection = kind;
+      if (!sections.has(kind)) sections.set(kind, []);
+    } else if (currentSection) {
+      sections.get(currentSection)?.push(line);
+    }
+  });
+
+  const summary = sections.get("summary");
+  if (summary?.length) {
+    add({
+      label: "Professional Summary",
+      question: "Tell us about yourself",
+      answer: summary.join(" "),
+      category: "general",
+      tags: ["summary", "about"],
+      confidence: 0.7,
+    });
+  }
+
+  for (const entry of splitEntries(sections.get("experience") ?? [])) {
+    const { title, answer } = summarizeEntry(entry);
+    add({
+      label: title,
+      question: `What was your role as ${title}?`,
+      answer,
+      category: "work",
+      tags: ["job", "experience"],
+      confidence: 0.5,
+    });
+  }
+
+  for (const entry of splitEntries(sections.get("education") ?? [])) {
+    const { title, answer } = summarizeEntry(entry);
+    add({
+      label: title,
+      question: `What did you study at ${title}?`,
+      answer,
+      category: "education",
+      tags: ["education", "degree"],
+      confidence: 0.5,
+    });
+  }
+
+  const listSection = (kind: SectionKind) =>
+    (sections.get(kind) ?? [])
+      .map((line) => line.replace(BULLET, ""))
+      .join(", ")
+      .replace(/\s*,\s*(,\s*)+/g, ", ");
+
+  add({
+    label: "Skills",
+    question: "What are your skills?",
+    answer: listSection("skills"),
+    category: "work",
+    tags: ["skills"],
+    confidence: 0.7,
+  });
+
+  add({
+    label: "Languages",
+    question: "What languages do you speak?",
+    answer: listSection("languages"),
+    category: "personal",
+    tags: ["languages"],
+    confidence: 0.7,
+  });
+
+  for (const line of sections.get("certifications") ?? []) {
+    const certification = line.replace(BULLET, "");
+    add({
+      label: certification.slice(0, 60),
+      question: "What certifications do you hold?",
+      answer: certification,
+      category: "education",
+      tags: ["certification"],
+      confidence: 0.6,
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,262 @@
+import { createLogger } from "@/lib/logger";
+import { readZipEntries } from "@/lib/zip";
+
+const logger = createLogger("document-text-extractors");
+
+const HYPERLINKS_HEADER = "\n--- HYPERLINKS FOUND IN DOCUMENT ---\n";
+
+// Same trailer the PDF extractor writes, so the parsing prompt finds links
+function appendHyperlinks(text: string, links: string[]): string {
+  const uniqueLinks = [...new Set(links)];
+  if (uniqueLinks.length === 0) return text;
+
+  return `${text}${HYPERLINKS_HEADER}${uniqueLinks.join("\n")}\n`;
+}
+
+function collapseBlankLines(text: string): string {
+  return text
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// --- DOCX ---------------------------------------------------------------
+
+export async function extractTextFromDOCX(file: File): Promise<string> {
+  const entries = await readZipEntries(await file.arrayBuffer(), [
+    "word/document.xml",
+    "word/_rels/document.xml.rels",
+  ]);
+  const documentXml = entries.get("word/document.xml");
+  if (!documentXml) throw new Error("Not a valid DOCX file");
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(documentXml, "application/xml");
+
+  const relationships = new Map<string, string>();
+  const relsXml = entries.get("word/_rels/document.xml.rels");
+  if (relsXml) {
+    const rels = parser.parseFromString(relsXml, "application/xml");
+    for (const rel of Array.from(rels.getElementsByTagName("Relationship"))) {
+      const id = rel.getAttribute("Id");
+      const target = rel.getAttribute("Target");
+      if (id && target && rel.getAttribute("TargetMode") === "External") {
+        relationships.set(id, target);
+      }
+    }
+  }
+
+  const lines: string[] = [];
+  const links: string[] = [];
+
+  for (const paragraph of Array.from(doc.getElementsByTagName("w:p"))) {
+    let line = "";
+
+    for (const node of Array.from(paragraph.getElementsByTagName("*"))) {
+      if (node.tagName === "w:t") line += node.textContent ?? "";
+      else if (node.tagName === "w:tab") line += "\t";
+      else if (node.tagName === "w:br" || node.tagName === "w:cr") line += "\n";
+      else if (node.tagName === "w:hyperlink") {
+        const url = relationships.get(node.getAttribute("r:id") ?? "");
+        if (url) links.push(url);
+      }
+    }
+
+    lines.push(line.trim());
+  }
+
+  const text = collapseBlankLines(lines.join("\n"));
+  logger.debug("Extracted DOCX text length:", text.length);
+  return appendHyperlinks(text, links);
+}
+
+// --- RTF ----------------------------------------------------------------
+
+// Groups holding formatting tables or binary data rather than body text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "info",
+  "pict",
+  "object",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles",
+  "listtable",
+  "listoverridetable",
+  "rsidtbl",
+  "generator",
+  "xmlnstbl",
+  "mmathPr",
+  "filetbl",
+  "revtbl",
+]);
+
+const RTF_CONTROL =
+  /\\([a-zA-Z]+)(-?\d+)? ?|\\'([0-9a-fA-F]{2})|\\([^a-zA-Z])|([{}])|([^\\{}]+)/g;
+
+export async function extractTextFromRTF(file: File): Promise<string> {
+  const rtf = await file.text();
+  if (!rtf.startsWith("{\\rtf")) throw new Error("Not a valid RTF file");
+
+  // \'hh escapes are bytes in the document's code page, usually Windows-1252
+  const codePage = new TextDecoder("windows-1252");
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let groupStart = false;
+  let text = "";
+
+  const emit = (value: string) => {
+    if (skip) return;
+    if (pendingSkip > 0) {
+      const skipped = Math.min(pendingSkip, value.length);
+      pendingSkip -= skipped;
+      value = value.slice(skipped);
+    }
+    text += value;
+  };
+
+  for (const match of rtf.matchAll(RTF_CONTROL)) {
+    const [, word, param, hex, symbol, brace, plain] = match;
+    const atGroupStart = groupStart;
+    groupStart = false;
+
+    if (brace === "{") {
+      stack.push({ skip, unicodeSkip });
+      groupStart = true;
+    } else if (brace === "}") {
+      const state = stack.pop();
+      skip = state?.skip ?? false;
+      unicodeSkip = state?.unicodeSkip ?? 1;
+    } else if (word) {
+      if (atGroupStart && RTF_SKIPPED_DESTINATIONS.has(word)) skip = true;
+      else if (word === "par" || word === "line" || word === "row") emit("\n");
+      else if (word === "tab" || word === "cell") emit("\t");
+      else if (word === "uc") unicodeSkip = Number(param ?? 1);
+      else if (word === "u" && param) {
+        const code = Number(param);
+        emit(String.fromCharCode(code < 0 ? code + 65536 : code));
+        pendingSkip = unicodeSkip;
+      }
+    } else if (hex) {
+      if (pendingSkip > 0) pendingSkip--;
+      else emit(codePage.decode(new Uint8Array([Number.parseInt(hex, 16)])));
+    } else if (symbol) {
+      if (symbol === "*" && atGroupStart) skip = true;
+      else if (symbol === "~") emit(" ");
+      else if (symbol === "\\" || symbol === "{" || symbol === "}")
+        emit(symbol);
+    } else if (plain) {
+      emit(plain.replace(/\r?\n/g, ""));
+    }
+  }
+
+  // Field instructions are skipped as text, but hold the link targets
+  const links = Array.from(
+    rtf.matchAll(/HYPERLINK\s+"([^"]+)"/g),
+    (link) => link[1],
+  );
+
+  const result = collapseBlankLines(text);
+  logger.debug("Extracted RTF text length:", result.length);
+  return appendHyperlinks(result, links);
+}
+
+// --- HTML ---------------------------------------------------------------
+
+const HTML_BLOCK_TAGS = new Set([
+  "ADDRESS",
+  "ARTICLE",
+  "ASIDE",
+  "BLOCKQUOTE",
+  "BR",
+  "DD",
+  "DIV",
+  "DL",
+  "DT",
+  "FOOTER",
+  "H1",
+  "H2",
+  "H3",
+  "H4",
+  "H5",
+  "H6",
+  "HEADER",
+  "HR",
+  "LI",
+  "MAIN",
+  "OL",
+  "P",
+  "PRE",
+  "SECTION",
+  "TABLE",
+  "TR",
+  "UL",
+]);
+
+export function extractTextFromHTMLString(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  for (const element of Array.from(
+    doc.querySelectorAll("script, style, noscript, template"),
+  )) {
+    element.remove();
+  }
+
+  let text = "";
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent ?? "").replace(/\s+/g, " ");
+      return;
+    }
+    if (!(node instanceof Element)) return;
+
+    const isBlock = HTML_BLOCK_TAGS.has(node.tagName);
+    if (isBlock) text += "\n";
+    for (const child of Array.from(node.childNodes)) walk(child);
+    if (node.tagName === "TD" || node.tagName === "TH") text += "\t";
+    if (isBlock) text += "\n";
+  };
+  walk(doc.body);
+
+  const links = Array.from(doc.querySelectorAll("a[href]"))
+    .map((a) => a.getAttribute("href") ?? "")
+    .filter((href) => /^(https?:|mailto:)/i.test(href));
+
+  const result = collapseBlankLines(
+    text
+      .split("\n")
+      .map((line) => line.trim())
+      .join("\n"),
+  );
+  logger.debug("Extracted HTML text length:", result.length);
+  return appendHyperlinks(result, links);
+}
+
+export async function extractTextFromHTML(file: File): Promise<string> {
+  return extractTextFromHTMLString(await file.text());
+}
+
+// --- Markdown -----------------------------------------------------------
+
+/** Drops images and keeps link targets inline, e.g. "GitHub (https://...)" */
+export async function extractTextFromMarkdown(file: File): Promise<string> {
+  const markdown = await file.text();
+
+  const text = markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label, url) =>
+      label === url ? url : `${label} (${url})`,
+    )
+    .replace(/<(https?:\/\/[^>\s]+)>/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>)\s?/gm, "")
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/^\s*[-*_]{3,}\s*$/gm, "");
+
+  const result = collapseBlankLines(text);
+  logger.debug("Extracted Markdown text length:", result.length);
+  return result;
+}
@@ -3,3 +3,12 @@ export const ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED =
 
 export const ERROR_MESSAGE_API_KEY_NOT_CONFIGURED =
   "AI provider API key not configured";
+
+export const ERROR_MESSAGE_VAULT_LOCKED =
+  "Memory vault is locked. Unlock it with your passphrase to continue";
+
+export const ERROR_MESSAGE_BUDGET_EXCEEDED =
+  "Monthly AI budget reached. AI calls are paused until next month or until the cap is raised";
+
+export const ERROR_MESSAGE_SYNC_ENCRYPTION_LOCKED =
+  "Sync is end-to-end encrypted. Enter your sync passphrase on this device to continue";
@@ -0,0 +1,59 @@
+import type { InPageShortcutAction } from "@/types/settings";
+
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta"]);
+const TYPING_TAGS = new Set(["INPUT", "TEXTAREA", "SELECT"]);
+
+export const IN_PAGE_SHORTCUT_LABELS: Record<InPageShortcutAction, string> = {
+  fillSelected: "Fill selected fields",
+  selectAll: "Select or clear all fields",
+  closePreview: "Close the preview",
+};
+
+const isMac = () => /mac/i.test(navigator.userAgent);
+
+/**
+ * Turns a key press into react-hotkeys-hook notation. Returns null while
+ * only modifiers are held.
+ */
+export const toHotkey = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  const key = event.code.replace(/^(Key|Digit)/, "").toLowerCase();
+
+  return [
+    event.ctrlKey && "ctrl",
+    event.altKey && "alt",
+    event.shiftKey && "shift",
+    event.metaKey && "meta",
+    key,
+  ]
+    .filter(Boolean)
+    .join("+");
+};
+
+/** Splits a hotkey into the key names shown to the user */
+export const formatHotkey = (hotkey: string): string[] => {
+  const mac = isMac();
+  const labels: Record<string, string> = {
+    mod: mac ? "⌘" : "Ctrl",
+    meta: mac ? "⌘" : "Meta",
+    ctrl: "Ctrl",
+    alt: mac ? "⌥" : "Alt",
+    shift: "Shift",
+    enter: "Enter",
+    escape: "Esc",
+    space: "Space",
+  };
+
+  return hotkey.split("+").map((key) => labels[key] ?? key.toUpperCase());
+};
+
+/** Whether a key press comes from a text field, even inside a shadow root */
+export const isTypingEvent = (event: KeyboardEvent): boolean => {
+  const [target] = event.composedPath();
+
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || TYPING_TAGS.has(target.tagName))
+  );
+};
@@ -0,0 +1,557 @@
+import { parseCSV } from "@/lib/csv";
+import { createLogger } from "@/lib/logger";
+import { readZipEntries } from "@/lib/zip";
+import type { ExternalImportItem, ExternalImportSource } from "@/types/import";
+import type { AllowedCategory } from "@/types/memory";
+
+const logger = createLogger("autofill-importers");
+
+type ImportField =
+  | "fullName"
+  | "firstName"
+  | "middleName"
+  | "lastName"
+  | "honorific"
+  | "email"
+  | "phone"
+  | "mobilePhone"
+  | "workPhone"
+  | "company"
+  | "jobTitle"
+  | "department"
+  | "street"
+  | "address2"
+  | "city"
+  | "state"
+  | "postalCode"
+  | "country"
+  | "birthdate"
+  | "gender"
+  | "website"
+  | "username"
+  | "nationalId"
+  | "passport"
+  | "driversLicense";
+
+interface FieldMapping {
+  label: string;
+  question: string;
+  category: AllowedCategory;
+  tags: string[];
+  /** Imported unselected, so government ids are only saved on purpose */
+  sensitive?: boolean;
+}
+
+const FIELD_MAPPINGS: Record<ImportField, FieldMapping> = {
+  fullName: {
+    label: "Full Name",
+    question: "What is your full name?",
+    category: "personal",
+    tags: ["name", "full-name"],
+  },
+  firstName: {
+    label: "First Name",
+    question: "What is your first name?",
+    category: "personal",
+    tags: ["name", "first-name"],
+  },
+  middleName: {
+    label: "Middle Name",
+    question: "What is your middle name?",
+    category: "personal",
+    tags: ["name", "middle-name"],
+  },
+  lastName: {
+    label: "Last Name",
+    question: "What is your last name?",
+    category: "personal",
+    tags: ["name", "last-name"],
+  },
+  honorific: {
+    label: "Title",
+    question: "What is your title (Mr, Ms, Dr)?",
+    category: "personal",
+    tags: ["honorific", "prefix"],
+  },
+  email: {
+    label: "Email",
+    question: "What is your email address?",
+    category: "contact",
+    tags: ["email"],
+  },
+  phone: {
+    label: "Phone",
+    question: "What is your phone number?",
+    category: "contact",
+    tags: ["phone"],
+  },
+  mobilePhone: {
+    label: "Mobile Phone",
+    question: "What is your mobile phone number?",
+    category: "contact",
+    tags: ["phone", "mobile"],
+  },
+  workPhone: {
+    label: "Work Phone",
+    question: "What is your work phone number?",
+    category: "contact",
+    tags: ["phone", "work"],
+  },
+  company: {
+    label: "Company",
+    question: "What company do you work for?",
+    category: "work",
+    tags: ["company", "employer"],
+  },
+  jobTitle: {
+    label: "Job Title",
+    question: "What is your job title?",
+    category: "work",
+    tags: ["title", "job-title"],
+  },
+  department: {
+    label: "Department",
+    question: "What department do you work in?",
+    category: "work",
+    tags: ["department"],
+  },
+  street: {
+    label: "Street Address",
+    question: "What is your street address?",
+    category: "location",
+    tags: ["address", "street"],
+  },
+  address2: {
+    label: "Address Line 2",
+    question: "What is your apartment, suite or unit?",
+    category: "location",
+    tags: ["address", "address-line-2"],
+  },
+  city: {
+    label: "City",
+    question: "What city do you live in?",
+    category: "location",
+    tags: ["city"],
+  },
+  state: {
+    label: "State / Region",
+    question: "What state or region do you live in?",
+    category: "location",
+    tags: ["state", "region"],
+  },
+  postalCode: {
+    label: "Postal Code",
+    question: "What is your postal code?",
+    category: "location",
+    tags: ["zip", "postal-code"],
+  },
+  country: {
+    label: "Country",
+    question: "What country do you live in?",
+    category: "location",
+    tags: ["country"],
+  },
+  birthdate: {
+    label: "Date of Birth",
+    question: "What is your date of birth?",
+    category: "personal",
+    tags: ["birthday", "dob"],
+  },
+  gender: {
+    label: "Gender",
+    question: "What is your gender?",
+    category: "personal",
+    tags: ["gender"],
+  },
+  website: {
+    label: "Website",
+    question: "What is your website?",
+    category: "contact",
+    tags: ["website", "url"],
+  },
+  username: {
+    label: "Username",
+    question: "What is your username?",
+    category: "personal",
+    tags: ["username"],
+  },
+  nationalId: {
+    label: "National ID / SSN",
+    question: "What is your social security or national ID number?",
+    category: "personal",
+    tags: ["ssn", "national-id"],
+    sensitive: true,
+  },
+  passport: {
+    label: "Passport Number",
+    question: "What is your passport number?",
+    category: "personal",
+    tags: ["passport"],
+    sensitive: true,
+  },
+  driversLicense: {
+    label: "Driver's License Number",
+    question: "What is your driver's license number?",
+    category: "personal",
+    tags: ["drivers-license", "license"],
+    sensitive: true,
+  },
+};
+
+type ImportRecord = Partial<Record<ImportField, string>>;
+
+const normalizeKey = (key: string) =>
+  key
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+// --- Chrome / Edge ------------------------------------------------------
+
+// Chrome's internal field types (Takeout) plus the headers Edge and
+// Chrome-based browsers use in their CSV exports, after `normalizeKey`
+const CHROME_FIELDS: Record<string, ImportField> = {
+  name_full: "fullName",
+  full_name: "fullName",
+  name: "fullName",
+  name_first: "firstName",
+  first_name: "firstName",
+  given_name: "firstName",
+  name_middle: "middleName",
+  middle_name: "middleName",
+  name_last: "lastName",
+  last_name: "lastName",
+  family_name: "lastName",
+  name_honorific_prefix: "honorific",
+  honorific_prefix: "honorific",
+  email_address: "email",
+  email: "email",
+  phone_home_whole_number: "phone",
+  phone_number: "phone",
+  phone: "phone",
+  telephone: "phone",
+  mobile: "mobilePhone",
+  company_name: "company",
+  company: "company",
+  organization: "company",
+  address_home_street_address: "street",
+  street_address: "street",
+  address_home_line1: "street",
+  address_line_1: "street",
+  address_line1: "street",
+  address1: "street",
+  address_home_line2: "address2",
+  address_line_2: "address2",
+  address_line2: "address2",
+  address2: "address2",
+  address_home_city: "city",
+  city: "city",
+  locality: "city",
+  address_home_state: "state",
+  state: "state",
+  region: "state",
+  province: "state",
+  address_home_zip: "postalCode",
+  zip: "postalCode",
+  zip_code: "postalCode",
+  postal_code: "postalCode",
+  address_home_country: "country",
+  country: "country",
+  country_code: "country",
+};
+
+function mapChromeRecord(record: Record<string, unknown>): ImportRecord {
+  const mapped: ImportRecord = {};
+
+  for (const [key, raw] of Object.entries(record)) {
+    const field = CHROME_FIELDS[normalizeKey(key)];
+    // Takeout stores every profile value as a list, newest first
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (field && typeof value === "string" && value.trim() && !mapped[field]) {
+      mapped[field] = value.trim();
+    }
+  }
+
+  return mapped;
+}
+
+function parseChromeJSON(json: Record<string, unknown>): ImportRecord[] {
+  const profiles =
+    json["Autofill Profile"] ?? json.autofill_profiles ?? json.profiles;
+  if (!Array.isArray(profiles)) return [];
+
+  return profiles
+    .filter(
+      (profile): profile is Record<string, unknown> =>
+        typeof profile === "object" && profile !== null,
+    )
+    .map(mapChromeRecord);
+}
+
+function parseChromeCSV(content: string): ImportRecord[] {
+  return parseCSV<Record<string, unknown>>(content).map(mapChromeRecord);
+}
+
+// --- Bitwarden ----------------------------------------------------------
+
+const BITWARDEN_IDENTITY_TYPE = 4;
+
+const BITWARDEN_FIELDS: Record<string, ImportField> = {
+  title: "honorific",
+  firstName: "firstName",
+  middleName: "middleName",
+  lastName: "lastName",
+  address1: "street",
+  address2: "address2",
+  city: "city",
+  state: "state",
+  postalCode: "postalCode",
+  country: "country",
+  company: "company",
+  email: "email",
+  phone: "phone",
+  ssn: "nationalId",
+  username: "username",
+  passportNumber: "passport",
+  licenseNumber: "driversLicense",
+};
+
+function parseBitwarden(json: Record<string, unknown>): ImportRecord[] {
+  if (json.encrypted === true) {
+    throw new Error(
+      "This Bitwarden export is encrypted. Export your vault again as unencrypted JSON.",
+    );
+  }
+  if (!Array.isArray(json.items)) return [];
+
+  return json.items
+    .filter(
+      (item) =>
+        item?.type === BITWARDEN_IDENTITY_TYPE &&
+        typeof item.identity === "object" &&
+        item.identity !== null,
+    )
+    .map((item) => {
+      const mapped: ImportRecord = {};
+      const identity = item.identity as Record<string, unknown>;
+
+      for (const [key, field] of Object.entries(BITWARDEN_FIELDS)) {
+        const value = identity[key];
+        if (typeof value === "string" && value.trim()) {
+          mapped[field] = value.trim();
+        }
+      }
+      // Bitwarden has a third address line, kept with the second
+      if (typeof identity.address3 === "string" && identity.address3.trim()) {
+        mapped.address2 = [mapped.address2, identity.address3.trim()]
+          .filter(Boolean)
+          .join(", ");
+      }
+
+      return mapped;
+    });
+}
+
+// --- 1Password ----------------------------------------------------------
+
+const ONEPASSWORD_IDENTITY_CATEGORY = "004";
+
+const ONEPASSWORD_FIELDS: Record<string, ImportField> = {
+  firstname: "firstName",
+  initial: "middleName",
+  lastname: "lastName",
+  sex: "gender",
+  birthdate: "birthdate",
+  occupation: "jobTitle",
+  jobtitle: "jobTitle",
+  company: "company",
+  department: "department",
+  defphone: "phone",
+  homephone: "phone",
+  cellphone: "mobilePhone",
+  busphone: "workPhone",
+  email: "email",
+  website: "website",
+  username: "username",
+};
+
+interface OnePasswordField {
+  id?: string;
+  title?: string;
+  value?: Record<string, unknown>;
+}
+
+function readOnePasswordValue(
+  value: Record<string, unknown> | undefined,
+): string | undefined {
+  if (!value) return undefined;
+
+  const [kind, raw] = Object.entries(value)[0] ?? [];
+  if (kind === "date" && typeof raw === "number") {
+    return new Date(raw * 1000).toISOString().split("T")[0];
+  }
+  if (kind === "email" && typeof raw === "object" && raw !== null) {
+    const email = (raw as { email_address?: unknown }).email_address;
+    return typeof email === "string" ? email : undefined;
+  }
+  return typeof raw === "string" ? raw : undefined;
+}
+
+function mapOnePasswordItem(item: Record<string, unknown>): ImportRecord {
+  const mapped: ImportRecord = {};
+  const details = item.details as { sections?: unknown } | undefined;
+  const sections = Array.isArray(details?.sections) ? details.sections : [];
+
+  for (const section of sections) {
+    const fields: OnePasswordField[] = Array.isArray(section?.fields)
+      ? section.fields
+      : [];
+
+    for (const field of fields) {
+      const address = field.value?.address as
+        | Record<string, string>
+        | undefined;
+      if (address) {
+        mapped.street ??= address.street || undefined;
+        mapped.city ??= address.city || undefined;
+        mapped.state ??= address.state || undefined;
+        mapped.postalCode ??= address.zip || undefined;
+        mapped.country ??= address.country || undefined;
+        continue;
+      }
+
+      const target = ONEPASSWORD_FIELDS[(field.id ?? "").toLowerCase()];
+      const value = readOnePasswordValue(field.value)?.trim();
+      if (target && value && !mapped[target]) {
+        mapped[target] = value;
+      }
+    }
+  }
+
+  return mapped;
+}
+
+async function parseOnePassword(file: File): Promise<ImportRecord[]> {
+  const entries = await readZipEntries(await file.arrayBuffer(), [
+    "export.data",
+  ]);
+  const data = entries.get("export.data");
+  if (!data) throw new Error("Not a valid 1Password export (.1pux)");
+
+  const json = JSON.parse(data) as {
+    accounts?: { vaults?: { items?: Record<string, unknown>[] }[] }[];
+  };
+
+  return (json.accounts ?? [])
+    .flatMap((account) => account.vaults ?? [])
+    .flatMap((vault) => vault.items ?? [])
+    .filter(
+      (item) =>
+        item.categoryUuid === ONEPASSWORD_IDENTITY_CATEGORY &&
+        item.state !== "archived",
+    )
+    .map(mapOnePasswordItem);
+}
+
+// --- Detection ----------------------------------------------------------
+
+export const EXTERNAL_IMPORT_EXTENSIONS = [".csv", ".json", ".1pux"];
+
+export const EXTERNAL_IMPORT_SOURCE_LABELS: Record<
+  ExternalImportSource,
+  string
+> = {
+  chrome: "Chrome / Edge",
+  bitwarden: "Bitwarden",
+  "1password": "1Password",
+};
+
+async function readRecords(
+  file: File,
+): Promise<{ source: ExternalImportSource; records: ImportRecord[] }> {
+  const extension = file.name.toLowerCase().split(".").pop();
+
+  if (extension === "1pux") {
+    return { source: "1password", records: await parseOnePassword(file) };
+  }
+
+  const content = await file.text();
+  if (extension === "csv") {
+    return { source: "chrome", records: parseChromeCSV(content) };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+  if (typeof json !== "object" || json === null) {
+    throw new Error("Unrecognized export format");
+  }
+
+  const record = json as Record<string, unknown>;
+  if ("items" in record && ("folders" in record || "encrypted" in record)) {
+    return { source: "bitwarden", records: parseBitwarden(record) };
+  }
+  return { source: "chrome", records: parseChromeJSON(record) };
+}
+
+/** Fills the full name from its parts when the export only has those */
+function completeRecord(record: ImportRecord): ImportRecord {
+  if (record.fullName || !record.firstName || !record.lastName) return record;
+
+  return {
+    ...record,
+    fullName: [record.firstName, record.middleName, record.lastName]
+      .filter(Boolean)
+      .join(" "),
+  };
+}
+
+/**
+ * Reads a Chrome/Edge autofill export (CSV or Takeout JSON), an
+ * unencrypted Bitwarden JSON export or a 1Password .1pux export, and maps
+ * identity data onto import items. Several profiles may hold the same
+ * field, so repeated values are dropped and distinct ones numbered.
+ */
+export async function parseExternalImport(
+  file: File,
+): Promise<ExternalImportItem[]> {
+  const { source, records } = await readRecords(file);
+  logger.debug(`Read ${records.length} ${source} identities`);
+
+  const items: ExternalImportItem[] = [];
+  const seen = new Set<string>();
+  const countByField = new Map<ImportField, number>();
+
+  for (const record of records.map(completeRecord)) {
+    for (const [field, value] of Object.entries(record) as [
+      ImportField,
+      string | undefined,
+    ][]) {
+      if (!value) continue;
+
+      const key = `${field}:${value.toLowerCase()}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const mapping = FIELD_MAPPINGS[field];
+      const count = (countByField.get(field) ?? 0) + 1;
+      countByField.set(field, count);
+
+      items.push({
+        id: `${source}-${items.length + 1}`,
+        label: count > 1 ? `${mapping.label} ${count}` : mapping.label,
+        question: mapping.question,
+        answer: value,
+        category: mapping.category,
+        tags: mapping.tags,
+        selected: !mapping.sensitive,
+        source,
+      });
+    }
+  }
+
+  return items;
+}
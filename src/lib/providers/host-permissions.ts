@@ -0,0 +1,27 @@
+/**
+ * Self-hosted endpoints live on hosts the manifest can't list up front, so
+ * access is requested per endpoint. Match patterns ignore ports, so one
+ * grant covers every port on the host.
+ */
+const toOriginPattern = (baseURL: string) => {
+  const url = new URL(baseURL);
+  return `${url.protocol}//${url.hostname}/*`;
+};
+
+/** Must be called from a user gesture, before any other await */
+export const requestEndpointPermission = (baseURL: string) =>
+  browser.permissions.request({ origins: [toOriginPattern(baseURL)] });
+
+/** Drops access to an endpoint's host unless another endpoint still uses it */
+export const removeEndpointPermission = async (
+  baseURL: string,
+  remainingBaseURLs: string[],
+) => {
+  const pattern = toOriginPattern(baseURL);
+  if (remainingBaseURLs.some((url) => toOriginPattern(url) === pattern)) {
+    return;
+  }
+
+  // Fails for hosts the manifest already requires, which is fine
+  await browser.permissions.remove({ origins: [pattern] }).catch(() => false);
+};
@@ -2,8 +2,17 @@ import { createAnthropic } from "@ai-sdk/anthropic";
 import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { createOpenAI } from "@ai-sdk/openai";
 import type { JSONValue } from "ai";
-import { ollama } from "ai-sdk-ollama";
-import type { AIProvider } from "@/lib/providers/registry";
+import { createOllama } from "ai-sdk-ollama";
+import {
+  type AIProvider,
+  type BuiltInProvider,
+  type CustomProviderId,
+  isCustomProvider,
+  NO_API_KEY,
+  resolveOllamaBaseURL,
+} from "@/lib/providers/registry";
+import { assertWithinBudget } from "@/lib/storage/ai-usage";
+import { getCustomProvider } from "@/lib/storage/custom-providers";
 
 const OPENAI_COMPATIBLE_PROVIDERS = {
   openai: {
@@ -20,11 +29,42 @@ const OPENAI_COMPATIBLE_PROVIDERS = {
   },
 } as const;
 
-export const getAIModel = (
+const getCustomModel = async (
+  provider: CustomProviderId,
+  apiKey: string,
+  model?: string,
+) => {
+  const config = await getCustomProvider(provider);
+  if (!config) {
+    throw new Error(`Custom provider ${provider} no longer exists`);
+  }
+  if (!model) {
+    throw new Error(`No model selected for ${config.name}`);
+  }
+
+  const client = createOpenAI({
+    name: config.name,
+    baseURL: config.baseURL,
+    apiKey: apiKey === NO_API_KEY ? "" : apiKey,
+    headers: config.headers,
+  });
+
+  // Chat completions is the API self-hosted servers and gateways implement
+  return client.chat(model);
+};
+
+export const getAIModel = async (
   provider: AIProvider,
   apiKey: string,
   model?: string,
 ) => {
+  // Every BYOK call creates its model here, so this is where caps apply
+  await assertWithinBudget(provider);
+
+  if (isCustomProvider(provider)) {
+    return getCustomModel(provider, apiKey, model);
+  }
+
   if (provider === "anthropic") {
     const anthropic = createAnthropic({
       apiKey,
@@ -41,6 +81,7 @@ export const getAIModel = (
   }
 
   if (provider === "ollama") {
+    const ollama = createOllama({ baseURL: resolveOllamaBaseURL(apiKey) });
     return ollama(model || "llama3.2");
   }
 
@@ -59,7 +100,7 @@ export const getAIModel = (
   throw new Error(`Unsupported AI provider: ${provider}`);
 };
 
-const defaults: Record<AIProvider, string> = {
+const defaults: Record<BuiltInProvider, string> = {
   openai: "gpt-5-nano",
   anthropic: "claude-haiku-4-5-20251001",
   groq: "openai/gpt-oss-20b",
@@ -68,8 +109,10 @@ const defaults: Record<AIProvider, string> = {
   ollama: "llama3.2",
 };
 
+// Custom providers have no default, their model is picked from the
+// endpoint's own list
 export const getDefaultModel = (provider: AIProvider): string => {
-  return defaults[provider];
+  return isCustomProvider(provider) ? "" : defaults[provider];
 };
 
 export function getProviderOptions(provider: AIProvider) {
@@ -0,0 +1,89 @@
+import { ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import {
+  type AIProvider,
+  getProviderConfig,
+  isCustomProvider,
+} from "@/lib/providers/registry";
+import { getKeyVaultService } from "@/lib/security/key-vault-service";
+import { storage } from "@/lib/storage";
+import type { AITask, ModelRoute } from "@/types/settings";
+
+const logger = createLogger("model-router");
+
+export interface ModelTarget {
+  provider: AIProvider;
+  apiKey: string;
+  model?: string;
+}
+
+const requiresKey = (provider: AIProvider) =>
+  isCustomProvider(provider) || getProviderConfig(provider).requiresApiKey;
+
+/**
+ * Resolves the providers to try for a task: its route (or the selected
+ * provider), then the fallback chain. Providers without a stored key are
+ * skipped, so an empty list means nothing usable is configured.
+ */
+export const getModelChain = async (task: AITask): Promise<ModelTarget[]> => {
+  const settings = await storage.aiSettings.getValue();
+  const primary: ModelRoute | undefined =
+    settings.taskRoutes?.[task] ??
+    (settings.selectedProvider && { provider: settings.selectedProvider });
+
+  const routes = [primary, ...(settings.fallbackChain ?? [])].filter(
+    (route): route is ModelRoute => !!route,
+  );
+
+  const keyVaultService = getKeyVaultService();
+  const targets: ModelTarget[] = [];
+
+  for (const route of routes) {
+    const model = route.model || settings.selectedModels?.[route.provider];
+    const duplicate = targets.some(
+      (t) => t.provider === route.provider && t.model === model,
+    );
+    if (duplicate) continue;
+
+    const apiKey = await keyVaultService.getKey(route.provider);
+    if (!apiKey && requiresKey(route.provider)) {
+      logger.warn(`Skipping ${route.provider} for ${task}, no API key stored`);
+      continue;
+    }
+
+    targets.push({ provider: route.provider, apiKey: apiKey ?? "", model });
+  }
+
+  return targets;
+};
+
+/**
+ * Runs a request against each target in turn until one succeeds. Aborts
+ * are rethrown straight away rather than retried on the next provider.
+ */
+export const withModelFallback = async <T>(
+  targets: ModelTarget[],
+  run: (target: ModelTarget) => Promise<T>,
+): Promise<T> => {
+  if (targets.length === 0) {
+    throw new Error(ERROR_MESSAGE_PROVIDER_NOT_CONFIGURED);
+  }
+
+  let lastError: unknown;
+
+  for (const target of targets) {
+    try {
+      return await run(target);
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") throw error;
+
+      logger.warn(
+        `${target.provider} (${target.model ?? "default"}) failed, trying next provider:`,
+        error,
+      );
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+};
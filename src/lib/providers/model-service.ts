@@ -1,6 +1,14 @@
 import { defineProxyService } from "@webext-core/proxy-service";
+import { getCustomProvider } from "@/lib/storage/custom-providers";
 import { createLogger } from "../logger";
-import type { AIProvider } from "./registry";
+import {
+  type AIProvider,
+  type BuiltInProvider,
+  buildCustomProviderHeaders,
+  type CustomProviderId,
+  isCustomProvider,
+  resolveOllamaBaseURL,
+} from "./registry";
 
 export interface ModelInfo {
   id: string;
@@ -49,7 +57,7 @@ interface OllamaModel {
   };
 }
 
-const DEFAULT_MODELS: Record<AIProvider, ModelInfo[]> = {
+const DEFAULT_MODELS: Record<BuiltInProvider, ModelInfo[]> = {
   openai: [{ id: "gpt-5-nano", name: "GPT-5 Nano" }],
   anthropic: [
     {
@@ -82,6 +90,11 @@ const logger = createLogger("model-service");
 
 class ModelService {
   async getModels(provider: AIProvider, apiKey?: string): Promise<ModelInfo[]> {
+    // Custom endpoints may not need a key, and have no defaults to fall back on
+    if (isCustomProvider(provider)) {
+      return this.fetchCustomModels(provider, apiKey);
+    }
+
     try {
       if (!apiKey) {
         return DEFAULT_MODELS[provider] || [];
@@ -99,7 +112,7 @@ class ModelService {
         case "gemini":
           return await this.fetchGeminiModels(apiKey);
         case "ollama":
-          return await this.fetchOllamaModels();
+          return await this.fetchOllamaModels(apiKey);
         default:
           return DEFAULT_MODELS[provider] || [];
       }
@@ -255,9 +268,36 @@ class ModelService {
     }
   }
 
-  private async fetchOllamaModels(): Promise<ModelInfo[]> {
+  private async fetchCustomModels(
+    provider: CustomProviderId,
+    apiKey?: string,
+  ): Promise<ModelInfo[]> {
+    try {
+      const config = await getCustomProvider(provider);
+      if (!config) return [];
+
+      const response = await fetch(`${config.baseURL}/models`, {
+        headers: buildCustomProviderHeaders(config.headers, apiKey),
+      });
+
+      if (!response.ok) {
+        logger.warn(
+          `Listing models for ${config.name} failed with ${response.status}`,
+        );
+        return [];
+      }
+
+      const data = (await response.json()) as { data: OpenAIModel[] };
+      return data.data.map((m) => ({ id: m.id, name: m.id }));
+    } catch (error) {
+      logger.error(`Failed to fetch models for ${provider}:`, error);
+      return [];
+    }
+  }
+
+  private async fetchOllamaModels(baseURL: string): Promise<ModelInfo[]> {
     try {
-      const response = await fetch("http://localhost:11434/api/tags");
+      const response = await fetch(`${resolveOllamaBaseURL(baseURL)}/api/tags`);
 
       if (!response.ok) {
         return DEFAULT_MODELS.ollama;
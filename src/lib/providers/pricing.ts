@@ -0,0 +1,65 @@
+/** USD per million tokens */
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// Keyed by model id prefix, so dated and "-latest" variants share a price.
+// List prices at the time of writing, estimates only.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  o3: { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "deepseek-chat": { input: 0.28, output: 0.42 },
+  "deepseek-reasoner": { input: 0.28, output: 0.42 },
+  "gpt-oss-20b": { input: 0.1, output: 0.5 },
+  "gpt-oss-120b": { input: 0.15, output: 0.75 },
+  "llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-4-maverick": { input: 0.2, output: 0.6 },
+  "llama-4-scout": { input: 0.11, output: 0.34 },
+};
+
+// Longest first so "gpt-5-nano" wins over "gpt-5"
+const PRICE_PREFIXES = Object.keys(MODEL_PRICES).sort(
+  (a, b) => b.length - a.length,
+);
+
+// Strips "models/" (Gemini) and vendor paths like "openai/" (Groq, gateways)
+const normalizeModelId = (model: string) =>
+  model.toLowerCase().split("/").pop() ?? "";
+
+export const getModelPrice = (model: string): ModelPrice | undefined => {
+  const id = normalizeModelId(model);
+  const prefix = PRICE_PREFIXES.find((p) => id.startsWith(p));
+  return prefix ? MODEL_PRICES[prefix] : undefined;
+};
+
+/** Estimated USD cost of a call, zero when the model's price is unknown */
+export const estimateCost = (
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number => {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
@@ -1,4 +1,5 @@
-import type { ProviderOption } from "@/types/settings";
+import { getCustomProviders } from "@/lib/storage/custom-providers";
+import type { CustomProvider, ProviderOption } from "@/types/settings";
 import { getKeyVaultService } from "../security/key-vault-service";
 
 export interface ProviderConfig {
@@ -74,11 +75,46 @@ export const PROVIDER_REGISTRY = {
   },
 } as const satisfies Record<string, ProviderConfig>;
 
-export type AIProvider = keyof typeof PROVIDER_REGISTRY;
+export type BuiltInProvider = keyof typeof PROVIDER_REGISTRY;
 
-export const AI_PROVIDERS = Object.keys(PROVIDER_REGISTRY) as AIProvider[];
+/** User-defined OpenAI-compatible endpoints, e.g. LM Studio or vLLM */
+export type CustomProviderId = `custom:${string}`;
 
-export function getProviderConfig(provider: AIProvider): ProviderConfig {
+export type AIProvider = BuiltInProvider | CustomProviderId;
+
+export const AI_PROVIDERS = Object.keys(PROVIDER_REGISTRY) as BuiltInProvider[];
+
+// Stored in the key vault for endpoints without a key, so they count as
+// configured like any other provider
+export const NO_API_KEY = "no-api-key";
+
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+
+export function isCustomProvider(
+  provider: string,
+): provider is CustomProviderId {
+  return provider.startsWith("custom:");
+}
+
+/** The Ollama "key" is its base URL, or a placeholder for the default one */
+export function resolveOllamaBaseURL(key?: string | null): string {
+  const url = key?.trim();
+  return url && /^https?:\/\//i.test(url)
+    ? url.replace(/\/+$/, "")
+    : OLLAMA_DEFAULT_BASE_URL;
+}
+
+/** Headers for requests to a custom endpoint, sending the key as a bearer token */
+export function buildCustomProviderHeaders(
+  headers: Record<string, string>,
+  apiKey?: string | null,
+): Record<string, string> {
+  return apiKey && apiKey !== NO_API_KEY
+    ? { Authorization: `Bearer ${apiKey}`, ...headers }
+    : headers;
+}
+
+export function getProviderConfig(provider: BuiltInProvider): ProviderConfig {
   return PROVIDER_REGISTRY[provider];
 }
 
@@ -86,14 +122,40 @@ export function getAllProviderConfigs(): ProviderConfig[] {
   return Object.values(PROVIDER_REGISTRY);
 }
 
+export function toCustomProviderConfig(
+  provider: CustomProvider,
+): ProviderConfig {
+  return {
+    id: provider.id,
+    name: provider.name,
+    keyPrefix: "",
+    keyPlaceholder: "Optional API key",
+    description: provider.baseURL,
+    requiresApiKey: false,
+    validateKey: () => true,
+  };
+}
+
+/** Looks up built-in and custom providers alike */
+export async function resolveProviderConfig(
+  provider: AIProvider,
+): Promise<ProviderConfig | undefined> {
+  if (!isCustomProvider(provider)) return getProviderConfig(provider);
+
+  const custom = (await getCustomProviders()).find((p) => p.id === provider);
+  return custom && toCustomProviderConfig(custom);
+}
+
 export function isValidProvider(provider: string): provider is AIProvider {
-  return provider in PROVIDER_REGISTRY;
+  return provider in PROVIDER_REGISTRY || isCustomProvider(provider);
 }
 
 export function validateProviderKey(
   provider: AIProvider,
   key: string,
 ): boolean {
+  if (isCustomProvider(provider)) return true;
+
   const config = PROVIDER_REGISTRY[provider];
   if (!config.requiresApiKey) return true;
   if (!key || key.trim() === "") return false;
@@ -102,23 +164,28 @@ export function validateProviderKey(
 
 export async function getProviderOptions(): Promise<ProviderOption[]> {
   const keyVaultService = getKeyVaultService();
+  const configs = [
+    ...getAllProviderConfigs(),
+    ...(await getCustomProviders()).map(toCustomProviderConfig),
+  ];
   const keyStatuses = await Promise.all(
-    AI_PROVIDERS.map(async (provider) => ({
-      provider,
-      hasKey: await keyVaultService.hasKey(provider),
+    configs.map(async (config) => ({
+      provider: config.id,
+      hasKey: await keyVaultService.hasKey(config.id as AIProvider),
     })),
   );
 
-  return AI_PROVIDERS.map((provider) => {
-    const config = getProviderConfig(provider);
+  return configs.map((config) => {
     const hasKey =
-      keyStatuses.find((s) => s.provider === provider)?.hasKey ?? false;
+      keyStatuses.find((s) => s.provider === config.id)?.hasKey ?? false;
 
     return {
-      value: provider,
+      value: config.id as AIProvider,
       label: config.name,
       description: config.description,
-      available: config.requiresApiKey ? hasKey : true,
+      // Custom endpoints store a key, or NO_API_KEY, once they're added
+      available:
+        config.requiresApiKey || isCustomProvider(config.id) ? hasKey : true,
       requiresApiKey: config.requiresApiKey,
     };
   });
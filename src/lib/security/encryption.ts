@@ -103,3 +103,110 @@ export async function decrypt(
     throw new EncryptionError(`Decryption failed: ${errorMessage}`);
   }
 }
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Derives the memory vault key from a user passphrase. Unlike `deriveKey`
+ * the key is extractable so an unlocked vault can be shared between
+ * extension pages through session storage.
+ */
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: string,
+  iterations: number,
+): Promise<CryptoKey> {
+  try {
+    const encoder = new TextEncoder();
+    const keyMaterial = await crypto.subtle.importKey(
+      "raw",
+      encoder.encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveKey"],
+    );
+
+    return await crypto.subtle.deriveKey(
+      {
+        name: "PBKDF2",
+        salt: encoder.encode(salt),
+        iterations,
+        hash: "SHA-256",
+      },
+      keyMaterial,
+      { name: "AES-GCM", length: 256 },
+      true,
+      ["encrypt", "decrypt"],
+    );
+  } catch (error) {
+    logger.error("Vault key derivation failed:", error);
+    throw new EncryptionError("Vault key derivation failed");
+  }
+}
+
+export async function exportVaultKey(key: CryptoKey): Promise<string> {
+  const raw = await crypto.subtle.exportKey("raw", key);
+  return toBase64(new Uint8Array(raw));
+}
+
+export async function importVaultKey(raw: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", fromBase64(raw), "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+export async function encryptWithKey(
+  data: string,
+  key: CryptoKey,
+): Promise<string> {
+  try {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(data),
+    );
+
+    const payload = new Uint8Array(iv.length + encrypted.byteLength);
+    payload.set(iv);
+    payload.set(new Uint8Array(encrypted), iv.length);
+
+    return toBase64(payload);
+  } catch (error) {
+    logger.error("Encryption error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    throw new EncryptionError(`Encryption failed: ${errorMessage}`);
+  }
+}
+
+export async function decryptWithKey(
+  encryptedData: string,
+  key: CryptoKey,
+): Promise<string> {
+  try {
+    const payload = fromBase64(encryptedData);
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: payload.slice(0, 12) },
+      key,
+      payload.slice(12),
+    );
+
+    return new TextDecoder().decode(decrypted);
+  } catch (error) {
+    logger.error("Decryption error:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    throw new EncryptionError(`Decryption failed: ${errorMessage}`);
+  }
+}
@@ -1,5 +1,11 @@
 import { defineProxyService } from "@webext-core/proxy-service";
-import type { AIProvider } from "@/lib/providers/registry";
+import {
+  type AIProvider,
+  buildCustomProviderHeaders,
+  isCustomProvider,
+  resolveOllamaBaseURL,
+} from "@/lib/providers/registry";
+import { getCustomProvider } from "@/lib/storage/custom-providers";
 import { createLogger } from "../logger";
 
 const logger = createLogger("key-validation-service");
@@ -7,6 +13,14 @@ const logger = createLogger("key-validation-service");
 class KeyValidationService {
   async validateKey(provider: AIProvider, key: string): Promise<boolean> {
     try {
+      if (isCustomProvider(provider)) {
+        const config = await getCustomProvider(provider);
+        return (
+          !!config &&
+          (await this.validateEndpoint(config.baseURL, config.headers, key))
+        );
+      }
+
       switch (provider) {
         case "openai":
           return await this.testOpenAIKey(key);
@@ -19,7 +33,7 @@ class KeyValidationService {
         case "gemini":
           return await this.testGeminiKey(key);
         case "ollama":
-          return await this.testOllamaConnection();
+          return await this.testOllamaConnection(key);
         default:
           return false;
       }
@@ -129,12 +143,37 @@ class KeyValidationService {
     }
   }
 
-  private async testOllamaConnection(): Promise<boolean> {
-    logger.debug("Testing Ollama connection...");
+  /** Checks an OpenAI-compatible endpoint by listing its models */
+  async validateEndpoint(
+    baseURL: string,
+    headers: Record<string, string>,
+    key: string,
+  ): Promise<boolean> {
     try {
-      const response = await fetch("http://localhost:11434/api/tags", {
-        method: "GET",
+      const response = await fetch(`${baseURL}/models`, {
+        headers: buildCustomProviderHeaders(headers, key),
+      });
+      logger.debug("Custom endpoint connection response:", {
+        ok: response.ok,
+        status: response.status,
+        statusText: response.statusText,
       });
+      return response.ok;
+    } catch (error) {
+      logger.error("Custom endpoint connection test failed:", error);
+      return false;
+    }
+  }
+
+  private async testOllamaConnection(baseURL: string): Promise<boolean> {
+    logger.debug("Testing Ollama connection...");
+    try {
+      const response = await fetch(
+        `${resolveOllamaBaseURL(baseURL)}/api/tags`,
+        {
+          method: "GET",
+        },
+      );
       logger.debug("Ollama connection response:", {
         ok: response.ok,
         status: response.status,
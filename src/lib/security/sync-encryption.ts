@@ -0,0 +1,124 @@
+import {
+  type SyncEncryptedPayload,
+  syncEncryptedPayloadSchema,
+} from "@/types/sync";
+import {
+  decryptWithKey,
+  deriveVaultKey,
+  EncryptionError,
+  encryptWithKey,
+  fromBase64,
+  toBase64,
+} from "./encryption";
+
+// Also matched by the server to drop embeddings of encrypted memories
+const SYNC_PAYLOAD_PREFIX = "e2e:v1:";
+const SYNC_KEY_BYTES = 32;
+const RECOVERY_KEY_BYTES = 20;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface SyncKeys {
+  encryptionKey: CryptoKey;
+  hmacKey: CryptoKey;
+}
+
+/** Random key material: an AES-GCM key followed by an HMAC key */
+export const generateSyncKeyMaterial = (): string =>
+  toBase64(crypto.getRandomValues(new Uint8Array(SYNC_KEY_BYTES * 2)));
+
+/** A 160-bit recovery key, base32 encoded in groups of four */
+export function generateRecoveryKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(RECOVERY_KEY_BYTES));
+  let bits = "";
+  for (const byte of bytes) {
+    bits += byte.toString(2).padStart(8, "0");
+  }
+
+  let encoded = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    encoded += BASE32_ALPHABET[Number.parseInt(bits.slice(i, i + 5), 2)];
+  }
+
+  return encoded.match(/.{1,4}/g)?.join("-") ?? encoded;
+}
+
+// Users retype recovery keys, so case and separators are not significant
+export const normalizeRecoveryKey = (value: string): string =>
+  value.toUpperCase().replace(/[^A-Z2-7]/g, "");
+
+export async function wrapSyncKeyMaterial(
+  material: string,
+  secret: string,
+  salt: string,
+  iterations: number,
+): Promise<string> {
+  const key = await deriveVaultKey(secret, salt, iterations);
+  return encryptWithKey(material, key);
+}
+
+/** Throws `EncryptionError` when the secret does not match */
+export async function unwrapSyncKeyMaterial(
+  wrapped: string,
+  secret: string,
+  salt: string,
+  iterations: number,
+): Promise<string> {
+  const key = await deriveVaultKey(secret, salt, iterations);
+  return decryptWithKey(wrapped, key);
+}
+
+export async function importSyncKeys(material: string): Promise<SyncKeys> {
+  const bytes = fromBase64(material);
+  if (bytes.length !== SYNC_KEY_BYTES * 2) {
+    throw new EncryptionError("Invalid sync key");
+  }
+
+  const [encryptionKey, hmacKey] = await Promise.all([
+    crypto.subtle.importKey(
+      "raw",
+      bytes.slice(0, SYNC_KEY_BYTES),
+      "AES-GCM",
+      false,
+      ["encrypt", "decrypt"],
+    ),
+    crypto.subtle.importKey(
+      "raw",
+      bytes.slice(SYNC_KEY_BYTES),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"],
+    ),
+  ]);
+
+  return { encryptionKey, hmacKey };
+}
+
+export const isEncryptedSyncPayload = (value: string | null): boolean =>
+  !!value?.startsWith(SYNC_PAYLOAD_PREFIX);
+
+export async function encryptSyncPayload(
+  payload: SyncEncryptedPayload,
+  keys: SyncKeys,
+): Promise<string> {
+  return `${SYNC_PAYLOAD_PREFIX}${await encryptWithKey(
+    JSON.stringify(payload),
+    keys.encryptionKey,
+  )}`;
+}
+
+export async function decryptSyncPayload(
+  value: string,
+  keys: SyncKeys,
+): Promise<SyncEncryptedPayload> {
+  const decrypted = await decryptWithKey(
+    value.slice(SYNC_PAYLOAD_PREFIX.length),
+    keys.encryptionKey,
+  );
+
+  const result = syncEncryptedPayloadSchema.safeParse(JSON.parse(decrypted));
+  if (!result.success) {
+    throw new EncryptionError("Invalid encrypted memory payload");
+  }
+
+  return result.data;
+}
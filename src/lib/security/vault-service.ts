@@ -0,0 +1,256 @@
+import { defineProxyService } from "@webext-core/proxy-service";
+import { ensureMemoryEmbeddings } from "@/lib/ai/embeddings";
+import { storage } from "@/lib/storage";
+import { transformDocumentContents } from "@/lib/storage/documents";
+import { clearFillCache } from "@/lib/storage/fill-cache";
+import { transformRevisionSnapshots } from "@/lib/storage/memory-history";
+import { vaultConfigFallback } from "@/lib/storage/security";
+import { transformFillSessions } from "@/lib/storage/sessions";
+import { transformSyncConflictVersions } from "@/lib/storage/sync-conflicts";
+import type { VaultStatus } from "@/types/settings";
+import { createLogger } from "../logger";
+import {
+  decryptWithKey,
+  deriveVaultKey,
+  encryptWithKey,
+  exportVaultKey,
+  generateSalt,
+} from "./encryption";
+import {
+  decryptDocumentContents,
+  decryptFillSessions,
+  decryptMemoryEntries,
+  encryptDocumentContents,
+  encryptFillSessions,
+  encryptMemoryEntries,
+  getVaultStatus,
+  isVaultIdleExpired,
+} from "./vault";
+
+const logger = createLogger("vault-service");
+
+const VAULT_KDF_ITERATIONS = 310000;
+const VAULT_VERIFIER = "superfill-vault";
+const MIN_PASSPHRASE_LENGTH = 8;
+
+class VaultService {
+  private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+  private unwatchAutoLock: (() => void) | null = null;
+
+  async getStatus(): Promise<VaultStatus> {
+    return getVaultStatus();
+  }
+
+  async getAutoLockMinutes(): Promise<number> {
+    const config = await storage.vaultConfig.getValue();
+    return config.autoLockMinutes;
+  }
+
+  async enable(passphrase: string): Promise<void> {
+    const config = await storage.vaultConfig.getValue();
+
+    if (config.enabled) {
+      throw new Error("Vault is already enabled");
+    }
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      );
+    }
+
+    const salt = await generateSalt();
+    const key = await deriveVaultKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+
+    // Config goes first: plaintext entries are still readable once the vault
+    // is on, so an interrupted migration never strands encrypted data.
+    await storage.vaultConfig.setValue({
+      ...config,
+      enabled: true,
+      salt,
+      iterations: VAULT_KDF_ITERATIONS,
+      verifier: await encryptWithKey(VAULT_VERIFIER, key),
+    });
+    await this.startSession(key);
+
+    const memories = await storage.memories.getValue();
+    await storage.memories.setValue(await encryptMemoryEntries(memories, key));
+    await transformRevisionSnapshots((entries) =>
+      encryptMemoryEntries(entries, key),
+    );
+    await transformSyncConflictVersions((entries) =>
+      encryptMemoryEntries(entries, key),
+    );
+    await transformDocumentContents((contents) =>
+      encryptDocumentContents(contents, key),
+    );
+    await transformFillSessions((sessions) =>
+      encryptFillSessions(sessions, key),
+    );
+    await clearFillCache();
+
+    logger.info(`Vault enabled, encrypted ${memories.length} memories`);
+  }
+
+  async unlock(passphrase: string): Promise<boolean> {
+    const key = await this.verifyPassphrase(passphrase);
+    if (!key) return false;
+
+    await this.startSession(key);
+    await this.removeStoredContentHashes(key);
+    logger.info("Vault unlocked");
+    return true;
+  }
+
+  async lock(): Promise<void> {
+    await storage.vaultSession.setValue(null);
+    logger.info("Vault locked");
+  }
+
+  async disable(passphrase: string): Promise<boolean> {
+    const key = await this.verifyPassphrase(passphrase);
+    if (!key) return false;
+
+    const memories = await storage.memories.getValue();
+    const decrypted = await decryptMemoryEntries(memories, key);
+    await storage.memories.setValue(await ensureMemoryEmbeddings(decrypted));
+    await transformRevisionSnapshots((entries) =>
+      decryptMemoryEntries(entries, key),
+    );
+    await transformSyncConflictVersions((entries) =>
+      decryptMemoryEntries(entries, key),
+    );
+    await transformDocumentContents((contents) =>
+      decryptDocumentContents(contents, key),
+    );
+    await transformFillSessions((sessions) =>
+      decryptFillSessions(sessions, key),
+    );
+
+    const config = await storage.vaultConfig.getValue();
+    await storage.vaultConfig.setValue({
+      ...vaultConfigFallback,
+      autoLockMinutes: config.autoLockMinutes,
+    });
+    await storage.vaultSession.setValue(null);
+
+    logger.info(`Vault disabled, decrypted ${memories.length} memories`);
+    return true;
+  }
+
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    const config = await storage.vaultConfig.getValue();
+    await storage.vaultConfig.setValue({
+      ...config,
+      autoLockMinutes: Math.max(0, minutes),
+    });
+  }
+
+  /**
+   * Locks the vault once it has been idle for the configured time. Only
+   * meant to run in the background worker.
+   */
+  startAutoLock(): void {
+    if (this.unwatchAutoLock) return;
+
+    const reschedule = () => {
+      this.scheduleAutoLock().catch((error) =>
+        logger.error("Failed to schedule vault auto-lock:", error),
+      );
+    };
+
+    const unwatchSession = storage.vaultSession.watch(reschedule);
+    const unwatchConfig = storage.vaultConfig.watch(reschedule);
+    this.unwatchAutoLock = () => {
+      unwatchSession();
+      unwatchConfig();
+    };
+
+    reschedule();
+  }
+
+  stopAutoLock(): void {
+    this.unwatchAutoLock?.();
+    this.unwatchAutoLock = null;
+    this.clearAutoLockTimer();
+  }
+
+  private async verifyPassphrase(
+    passphrase: string,
+  ): Promise<CryptoKey | null> {
+    const config = await storage.vaultConfig.getValue();
+
+    if (!config.enabled) {
+      throw new Error("Vault is not enabled");
+    }
+
+    const key = await deriveVaultKey(
+      passphrase,
+      config.salt,
+      config.iterations,
+    );
+
+    try {
+      await decryptWithKey(config.verifier, key);
+      return key;
+    } catch {
+      logger.warn("Vault passphrase rejected");
+      return null;
+    }
+  }
+
+  // Vaults enabled before hashes were left out of encrypted memories still
+  // store them. Encrypting again keeps the ciphertext and drops the hashes.
+  private async removeStoredContentHashes(key: CryptoKey): Promise<void> {
+    const memories = await storage.memories.getValue();
+    if (!memories.some((memory) => memory.contentHash)) return;
+
+    await storage.memories.setValue(await encryptMemoryEntries(memories, key));
+    await transformRevisionSnapshots((entries) =>
+      encryptMemoryEntries(entries, key),
+    );
+    await transformSyncConflictVersions((entries) =>
+      encryptMemoryEntries(entries, key),
+    );
+
+    logger.info("Removed content hashes from encrypted memories");
+  }
+
+  private async startSession(key: CryptoKey): Promise<void> {
+    await storage.vaultSession.setValue({
+      key: await exportVaultKey(key),
+      lastActivityAt: Date.now(),
+    });
+  }
+
+  private async scheduleAutoLock(): Promise<void> {
+    this.clearAutoLockTimer();
+
+    const config = await storage.vaultConfig.getValue();
+    const session = await storage.vaultSession.getValue();
+
+    if (!config.enabled || !session || config.autoLockMinutes <= 0) return;
+
+    if (isVaultIdleExpired(session.lastActivityAt, config)) {
+      await this.lock();
+      return;
+    }
+
+    const lockAt = session.lastActivityAt + config.autoLockMinutes * 60 * 1000;
+    this.autoLockTimer = setTimeout(() => {
+      this.lock().catch(logger.error);
+    }, lockAt - Date.now());
+  }
+
+  private clearAutoLockTimer(): void {
+    if (this.autoLockTimer) {
+      clearTimeout(this.autoLockTimer);
+      this.autoLockTimer = null;
+    }
+  }
+}
+
+export const [registerVaultService, getVaultService] = defineProxyService(
+  "VaultService",
+  () => new VaultService(),
+);
@@ -0,0 +1,212 @@
+import { ERROR_MESSAGE_VAULT_LOCKED } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import { computeContentHash } from "@/lib/storage/content-hash";
+import type {
+  FillSession,
+  MemoryEntry,
+  StructuredAnswer,
+} from "@/types/memory";
+import type { VaultConfig, VaultStatus } from "@/types/settings";
+import { decryptWithKey, encryptWithKey, importVaultKey } from "./encryption";
+
+const logger = createLogger("vault");
+
+const ENCRYPTED_PREFIX = "vault:v1:";
+const ACTIVITY_WRITE_INTERVAL = 30 * 1000;
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super(ERROR_MESSAGE_VAULT_LOCKED);
+    this.name = "VaultLockedError";
+  }
+}
+
+// Errors lose their class when crossing proxy service boundaries
+export const isVaultLockedError = (error: unknown): boolean =>
+  error instanceof VaultLockedError ||
+  (error instanceof Error && error.message === ERROR_MESSAGE_VAULT_LOCKED);
+
+export const isVaultIdleExpired = (
+  lastActivityAt: number,
+  config: VaultConfig,
+): boolean =>
+  config.autoLockMinutes > 0 &&
+  Date.now() - lastActivityAt > config.autoLockMinutes * 60 * 1000;
+
+export const getVaultStatus = async (): Promise<VaultStatus> => {
+  const config = await storage.vaultConfig.getValue();
+  if (!config.enabled) return "disabled";
+
+  const session = await storage.vaultSession.getValue();
+  if (!session || isVaultIdleExpired(session.lastActivityAt, config)) {
+    return "locked";
+  }
+
+  return "unlocked";
+};
+
+/**
+ * Returns the unlocked vault key, or null when vault mode is off. Throws
+ * `VaultLockedError` when the vault is locked or has been idle too long.
+ */
+export const getVaultKey = async (): Promise<CryptoKey | null> => {
+  const config = await storage.vaultConfig.getValue();
+  if (!config.enabled) return null;
+
+  const session = await storage.vaultSession.getValue();
+  if (!session) {
+    throw new VaultLockedError();
+  }
+
+  if (isVaultIdleExpired(session.lastActivityAt, config)) {
+    await storage.vaultSession.setValue(null);
+    logger.info("Vault locked after inactivity");
+    throw new VaultLockedError();
+  }
+
+  if (Date.now() - session.lastActivityAt > ACTIVITY_WRITE_INTERVAL) {
+    await storage.vaultSession.setValue({
+      ...session,
+      lastActivityAt: Date.now(),
+    });
+  }
+
+  return importVaultKey(session.key);
+};
+
+export const isEncryptedValue = (value: string): boolean =>
+  value.startsWith(ENCRYPTED_PREFIX);
+
+const encryptValue = async (value: string, key: CryptoKey) =>
+  isEncryptedValue(value)
+    ? value
+    : `${ENCRYPTED_PREFIX}${await encryptWithKey(value, key)}`;
+
+const decryptValue = async (value: string, key: CryptoKey) =>
+  isEncryptedValue(value)
+    ? decryptWithKey(value.slice(ENCRYPTED_PREFIX.length), key)
+    : value;
+
+// The answer type stays readable so fields can be matched while locked
+const transformStructured = async (
+  structured: StructuredAnswer | undefined,
+  transform: (value: string) => Promise<string>,
+): Promise<StructuredAnswer | undefined> => {
+  if (!structured) return structured;
+
+  const fields = await Promise.all(
+    Object.entries(structured).map(async ([field, value]) => [
+      field,
+      field === "type" || !value ? value : await transform(value),
+    ]),
+  );
+  return Object.fromEntries(fields) as StructuredAnswer;
+};
+
+// Anything carrying a memory's question and answer, e.g. sync conflict copies
+type VaultEntry = Pick<
+  MemoryEntry,
+  "question" | "answer" | "structured" | "embedding" | "contentHash"
+> & { category: string };
+
+export const encryptMemoryEntries = <T extends VaultEntry>(
+  memories: T[],
+  key: CryptoKey,
+): Promise<T[]> =>
+  Promise.all(
+    // Embeddings and unkeyed content hashes leak the plaintext, so they are
+    // rebuilt after decrypting instead. A short answer is easy to guess from
+    // its SHA-256.
+    memories.map(async (memory) => ({
+      ...memory,
+      embedding: undefined,
+      contentHash: undefined,
+      question: memory.question
+        ? await encryptValue(memory.question, key)
+        : memory.question,
+      answer: await encryptValue(memory.answer, key),
+      structured: await transformStructured(memory.structured, (value) =>
+        encryptValue(value, key),
+      ),
+    })),
+  );
+
+export const decryptMemoryEntries = <T extends VaultEntry>(
+  memories: T[],
+  key: CryptoKey,
+): Promise<T[]> =>
+  Promise.all(
+    memories.map(async (memory) => {
+      const question = memory.question
+        ? await decryptValue(memory.question, key)
+        : memory.question;
+      const answer = await decryptValue(memory.answer, key);
+
+      return {
+        ...memory,
+        question,
+        answer,
+        structured: await transformStructured(memory.structured, (value) =>
+          decryptValue(value, key),
+        ),
+        contentHash: await computeContentHash(
+          question,
+          answer,
+          memory.category,
+        ),
+      };
+    }),
+  );
+
+const mapFilledValues = (
+  sessions: FillSession[],
+  transform: (value: string) => Promise<string>,
+): Promise<FillSession[]> =>
+  Promise.all(
+    sessions.map(async (session) => ({
+      ...session,
+      formMappings: await Promise.all(
+        session.formMappings.map(async (mapping) => ({
+          ...mapping,
+          fields: await Promise.all(
+            mapping.fields.map(async (field) => ({
+              ...field,
+              filledValue: field.filledValue
+                ? await transform(field.filledValue)
+                : field.filledValue,
+            })),
+          ),
+        })),
+      ),
+    })),
+  );
+
+export const encryptFillSessions = (sessions: FillSession[], key: CryptoKey) =>
+  mapFilledValues(sessions, (value) => encryptValue(value, key));
+
+export const decryptFillSessions = (sessions: FillSession[], key: CryptoKey) =>
+  mapFilledValues(sessions, (value) => decryptValue(value, key));
+
+const mapDocumentContents = async (
+  contents: Record<string, string>,
+  transform: (value: string) => Promise<string>,
+): Promise<Record<string, string>> =>
+  Object.fromEntries(
+    await Promise.all(
+      Object.entries(contents).map(async ([id, data]) => [
+        id,
+        await transform(data),
+      ]),
+    ),
+  );
+
+export const encryptDocumentContents = (
+  contents: Record<string, string>,
+  key: CryptoKey,
+) => mapDocumentContents(contents, (value) => encryptValue(value, key));
+
+export const decryptDocumentContents = (
+  contents: Record<string, string>,
+  key: CryptoKey,
+) => mapDocumentContents(contents, (value) => decryptValue(value, key));
@@ -1,4 +1,5 @@
-import type { AISettings } from "@/types/settings";
+import type { AISettings, CustomProvider } from "@/types/settings";
+import type { UsageBudget } from "@/types/usage";
 
 export const aiSettingsFallback: AISettings = {
   autoFillEnabled: true,
@@ -15,3 +16,25 @@ export const aiSettings = storage.defineItem<AISettings>(
     version: 2,
   },
 );
+
+export const customProvidersFallback: CustomProvider[] = [];
+
+export const customProviders = storage.defineItem<CustomProvider[]>(
+  "local:settings:custom-providers",
+  {
+    fallback: customProvidersFallback,
+    version: 1,
+  },
+);
+
+export const usageBudgetFallback: UsageBudget = {
+  providerLimits: {},
+};
+
+export const usageBudget = storage.defineItem<UsageBudget>(
+  "local:settings:usage-budget",
+  {
+    fallback: usageBudgetFallback,
+    version: 1,
+  },
+);
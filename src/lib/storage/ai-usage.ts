@@ -0,0 +1,158 @@
+import { format, subMonths } from "date-fns";
+import { ERROR_MESSAGE_BUDGET_EXCEEDED } from "@/lib/errors";
+import { createLogger } from "@/lib/logger";
+import { estimateCost } from "@/lib/providers/pricing";
+import type { AIProvider } from "@/lib/providers/registry";
+import { storage } from "@/lib/storage";
+import type { CloudOperationType } from "@/types/cloud";
+import type { AIUsageEntry, UsageBudget } from "@/types/usage";
+
+const logger = createLogger("storage:ai-usage");
+
+// Enough for a year of monthly charts
+const USAGE_RETENTION_MONTHS = 13;
+
+export class BudgetExceededError extends Error {
+  constructor(message = ERROR_MESSAGE_BUDGET_EXCEEDED) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+const toDay = (date: Date) => format(date, "yyyy-MM-dd");
+const toMonth = (date: Date) => format(date, "yyyy-MM");
+
+// Calls finishing together would otherwise overwrite each other's entries
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export const getAIUsage = async (): Promise<AIUsageEntry[]> => {
+  try {
+    return await storage.aiUsage.getValue();
+  } catch (error) {
+    logger.error("Failed to get AI usage:", error);
+    throw error;
+  }
+};
+
+export const recordAIUsage = (call: {
+  provider: AIProvider;
+  model: string;
+  operation: CloudOperationType;
+  inputTokens: number;
+  outputTokens: number;
+}) => {
+  const write = pendingWrite.then(async () => {
+    try {
+      const now = new Date();
+      const date = toDay(now);
+      const oldestDay = toDay(subMonths(now, USAGE_RETENTION_MONTHS));
+      // Local models cost nothing, whatever their name
+      const cost =
+        call.provider === "ollama"
+          ? 0
+          : estimateCost(call.model, call.inputTokens, call.outputTokens);
+
+      const usage = (await getAIUsage()).filter((e) => e.date >= oldestDay);
+      const existing = usage.find(
+        (e) =>
+          e.date === date &&
+          e.provider === call.provider &&
+          e.model === call.model &&
+          e.operation === call.operation,
+      );
+
+      if (existing) {
+        existing.calls += 1;
+        existing.inputTokens += call.inputTokens;
+        existing.outputTokens += call.outputTokens;
+        existing.cost += cost;
+      } else {
+        usage.push({
+          date,
+          provider: call.provider,
+          model: call.model,
+          operation: call.operation,
+          calls: 1,
+          inputTokens: call.inputTokens,
+          outputTokens: call.outputTokens,
+          cost,
+        });
+      }
+
+      await storage.aiUsage.setValue(usage);
+    } catch (error) {
+      logger.error("Failed to record AI usage:", error);
+      throw error;
+    }
+  });
+
+  pendingWrite = write.catch(() => undefined);
+  return write;
+};
+
+export const clearAIUsage = async () => {
+  try {
+    await storage.aiUsage.setValue([]);
+  } catch (error) {
+    logger.error("Failed to clear AI usage:", error);
+    throw error;
+  }
+};
+
+/** Estimated spend in the current calendar month, optionally for one provider */
+export const getMonthlySpend = (
+  usage: AIUsageEntry[],
+  provider?: AIProvider,
+  now = new Date(),
+) => {
+  const month = toMonth(now);
+
+  return usage
+    .filter(
+      (e) => e.date.startsWith(month) && (!provider || e.provider === provider),
+    )
+    .reduce((total, e) => total + e.cost, 0);
+};
+
+export const getUsageBudget = async (): Promise<UsageBudget> => {
+  try {
+    return await storage.usageBudget.getValue();
+  } catch (error) {
+    logger.error("Failed to get usage budget:", error);
+    throw error;
+  }
+};
+
+export const setUsageBudget = async (budget: UsageBudget) => {
+  try {
+    await storage.usageBudget.setValue(budget);
+  } catch (error) {
+    logger.error("Failed to set usage budget:", error);
+    throw error;
+  }
+};
+
+/** Throws once this month's spend reaches the overall or provider's cap */
+export const assertWithinBudget = async (provider: AIProvider) => {
+  const budget = await getUsageBudget();
+  const providerLimit = budget.providerLimits[provider];
+  if (budget.monthlyLimit === undefined && providerLimit === undefined) return;
+
+  const usage = await getAIUsage();
+
+  if (
+    budget.monthlyLimit !== undefined &&
+    getMonthlySpend(usage) >= budget.monthlyLimit
+  ) {
+    throw new BudgetExceededError();
+  }
+
+  if (
+    providerLimit !== undefined &&
+    getMonthlySpend(usage, provider) >= providerLimit
+  ) {
+    throw new BudgetExceededError(
+      "Monthly budget for this provider reached. Its AI calls are paused until next month or until the cap is raised",
+    );
+  }
+};
@@ -0,0 +1,293 @@
+import { z } from "zod";
+import { ensureMemoryEmbeddings } from "@/lib/ai/embeddings";
+import { createLogger } from "@/lib/logger";
+import {
+  decrypt,
+  EncryptionError,
+  encrypt,
+  generateSalt,
+} from "@/lib/security/encryption";
+import { storage } from "@/lib/storage";
+import { computeContentHash } from "@/lib/storage/content-hash";
+import { addEntries, getMemories, saveMemories } from "@/lib/storage/memories";
+import { resolveProfileNames } from "@/lib/storage/profiles";
+import { memoriesToVCard, vCardToMemories } from "@/lib/vcard";
+import type { EncryptedMemoryBackup, MemoryBackup } from "@/types/backup";
+import { type MemoryEntry, memoryEntrySchema } from "@/types/memory";
+
+const logger = createLogger("storage:backup");
+
+const BACKUP_VERSION = 1;
+
+/**
+ * Upgrades a backup from the keyed version to the next one. Add an entry
+ * here whenever `BACKUP_VERSION` is bumped, so older files keep importing.
+ */
+const BACKUP_MIGRATIONS: Record<
+  number,
+  (backup: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+const backupHeaderSchema = z.looseObject({
+  format: z.literal("superfill-backup"),
+  version: z.number().int().positive(),
+});
+
+const backupSchema = z.object({
+  format: z.literal("superfill-backup"),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  memories: z.array(
+    memoryEntrySchema.omit({ embedding: true, embedderId: true }),
+  ),
+  profiles: z.array(z.object({ id: z.string(), name: z.string() })),
+});
+
+const encryptedBackupSchema = z.object({
+  format: z.literal("superfill-encrypted-backup"),
+  version: z.number(),
+  salt: z.string(),
+  data: z.string(),
+});
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function downloadFile(content: string, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+
+  link.setAttribute("href", url);
+  link.setAttribute("download", filename);
+  link.style.visibility = "hidden";
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+function parseJSON(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error("The backup file is not valid JSON");
+  }
+}
+
+function migrateBackup(value: unknown): MemoryBackup {
+  const header = backupHeaderSchema.safeParse(value);
+  if (!header.success) {
+    throw new Error("The file is not a Superfill backup");
+  }
+
+  if (header.data.version > BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of Superfill. Update the extension and try again.",
+    );
+  }
+
+  let backup: Record<string, unknown> = header.data;
+  for (let version = header.data.version; version < BACKUP_VERSION; version++) {
+    const migrate = BACKUP_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`Backup version ${version} is no longer supported`);
+    }
+    backup = { ...migrate(backup), version: version + 1 };
+  }
+
+  const result = backupSchema.safeParse(backup);
+  if (!result.success) {
+    logger.error("Invalid backup contents:", result.error);
+    throw new Error("The backup file is damaged or incomplete");
+  }
+
+  return result.data;
+}
+
+export const createMemoryBackup = async (): Promise<MemoryBackup> => {
+  const [entries, profiles] = await Promise.all([
+    getMemories(),
+    storage.profiles.getValue(),
+  ]);
+
+  return {
+    format: "superfill-backup",
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    memories: entries.map(
+      ({ embedding: _embedding, embedderId: _embedderId, ...entry }) => entry,
+    ),
+    profiles: profiles
+      .filter((profile) => !profile.deletedAt)
+      .map(({ id, name }) => ({ id, name })),
+  };
+};
+
+/**
+ * Adds the backup's memories that are not stored yet, matched by id and
+ * content. Profiles are matched by name, and created when missing.
+ */
+const restoreMemoryBackup = async (backup: MemoryBackup): Promise<number> => {
+  const profileIds = await resolveProfileNames(
+    backup.profiles.map((profile) => profile.name),
+  );
+  const profileNames = new Map(
+    backup.profiles.map((profile) => [profile.id, profile.name.toLowerCase()]),
+  );
+
+  const currentEntries = await getMemories();
+  const knownIds = new Set(currentEntries.map((entry) => entry.id));
+  const knownHashes = new Set(
+    await Promise.all(
+      currentEntries.map(
+        async (entry) =>
+          entry.contentHash ??
+          (await computeContentHash(
+            entry.question,
+            entry.answer,
+            entry.category,
+          )),
+      ),
+    ),
+  );
+
+  const restoredEntries: MemoryEntry[] = [];
+  for (const entry of backup.memories) {
+    const contentHash =
+      entry.contentHash ??
+      (await computeContentHash(entry.question, entry.answer, entry.category));
+    if (knownIds.has(entry.id) || knownHashes.has(contentHash)) continue;
+
+    knownIds.add(entry.id);
+    knownHashes.add(contentHash);
+    restoredEntries.push({
+      ...entry,
+      contentHash,
+      profileId: entry.profileId
+        ? profileIds.get(profileNames.get(entry.profileId) ?? "")
+        : undefined,
+    });
+  }
+
+  if (restoredEntries.length === 0) return 0;
+
+  const updatedEntries = await ensureMemoryEmbeddings([
+    ...currentEntries,
+    ...restoredEntries,
+  ]);
+  await saveMemories(updatedEntries, {
+    source: "import",
+    bulkLabel: `Restored ${restoredEntries.length} memories from backup`,
+  });
+
+  return restoredEntries.length;
+};
+
+export const exportToJSON = async (): Promise<void> => {
+  try {
+    const backup = await createMemoryBackup();
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      `superfill-backup-${today()}.json`,
+      "application/json;charset=utf-8;",
+    );
+  } catch (error) {
+    logger.error("Failed to export JSON backup:", error);
+    throw error;
+  }
+};
+
+export const importFromJSON = async (content: string): Promise<number> => {
+  try {
+    return await restoreMemoryBackup(migrateBackup(parseJSON(content)));
+  } catch (error) {
+    logger.error("Failed to import JSON backup:", error);
+    throw error;
+  }
+};
+
+export const exportToEncryptedBackup = async (
+  password: string,
+): Promise<void> => {
+  try {
+    const backup = await createMemoryBackup();
+    const salt = await generateSalt();
+    const encrypted: EncryptedMemoryBackup = {
+      format: "superfill-encrypted-backup",
+      version: BACKUP_VERSION,
+      salt,
+      data: await encrypt(JSON.stringify(backup), password, salt),
+    };
+
+    downloadFile(
+      JSON.stringify(encrypted),
+      `superfill-backup-${today()}.superfill`,
+      "application/octet-stream",
+    );
+  } catch (error) {
+    logger.error("Failed to export encrypted backup:", error);
+    throw error;
+  }
+};
+
+export const importFromEncryptedBackup = async (
+  content: string,
+  password: string,
+): Promise<number> => {
+  try {
+    const result = encryptedBackupSchema.safeParse(parseJSON(content));
+    if (!result.success) {
+      throw new Error("The file is not an encrypted Superfill backup");
+    }
+
+    let decrypted: string;
+    try {
+      decrypted = await decrypt(result.data.data, password, result.data.salt);
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        throw new Error("Wrong password, or the backup file is damaged");
+      }
+      throw error;
+    }
+
+    return await restoreMemoryBackup(migrateBackup(parseJSON(decrypted)));
+  } catch (error) {
+    logger.error("Failed to import encrypted backup:", error);
+    throw error;
+  }
+};
+
+export const exportToVCard = async (): Promise<void> => {
+  try {
+    const vcard = memoriesToVCard(await getMemories());
+    if (!vcard) {
+      throw new Error("No contact details found in your memories");
+    }
+
+    downloadFile(vcard, "superfill-contact.vcf", "text/vcard;charset=utf-8;");
+  } catch (error) {
+    logger.error("Failed to export vCard:", error);
+    throw error;
+  }
+};
+
+export const importFromVCard = async (content: string): Promise<number> => {
+  try {
+    const memories = vCardToMemories(content);
+    if (memories.length === 0) {
+      throw new Error("No contact details found in the vCard file");
+    }
+
+    const imported = await addEntries(
+      memories.map((memory) => ({
+        ...memory,
+        tags: [...memory.tags, "vcard-import"],
+      })),
+    );
+    return imported.length;
+  } catch (error) {
+    logger.error("Failed to import vCard:", error);
+    throw error;
+  }
+};
@@ -37,3 +37,21 @@ export const computeContentHash = async (
 
   return bufferToHex(hashBuffer);
 };
+
+/**
+ * Keyed variant of `computeContentHash` for end-to-end encrypted sync. The
+ * server can still match identical memories without being able to confirm a
+ * guessed answer by hashing it.
+ */
+export const computeKeyedContentHash = async (
+  question: string | undefined,
+  answer: string,
+  category: string,
+  key: CryptoKey,
+): Promise<string> => {
+  const input = buildContentHashInput(question, answer, category);
+  const bytes = new TextEncoder().encode(input);
+  const signature = await globalThis.crypto.subtle.sign("HMAC", key, bytes);
+
+  return bufferToHex(signature);
+};
@@ -0,0 +1,93 @@
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import { normalizeDomain } from "@/lib/storage/profiles";
+import { promptSettingsFallback } from "@/lib/storage/prompt-settings";
+import type { WebsiteType } from "@/types/context";
+import type { PromptSettings } from "@/types/settings";
+
+const logger = createLogger("storage:custom-prompts");
+
+export const getPromptSettings = async (): Promise<PromptSettings> => {
+  try {
+    return await storage.promptSettings.getValue();
+  } catch (error) {
+    logger.error("Failed to get prompt settings:", error);
+    throw error;
+  }
+};
+
+export const setGlobalInstructions = async (instructions: string) => {
+  try {
+    const settings = await getPromptSettings();
+    await storage.promptSettings.setValue({
+      ...settings,
+      globalInstructions: instructions.trim(),
+    });
+  } catch (error) {
+    logger.error("Failed to set global instructions:", error);
+    throw error;
+  }
+};
+
+export const setWebsiteTypeInstructions = async (
+  websiteType: WebsiteType,
+  instructions: string,
+) => {
+  try {
+    const settings = await getPromptSettings();
+    const { [websiteType]: _, ...websiteTypeInstructions } =
+      settings.websiteTypeInstructions;
+    const trimmed = instructions.trim();
+
+    await storage.promptSettings.setValue({
+      ...settings,
+      websiteTypeInstructions: trimmed
+        ? { ...websiteTypeInstructions, [websiteType]: trimmed }
+        : websiteTypeInstructions,
+    });
+  } catch (error) {
+    logger.error("Failed to set website type instructions:", error);
+    throw error;
+  }
+};
+
+/**
+ * Sets the instructions for a domain and its subdomains, replacing the
+ * website type instructions there. Pass an empty string to remove the rule.
+ */
+export const setDomainPromptRule = async (
+  domain: string,
+  instructions: string,
+) => {
+  try {
+    const normalized = normalizeDomain(domain);
+    if (!normalized) {
+      throw new Error("Enter a valid domain");
+    }
+
+    const settings = await getPromptSettings();
+    const domainRules = settings.domainRules.filter(
+      (r) => r.domain !== normalized,
+    );
+    const trimmed = instructions.trim();
+
+    await storage.promptSettings.setValue({
+      ...settings,
+      domainRules: trimmed
+        ? [...domainRules, { domain: normalized, instructions: trimmed }]
+        : domainRules,
+    });
+  } catch (error) {
+    logger.error("Failed to set domain prompt rule:", error);
+    throw error;
+  }
+};
+
+export const resetPromptSettings = async () => {
+  try {
+    await storage.promptSettings.setValue(promptSettingsFallback);
+  } catch (error) {
+    logger.error("Failed to reset prompt settings:", error);
+    throw error;
+  }
+};
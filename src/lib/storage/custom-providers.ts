@@ -0,0 +1,103 @@
+import { v7 as uuidv7 } from "uuid";
+import { createLogger } from "@/lib/logger";
+import type { CustomProviderId } from "@/lib/providers/registry";
+import { storage } from "@/lib/storage";
+import type { CustomProvider } from "@/types/settings";
+
+const logger = createLogger("storage:custom-providers");
+
+export const normalizeBaseURL = (input: string): string => {
+  const trimmed = input.trim().replace(/\/+$/, "");
+
+  try {
+    const url = new URL(trimmed);
+    if (url.protocol === "http:" || url.protocol === "https:") return trimmed;
+  } catch {
+    // Reported below
+  }
+
+  throw new Error("Enter a valid http:// or https:// URL");
+};
+
+export const getCustomProviders = async (): Promise<CustomProvider[]> => {
+  try {
+    return await storage.customProviders.getValue();
+  } catch (error) {
+    logger.error("Failed to get custom providers:", error);
+    throw error;
+  }
+};
+
+export const getCustomProvider = async (
+  id: CustomProviderId,
+): Promise<CustomProvider | undefined> =>
+  (await getCustomProviders()).find((p) => p.id === id);
+
+export const addCustomProvider = async (details: {
+  name: string;
+  baseURL: string;
+  headers: Record<string, string>;
+}): Promise<CustomProvider> => {
+  try {
+    const name = details.name.trim();
+    if (!name) {
+      throw new Error("Provider name cannot be empty");
+    }
+
+    const providers = await getCustomProviders();
+    if (providers.some((p) => p.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`A provider named "${name}" already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const provider: CustomProvider = {
+      id: `custom:${uuidv7()}`,
+      name,
+      baseURL: normalizeBaseURL(details.baseURL),
+      headers: details.headers,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await storage.customProviders.setValue([...providers, provider]);
+    return provider;
+  } catch (error) {
+    logger.error("Failed to add custom provider:", error);
+    throw error;
+  }
+};
+
+/**
+ * Removes a custom provider and deselects it, dropping it from task routes
+ * and the fallback chain. Its stored key is removed separately through the
+ * key vault.
+ */
+export const deleteCustomProvider = async (id: CustomProviderId) => {
+  try {
+    const providers = await getCustomProviders();
+    const settings = await storage.aiSettings.getValue();
+    const { [id]: _, ...selectedModels } = settings.selectedModels ?? {};
+    const taskRoutes = Object.fromEntries(
+      Object.entries(settings.taskRoutes ?? {}).filter(
+        ([, route]) => route.provider !== id,
+      ),
+    );
+
+    await storage.customProviders.setValue(
+      providers.filter((p) => p.id !== id),
+    );
+    await storage.aiSettings.setValue({
+      ...settings,
+      selectedProvider:
+        settings.selectedProvider === id
+          ? undefined
+          : settings.selectedProvider,
+      selectedModels,
+      taskRoutes,
+      fallbackChain: settings.fallbackChain?.filter((r) => r.provider !== id),
+    });
+  } catch (error) {
+    logger.error("Failed to delete custom provider:", error);
+    throw error;
+  }
+};
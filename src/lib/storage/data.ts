@@ -1,5 +1,15 @@
-import type { FillSession, MemoryEntry } from "@/types/memory";
-import type { PendingDeletion } from "@/types/sync";
+import type { FieldFeedbackEntry, FillCacheEntry } from "@/types/autofill";
+import type { StoredDocument } from "@/types/document";
+import type {
+  BulkOperation,
+  FillSession,
+  MemoryEntry,
+  MemoryRevision,
+  MemoryUsage,
+} from "@/types/memory";
+import type { MemoryProfile, ProfileSettings } from "@/types/profile";
+import type { PendingDeletion, SyncConflict } from "@/types/sync";
+import type { AIUsageEntry } from "@/types/usage";
 
 export interface CaptureSettings {
   enabled: boolean;
@@ -7,6 +17,12 @@ export interface CaptureSettings {
   neverAskSites: string[];
 }
 
+export interface FillHistorySettings {
+  enabled: boolean;
+  /** Fills older than this are pruned. 0 keeps them until the size cap */
+  retentionDays: number;
+}
+
 export const memoriesFallback: MemoryEntry[] = [];
 
 const memories = storage.defineItem<MemoryEntry[]>("local:data:memories", {
@@ -24,6 +40,19 @@ const fillSessions = storage.defineItem<FillSession[]>(
   },
 );
 
+export const fillHistorySettingsFallback: FillHistorySettings = {
+  enabled: true,
+  retentionDays: 90,
+};
+
+const fillHistorySettings = storage.defineItem<FillHistorySettings>(
+  "local:data:fill-history-settings",
+  {
+    fallback: fillHistorySettingsFallback,
+    version: 1,
+  },
+);
+
 export const captureSettingsFallback: CaptureSettings = {
   enabled: false,
   blockedDomains: [],
@@ -48,9 +77,126 @@ const pendingDeletions = storage.defineItem<PendingDeletion[]>(
   },
 );
 
+export const fillCacheFallback: FillCacheEntry[] = [];
+
+const fillCache = storage.defineItem<FillCacheEntry[]>(
+  "local:data:fill-cache",
+  {
+    fallback: fillCacheFallback,
+    version: 1,
+  },
+);
+
+export const fieldFeedbackFallback: FieldFeedbackEntry[] = [];
+
+const fieldFeedback = storage.defineItem<FieldFeedbackEntry[]>(
+  "local:data:field-feedback",
+  {
+    fallback: fieldFeedbackFallback,
+    version: 1,
+  },
+);
+
+export const memoryUsageFallback: MemoryUsage[] = [];
+
+const memoryUsage = storage.defineItem<MemoryUsage[]>(
+  "local:data:memory-usage",
+  {
+    fallback: memoryUsageFallback,
+    version: 1,
+  },
+);
+
+export const memoryRevisionsFallback: MemoryRevision[] = [];
+
+const memoryRevisions = storage.defineItem<MemoryRevision[]>(
+  "local:data:memory-revisions",
+  {
+    fallback: memoryRevisionsFallback,
+    version: 1,
+  },
+);
+
+export const bulkOperationsFallback: BulkOperation[] = [];
+
+const bulkOperations = storage.defineItem<BulkOperation[]>(
+  "local:data:bulk-operations",
+  {
+    fallback: bulkOperationsFallback,
+    version: 1,
+  },
+);
+
+export const syncConflictsFallback: SyncConflict[] = [];
+
+const syncConflicts = storage.defineItem<SyncConflict[]>(
+  "local:data:sync-conflicts",
+  {
+    fallback: syncConflictsFallback,
+    version: 1,
+  },
+);
+
+export const profilesFallback: MemoryProfile[] = [];
+
+const profiles = storage.defineItem<MemoryProfile[]>("local:data:profiles", {
+  fallback: profilesFallback,
+  version: 1,
+});
+
+export const profileSettingsFallback: ProfileSettings = {
+  activeProfileId: null,
+  siteRules: [],
+};
+
+const profileSettings = storage.defineItem<ProfileSettings>(
+  "local:data:profile-settings",
+  {
+    fallback: profileSettingsFallback,
+    version: 1,
+  },
+);
+
+export const documentsFallback: StoredDocument[] = [];
+
+const documents = storage.defineItem<StoredDocument[]>("local:data:documents", {
+  fallback: documentsFallback,
+  version: 1,
+});
+
+// Kept apart from the document list so listing never loads file contents
+export const documentContentsFallback: Record<string, string> = {};
+
+const documentContents = storage.defineItem<Record<string, string>>(
+  "local:data:document-contents",
+  {
+    fallback: documentContentsFallback,
+    version: 1,
+  },
+);
+
+export const aiUsageFallback: AIUsageEntry[] = [];
+
+const aiUsage = storage.defineItem<AIUsageEntry[]>("local:data:ai-usage", {
+  fallback: aiUsageFallback,
+  version: 1,
+});
+
 export const dataStorage = {
   memories,
   fillSessions,
+  fillHistorySettings,
   captureSettings,
   pendingDeletions,
+  fillCache,
+  fieldFeedback,
+  memoryUsage,
+  memoryRevisions,
+  bulkOperations,
+  syncConflicts,
+  profiles,
+  profileSettings,
+  documents,
+  documentContents,
+  aiUsage,
 };
@@ -0,0 +1,168 @@
+import { v7 as uuidv7 } from "uuid";
+import {
+  MAX_DOCUMENT_SIZE_BYTES,
+  MAX_STORED_DOCUMENTS,
+} from "@/lib/autofill/constants";
+import { createLogger } from "@/lib/logger";
+import {
+  decryptDocumentContents,
+  encryptDocumentContents,
+  getVaultKey,
+} from "@/lib/security/vault";
+import { storage } from "@/lib/storage";
+import type {
+  DocumentFile,
+  StoredDocument,
+  StoredDocumentKind,
+} from "@/types/document";
+
+const logger = createLogger("storage:documents");
+
+const CHUNK_SIZE = 0x8000;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+
+  // Chunked so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+
+  return btoa(binary);
+};
+
+export const getDocuments = async (): Promise<StoredDocument[]> => {
+  try {
+    return await storage.documents.getValue();
+  } catch (error) {
+    logger.error("Failed to get documents:", error);
+    throw error;
+  }
+};
+
+export const addDocument = async (
+  file: File,
+  details: { label: string; kind: StoredDocumentKind },
+): Promise<StoredDocument> => {
+  try {
+    const label = details.label.trim() || file.name;
+    const documents = await getDocuments();
+
+    if (documents.length >= MAX_STORED_DOCUMENTS) {
+      throw new Error(
+        `You can store up to ${MAX_STORED_DOCUMENTS} documents. Delete one first.`,
+      );
+    }
+
+    if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+      throw new Error(
+        `File is too large. The limit is ${MAX_DOCUMENT_SIZE_BYTES / 1024 / 1024} MB.`,
+      );
+    }
+
+    const now = new Date().toISOString();
+    const document: StoredDocument = {
+      id: uuidv7(),
+      label,
+      kind: details.kind,
+      fileName: file.name,
+      mimeType: file.type || "application/octet-stream",
+      size: file.size,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const key = await getVaultKey();
+    const contents = {
+      ...(await storage.documentContents.getValue()),
+      [document.id]: toBase64(await file.arrayBuffer()),
+    };
+
+    // Contents first, so a listed document always has something to attach.
+    // Already encrypted contents are left as they are.
+    await storage.documentContents.setValue(
+      key ? await encryptDocumentContents(contents, key) : contents,
+    );
+    await storage.documents.setValue([...documents, document]);
+
+    return document;
+  } catch (error) {
+    logger.error("Failed to add document:", error);
+    throw error;
+  }
+};
+
+export const updateDocument = async (
+  id: string,
+  updates: Partial<Pick<StoredDocument, "label" | "kind">>,
+) => {
+  try {
+    const documents = await getDocuments();
+    const label = updates.label?.trim();
+
+    if (updates.label !== undefined && !label) {
+      throw new Error("Document label cannot be empty");
+    }
+
+    await storage.documents.setValue(
+      documents.map((d) =>
+        d.id === id
+          ? {
+              ...d,
+              ...updates,
+              label: label ?? d.label,
+              updatedAt: new Date().toISOString(),
+            }
+          : d,
+      ),
+    );
+  } catch (error) {
+    logger.error("Failed to update document:", error);
+    throw error;
+  }
+};
+
+export const deleteDocument = async (id: string) => {
+  try {
+    const documents = await getDocuments();
+    const { [id]: _, ...contents } = await storage.documentContents.getValue();
+
+    await storage.documents.setValue(documents.filter((d) => d.id !== id));
+    await storage.documentContents.setValue(contents);
+  } catch (error) {
+    logger.error("Failed to delete document:", error);
+    throw error;
+  }
+};
+
+/**
+ * Loads a document's contents for attaching to a file input. Throws
+ * `VaultLockedError` while the vault is locked.
+ */
+export const getDocumentFile = async (
+  id: string,
+): Promise<DocumentFile | null> => {
+  const document = (await getDocuments()).find((d) => d.id === id);
+  const data = (await storage.documentContents.getValue())[id];
+  if (!document || !data) return null;
+
+  const key = await getVaultKey();
+
+  return {
+    fileName: document.fileName,
+    mimeType: document.mimeType,
+    data: key ? (await decryptDocumentContents({ [id]: data }, key))[id] : data,
+  };
+};
+
+export const transformDocumentContents = async (
+  transform: (
+    contents: Record<string, string>,
+  ) => Promise<Record<string, string>>,
+) => {
+  const contents = await storage.documentContents.getValue();
+  if (Object.keys(contents).length === 0) return;
+
+  await storage.documentContents.setValue(await transform(contents));
+};
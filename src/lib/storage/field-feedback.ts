@@ -0,0 +1,136 @@
+import { MAX_FIELD_FEEDBACK_ENTRIES } from "@/lib/autofill/constants";
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import type {
+  FieldFeedbackEntry,
+  FieldFeedbackEvent,
+  FieldFeedbackSignal,
+} from "@/types/autofill";
+import type { MemoryEntry } from "@/types/memory";
+
+const logger = createLogger("storage:field-feedback");
+
+// Explicit votes count more than what we infer from fills and edits
+const SIGNAL_WEIGHTS: Record<FieldFeedbackSignal, number> = {
+  upvote: 1,
+  accepted: 0.5,
+  edited: -1,
+  downvote: -2,
+};
+
+const MAX_SCORE = 4;
+
+const entryKey = (fieldKey: string, memoryId: string) =>
+  `${fieldKey}\n${memoryId}`;
+
+const clampScore = (score: number) =>
+  Math.max(-MAX_SCORE, Math.min(MAX_SCORE, score));
+
+// Votes, fills and edits arriving together would otherwise overwrite each
+// other's entries
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export const recordFieldFeedback = (events: FieldFeedbackEvent[]) => {
+  const write = pendingWrite.then(async () => {
+    try {
+      const now = new Date().toISOString();
+      const entries = new Map(
+        (await storage.fieldFeedback.getValue()).map((e) => [
+          entryKey(e.fieldKey, e.memoryId),
+          e,
+        ]),
+      );
+
+      for (const { fieldKey, memoryIds, signal } of events) {
+        if (!fieldKey) continue;
+
+        for (const memoryId of memoryIds) {
+          const key = entryKey(fieldKey, memoryId);
+          const existing = entries.get(key);
+
+          entries.set(key, {
+            fieldKey,
+            memoryId,
+            score: clampScore((existing?.score ?? 0) + SIGNAL_WEIGHTS[signal]),
+            signalCount: (existing?.signalCount ?? 0) + 1,
+            updatedAt: now,
+          });
+        }
+      }
+
+      const updated = Array.from(entries.values())
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, MAX_FIELD_FEEDBACK_ENTRIES);
+
+      await storage.fieldFeedback.setValue(updated);
+      return true;
+    } catch (error) {
+      logger.error("Failed to record field feedback:", error);
+      throw error;
+    }
+  });
+
+  pendingWrite = write.catch(() => undefined);
+  return write;
+};
+
+/**
+ * Returns learned priors for the given fields, keyed by field opid and then
+ * memory id. Priors range from -1 (keeps getting rejected) to 1.
+ */
+export const getFieldFeedbackPriors = async (
+  fieldKeys: Record<string, string>,
+): Promise<Map<string, Record<string, number>>> => {
+  const priors = new Map<string, Record<string, number>>();
+
+  try {
+    const entries = await storage.fieldFeedback.getValue();
+    if (entries.length === 0) return priors;
+
+    const byFieldKey = new Map<string, FieldFeedbackEntry[]>();
+    for (const entry of entries) {
+      byFieldKey.set(entry.fieldKey, [
+        ...(byFieldKey.get(entry.fieldKey) ?? []),
+        entry,
+      ]);
+    }
+
+    for (const [opid, fieldKey] of Object.entries(fieldKeys)) {
+      const fieldEntries = byFieldKey.get(fieldKey);
+      if (!fieldEntries) continue;
+
+      priors.set(
+        opid,
+        Object.fromEntries(
+          fieldEntries.map((e) => [e.memoryId, e.score / MAX_SCORE]),
+        ),
+      );
+    }
+  } catch (error) {
+    logger.error("Failed to read field feedback:", error);
+  }
+
+  return priors;
+};
+
+export const pruneFieldFeedback = (memories: MemoryEntry[]) => {
+  const write = pendingWrite.then(async () => {
+    try {
+      const entries = await storage.fieldFeedback.getValue();
+      if (entries.length === 0) return;
+
+      const memoryIds = new Set(memories.map((m) => m.id));
+      const validEntries = entries.filter((e) => memoryIds.has(e.memoryId));
+
+      if (validEntries.length !== entries.length) {
+        await storage.fieldFeedback.setValue(validEntries);
+      }
+    } catch (error) {
+      logger.error("Failed to prune field feedback:", error);
+      throw error;
+    }
+  });
+
+  pendingWrite = write.catch(() => undefined);
+  return write;
+};
@@ -0,0 +1,210 @@
+import { MAX_FILL_CACHE_ENTRIES } from "@/lib/autofill/constants";
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import { computeContentHash } from "@/lib/storage/content-hash";
+import { getMemories } from "@/lib/storage/memories";
+import type {
+  CachedFieldMapping,
+  FieldMapping,
+  FillCacheEntry,
+  FillCacheKey,
+} from "@/types/autofill";
+import type { MemoryEntry } from "@/types/memory";
+
+const logger = createLogger("storage:fill-cache");
+
+const getMemoryHash = async (memory: MemoryEntry): Promise<string> =>
+  memory.contentHash ||
+  (await computeContentHash(memory.question, memory.answer, memory.category));
+
+const buildHashLookup = async (
+  memories: MemoryEntry[],
+): Promise<Map<string, string>> => {
+  const lookup = new Map<string, string>();
+  for (const memory of memories) {
+    lookup.set(memory.id, await getMemoryHash(memory));
+  }
+  return lookup;
+};
+
+const isEntryValid = (
+  entry: FillCacheEntry,
+  hashLookup: Map<string, string>,
+): boolean =>
+  Object.entries(entry.memoryHashes).every(
+    ([memoryId, hash]) => hashLookup.get(memoryId) === hash,
+  );
+
+// Cached values are kept in plaintext, so the cache is off in vault mode
+const isCacheDisabled = async (): Promise<boolean> =>
+  (await storage.vaultConfig.getValue()).enabled;
+
+/**
+ * Returns cached mappings for the given fields, or null on a miss or when
+ * any source memory has changed since the entry was written.
+ */
+export const getCachedMappings = async (
+  cacheKey: FillCacheKey,
+  memories: MemoryEntry[],
+): Promise<FieldMapping[] | null> => {
+  try {
+    if (await isCacheDisabled()) return null;
+
+    const entries = await storage.fillCache.getValue();
+    const entry = entries.find((e) => e.fingerprint === cacheKey.fingerprint);
+
+    if (!entry) return null;
+
+    if (!isEntryValid(entry, await buildHashLookup(memories))) {
+      logger.info("Fill cache entry is stale, dropping:", entry.urlPattern);
+      await storage.fillCache.setValue(
+        entries.filter((e) => e.fingerprint !== entry.fingerprint),
+      );
+      return null;
+    }
+
+    const cachedByKey = new Map(entry.mappings.map((m) => [m.fieldKey, m]));
+    const mappings = Object.entries(cacheKey.fieldKeys).map(
+      ([fieldOpid, fieldKey]): FieldMapping => {
+        const cached = cachedByKey.get(fieldKey);
+
+        if (!cached) {
+          return {
+            fieldOpid,
+            value: null,
+            confidence: 0,
+            reasoning: "Not filled last time on this form",
+            fromCache: true,
+          };
+        }
+
+        return {
+          fieldOpid,
+          value: cached.value,
+          confidence: cached.confidence,
+          reasoning: cached.reasoning,
+          memoryIds: cached.memoryIds,
+          fromCache: true,
+        };
+      },
+    );
+
+    await storage.fillCache.setValue(
+      entries.map((e) =>
+        e.fingerprint === entry.fingerprint
+          ? {
+              ...e,
+              lastUsedAt: new Date().toISOString(),
+              hitCount: e.hitCount + 1,
+            }
+          : e,
+      ),
+    );
+
+    return mappings;
+  } catch (error) {
+    logger.error("Failed to read fill cache:", error);
+    return null;
+  }
+};
+
+export const saveFillCacheEntry = async (
+  cacheKey: FillCacheKey,
+  acceptedMappings: FieldMapping[],
+): Promise<boolean> => {
+  try {
+    if (await isCacheDisabled()) return false;
+
+    // Values without source memories can never be invalidated, so skip them
+    const cacheable: CachedFieldMapping[] = acceptedMappings.flatMap(
+      (mapping) => {
+        const fieldKey = cacheKey.fieldKeys[mapping.fieldOpid];
+        if (!fieldKey || mapping.value === null || !mapping.memoryIds?.length) {
+          return [];
+        }
+        return [
+          {
+            fieldKey,
+            value: mapping.value,
+            confidence: mapping.confidence,
+            reasoning: mapping.reasoning,
+            memoryIds: mapping.memoryIds,
+          },
+        ];
+      },
+    );
+
+    if (cacheable.length === 0) return false;
+
+    const hashLookup = await buildHashLookup(await getMemories());
+    const memoryHashes: Record<string, string> = {};
+
+    for (const memoryId of new Set(cacheable.flatMap((m) => m.memoryIds))) {
+      const hash = hashLookup.get(memoryId);
+      if (!hash) {
+        logger.warn("Source memory missing, not caching:", memoryId);
+        return false;
+      }
+      memoryHashes[memoryId] = hash;
+    }
+
+    const now = new Date().toISOString();
+    const entries = await storage.fillCache.getValue();
+    const existing = entries.find(
+      (e) => e.fingerprint === cacheKey.fingerprint,
+    );
+
+    const entry: FillCacheEntry = {
+      fingerprint: cacheKey.fingerprint,
+      urlPattern: cacheKey.urlPattern,
+      mappings: cacheable,
+      memoryHashes,
+      createdAt: existing?.createdAt ?? now,
+      lastUsedAt: now,
+      hitCount: existing?.hitCount ?? 0,
+    };
+
+    const updatedEntries = [
+      entry,
+      ...entries.filter((e) => e.fingerprint !== cacheKey.fingerprint),
+    ]
+      .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+      .slice(0, MAX_FILL_CACHE_ENTRIES);
+
+    await storage.fillCache.setValue(updatedEntries);
+
+    return true;
+  } catch (error) {
+    logger.error("Failed to save fill cache entry:", error);
+    throw error;
+  }
+};
+
+export const pruneFillCache = async (memories: MemoryEntry[]) => {
+  try {
+    const entries = await storage.fillCache.getValue();
+    if (entries.length === 0) return;
+
+    const hashLookup = await buildHashLookup(memories);
+    const validEntries = entries.filter((e) => isEntryValid(e, hashLookup));
+
+    if (validEntries.length !== entries.length) {
+      logger.info(
+        `Invalidated ${entries.length - validEntries.length} fill cache entries`,
+      );
+      await storage.fillCache.setValue(validEntries);
+    }
+  } catch (error) {
+    logger.error("Failed to prune fill cache:", error);
+    throw error;
+  }
+};
+
+export const clearFillCache = async () => {
+  try {
+    await storage.fillCache.setValue([]);
+  } catch (error) {
+    logger.error("Failed to clear fill cache:", error);
+    throw error;
+  }
+};
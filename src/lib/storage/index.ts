@@ -1,13 +1,28 @@
-import { aiSettings } from "./ai-settings";
+import { aiSettings, customProviders, usageBudget } from "./ai-settings";
 import { dataStorage } from "./data";
-import { apiKeys } from "./security";
-import { syncStateAndSettings } from "./sync";
+import { promptSettings } from "./prompt-settings";
+import {
+  apiKeys,
+  syncEncryptionKey,
+  vaultConfig,
+  vaultSession,
+} from "./security";
+import { inPageShortcuts } from "./shortcut-settings";
+import { syncBackend, syncStateAndSettings } from "./sync";
 import { uiSettings } from "./ui-settings";
 
 export const storage = {
   uiSettings,
   aiSettings,
+  customProviders,
+  usageBudget,
+  promptSettings,
+  inPageShortcuts,
   syncStateAndSettings,
+  syncBackend,
   ...dataStorage,
   apiKeys,
+  syncEncryptionKey,
+  vaultConfig,
+  vaultSession,
 };
@@ -1,10 +1,26 @@
 import { v7 as uuidv7 } from "uuid";
+import { embedMemory, ensureMemoryEmbeddings } from "@/lib/ai/embeddings";
 import { isAllowedCategory } from "@/lib/copies";
 import { downloadCSV, parseCSV, stringifyToCSV } from "@/lib/csv";
 import { createLogger } from "@/lib/logger";
+import {
+  decryptMemoryEntries,
+  encryptMemoryEntries,
+  getVaultKey,
+} from "@/lib/security/vault";
 import { storage } from "@/lib/storage";
 import { buildAnswerKey, computeContentHash } from "@/lib/storage/content-hash";
-import type { MemoryEntry } from "@/types/memory";
+import {
+  getBulkOperationRevisions,
+  getLastBulkOperation,
+  getRevisionById,
+  hasContentChanged,
+  type MemoryHistoryOptions,
+  markBulkOperationUndone,
+  recordMemoryHistory,
+} from "@/lib/storage/memory-history";
+import { resolveProfileNames, reviveProfilesOf } from "@/lib/storage/profiles";
+import type { BulkOperation, MemoryEntry } from "@/types/memory";
 
 const logger = createLogger("storage:memories");
 
@@ -31,6 +47,52 @@ function uniqueTags(tags: string[]): string[] {
   return result;
 }
 
+/**
+ * Reads all memories, decrypting them when vault mode is on. Throws
+ * `VaultLockedError` while the vault is locked.
+ */
+export const getMemories = async (): Promise<MemoryEntry[]> => {
+  const memories = await storage.memories.getValue();
+  const key = await getVaultKey();
+
+  return key ? decryptMemoryEntries(memories, key) : memories;
+};
+
+/**
+ * Persists the full memory list. Pass `history` to append revisions for
+ * every memory whose content changed.
+ */
+export const saveMemories = async (
+  memories: MemoryEntry[],
+  history?: MemoryHistoryOptions,
+) => {
+  const key = await getVaultKey();
+
+  if (history) {
+    await recordMemoryHistory(await getMemories(), memories, history);
+  }
+
+  await storage.memories.setValue(
+    key ? await encryptMemoryEntries(memories, key) : memories,
+  );
+};
+
+const queuePendingDeletions = async (entries: MemoryEntry[]) => {
+  if (entries.length === 0) return;
+
+  const pendingDeletions = await storage.pendingDeletions.getValue();
+  const deletedAt = new Date().toISOString();
+
+  for (const entry of entries) {
+    pendingDeletions.push({
+      localId: entry.syncId || entry.id,
+      deletedAt,
+    });
+  }
+
+  await storage.pendingDeletions.setValue(pendingDeletions);
+};
+
 export const addEntry = async (entry: CreateMemoryEntry) => {
   try {
     const contentHash = await computeContentHash(
@@ -38,7 +100,7 @@ export const addEntry = async (entry: CreateMemoryEntry) => {
       entry.answer,
       entry.category,
     );
-    const currentEntries = await storage.memories.getValue();
+    const currentEntries = await getMemories();
     const answerKey = buildAnswerKey(entry.answer, entry.category);
 
     const existingIndex =
@@ -63,11 +125,12 @@ export const addEntry = async (entry: CreateMemoryEntry) => {
           updatedAt: new Date().toISOString(),
         },
       };
+      Object.assign(updatedEntry, await embedMemory(updatedEntry));
 
       const updatedEntries = [...currentEntries];
       updatedEntries[existingIndex] = updatedEntry;
 
-      await storage.memories.setValue(updatedEntries);
+      await saveMemories(updatedEntries, { source: "manual" });
 
       return updatedEntry;
     }
@@ -83,10 +146,11 @@ export const addEntry = async (entry: CreateMemoryEntry) => {
         source: "manual",
       },
     };
+    Object.assign(newEntry, await embedMemory(newEntry));
 
     const updatedEntries = [...currentEntries, newEntry];
 
-    await storage.memories.setValue(updatedEntries);
+    await saveMemories(updatedEntries, { source: "manual" });
 
     return newEntry;
   } catch (error) {
@@ -97,7 +161,7 @@ export const addEntry = async (entry: CreateMemoryEntry) => {
 
 export const addEntries = async (entries: CreateMemoryEntry[]) => {
   try {
-    const currentEntries = await storage.memories.getValue();
+    const currentEntries = await getMemories();
     const updatedEntries = [...currentEntries];
     const hashToIndex = new Map<string, number>();
     const answerKeyToIndex = new Map<string, number>();
@@ -145,6 +209,7 @@ export const addEntries = async (entries: CreateMemoryEntry[]) => {
           contentHash,
           tags: uniqueTags([...(existing.tags || []), ...entry.tags]),
           confidence: Math.max(existing.confidence ?? 0, entry.confidence ?? 0),
+          embedding: undefined,
           metadata: {
             ...existing.metadata,
             updatedAt: new Date().toISOString(),
@@ -159,6 +224,7 @@ export const addEntries = async (entries: CreateMemoryEntry[]) => {
           id: uuidv7(),
           contentHash,
           tags: uniqueTags(entry.tags),
+          embedding: undefined,
           metadata: {
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString(),
@@ -174,9 +240,14 @@ export const addEntries = async (entries: CreateMemoryEntry[]) => {
       }
     }
 
-    await storage.memories.setValue(updatedEntries);
+    const indexedEntries = await ensureMemoryEmbeddings(updatedEntries);
+    await saveMemories(indexedEntries, {
+      source: "import",
+      bulkLabel: `Added ${entries.length} memories`,
+    });
 
-    return createdOrUpdated;
+    const indexedById = new Map(indexedEntries.map((e) => [e.id, e]));
+    return createdOrUpdated.map((e) => indexedById.get(e.id) ?? e);
   } catch (error) {
     logger.error("Failed to add entries:", error);
     throw error;
@@ -216,7 +287,7 @@ export const findDuplicates = async (
 
 export const updateEntry = async (id: string, updates: UpdateMemoryEntry) => {
   try {
-    const currentEntries = await storage.memories.getValue();
+    const currentEntries = await getMemories();
     const entry = currentEntries.find((e) => e.id === id);
 
     if (!entry) {
@@ -239,12 +310,13 @@ export const updateEntry = async (id: string, updates: UpdateMemoryEntry) => {
         updatedAt: new Date().toISOString(),
       },
     };
+    Object.assign(updatedEntry, await embedMemory(updatedEntry));
 
     const updatedEntries = currentEntries.map((e) =>
       e.id === id ? updatedEntry : e,
     );
 
-    await storage.memories.setValue(updatedEntries);
+    await saveMemories(updatedEntries, { source: "manual" });
 
     return updatedEntry;
   } catch (error) {
@@ -255,19 +327,14 @@ export const updateEntry = async (id: string, updates: UpdateMemoryEntry) => {
 
 export const deleteEntry = async (id: string): Promise<void> => {
   try {
-    const currentEntries = await storage.memories.getValue();
+    const currentEntries = await getMemories();
     const entry = currentEntries.find((e) => e.id === id);
     const updatedEntries = currentEntries.filter((e) => e.id !== id);
 
-    await storage.memories.setValue(updatedEntries);
+    await saveMemories(updatedEntries, { source: "manual" });
 
     if (entry) {
-      const pendingDeletions = await storage.pendingDeletions.getValue();
-      pendingDeletions.push({
-        localId: entry.syncId || entry.id,
-        deletedAt: new Date().toISOString(),
-      });
-      await storage.pendingDeletions.setValue(pendingDeletions);
+      await queuePendingDeletions([entry]);
     }
   } catch (error) {
     logger.error("Failed to delete entry:", error);
@@ -275,11 +342,138 @@ export const deleteEntry = async (id: string): Promise<void> => {
   }
 };
 
+/**
+ * Brings a memory back to the state captured in a revision, re-creating it
+ * if it has since been deleted.
+ */
+export const restoreRevision = async (
+  revisionId: string,
+): Promise<MemoryEntry> => {
+  try {
+    const revision = await getRevisionById(revisionId);
+    const snapshot = revision?.after ?? revision?.before;
+
+    if (!revision || !snapshot) {
+      throw new Error(`Revision with id ${revisionId} not found`);
+    }
+
+    const currentEntries = await getMemories();
+    const [revivedSnapshot] = await reviveProfilesOf([snapshot]);
+    const restoredEntry: MemoryEntry = {
+      ...revivedSnapshot,
+      contentHash: await computeContentHash(
+        snapshot.question,
+        snapshot.answer,
+        snapshot.category,
+      ),
+      metadata: {
+        ...snapshot.metadata,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+    Object.assign(restoredEntry, await embedMemory(restoredEntry));
+
+    const exists = currentEntries.some((e) => e.id === revision.memoryId);
+    const updatedEntries = exists
+      ? currentEntries.map((e) =>
+          e.id === revision.memoryId ? restoredEntry : e,
+        )
+      : [...currentEntries, restoredEntry];
+
+    await saveMemories(updatedEntries, { source: "restore" });
+
+    if (!exists) {
+      const restoredIds = [restoredEntry.id, restoredEntry.syncId];
+      const pendingDeletions = await storage.pendingDeletions.getValue();
+      await storage.pendingDeletions.setValue(
+        pendingDeletions.filter((d) => !restoredIds.includes(d.localId)),
+      );
+    }
+
+    return restoredEntry;
+  } catch (error) {
+    logger.error("Failed to restore revision:", error);
+    throw error;
+  }
+};
+
+/**
+ * Reverts the most recent bulk operation (imports, capture deduplication)
+ * that has not been undone yet. Memories changed since the operation are
+ * left alone so later edits are not lost; they are counted as skipped.
+ */
+export const undoLastBulkOperation = async (): Promise<
+  { operation: BulkOperation; skippedCount: number } | undefined
+> => {
+  try {
+    const operation = await getLastBulkOperation();
+    if (!operation) return undefined;
+
+    const revisions = await getBulkOperationRevisions(operation.id);
+    const entriesById = new Map(
+      (await getMemories()).map((entry) => [entry.id, entry]),
+    );
+    const removedEntries: MemoryEntry[] = [];
+    const restoredIds = new Set<string>();
+    // Revisions pruned before bulk operations were protected from pruning
+    let skippedCount = Math.max(operation.revisionCount - revisions.length, 0);
+
+    for (const revision of [...revisions].reverse()) {
+      const current = entriesById.get(revision.memoryId);
+      const isUnchanged = revision.after
+        ? !!current && !hasContentChanged(current, revision.after)
+        : !current;
+
+      if (!isUnchanged) {
+        skippedCount++;
+        continue;
+      }
+
+      if (revision.before) {
+        entriesById.set(revision.memoryId, {
+          ...revision.before,
+          syncId: current?.syncId ?? revision.before.syncId,
+        });
+        restoredIds.add(revision.memoryId);
+      } else if (current) {
+        entriesById.delete(revision.memoryId);
+        restoredIds.delete(revision.memoryId);
+        removedEntries.push(current);
+      }
+    }
+
+    // Undoing a profile deletion brings the profile back with its memories
+    const restoredEntries = await reviveProfilesOf(
+      Array.from(entriesById.values()).filter((e) => restoredIds.has(e.id)),
+    );
+    for (const entry of restoredEntries) {
+      entriesById.set(entry.id, entry);
+    }
+
+    const updatedEntries = await ensureMemoryEmbeddings(
+      Array.from(entriesById.values()),
+    );
+
+    await saveMemories(updatedEntries, { source: "undo" });
+    await queuePendingDeletions(removedEntries);
+    await markBulkOperationUndone(operation.id);
+
+    logger.info(
+      `Undid bulk operation "${operation.label}" (${revisions.length} changes, ${skippedCount} skipped)`,
+    );
+
+    return { operation, skippedCount };
+  } catch (error) {
+    logger.error("Failed to undo bulk operation:", error);
+    throw error;
+  }
+};
+
 export const getEntryById = async (
   id: string,
 ): Promise<MemoryEntry | undefined> => {
   try {
-    const currentEntries = await storage.memories.getValue();
+    const currentEntries = await getMemories();
     return currentEntries.find((e) => e.id === id);
   } catch (error) {
     logger.error("Failed to get entry by id:", error);
@@ -289,7 +483,7 @@ export const getEntryById = async (
 
 export const exportToCSV = async (): Promise<void> => {
   try {
-    const entries = await storage.memories.getValue();
+    const entries = await getMemories();
 
     const headers: Array<
       | "question"
@@ -299,6 +493,7 @@ export const exportToCSV = async (): Promise<void> => {
       | "confidence"
       | "createdAt"
       | "updatedAt"
+      | "profile"
     > = [
       "question",
       "answer",
@@ -307,8 +502,12 @@ export const exportToCSV = async (): Promise<void> => {
       "confidence",
       "createdAt",
       "updatedAt",
+      "profile",
     ];
 
+    const profiles = await storage.profiles.getValue();
+    const profileNames = new Map(profiles.map((p) => [p.id, p.name]));
+
     const csvData = entries.map((entry) => ({
       question: entry.question || "",
       answer: entry.answer,
@@ -317,6 +516,7 @@ export const exportToCSV = async (): Promise<void> => {
       confidence: entry.confidence,
       createdAt: entry.metadata.createdAt,
       updatedAt: entry.metadata.updatedAt,
+      profile: (entry.profileId && profileNames.get(entry.profileId)) || "",
     }));
 
     const csv = stringifyToCSV(csvData, headers);
@@ -339,12 +539,17 @@ export const importFromCSV = async (csvContent: string): Promise<number> => {
       confidence: string;
       createdAt: string;
       updatedAt: string;
+      profile?: string;
     }>(csvContent);
 
     if (rows.length === 0) {
       throw new Error("CSV file is empty or invalid");
     }
 
+    const profileIds = await resolveProfileNames(
+      rows.map((row) => row.profile ?? ""),
+    );
+
     const importedEntries: MemoryEntry[] = await Promise.all(
       rows.map(async (row) => {
         const tags = Array.isArray(row.tags)
@@ -380,14 +585,21 @@ export const importFromCSV = async (csvContent: string): Promise<number> => {
             updatedAt,
             source: "import" as const,
           },
+          profileId: profileIds.get(row.profile?.trim().toLowerCase() ?? ""),
         };
       }),
     );
 
-    const currentEntries = await storage.memories.getValue();
-    const updatedEntries = [...currentEntries, ...importedEntries];
+    const currentEntries = await getMemories();
+    const updatedEntries = await ensureMemoryEmbeddings([
+      ...currentEntries,
+      ...importedEntries,
+    ]);
 
-    await storage.memories.setValue(updatedEntries);
+    await saveMemories(updatedEntries, {
+      source: "import",
+      bulkLabel: `Imported ${importedEntries.length} memories from CSV`,
+    });
 
     return importedEntries.length;
   } catch (error) {
@@ -405,6 +617,7 @@ export const downloadCSVTemplate = (): void => {
     | "confidence"
     | "createdAt"
     | "updatedAt"
+    | "profile"
   > = [
     "question",
     "answer",
@@ -413,6 +626,7 @@ export const downloadCSVTemplate = (): void => {
     "confidence",
     "createdAt",
     "updatedAt",
+    "profile",
   ];
 
   const csv = stringifyToCSV([], headers);
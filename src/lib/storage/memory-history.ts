@@ -0,0 +1,246 @@
+import { v7 as uuidv7 } from "uuid";
+import { createLogger } from "@/lib/logger";
+import {
+  decryptMemoryEntries,
+  encryptMemoryEntries,
+  getVaultKey,
+} from "@/lib/security/vault";
+import { storage } from "@/lib/storage";
+import type {
+  BulkOperation,
+  MemoryEntry,
+  MemoryRevision,
+  MemoryRevisionSource,
+} from "@/types/memory";
+
+const logger = createLogger("storage:memory-history");
+
+const MAX_REVISIONS_PER_MEMORY = 20;
+const MAX_BULK_OPERATIONS = 10;
+
+export interface MemoryHistoryOptions {
+  source: MemoryRevisionSource;
+  // Groups the changes into one bulk operation that can be undone as a whole
+  bulkLabel?: string;
+}
+
+type SnapshotTransform = (memories: MemoryEntry[]) => Promise<MemoryEntry[]>;
+
+const toSnapshot = ({
+  embedding: _embedding,
+  embedderId: _embedderId,
+  ...memory
+}: MemoryEntry): MemoryEntry => memory;
+
+export const hasContentChanged = (a: MemoryEntry, b: MemoryEntry): boolean =>
+  a.question !== b.question ||
+  a.answer !== b.answer ||
+  a.category !== b.category ||
+  a.confidence !== b.confidence ||
+  a.tags.join("\n") !== b.tags.join("\n");
+
+const mapSnapshots = async (
+  revisions: MemoryRevision[],
+  transform: SnapshotTransform,
+): Promise<MemoryRevision[]> =>
+  Promise.all(
+    revisions.map(async (revision) => {
+      const [before] = revision.before
+        ? await transform([revision.before])
+        : [null];
+      const [after] = revision.after
+        ? await transform([revision.after])
+        : [null];
+      return { ...revision, before, after };
+    }),
+  );
+
+// Snapshots hold answers, so they are encrypted like memories in vault mode
+const readRevisions = async (
+  filter: (revision: MemoryRevision) => boolean,
+): Promise<MemoryRevision[]> => {
+  const revisions = (await storage.memoryRevisions.getValue()).filter(filter);
+  const key = await getVaultKey();
+
+  return key
+    ? mapSnapshots(revisions, (entries) => decryptMemoryEntries(entries, key))
+    : revisions;
+};
+
+/**
+ * Caps the revisions kept per memory. Revisions of bulk operations that can
+ * still be undone are always kept, so an undo never reverts only part of one.
+ */
+const pruneRevisions = (
+  revisions: MemoryRevision[],
+  operations: BulkOperation[],
+): MemoryRevision[] => {
+  const undoableIds = new Set(
+    operations
+      .filter((operation) => !operation.undoneAt)
+      .map((operation) => operation.id),
+  );
+  const countByMemory = new Map<string, number>();
+
+  // Newest revisions are at the end, so walk backwards to keep those
+  return revisions
+    .reduceRight<MemoryRevision[]>((kept, revision) => {
+      if (
+        revision.bulkOperationId &&
+        undoableIds.has(revision.bulkOperationId)
+      ) {
+        kept.push(revision);
+        return kept;
+      }
+
+      const count = countByMemory.get(revision.memoryId) ?? 0;
+      if (count < MAX_REVISIONS_PER_MEMORY) {
+        countByMemory.set(revision.memoryId, count + 1);
+        kept.push(revision);
+      }
+      return kept;
+    }, [])
+    .reverse();
+};
+
+/**
+ * Appends a revision for every memory whose content differs between the two
+ * lists. Metadata-only changes (sync ids, hashes, embeddings) are ignored.
+ */
+export const recordMemoryHistory = async (
+  before: MemoryEntry[],
+  after: MemoryEntry[],
+  options: MemoryHistoryOptions,
+) => {
+  try {
+    const beforeById = new Map(before.map((m) => [m.id, m]));
+    const afterIds = new Set(after.map((m) => m.id));
+    const bulkOperationId = options.bulkLabel ? uuidv7() : undefined;
+    const createdAt = new Date().toISOString();
+
+    const createRevision = (
+      memoryId: string,
+      action: MemoryRevision["action"],
+      previous: MemoryEntry | null,
+      next: MemoryEntry | null,
+    ): MemoryRevision => ({
+      id: uuidv7(),
+      memoryId,
+      action,
+      source: options.source,
+      before: previous && toSnapshot(previous),
+      after: next && toSnapshot(next),
+      bulkOperationId,
+      createdAt,
+    });
+
+    const revisions: MemoryRevision[] = [];
+
+    for (const memory of after) {
+      const previous = beforeById.get(memory.id);
+      if (!previous) {
+        revisions.push(createRevision(memory.id, "create", null, memory));
+      } else if (hasContentChanged(previous, memory)) {
+        revisions.push(createRevision(memory.id, "update", previous, memory));
+      }
+    }
+
+    for (const memory of before) {
+      if (!afterIds.has(memory.id)) {
+        revisions.push(createRevision(memory.id, "delete", memory, null));
+      }
+    }
+
+    if (revisions.length === 0) return;
+
+    const key = await getVaultKey();
+    const storedRevisions = key
+      ? await mapSnapshots(revisions, (entries) =>
+          encryptMemoryEntries(entries, key),
+        )
+      : revisions;
+
+    const currentOperations = await storage.bulkOperations.getValue();
+    const operations =
+      bulkOperationId && options.bulkLabel
+        ? [
+            {
+              id: bulkOperationId,
+              label: options.bulkLabel,
+              source: options.source,
+              revisionCount: revisions.length,
+              createdAt,
+            },
+            ...currentOperations,
+          ].slice(0, MAX_BULK_OPERATIONS)
+        : currentOperations;
+
+    const currentRevisions = await storage.memoryRevisions.getValue();
+    await storage.memoryRevisions.setValue(
+      pruneRevisions([...currentRevisions, ...storedRevisions], operations),
+    );
+
+    if (operations !== currentOperations) {
+      await storage.bulkOperations.setValue(operations);
+    }
+  } catch (error) {
+    logger.error("Failed to record memory history:", error);
+    throw error;
+  }
+};
+
+export const getMemoryRevisions = async (
+  memoryId: string,
+): Promise<MemoryRevision[]> => {
+  try {
+    const revisions = await readRevisions((r) => r.memoryId === memoryId);
+    return revisions.reverse();
+  } catch (error) {
+    logger.error("Failed to get memory revisions:", error);
+    throw error;
+  }
+};
+
+export const getRevisionById = async (
+  revisionId: string,
+): Promise<MemoryRevision | undefined> => {
+  const [revision] = await readRevisions((r) => r.id === revisionId);
+  return revision;
+};
+
+export const getBulkOperationRevisions = (
+  bulkOperationId: string,
+): Promise<MemoryRevision[]> =>
+  readRevisions((r) => r.bulkOperationId === bulkOperationId);
+
+export const getLastBulkOperation = async (): Promise<
+  BulkOperation | undefined
+> => {
+  const operations = await storage.bulkOperations.getValue();
+  return operations.find((operation) => !operation.undoneAt);
+};
+
+export const markBulkOperationUndone = async (bulkOperationId: string) => {
+  const operations = await storage.bulkOperations.getValue();
+  await storage.bulkOperations.setValue(
+    operations.map((operation) =>
+      operation.id === bulkOperationId
+        ? { ...operation, undoneAt: new Date().toISOString() }
+        : operation,
+    ),
+  );
+};
+
+/**
+ * Rewrites every stored snapshot, used when vault mode is turned on or off.
+ */
+export const transformRevisionSnapshots = async (
+  transform: SnapshotTransform,
+) => {
+  const revisions = await storage.memoryRevisions.getValue();
+  if (revisions.length === 0) return;
+
+  await storage.memoryRevisions.setValue(
+    await mapSnapshots(revisions, transform),
+  );
+};
@@ -0,0 +1,142 @@
+import {
+  MAX_USAGE_DOMAINS_PER_MEMORY,
+  MEMORY_USAGE_HALF_LIFE_DAYS,
+  STALE_MEMORY_DAYS,
+} from "@/lib/autofill/constants";
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import { normalizeDomain } from "@/lib/storage/profiles";
+import type { MemoryEntry, MemoryUsage } from "@/types/memory";
+
+const logger = createLogger("storage:memory-usage");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Use count at which the frequency part of the score maxes out
+const USE_COUNT_SATURATION = 20;
+
+const daysSince = (date: string, now: number) =>
+  Math.max(0, (now - new Date(date).getTime()) / DAY_MS);
+
+const usageScore = (useCount: number, lastUsedAt: string, now: number) => {
+  const frequency = Math.min(
+    1,
+    Math.log1p(useCount) / Math.log1p(USE_COUNT_SATURATION),
+  );
+  const recency =
+    0.5 ** (daysSince(lastUsedAt, now) / MEMORY_USAGE_HALF_LIFE_DAYS);
+  return frequency * recency;
+};
+
+export const getMemoryUsage = async (): Promise<MemoryUsage[]> => {
+  try {
+    return await storage.memoryUsage.getValue();
+  } catch (error) {
+    logger.error("Failed to get memory usage:", error);
+    throw error;
+  }
+};
+
+/** Counts one use of each memory that filled a field on the given page */
+export const recordMemoryUsage = async (
+  memoryIds: string[],
+  pageUrl: string,
+) => {
+  try {
+    const ids = new Set(memoryIds);
+    if (ids.size === 0) return true;
+
+    const now = new Date().toISOString();
+    const domain = normalizeDomain(pageUrl);
+    const usage = new Map(
+      (await getMemoryUsage()).map((entry) => [entry.memoryId, entry]),
+    );
+
+    for (const memoryId of ids) {
+      const existing = usage.get(memoryId);
+      const domains = existing?.domains ?? [];
+      const domainUsage = domains.find((d) => d.domain === domain);
+
+      usage.set(memoryId, {
+        memoryId,
+        useCount: (existing?.useCount ?? 0) + 1,
+        lastUsedAt: now,
+        domains: domain
+          ? [
+              {
+                domain,
+                useCount: (domainUsage?.useCount ?? 0) + 1,
+                lastUsedAt: now,
+              },
+              ...domains.filter((d) => d.domain !== domain),
+            ].slice(0, MAX_USAGE_DOMAINS_PER_MEMORY)
+          : domains,
+      });
+    }
+
+    await storage.memoryUsage.setValue(Array.from(usage.values()));
+    return true;
+  } catch (error) {
+    logger.error("Failed to record memory usage:", error);
+    throw error;
+  }
+};
+
+/**
+ * Scores memories from 0 to 1 by how often and how recently they were
+ * filled, counting use on the page's own domain as much as use overall.
+ */
+export const getMemoryUsageScores = async (
+  pageUrl: string,
+): Promise<Map<string, number>> => {
+  const scores = new Map<string, number>();
+
+  try {
+    const usage = await getMemoryUsage();
+    const domain = normalizeDomain(pageUrl);
+    const now = Date.now();
+
+    for (const entry of usage) {
+      const domainUsage = entry.domains.find((d) => d.domain === domain);
+      const overall = usageScore(entry.useCount, entry.lastUsedAt, now);
+      const onDomain = domainUsage
+        ? usageScore(domainUsage.useCount, domainUsage.lastUsedAt, now)
+        : 0;
+
+      scores.set(entry.memoryId, (overall + onDomain) / 2);
+    }
+  } catch (error) {
+    logger.error("Failed to read memory usage:", error);
+  }
+
+  return scores;
+};
+
+/**
+ * A memory is stale once it hasn't been filled for a while, counting from
+ * its creation if it was never used.
+ */
+export const isStaleMemory = (
+  memory: MemoryEntry,
+  usage: MemoryUsage | undefined,
+  now = Date.now(),
+) =>
+  daysSince(usage?.lastUsedAt ?? memory.metadata.createdAt, now) >
+  STALE_MEMORY_DAYS;
+
+export const pruneMemoryUsage = async (memories: MemoryEntry[]) => {
+  try {
+    const usage = await getMemoryUsage();
+    if (usage.length === 0) return;
+
+    const memoryIds = new Set(memories.map((m) => m.id));
+    const validUsage = usage.filter((u) => memoryIds.has(u.memoryId));
+
+    if (validUsage.length !== usage.length) {
+      await storage.memoryUsage.setValue(validUsage);
+    }
+  } catch (error) {
+    logger.error("Failed to prune memory usage:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,49 @@
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import type { AITask, ModelRoute } from "@/types/settings";
+
+const logger = createLogger("storage:model-routing");
+
+export interface ModelRouting {
+  taskRoutes: Partial<Record<AITask, ModelRoute>>;
+  fallbackChain: ModelRoute[];
+}
+
+export const getModelRouting = async (): Promise<ModelRouting> => {
+  try {
+    const settings = await storage.aiSettings.getValue();
+    return {
+      taskRoutes: settings.taskRoutes ?? {},
+      fallbackChain: settings.fallbackChain ?? [],
+    };
+  } catch (error) {
+    logger.error("Failed to get model routing:", error);
+    throw error;
+  }
+};
+
+/** Routes a task to its own provider, or back to the selected one */
+export const setTaskRoute = async (task: AITask, route?: ModelRoute) => {
+  try {
+    const settings = await storage.aiSettings.getValue();
+    const { [task]: _, ...taskRoutes } = settings.taskRoutes ?? {};
+
+    await storage.aiSettings.setValue({
+      ...settings,
+      taskRoutes: route ? { ...taskRoutes, [task]: route } : taskRoutes,
+    });
+  } catch (error) {
+    logger.error("Failed to set task route:", error);
+    throw error;
+  }
+};
+
+export const setFallbackChain = async (fallbackChain: ModelRoute[]) => {
+  try {
+    const settings = await storage.aiSettings.getValue();
+    await storage.aiSettings.setValue({ ...settings, fallbackChain });
+  } catch (error) {
+    logger.error("Failed to set fallback chain:", error);
+    throw error;
+  }
+};
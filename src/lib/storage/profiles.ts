@@ -0,0 +1,333 @@
+import { v7 as uuidv7 } from "uuid";
+import { createLogger } from "@/lib/logger";
+import { storage } from "@/lib/storage";
+import { getMemories, saveMemories } from "@/lib/storage/memories";
+import type { MemoryEntry } from "@/types/memory";
+import type {
+  MemoryProfile,
+  ProfileSettings,
+  ProfileSiteRule,
+} from "@/types/profile";
+
+const logger = createLogger("storage:profiles");
+
+export const normalizeDomain = (input: string): string => {
+  const trimmed = input.trim().toLowerCase();
+  if (!trimmed) return "";
+
+  try {
+    const url = new URL(
+      trimmed.includes("://") ? trimmed : `https://${trimmed}`,
+    );
+    return url.hostname.replace(/^www\./, "");
+  } catch {
+    return "";
+  }
+};
+
+const matchesDomain = (hostname: string, rule: ProfileSiteRule) =>
+  hostname === rule.domain || hostname.endsWith(`.${rule.domain}`);
+
+const isActive = (profile: MemoryProfile) => !profile.deletedAt;
+
+export const getProfiles = async (): Promise<MemoryProfile[]> => {
+  const profiles = await storage.profiles.getValue();
+  return profiles.filter(isActive);
+};
+
+export const getProfileSettings = (): Promise<ProfileSettings> =>
+  storage.profileSettings.getValue();
+
+const assertUniqueName = (
+  profiles: MemoryProfile[],
+  name: string,
+  exceptId?: string,
+) => {
+  const taken = profiles.some(
+    (p) =>
+      isActive(p) &&
+      p.id !== exceptId &&
+      p.name.toLowerCase() === name.toLowerCase(),
+  );
+
+  if (taken) {
+    throw new Error(`A profile named "${name}" already exists`);
+  }
+};
+
+export const createProfile = async (name: string): Promise<MemoryProfile> => {
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Profile name is required");
+    }
+
+    const profiles = await storage.profiles.getValue();
+    assertUniqueName(profiles, trimmed);
+
+    const now = new Date().toISOString();
+    const profile: MemoryProfile = {
+      id: uuidv7(),
+      name: trimmed,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await storage.profiles.setValue([...profiles, profile]);
+    return profile;
+  } catch (error) {
+    logger.error("Failed to create profile:", error);
+    throw error;
+  }
+};
+
+export const renameProfile = async (id: string, name: string) => {
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("Profile name is required");
+    }
+
+    const profiles = await storage.profiles.getValue();
+    assertUniqueName(profiles, trimmed, id);
+
+    await storage.profiles.setValue(
+      profiles.map((p) =>
+        p.id === id
+          ? { ...p, name: trimmed, updatedAt: new Date().toISOString() }
+          : p,
+      ),
+    );
+  } catch (error) {
+    logger.error("Failed to rename profile:", error);
+    throw error;
+  }
+};
+
+/**
+ * Removes a profile. Its memories are kept and become shared by every
+ * profile, and site rules pointing at it are dropped.
+ */
+export const deleteProfile = async (id: string) => {
+  try {
+    const now = new Date().toISOString();
+    const profiles = await storage.profiles.getValue();
+    await storage.profiles.setValue(
+      profiles.map((p) =>
+        p.id === id ? { ...p, deletedAt: now, updatedAt: now } : p,
+      ),
+    );
+
+    const memories = await getMemories();
+    if (memories.some((m) => m.profileId === id)) {
+      await saveMemories(
+        memories.map((m) =>
+          m.profileId === id
+            ? {
+                ...m,
+                profileId: undefined,
+                metadata: { ...m.metadata, updatedAt: now },
+              }
+            : m,
+        ),
+        { source: "manual", bulkLabel: "Deleted profile" },
+      );
+    }
+
+    const settings = await getProfileSettings();
+    await storage.profileSettings.setValue({
+      activeProfileId:
+        settings.activeProfileId === id ? null : settings.activeProfileId,
+      siteRules: settings.siteRules.filter((r) => r.profileId !== id),
+    });
+  } catch (error) {
+    logger.error("Failed to delete profile:", error);
+    throw error;
+  }
+};
+
+/**
+ * Brings back deleted profiles that restored memories still point at, so an
+ * undo or restore never leaves memories no profile filter shows. References
+ * to profiles that are gone for good are cleared instead.
+ */
+export const reviveProfilesOf = async (
+  memories: MemoryEntry[],
+): Promise<MemoryEntry[]> => {
+  const profileIds = new Set(
+    memories.flatMap((m) => (m.profileId ? [m.profileId] : [])),
+  );
+  if (profileIds.size === 0) return memories;
+
+  const profiles = await storage.profiles.getValue();
+  const isRevived = (p: MemoryProfile) => !isActive(p) && profileIds.has(p.id);
+
+  if (profiles.some(isRevived)) {
+    const now = new Date().toISOString();
+    await storage.profiles.setValue(
+      profiles.map((p) =>
+        isRevived(p) ? { ...p, deletedAt: undefined, updatedAt: now } : p,
+      ),
+    );
+  }
+
+  const knownIds = new Set(profiles.map((p) => p.id));
+  return memories.map((m) =>
+    m.profileId && !knownIds.has(m.profileId)
+      ? { ...m, profileId: undefined }
+      : m,
+  );
+};
+
+export const setActiveProfile = async (profileId: string | null) => {
+  try {
+    const settings = await getProfileSettings();
+    await storage.profileSettings.setValue({
+      ...settings,
+      activeProfileId: profileId,
+    });
+  } catch (error) {
+    logger.error("Failed to set active profile:", error);
+    throw error;
+  }
+};
+
+/**
+ * Sets the default profile for a domain and its subdomains. Pass null to
+ * fall back to the active profile again.
+ */
+export const setSiteProfileRule = async (
+  domain: string,
+  profileId: string | null,
+) => {
+  try {
+    const normalized = normalizeDomain(domain);
+    if (!normalized) {
+      throw new Error("Enter a valid domain");
+    }
+
+    const settings = await getProfileSettings();
+    const siteRules = settings.siteRules.filter((r) => r.domain !== normalized);
+
+    await storage.profileSettings.setValue({
+      ...settings,
+      siteRules: profileId
+        ? [...siteRules, { domain: normalized, profileId }]
+        : siteRules,
+    });
+  } catch (error) {
+    logger.error("Failed to set site profile rule:", error);
+    throw error;
+  }
+};
+
+export const getSiteProfileRule = (
+  pageUrl: string,
+  settings: ProfileSettings,
+): ProfileSiteRule | undefined => {
+  const hostname = normalizeDomain(pageUrl);
+  if (!hostname) return undefined;
+
+  // The most specific domain wins, so sub.example.com beats example.com
+  return settings.siteRules
+    .filter((rule) => matchesDomain(hostname, rule))
+    .sort((a, b) => b.domain.length - a.domain.length)[0];
+};
+
+/**
+ * Resolves the profile to fill with on a page: a matching site rule first,
+ * then the active profile. Null means all memories are used.
+ */
+export const getProfileIdForUrl = async (
+  pageUrl: string,
+): Promise<string | null> => {
+  const [settings, profiles] = await Promise.all([
+    getProfileSettings(),
+    getProfiles(),
+  ]);
+  const profileId =
+    getSiteProfileRule(pageUrl, settings)?.profileId ??
+    settings.activeProfileId;
+
+  return profiles.some((p) => p.id === profileId) ? profileId : null;
+};
+
+export const filterMemoriesByProfile = (
+  memories: MemoryEntry[],
+  profileId: string | null,
+): MemoryEntry[] =>
+  profileId
+    ? memories.filter((m) => !m.profileId || m.profileId === profileId)
+    : memories;
+
+export const getMemoriesForUrl = async (
+  pageUrl: string,
+): Promise<MemoryEntry[]> => {
+  const [memories, profileId] = await Promise.all([
+    getMemories(),
+    getProfileIdForUrl(pageUrl),
+  ]);
+
+  return filterMemoriesByProfile(memories, profileId);
+};
+
+/**
+ * Maps profile names to ids, creating profiles that do not exist yet. Used by
+ * imports, where memories reference profiles by name.
+ */
+export const resolveProfileNames = async (
+  names: string[],
+): Promise<Map<string, string>> => {
+  const profiles = await storage.profiles.getValue();
+  const idsByName = new Map(
+    profiles.filter(isActive).map((p) => [p.name.toLowerCase(), p.id]),
+  );
+  const created: MemoryProfile[] = [];
+  const now = new Date().toISOString();
+
+  for (const name of names) {
+    const trimmed = name.trim();
+    if (!trimmed || idsByName.has(trimmed.toLowerCase())) continue;
+
+    const profile: MemoryProfile = {
+      id: uuidv7(),
+      name: trimmed,
+      createdAt: now,
+      updatedAt: now,
+    };
+    created.push(profile);
+    idsByName.set(trimmed.toLowerCase(), profile.id);
+  }
+
+  if (created.length > 0) {
+    await storage.profiles.setValue([...profiles, ...created]);
+  }
+
+  return idsByName;
+};
+
+/**
+ * Merges profiles from another device into local storage, keeping the most
+ * recently updated copy of each. Returns the merged list, tombstones included.
+ */
+export const mergeProfiles = async (
+  remoteProfiles: MemoryProfile[],
+): Promise<MemoryProfile[]> => {
+  const merged = new Map(
+    (await storage.profiles.getValue()).map((p) => [p.id, p]),
+  );
+
+  for (const remote of remoteProfiles) {
+    const local = merged.get(remote.id);
+    if (
+      !local ||
+      new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime()
+    ) {
+      merged.set(remote.id, remote);
+    }
+  }
+
+  const profiles = Array.from(merged.values());
+  await storage.profiles.setValue(profiles);
+  return profiles;
+};
@@ -0,0 +1,15 @@
+import type { PromptSettings } from "@/types/settings";
+
+export const promptSettingsFallback: PromptSettings = {
+  globalInstructions: "",
+  websiteTypeInstructions: {},
+  domainRules: [],
+};
+
+export const promptSettings = storage.defineItem<PromptSettings>(
+  "local:settings:prompt-settings",
+  {
+    fallback: promptSettingsFallback,
+    version: 1,
+  },
+);
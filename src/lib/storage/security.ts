@@ -1,4 +1,4 @@
-import type { EncryptedKey } from "@/types/settings";
+import type { EncryptedKey, VaultConfig, VaultSession } from "@/types/settings";
 
 export const apiKeys = storage.defineItem<Record<string, EncryptedKey>>(
   "local:security:api-keys",
@@ -7,3 +7,37 @@ export const apiKeys = storage.defineItem<Record<string, EncryptedKey>>(
     version: 1,
   },
 );
+
+// The end-to-end sync key, encrypted at rest with the device fingerprint like
+// API keys. Null until sync encryption is set up or unlocked on this device.
+export const syncEncryptionKey = storage.defineItem<EncryptedKey | null>(
+  "local:security:sync-key",
+  {
+    fallback: null,
+  },
+);
+
+export const vaultConfigFallback: VaultConfig = {
+  enabled: false,
+  salt: "",
+  iterations: 0,
+  verifier: "",
+  autoLockMinutes: 15,
+};
+
+export const vaultConfig = storage.defineItem<VaultConfig>(
+  "local:security:vault",
+  {
+    fallback: vaultConfigFallback,
+    version: 1,
+  },
+);
+
+// Session storage is memory-only and hidden from content scripts, so the
+// unlocked key never touches disk and is dropped when the browser closes.
+export const vaultSession = storage.defineItem<VaultSession | null>(
+  "session:security:vault-session",
+  {
+    fallback: null,
+  },
+);
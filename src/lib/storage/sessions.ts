@@ -1,10 +1,81 @@
 import { v7 as uuidv7 } from "uuid";
 import { createLogger } from "@/lib/logger";
+import {
+  decryptFillSessions,
+  encryptFillSessions,
+  getVaultKey,
+} from "@/lib/security/vault";
 import { storage } from "@/lib/storage";
-import type { FillSession } from "@/types/memory";
+import type { FillSession, FormMapping } from "@/types/memory";
+import { type FillHistorySettings, fillHistorySettingsFallback } from "./data";
 
 const logger = createLogger("sessions");
 
+const MAX_FILL_SESSIONS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Sessions without form mappings only matter while their fill is running
+const IN_PROGRESS_WINDOW_MS = 60 * 60 * 1000;
+
+type SessionTransform = (sessions: FillSession[]) => Promise<FillSession[]>;
+
+export const getFillSessionDomain = (session: FillSession): string | null => {
+  const url = session.formMappings[0]?.url;
+  if (!url) return null;
+
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+};
+
+const pruneSessions = (
+  sessions: FillSession[],
+  settings: FillHistorySettings,
+): FillSession[] => {
+  const now = Date.now();
+  const cutoff =
+    settings.retentionDays > 0 ? now - settings.retentionDays * DAY_MS : 0;
+
+  // Sessions are appended as they start, so the newest are at the end
+  return sessions
+    .filter((session) => {
+      const startedAt = new Date(session.startedAt).getTime();
+      return session.formMappings.length > 0
+        ? startedAt >= cutoff
+        : now - startedAt < IN_PROGRESS_WINDOW_MS;
+    })
+    .slice(-MAX_FILL_SESSIONS);
+};
+
+export const getFillHistorySettings =
+  async (): Promise<FillHistorySettings> => ({
+    ...fillHistorySettingsFallback,
+    ...(await storage.fillHistorySettings.getValue()),
+  });
+
+export const updateFillHistorySettings = async (
+  updates: Partial<FillHistorySettings>,
+): Promise<void> => {
+  const current = await getFillHistorySettings();
+  await storage.fillHistorySettings.setValue({ ...current, ...updates });
+  await pruneFillSessions();
+};
+
+export const pruneFillSessions = async (): Promise<void> => {
+  try {
+    const sessions = await storage.fillSessions.getValue();
+    const pruned = pruneSessions(sessions, await getFillHistorySettings());
+
+    if (pruned.length !== sessions.length) {
+      await storage.fillSessions.setValue(pruned);
+      logger.info(`Pruned ${sessions.length - pruned.length} fill sessions`);
+    }
+  } catch (error) {
+    logger.error("Failed to prune fill sessions:", error);
+  }
+};
+
 export const startSession = async (): Promise<FillSession> => {
   try {
     const newSession: FillSession = {
@@ -14,7 +85,10 @@ export const startSession = async (): Promise<FillSession> => {
       startedAt: new Date().toISOString(),
     };
 
-    const currentSessions = await storage.fillSessions.getValue();
+    const currentSessions = pruneSessions(
+      await storage.fillSessions.getValue(),
+      await getFillHistorySettings(),
+    );
     const updatedSessions = [...currentSessions, newSession];
 
     await storage.fillSessions.setValue(updatedSessions);
@@ -127,3 +201,67 @@ export const getRecentSessions = async (limit = 10): Promise<FillSession[]> => {
     )
     .slice(0, limit);
 };
+
+/**
+ * Records what was filled into which field. Skipped when fill history is
+ * off, and the values are encrypted like memories in vault mode.
+ */
+export const saveSessionFormMappings = async (
+  id: string,
+  formMappings: FormMapping[],
+): Promise<void> => {
+  const settings = await getFillHistorySettings();
+  if (!settings.enabled) return;
+
+  const session = await getSessionById(id);
+  if (!session) {
+    throw new Error(`Session with id ${id} not found`);
+  }
+
+  const key = await getVaultKey();
+  const [stored] = key
+    ? await encryptFillSessions([{ ...session, formMappings }], key)
+    : [{ ...session, formMappings }];
+
+  await updateSession(id, { formMappings: stored.formMappings });
+};
+
+/** Past fills that recorded values, newest first */
+export const getFillHistory = async (): Promise<FillSession[]> => {
+  const sessions = (await storage.fillSessions.getValue()).filter(
+    (session) => session.formMappings.length > 0,
+  );
+  const key = await getVaultKey();
+  const readable = key ? await decryptFillSessions(sessions, key) : sessions;
+
+  return readable.sort(
+    (a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime(),
+  );
+};
+
+export const deleteFillHistoryForDomain = async (
+  domain: string,
+): Promise<number> => {
+  const sessions = await storage.fillSessions.getValue();
+  const remaining = sessions.filter(
+    (session) => getFillSessionDomain(session) !== domain,
+  );
+
+  await storage.fillSessions.setValue(remaining);
+  logger.info(`Deleted ${sessions.length - remaining.length} fills`, domain);
+  return sessions.length - remaining.length;
+};
+
+export const clearFillHistory = async (): Promise<void> => {
+  const sessions = await storage.fillSessions.getValue();
+  await storage.fillSessions.setValue(
+    sessions.filter((session) => session.formMappings.length === 0),
+  );
+};
+
+export const transformFillSessions = async (transform: SessionTransform) => {
+  const sessions = await storage.fillSessions.getValue();
+  if (sessions.length === 0) return;
+
+  await storage.fillSessions.setValue(await transform(sessions));
+};
@@ -0,0 +1,32 @@
+import type { InPageShortcutAction, InPageShortcuts } from "@/types/settings";
+
+export const inPageShortcutsFallback: InPageShortcuts = {
+  fillSelected: "mod+enter",
+  selectAll: "alt+a",
+  closePreview: "escape",
+};
+
+export const inPageShortcuts = storage.defineItem<InPageShortcuts>(
+  "local:settings:in-page-shortcuts",
+  {
+    fallback: inPageShortcutsFallback,
+    version: 1,
+  },
+);
+
+export const getInPageShortcuts = async (): Promise<InPageShortcuts> => ({
+  ...inPageShortcutsFallback,
+  ...(await inPageShortcuts.getValue()),
+});
+
+export const updateInPageShortcut = async (
+  action: InPageShortcutAction,
+  hotkey: string,
+): Promise<void> => {
+  const current = await getInPageShortcuts();
+  await inPageShortcuts.setValue({ ...current, [action]: hotkey });
+};
+
+export const resetInPageShortcuts = async (): Promise<void> => {
+  await inPageShortcuts.setValue(inPageShortcutsFallback);
+};
@@ -0,0 +1,218 @@
+import { embedMemory } from "@/lib/ai/embeddings";
+import { createLogger } from "@/lib/logger";
+import {
+  decryptMemoryEntries,
+  encryptMemoryEntries,
+  getVaultKey,
+} from "@/lib/security/vault";
+import { storage } from "@/lib/storage";
+import { computeContentHash } from "@/lib/storage/content-hash";
+import { getMemories, saveMemories } from "@/lib/storage/memories";
+import type { MemoryEntry } from "@/types/memory";
+import type { SyncConflict, SyncMemoryEntry } from "@/types/sync";
+
+const logger = createLogger("storage:sync-conflicts");
+
+export type SyncConflictResolution = NonNullable<SyncConflict["resolution"]>;
+
+export interface MergedConflictValue {
+  question?: string;
+  answer: string;
+}
+
+type VersionTransform = (
+  entries: SyncMemoryEntry[],
+) => Promise<SyncMemoryEntry[]>;
+
+export const toSyncMemoryEntry = ({
+  embedding: _,
+  ...memory
+}: MemoryEntry): SyncMemoryEntry => ({
+  localId: memory.syncId ?? memory.id,
+  question: memory.question,
+  answer: memory.answer,
+  category: memory.category,
+  tags: memory.tags,
+  confidence: memory.confidence,
+  profileId: memory.profileId,
+  structured: memory.structured,
+  metadata: memory.metadata,
+  isDeleted: false,
+});
+
+const mapVersions = (
+  conflicts: SyncConflict[],
+  transform: VersionTransform,
+): Promise<SyncConflict[]> =>
+  Promise.all(
+    conflicts.map(async (conflict) => {
+      const [localVersion, remoteVersion] = await transform([
+        conflict.localVersion,
+        conflict.remoteVersion,
+      ]);
+      return { ...conflict, localVersion, remoteVersion };
+    }),
+  );
+
+// Both versions hold answers, so they are encrypted like memories in vault mode
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  try {
+    const conflicts = await storage.syncConflicts.getValue();
+    const key = await getVaultKey();
+
+    return key
+      ? mapVersions(conflicts, (entries) => decryptMemoryEntries(entries, key))
+      : conflicts;
+  } catch (error) {
+    logger.error("Failed to get sync conflicts:", error);
+    throw error;
+  }
+};
+
+/**
+ * Stores conflicts for the user to resolve. A newer conflict for the same
+ * memory replaces the queued one.
+ */
+export const queueSyncConflicts = async (conflicts: SyncConflict[]) => {
+  try {
+    if (conflicts.length === 0) return;
+
+    const key = await getVaultKey();
+    const storedConflicts = key
+      ? await mapVersions(conflicts, (entries) =>
+          encryptMemoryEntries(entries, key),
+        )
+      : conflicts;
+    const queuedIds = new Set(storedConflicts.map((c) => c.localId));
+    const currentConflicts = await storage.syncConflicts.getValue();
+
+    await storage.syncConflicts.setValue([
+      ...currentConflicts.filter((c) => !queuedIds.has(c.localId)),
+      ...storedConflicts,
+    ]);
+  } catch (error) {
+    logger.error("Failed to queue sync conflicts:", error);
+    throw error;
+  }
+};
+
+export const getSyncConflictIds = async (): Promise<Set<string>> => {
+  const conflicts = await storage.syncConflicts.getValue();
+  return new Set(conflicts.map((c) => c.localId));
+};
+
+const pickResolvedVersion = (
+  conflict: SyncConflict,
+  resolution: SyncConflictResolution,
+  merged?: MergedConflictValue,
+): SyncMemoryEntry | null => {
+  if (resolution === "local") {
+    return conflict.localVersion.isDeleted ? null : conflict.localVersion;
+  }
+
+  if (resolution === "remote") {
+    return conflict.remoteVersion.isDeleted ? null : conflict.remoteVersion;
+  }
+
+  if (!merged?.answer.trim()) {
+    throw new Error("A merged answer is required");
+  }
+
+  const base = conflict.localVersion.isDeleted
+    ? conflict.remoteVersion
+    : conflict.localVersion;
+  const answer = merged.answer.trim();
+
+  return {
+    ...base,
+    question: merged.question?.trim() || undefined,
+    answer,
+    // A typed value only stays when its own answer was kept word for word,
+    // otherwise it would fill values that contradict the merged text
+    structured: [conflict.localVersion, conflict.remoteVersion].find(
+      (version) => !version.isDeleted && version.answer.trim() === answer,
+    )?.structured,
+  };
+};
+
+/**
+ * Applies the chosen version of a conflicting memory and drops the conflict.
+ * The resolved memory gets a fresh timestamp so the next push wins remotely.
+ */
+export const resolveSyncConflict = async (
+  localId: string,
+  resolution: SyncConflictResolution,
+  merged?: MergedConflictValue,
+): Promise<void> => {
+  try {
+    const conflicts = await getSyncConflicts();
+    const conflict = conflicts.find((c) => c.localId === localId);
+
+    if (!conflict) {
+      throw new Error(`Sync conflict for ${localId} not found`);
+    }
+
+    const resolved = pickResolvedVersion(conflict, resolution, merged);
+    const currentEntries = await getMemories();
+    const existing = currentEntries.find((e) => (e.syncId ?? e.id) === localId);
+    const otherEntries = currentEntries.filter((e) => e !== existing);
+
+    if (resolved) {
+      const category = resolved.category as MemoryEntry["category"];
+      const resolvedEntry: MemoryEntry = {
+        id: existing?.id ?? localId,
+        syncId: localId,
+        question: resolved.question,
+        answer: resolved.answer,
+        category,
+        tags: resolved.tags,
+        confidence: resolved.confidence,
+        profileId: resolved.profileId,
+        structured: resolved.structured,
+        contentHash: await computeContentHash(
+          resolved.question,
+          resolved.answer,
+          category,
+        ),
+        metadata: {
+          createdAt: resolved.metadata.createdAt,
+          updatedAt: new Date().toISOString(),
+          source: existing?.metadata.source ?? "manual",
+        },
+      };
+      Object.assign(resolvedEntry, await embedMemory(resolvedEntry));
+
+      await saveMemories([...otherEntries, resolvedEntry], { source: "sync" });
+
+      const pendingDeletions = await storage.pendingDeletions.getValue();
+      await storage.pendingDeletions.setValue(
+        pendingDeletions.filter((d) => d.localId !== localId),
+      );
+    } else if (existing) {
+      await saveMemories(otherEntries, { source: "sync" });
+    }
+
+    await storage.syncConflicts.setValue(
+      (await storage.syncConflicts.getValue()).filter(
+        (c) => c.localId !== localId,
+      ),
+    );
+
+    logger.debug("Resolved sync conflict", { localId, resolution });
+  } catch (error) {
+    logger.error("Failed to resolve sync conflict:", error);
+    throw error;
+  }
+};
+
+/**
+ * Rewrites every queued conflict, used when vault mode is turned on or off.
+ */
+export const transformSyncConflictVersions = async (
+  transform: VersionTransform,
+) => {
+  const conflicts = await storage.syncConflicts.getValue();
+  if (conflicts.length === 0) return;
+
+  await storage.syncConflicts.setValue(await mapVersions(conflicts, transform));
+};
@@ -1,4 +1,5 @@
 import type { SyncState } from "@/types/memory";
+import type { SyncBackendConfig } from "@/types/sync";
 
 export const syncStateAndSettings = storage.defineItem<SyncState>(
   "local:settings:sync-state",
@@ -11,3 +12,11 @@ export const syncStateAndSettings = storage.defineItem<SyncState>(
     version: 1,
   },
 );
+
+export const syncBackend = storage.defineItem<SyncBackendConfig>(
+  "local:settings:sync-backend",
+  {
+    fallback: { type: "supabase" },
+    version: 1,
+  },
+);
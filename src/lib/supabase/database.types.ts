@@ -181,8 +181,10 @@ export type Database = {
           id: string;
           is_deleted: boolean;
           local_id: string;
+          profile_id: string | null;
           question: string | null;
           source: string;
+          structured: Json | null;
           tags: string[] | null;
           updated_at: string;
           user_id: string;
@@ -198,8 +200,10 @@ export type Database = {
           id?: string;
           is_deleted?: boolean;
           local_id: string;
+          profile_id?: string | null;
           question?: string | null;
           source: string;
+          structured?: Json | null;
           tags?: string[] | null;
           updated_at?: string;
           user_id: string;
@@ -215,8 +219,10 @@ export type Database = {
           id?: string;
           is_deleted?: boolean;
           local_id?: string;
+          profile_id?: string | null;
           question?: string | null;
           source?: string;
+          structured?: Json | null;
           tags?: string[] | null;
           updated_at?: string;
           user_id?: string;
@@ -479,17 +485,20 @@ export type Database = {
           answer: string;
           category: string;
           confidence: number;
-          content_hash: string;
+          content_hash: string | null;
           created_at: string;
-          deleted_at: string;
-          embedding: string;
+          deleted_at: string | null;
+          embedding: string | null;
           id: string;
           is_deleted: boolean;
           local_id: string;
-          question: string;
+          profile_id: string | null;
+          question: string | null;
           source: string;
-          tags: string[];
+          structured: Json | null;
+          tags: string[] | null;
           updated_at: string;
+          user_id: string;
         }[];
       };
       get_user_active_subscription: {
@@ -536,8 +545,10 @@ export type Database = {
               p_embedding?: string;
               p_is_deleted?: boolean;
               p_local_id: string;
+              p_profile_id?: string;
               p_question?: string;
               p_source?: string;
+              p_structured?: Json;
               p_tags?: string[];
               p_updated_at?: string;
             };
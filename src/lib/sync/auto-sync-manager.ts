@@ -1,7 +1,7 @@
 import { createLogger } from "@/lib/logger";
 import { storage } from "@/lib/storage";
 import type { SyncOperationResult } from "@/types/sync";
-import { getAuthService } from "../auth/auth-service";
+import { getSyncBackend } from "./backends";
 import { SYNC_COOLDOWN_MS } from "./constants";
 import { getSyncService } from "./sync-service";
 
@@ -23,12 +23,10 @@ class AutoSyncManager {
     const { delay = 0, silent = true, force = false } = options;
 
     try {
-      const authService = getAuthService();
+      const backend = await getSyncBackend();
 
-      const isAuthenticated = await authService.isAuthenticated();
-
-      if (!isAuthenticated) {
-        logger.debug("Skipping auto-sync: Not authenticated");
+      if (!(await backend.isReady())) {
+        logger.debug(`Skipping auto-sync: ${backend.type} backend not ready`);
         return;
       }
 
@@ -0,0 +1,249 @@
+import { z } from "zod";
+import {
+  type PendingDeletion,
+  type RemoteSyncSettings,
+  type SyncBackend,
+  type SyncMemoryEntry,
+  type SyncPushFailure,
+  syncMemoryEntrySchema,
+} from "@/types/sync";
+
+const SYNC_FILE_NAME = "superfill-sync.json";
+const HANDLE_DB_NAME = "superfill-sync-folder";
+const HANDLE_STORE = "handles";
+const HANDLE_KEY = "folder";
+
+const syncFileSchema = z.object({
+  format: z.literal("superfill-sync"),
+  version: z.literal(1),
+  memories: z.array(syncMemoryEntrySchema),
+  settings: z.record(z.string(), z.unknown()),
+});
+
+type SyncFile = z.infer<typeof syncFileSchema>;
+
+// Permission methods are not in the DOM typings yet
+type PermissionedHandle = FileSystemDirectoryHandle & {
+  queryPermission(options: { mode: "readwrite" }): Promise<PermissionState>;
+  requestPermission(options: { mode: "readwrite" }): Promise<PermissionState>;
+};
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options: {
+    id?: string;
+    mode: "readwrite";
+  }) => Promise<FileSystemDirectoryHandle>;
+};
+
+// Directory handles can't go in extension storage, but IndexedDB can hold
+// them and is shared by every extension page and the background worker
+const openHandleDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(HANDLE_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(HANDLE_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runHandleTransaction = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openHandleDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(
+        db.transaction(HANDLE_STORE, mode).objectStore(HANDLE_STORE),
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const getFolderHandle = async (): Promise<PermissionedHandle | null> =>
+  ((await runHandleTransaction("readonly", (store) => store.get(HANDLE_KEY))) as
+    | PermissionedHandle
+    | undefined) ?? null;
+
+export const isFolderPickerSupported = (): boolean =>
+  typeof (window as DirectoryPickerWindow).showDirectoryPicker === "function";
+
+/**
+ * Asks the user for the folder to sync through and remembers it. Must be
+ * called from a user gesture on an extension page. Returns the folder name.
+ */
+export const pickSyncFolder = async (): Promise<string> => {
+  const picker = (window as DirectoryPickerWindow).showDirectoryPicker;
+  if (!picker) {
+    throw new Error("This browser cannot sync through a local folder");
+  }
+
+  const handle = await picker({ id: "superfill-sync", mode: "readwrite" });
+  await runHandleTransaction("readwrite", (store) =>
+    store.put(handle, HANDLE_KEY),
+  );
+  return handle.name;
+};
+
+/**
+ * Browsers drop folder access between sessions. Must be called from a user
+ * gesture to grant it again.
+ */
+export const requestSyncFolderAccess = async (): Promise<boolean> => {
+  const handle = await getFolderHandle();
+  if (!handle) return false;
+
+  return (await handle.requestPermission({ mode: "readwrite" })) === "granted";
+};
+
+const emptySyncFile = (): SyncFile => ({
+  format: "superfill-sync",
+  version: 1,
+  memories: [],
+  settings: {},
+});
+
+// Tombstones can be newer than the record's last edit
+const changedAt = (entry: SyncMemoryEntry) =>
+  entry.deletedAt && entry.deletedAt > entry.metadata.updatedAt
+    ? entry.deletedAt
+    : entry.metadata.updatedAt;
+
+/**
+ * Keeps every record in one JSON file inside a folder the user picks, e.g.
+ * one a file sync tool mirrors between machines. Each write reads, merges
+ * and rewrites the whole file.
+ */
+export class FolderSyncBackend implements SyncBackend {
+  readonly type = "folder";
+  readonly notReadyMessage =
+    "Cannot perform sync: allow access to the sync folder in settings";
+
+  async isReady(): Promise<boolean> {
+    const handle = await getFolderHandle();
+    return (
+      !!handle &&
+      (await handle.queryPermission({ mode: "readwrite" })) === "granted"
+    );
+  }
+
+  async pullSince(since?: string): Promise<SyncMemoryEntry[]> {
+    const { memories } = await this.readFile();
+    return since
+      ? memories.filter((entry) => changedAt(entry) > since)
+      : memories;
+  }
+
+  async pushBatch(entries: SyncMemoryEntry[]): Promise<SyncPushFailure[]> {
+    if (entries.length === 0) return [];
+
+    const file = await this.readFile();
+    const records = new Map(
+      file.memories.map((entry) => [entry.localId, entry]),
+    );
+    for (const entry of entries) {
+      records.set(entry.localId, entry);
+    }
+
+    await this.writeFile({ ...file, memories: Array.from(records.values()) });
+    return [];
+  }
+
+  async pushTombstones(
+    deletions: PendingDeletion[],
+  ): Promise<SyncPushFailure[]> {
+    if (deletions.length === 0) return [];
+
+    const file = await this.readFile();
+    const records = new Map(
+      file.memories.map((entry) => [entry.localId, entry]),
+    );
+    for (const { localId, deletedAt } of deletions) {
+      const existing = records.get(localId);
+      records.set(localId, {
+        ...(existing ?? {
+          localId,
+          answer: "",
+          category: "general",
+          tags: [],
+          confidence: 0,
+          metadata: { createdAt: deletedAt, updatedAt: deletedAt, source: "" },
+        }),
+        // Content is dropped so deleted answers don't linger in the file
+        question: undefined,
+        answer: "",
+        structured: undefined,
+        embedding: undefined,
+        contentHash: undefined,
+        isDeleted: true,
+        deletedAt,
+      });
+    }
+
+    await this.writeFile({ ...file, memories: Array.from(records.values()) });
+    return [];
+  }
+
+  async getSettings(): Promise<RemoteSyncSettings> {
+    return (await this.readFile()).settings;
+  }
+
+  async updateSettings(settings: RemoteSyncSettings): Promise<void> {
+    const file = await this.readFile();
+    await this.writeFile({ ...file, settings });
+  }
+
+  private async getHandle(): Promise<PermissionedHandle> {
+    const handle = await getFolderHandle();
+    if (
+      !handle ||
+      (await handle.queryPermission({ mode: "readwrite" })) !== "granted"
+    ) {
+      throw new Error(this.notReadyMessage);
+    }
+    return handle;
+  }
+
+  private async readFile(): Promise<SyncFile> {
+    const handle = await this.getHandle();
+
+    let text: string;
+    try {
+      const fileHandle = await handle.getFileHandle(SYNC_FILE_NAME);
+      text = await (await fileHandle.getFile()).text();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "NotFoundError") {
+        return emptySyncFile();
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${SYNC_FILE_NAME} is not valid JSON`);
+    }
+
+    const result = syncFileSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`${SYNC_FILE_NAME} is damaged or from a newer version`);
+    }
+    return result.data;
+  }
+
+  private async writeFile(file: SyncFile): Promise<void> {
+    const handle = await this.getHandle();
+    const fileHandle = await handle.getFileHandle(SYNC_FILE_NAME, {
+      create: true,
+    });
+    const writable = await fileHandle.createWritable();
+    await writable.write(JSON.stringify(file));
+    await writable.close();
+  }
+}
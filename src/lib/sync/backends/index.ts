@@ -0,0 +1,18 @@
+import { storage } from "@/lib/storage";
+import type { SyncBackend } from "@/types/sync";
+import { FolderSyncBackend } from "./folder-backend";
+import { RestSyncBackend } from "./rest-backend";
+import { SupabaseSyncBackend } from "./supabase-backend";
+
+export const getSyncBackend = async (): Promise<SyncBackend> => {
+  const config = await storage.syncBackend.getValue();
+
+  switch (config.type) {
+    case "folder":
+      return new FolderSyncBackend();
+    case "rest":
+      return new RestSyncBackend(config.url, config.token);
+    default:
+      return new SupabaseSyncBackend();
+  }
+};
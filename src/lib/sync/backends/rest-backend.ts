@@ -0,0 +1,129 @@
+import { z } from "zod";
+import { offscreenDecrypt } from "@/lib/security/offscreen-utils";
+import type { EncryptedKey } from "@/types/settings";
+import {
+  type PendingDeletion,
+  type RemoteSyncSettings,
+  type SyncBackend,
+  type SyncMemoryEntry,
+  type SyncPushFailure,
+  syncMemoryEntrySchema,
+} from "@/types/sync";
+
+const memoriesResponseSchema = z.object({
+  memories: z.array(syncMemoryEntrySchema),
+});
+
+const pushResponseSchema = z.object({
+  failed: z
+    .array(z.object({ localId: z.string(), error: z.string() }))
+    .optional(),
+});
+
+const settingsResponseSchema = z.object({
+  settings: z.record(z.string(), z.unknown()),
+});
+
+/**
+ * A self-hosted server. It implements these endpoints under the configured
+ * base URL, with an optional `Authorization: Bearer <token>` header:
+ *
+ * - `GET /memories?since=<ISO timestamp>` returns `{ memories }`, every
+ *   record updated or deleted after `since`, tombstones included
+ * - `POST /memories` with `{ memories }` upserts records by `localId`
+ * - `POST /tombstones` with `{ deletions }` marks records deleted
+ * - `GET /settings` returns `{ settings }`, `PUT /settings` replaces them
+ *
+ * Both POST endpoints may answer `{ failed: [{ localId, error }] }`.
+ */
+export class RestSyncBackend implements SyncBackend {
+  readonly type = "rest";
+  readonly notReadyMessage = "Cannot perform sync: no server URL configured";
+
+  private readonly baseURL: string;
+
+  constructor(
+    url: string,
+    private readonly token?: EncryptedKey,
+  ) {
+    this.baseURL = url.replace(/\/+$/, "");
+  }
+
+  async isReady(): Promise<boolean> {
+    return this.baseURL.length > 0;
+  }
+
+  async pullSince(since?: string): Promise<SyncMemoryEntry[]> {
+    const query = since ? `?since=${encodeURIComponent(since)}` : "";
+    const response = await this.request("GET", `/memories${query}`);
+    return this.parse(memoriesResponseSchema, response).memories;
+  }
+
+  async pushBatch(entries: SyncMemoryEntry[]): Promise<SyncPushFailure[]> {
+    if (entries.length === 0) return [];
+
+    const response = await this.request("POST", "/memories", {
+      memories: entries,
+    });
+    return this.parse(pushResponseSchema, response).failed ?? [];
+  }
+
+  async pushTombstones(
+    deletions: PendingDeletion[],
+  ): Promise<SyncPushFailure[]> {
+    if (deletions.length === 0) return [];
+
+    const response = await this.request("POST", "/tombstones", { deletions });
+    return this.parse(pushResponseSchema, response).failed ?? [];
+  }
+
+  async getSettings(): Promise<RemoteSyncSettings> {
+    const response = await this.request("GET", "/settings");
+    return this.parse(settingsResponseSchema, response).settings;
+  }
+
+  async updateSettings(settings: RemoteSyncSettings): Promise<void> {
+    await this.request("PUT", "/settings", { settings });
+  }
+
+  private async request(
+    method: "GET" | "POST" | "PUT",
+    path: string,
+    body?: unknown,
+  ): Promise<unknown> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (this.token) {
+      const token = await offscreenDecrypt(
+        this.token.encrypted,
+        this.token.salt,
+      );
+      headers.Authorization = `Bearer ${token}`;
+    }
+
+    const response = await fetch(`${this.baseURL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Sync server responded ${response.status} to ${method} ${path}`,
+      );
+    }
+
+    const text = await response.text();
+    return text ? JSON.parse(text) : {};
+  }
+
+  private parse<T>(schema: z.ZodType<T>, value: unknown): T {
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      throw new Error("Sync server sent an unexpected response");
+    }
+    return result.data;
+  }
+}
@@ -0,0 +1,188 @@
+import type { User } from "@supabase/supabase-js";
+import { getAuthService } from "@/lib/auth/auth-service";
+import { supabase } from "@/lib/supabase/client";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { structuredAnswerSchema } from "@/types/memory";
+import type {
+  PendingDeletion,
+  RemoteSyncSettings,
+  SyncBackend,
+  SyncLogEntry,
+  SyncMemoryEntry,
+  SyncPushFailure,
+} from "@/types/sync";
+
+type RemoteMemory =
+  Database["public"]["Functions"]["get_memories_since"]["Returns"][number];
+
+const parseRemoteStructured = (value: Json | null) => {
+  const parsed = structuredAnswerSchema.safeParse(value);
+  return parsed.success ? parsed.data : undefined;
+};
+
+const parseRemoteEmbedding = (value: string | null) =>
+  value ? value.replace(/[[\]]/g, "").split(",").map(Number) : undefined;
+
+const toSyncEntry = (remoteMemory: RemoteMemory): SyncMemoryEntry => ({
+  localId: remoteMemory.local_id,
+  question: remoteMemory.question || undefined,
+  answer: remoteMemory.answer,
+  category: remoteMemory.category,
+  tags: remoteMemory.tags || [],
+  confidence: Number(remoteMemory.confidence),
+  embedding: parseRemoteEmbedding(remoteMemory.embedding),
+  profileId: remoteMemory.profile_id || undefined,
+  structured: parseRemoteStructured(remoteMemory.structured),
+  metadata: {
+    createdAt: remoteMemory.created_at,
+    updatedAt: remoteMemory.updated_at,
+    source: remoteMemory.source,
+  },
+  isDeleted: remoteMemory.is_deleted,
+  deletedAt: remoteMemory.deleted_at || undefined,
+  contentHash: remoteMemory.content_hash || undefined,
+});
+
+const toFailure = (localId: string, error: unknown): SyncPushFailure => ({
+  localId,
+  error: error instanceof Error ? error.message : "Unknown error",
+});
+
+/** The hosted backend: memories in Postgres, settings on the user row */
+export class SupabaseSyncBackend implements SyncBackend {
+  readonly type = "supabase";
+  readonly notReadyMessage = "Cannot perform sync: not authenticated";
+
+  async isReady(): Promise<boolean> {
+    return getAuthService().isAuthenticated();
+  }
+
+  async pullSince(since?: string): Promise<SyncMemoryEntry[]> {
+    const { data, error } = await supabase.rpc("get_memories_since", {
+      since_timestamp: since,
+    });
+
+    if (error) {
+      throw new Error(`Failed to fetch memories: ${error.message}`);
+    }
+
+    return (data || []).map(toSyncEntry);
+  }
+
+  async pushBatch(entries: SyncMemoryEntry[]): Promise<SyncPushFailure[]> {
+    const failures: SyncPushFailure[] = [];
+
+    // The RPC upserts one row at a time
+    for (const entry of entries) {
+      try {
+        const { error } = await supabase.rpc("upsert_memory", {
+          p_local_id: entry.localId,
+          p_question: entry.question,
+          p_answer: entry.answer,
+          p_category: entry.category,
+          p_tags: entry.tags,
+          p_confidence: entry.confidence,
+          p_source: entry.metadata.source,
+          p_created_at: entry.metadata.createdAt,
+          p_updated_at: entry.metadata.updatedAt,
+          p_content_hash: entry.contentHash ?? null,
+          // Left out when unset so backends without these columns still
+          // accept the memory
+          ...(entry.profileId && { p_profile_id: entry.profileId }),
+          ...(entry.structured && { p_structured: entry.structured }),
+          ...(entry.isDeleted && {
+            p_is_deleted: true,
+            p_deleted_at: entry.deletedAt,
+          }),
+        });
+
+        if (error) {
+          failures.push(toFailure(entry.localId, new Error(error.message)));
+        }
+      } catch (error) {
+        failures.push(toFailure(entry.localId, error));
+      }
+    }
+
+    return failures;
+  }
+
+  async pushTombstones(
+    deletions: PendingDeletion[],
+  ): Promise<SyncPushFailure[]> {
+    const failures: SyncPushFailure[] = [];
+
+    for (const deletion of deletions) {
+      try {
+        const { error } = await supabase.rpc("upsert_memory", {
+          p_local_id: deletion.localId,
+          p_is_deleted: true,
+          p_deleted_at: deletion.deletedAt,
+          p_content_hash: null,
+        });
+
+        if (error) {
+          failures.push(toFailure(deletion.localId, new Error(error.message)));
+        }
+      } catch (error) {
+        failures.push(toFailure(deletion.localId, error));
+      }
+    }
+
+    return failures;
+  }
+
+  async getSettings(): Promise<RemoteSyncSettings> {
+    const user = await this.getUser();
+    const { data, error } = await supabase
+      .from("users")
+      .select("settings")
+      .eq("id", user.id)
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to fetch settings: ${error.message}`);
+    }
+
+    return data.settings &&
+      typeof data.settings === "object" &&
+      !Array.isArray(data.settings)
+      ? data.settings
+      : {};
+  }
+
+  async updateSettings(settings: RemoteSyncSettings): Promise<void> {
+    const user = await this.getUser();
+    const { error } = await supabase
+      .from("users")
+      .update({ settings: settings as Json })
+      .eq("id", user.id);
+
+    if (error) {
+      throw new Error(`Failed to update settings: ${error.message}`);
+    }
+  }
+
+  async log(entry: SyncLogEntry): Promise<void> {
+    const user = await this.getUser();
+    await supabase.from("sync_logs").insert({
+      user_id: user.id,
+      operation: entry.operation,
+      status: entry.status,
+      item_count: entry.itemCount,
+      conflicts_resolved: entry.conflictsResolved,
+      error_message: entry.errorMessage ?? null,
+      conflict_resolution_strategy: entry.conflictResolutionStrategy,
+    });
+  }
+
+  private async getUser(): Promise<User> {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error("No authenticated user found");
+    }
+    return user;
+  }
+}
@@ -1,32 +1,205 @@
-import type { User } from "@supabase/supabase-js";
 import { defineProxyService } from "@webext-core/proxy-service";
+import { ensureMemoryEmbeddings } from "@/lib/ai/embeddings";
+import { ERROR_MESSAGE_SYNC_ENCRYPTION_LOCKED } from "@/lib/errors";
 import { createLogger } from "@/lib/logger";
+import { EncryptionError, generateSalt } from "@/lib/security/encryption";
+import {
+  offscreenDecrypt,
+  offscreenEncrypt,
+  offscreenGenerateSalt,
+} from "@/lib/security/offscreen-utils";
+import {
+  decryptSyncPayload,
+  encryptSyncPayload,
+  generateRecoveryKey,
+  generateSyncKeyMaterial,
+  importSyncKeys,
+  isEncryptedSyncPayload,
+  normalizeRecoveryKey,
+  type SyncKeys,
+  unwrapSyncKeyMaterial,
+  wrapSyncKeyMaterial,
+} from "@/lib/security/sync-encryption";
 import { storage } from "@/lib/storage";
-import { computeContentHash } from "@/lib/storage/content-hash";
-
+import {
+  computeContentHash,
+  computeKeyedContentHash,
+} from "@/lib/storage/content-hash";
+import { getMemories, saveMemories } from "@/lib/storage/memories";
+import { mergeProfiles } from "@/lib/storage/profiles";
+import {
+  getSyncConflictIds,
+  queueSyncConflicts,
+  toSyncMemoryEntry,
+} from "@/lib/storage/sync-conflicts";
 import type { MemoryEntry } from "@/types/memory";
-import type { SyncOperationResult } from "@/types/sync";
-import { getAuthService } from "../auth/auth-service";
-import { supabase } from "../supabase/client";
+import type { MemoryProfile } from "@/types/profile";
+import {
+  type RemoteSyncSettings,
+  type SyncBackend,
+  type SyncConflict,
+  type SyncEncryptionEnvelope,
+  type SyncEncryptionStatus,
+  type SyncLogEntry,
+  type SyncMemoryEntry,
+  type SyncOperationResult,
+  type SyncPushFailure,
+  syncEncryptionEnvelopeSchema,
+} from "@/types/sync";
+import { getSyncBackend } from "./backends";
 
 const logger = createLogger("sync-service");
 
+const SYNC_KDF_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+// Encrypted records still need a valid category, so they all share this one
+const ENCRYPTED_RECORD_CATEGORY = "general";
+
+export type SyncBackendInput =
+  | { type: "supabase" }
+  | { type: "folder"; folderName: string }
+  | { type: "rest"; url: string; token?: string };
+
+// Profiles travel in the settings document rather than as their own records
+const parseRemoteProfiles = (settings: RemoteSyncSettings): MemoryProfile[] => {
+  const profiles = settings.profiles;
+  if (!Array.isArray(profiles)) return [];
+
+  return profiles.flatMap((profile) => {
+    if (!profile || typeof profile !== "object" || Array.isArray(profile)) {
+      return [];
+    }
+
+    const { id, name, createdAt, updatedAt, deletedAt } = profile;
+    if (
+      typeof id !== "string" ||
+      typeof name !== "string" ||
+      typeof createdAt !== "string" ||
+      typeof updatedAt !== "string"
+    ) {
+      return [];
+    }
+
+    return [
+      {
+        id,
+        name,
+        createdAt,
+        updatedAt,
+        deletedAt: typeof deletedAt === "string" ? deletedAt : undefined,
+      },
+    ];
+  });
+};
+
+const parseRemoteEncryption = (
+  settings: RemoteSyncSettings,
+): SyncEncryptionEnvelope | null => {
+  const parsed = syncEncryptionEnvelopeSchema.safeParse(
+    settings.syncEncryption,
+  );
+  return parsed.success ? parsed.data : null;
+};
+
+const toMemoryEntry = (
+  remote: SyncMemoryEntry,
+  id: string,
+  contentHash: string,
+): MemoryEntry => ({
+  id,
+  syncId: remote.localId,
+  question: remote.question || undefined,
+  answer: remote.answer,
+  category: remote.category as MemoryEntry["category"],
+  tags: remote.tags || [],
+  confidence: remote.confidence,
+  embedding: remote.embedding,
+  contentHash,
+  profileId: remote.profileId,
+  structured: remote.structured,
+  metadata: {
+    createdAt: remote.metadata.createdAt,
+    updatedAt: remote.metadata.updatedAt,
+    source: remote.metadata.source as "manual" | "import",
+  },
+});
+
+/**
+ * Replaces the placeholder content of an end-to-end encrypted record with
+ * the decrypted memory. Plaintext records from before encryption was set up
+ * are returned unchanged.
+ */
+const decryptRemoteEntry = async (
+  remote: SyncMemoryEntry,
+  keys: SyncKeys | null,
+): Promise<SyncMemoryEntry> => {
+  if (!isEncryptedSyncPayload(remote.answer)) return remote;
+  if (!keys) {
+    throw new Error(ERROR_MESSAGE_SYNC_ENCRYPTION_LOCKED);
+  }
+
+  const payload = await decryptSyncPayload(remote.answer, keys);
+  return {
+    ...remote,
+    ...payload,
+    embedding: undefined,
+    // The stored hash is keyed, so it is recomputed from the plaintext
+    contentHash: undefined,
+  };
+};
+
+const encryptEntry = async (
+  entry: SyncMemoryEntry,
+  keys: SyncKeys | null,
+): Promise<SyncMemoryEntry> => {
+  if (!keys) return entry;
+
+  // Empty values rather than undefined, so plaintext left over from before
+  // encryption was set up is overwritten
+  return {
+    ...entry,
+    question: "",
+    answer: await encryptSyncPayload(
+      {
+        question: entry.question,
+        answer: entry.answer,
+        category: entry.category,
+        tags: entry.tags,
+        structured: entry.structured,
+      },
+      keys,
+    ),
+    category: ENCRYPTED_RECORD_CATEGORY,
+    tags: [],
+    structured: undefined,
+    embedding: undefined,
+    contentHash: await computeKeyedContentHash(
+      entry.question,
+      entry.answer,
+      entry.category,
+      keys.hmacKey,
+    ),
+  };
+};
+
+const formatFailure = (action: string, failure: SyncPushFailure) =>
+  `Failed to ${action} ${failure.localId}: ${failure.error}`;
+
 class SyncService {
   private syncInProgress = false;
 
   async performStartupSync(): Promise<void> {
     try {
-      logger.debug("Checking auth status for startup sync");
+      logger.debug("Checking backend status for startup sync");
 
-      const authService = getAuthService();
-      const session = await authService.getSession();
+      const backend = await getSyncBackend();
 
-      if (!session) {
-        logger.debug("User not authenticated, skipping startup sync");
+      if (!(await backend.isReady())) {
+        logger.debug("Sync backend not ready, skipping startup sync");
         return;
       }
 
-      logger.debug("User authenticated, initializing sync");
+      logger.debug("Sync backend ready, initializing sync");
 
       await this.performFullSync(true);
 
@@ -54,11 +227,10 @@ class SyncService {
       throw new Error(error);
     }
 
-    const authService = getAuthService();
-    const authenticated = await authService.isAuthenticated();
+    const backend = await getSyncBackend();
 
-    if (!authenticated) {
-      const error = "Cannot perform sync: not authenticated";
+    if (!(await backend.isReady())) {
+      const error = backend.notReadyMessage;
 
       if (silent) {
         logger.debug(error);
@@ -80,26 +252,22 @@ class SyncService {
     let conflictsResolved = 0;
 
     try {
-      logger.debug("Starting full sync");
-
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error("No authenticated user found");
-      }
+      logger.debug(`Starting full sync with the ${backend.type} backend`);
 
       const syncState = await storage.syncStateAndSettings.getValue();
       const lastSyncTimestamp = syncState?.lastSync
         ? syncState.lastSync
         : undefined;
 
-      const pullResult = await this.pullFromRemote(lastSyncTimestamp, user);
+      const pullResult = await this.pull(backend, lastSyncTimestamp);
       itemsSynced += pullResult.itemsSynced;
       conflictsResolved += pullResult.conflictsResolved;
       errors.push(...pullResult.errors);
 
-      const pushResult = await this.pushToRemote(user);
+      const profileErrors = await this.syncProfiles(backend);
+      errors.push(...profileErrors);
+
+      const pushResult = await this.push(backend);
       itemsSynced += pushResult.itemsSynced;
       conflictsResolved += pushResult.conflictsResolved;
       errors.push(...pushResult.errors);
@@ -110,14 +278,13 @@ class SyncService {
         status: errors.length > 0 ? "error" : "synced",
       });
 
-      await supabase.from("sync_logs").insert({
-        user_id: user.id,
+      await this.log(backend, {
         operation: "full_sync",
         status: errors.length > 0 ? "error" : "success",
-        item_count: itemsSynced,
-        conflicts_resolved: conflictsResolved,
-        error_message: errors.length > 0 ? errors.join("; ") : null,
-        conflict_resolution_strategy: syncState?.conflictResolution || "newest",
+        itemCount: itemsSynced,
+        conflictsResolved,
+        errorMessage: errors.length > 0 ? errors.join("; ") : undefined,
+        conflictResolutionStrategy: syncState?.conflictResolution || "newest",
       });
 
       logger.debug("Full sync completed", {
@@ -138,9 +305,10 @@ class SyncService {
       logger.error("Full sync failed", { error });
       errors.push(error instanceof Error ? error.message : "Unknown error");
 
+      const syncState = await storage.syncStateAndSettings.getValue();
       await storage.syncStateAndSettings.setValue({
         lastSync: new Date().toISOString(),
-        conflictResolution: "newest",
+        conflictResolution: syncState?.conflictResolution || "newest",
         status: "error",
       });
 
@@ -159,39 +327,73 @@ class SyncService {
 
   async pullFromRemote(
     lastSyncTimestamp?: string,
-    cachedUser?: User,
+  ): Promise<SyncOperationResult> {
+    return this.pull(await getSyncBackend(), lastSyncTimestamp);
+  }
+
+  async pushToRemote(): Promise<SyncOperationResult> {
+    return this.push(await getSyncBackend());
+  }
+
+  private async pull(
+    backend: SyncBackend,
+    lastSyncTimestamp?: string,
   ): Promise<SyncOperationResult> {
     const errors: string[] = [];
     let itemsSynced = 0;
     let conflictsResolved = 0;
-    let user = cachedUser;
-
-    if (!user) {
-      const { data } = await supabase.auth.getUser();
-      user = data.user ?? undefined;
-    }
 
     try {
       logger.debug("Pulling data from remote", { lastSyncTimestamp });
 
-      if (!user) {
-        throw new Error("No authenticated user found");
-      }
-
-      const { data: remoteMemories, error: fetchError } = await supabase.rpc(
-        "get_memories_since",
-        {
-          since_timestamp: lastSyncTimestamp,
-        },
-      );
+      const remoteEntries = await backend.pullSince(lastSyncTimestamp);
 
-      if (fetchError) {
-        throw new Error(`Failed to fetch memories: ${fetchError.message}`);
+      const keys = await this.resolveSyncKeys(backend);
+      const decryptedEntries: SyncMemoryEntry[] = [];
+      for (const remoteEntry of remoteEntries) {
+        try {
+          decryptedEntries.push(await decryptRemoteEntry(remoteEntry, keys));
+        } catch (decryptError) {
+          if (
+            decryptError instanceof Error &&
+            decryptError.message === ERROR_MESSAGE_SYNC_ENCRYPTION_LOCKED
+          ) {
+            throw decryptError;
+          }
+          logger.error(
+            `Failed to decrypt memory ${remoteEntry.localId}`,
+            decryptError,
+          );
+          errors.push(`Failed to decrypt memory ${remoteEntry.localId}`);
+        }
       }
 
-      const localMemories = (await storage.memories.getValue()) || [];
+      const localMemories = (await getMemories()) || [];
       const syncState = await storage.syncStateAndSettings.getValue();
       const conflictResolution = syncState?.conflictResolution || "newest";
+      const isManual = conflictResolution === "manual";
+      const lastSyncTime = lastSyncTimestamp
+        ? new Date(lastSyncTimestamp).getTime()
+        : 0;
+      const pendingDeletions = await storage.pendingDeletions.getValue();
+      const conflicts: SyncConflict[] = [];
+
+      // In manual mode, a memory edited on both sides since the last sync is
+      // queued for the user instead of being resolved here
+      const hasLocalChanges = (memory: MemoryEntry) =>
+        new Date(memory.metadata.updatedAt).getTime() > lastSyncTime;
+      const queueConflict = (
+        conflictType: SyncConflict["conflictType"],
+        localVersion: SyncMemoryEntry,
+        remote: SyncMemoryEntry,
+      ) =>
+        conflicts.push({
+          localId: remote.localId,
+          localVersion,
+          remoteVersion: { ...remote, embedding: undefined },
+          conflictType,
+          detectedAt: new Date().toISOString(),
+        });
 
       const memoryMap = new Map<string, MemoryEntry>();
       const contentHashMap = new Map<string, MemoryEntry>();
@@ -213,20 +415,25 @@ class SyncService {
         }
       }
 
-      for (const remoteMemory of remoteMemories || []) {
-        const localMemory = memoryMap.get(remoteMemory.local_id);
+      for (const remote of decryptedEntries) {
+        const localMemory = memoryMap.get(remote.localId);
         const remoteContentHash =
-          "content_hash" in remoteMemory && remoteMemory.content_hash
-            ? remoteMemory.content_hash
-            : await computeContentHash(
-                remoteMemory.question || undefined,
-                remoteMemory.answer,
-                remoteMemory.category,
-              );
-
-        if (remoteMemory.is_deleted) {
-          if (localMemory) {
-            memoryMap.delete(remoteMemory.local_id);
+          remote.contentHash ||
+          (await computeContentHash(
+            remote.question || undefined,
+            remote.answer,
+            remote.category,
+          ));
+
+        if (remote.isDeleted) {
+          if (localMemory && isManual && hasLocalChanges(localMemory)) {
+            queueConflict(
+              "update_delete",
+              toSyncMemoryEntry(localMemory),
+              remote,
+            );
+          } else if (localMemory) {
+            memoryMap.delete(remote.localId);
             if (localMemory.contentHash) {
               contentHashMap.delete(localMemory.contentHash);
             }
@@ -243,6 +450,26 @@ class SyncService {
 
           continue;
         }
+
+        const pendingDeletion =
+          !localMemory && isManual
+            ? pendingDeletions.find((d) => d.localId === remote.localId)
+            : undefined;
+
+        if (pendingDeletion) {
+          queueConflict(
+            "delete_update",
+            {
+              ...remote,
+              embedding: undefined,
+              isDeleted: true,
+              deletedAt: pendingDeletion.deletedAt,
+            },
+            remote,
+          );
+          continue;
+        }
+
         const duplicateByHash =
           !localMemory && remoteContentHash
             ? contentHashMap.get(remoteContentHash)
@@ -252,31 +479,16 @@ class SyncService {
           const localUpdatedAt = new Date(
             duplicateByHash.metadata.updatedAt,
           ).getTime();
-          const remoteUpdatedAt = new Date(remoteMemory.updated_at).getTime();
+          const remoteUpdatedAt = new Date(remote.metadata.updatedAt).getTime();
 
           if (remoteUpdatedAt > localUpdatedAt) {
-            duplicateByHash.question = remoteMemory.question || undefined;
-            duplicateByHash.answer = remoteMemory.answer;
-            duplicateByHash.category =
-              remoteMemory.category as MemoryEntry["category"];
-            duplicateByHash.tags = remoteMemory.tags || [];
-            duplicateByHash.confidence = Number(remoteMemory.confidence);
-            duplicateByHash.embedding = remoteMemory.embedding
-              ? remoteMemory.embedding
-                  .replace(/[[\]]/g, "")
-                  .split(",")
-                  .map(Number)
-              : undefined;
-            duplicateByHash.metadata = {
-              createdAt: remoteMemory.created_at,
-              updatedAt: remoteMemory.updated_at,
-              source: remoteMemory.source as "manual" | "import",
-            };
-            duplicateByHash.contentHash = remoteContentHash;
-            duplicateByHash.syncId = remoteMemory.local_id;
+            Object.assign(
+              duplicateByHash,
+              toMemoryEntry(remote, duplicateByHash.id, remoteContentHash),
+            );
             itemsSynced++;
           } else if (!duplicateByHash.syncId) {
-            duplicateByHash.syncId = remoteMemory.local_id;
+            duplicateByHash.syncId = remote.localId;
           }
 
           conflictsResolved++;
@@ -284,66 +496,44 @@ class SyncService {
         }
 
         if (!localMemory) {
-          const newMemory: MemoryEntry = {
-            id: remoteMemory.local_id,
-            syncId: remoteMemory.local_id,
-            question: remoteMemory.question || undefined,
-            answer: remoteMemory.answer,
-            category: remoteMemory.category as MemoryEntry["category"],
-            tags: remoteMemory.tags || [],
-            confidence: Number(remoteMemory.confidence),
-            embedding: remoteMemory.embedding
-              ? remoteMemory.embedding
-                  .replace(/[[\]]/g, "")
-                  .split(",")
-                  .map(Number)
-              : undefined,
-            contentHash: remoteContentHash,
-            metadata: {
-              createdAt: remoteMemory.created_at,
-              updatedAt: remoteMemory.updated_at,
-              source: remoteMemory.source as "manual" | "import",
-            },
-          };
-          memoryMap.set(remoteMemory.local_id, newMemory);
+          const newMemory = toMemoryEntry(
+            remote,
+            remote.localId,
+            remoteContentHash,
+          );
+          memoryMap.set(remote.localId, newMemory);
 
           if (remoteContentHash) {
             contentHashMap.set(remoteContentHash, newMemory);
           }
           itemsSynced++;
         } else {
+          if (
+            isManual &&
+            hasLocalChanges(localMemory) &&
+            localMemory.contentHash !== remoteContentHash
+          ) {
+            queueConflict(
+              "update_update",
+              toSyncMemoryEntry(localMemory),
+              remote,
+            );
+            continue;
+          }
+
           const localUpdatedAt = new Date(
             localMemory.metadata.updatedAt,
           ).getTime();
-          const remoteUpdatedAt = new Date(remoteMemory.updated_at).getTime();
+          const remoteUpdatedAt = new Date(remote.metadata.updatedAt).getTime();
 
           if (remoteUpdatedAt > localUpdatedAt) {
-            if (
-              conflictResolution === "newest" ||
-              conflictResolution === "remote"
-            ) {
-              const updatedMemory: MemoryEntry = {
-                id: localMemory.id,
-                syncId: remoteMemory.local_id,
-                question: remoteMemory.question || undefined,
-                answer: remoteMemory.answer,
-                category: remoteMemory.category as MemoryEntry["category"],
-                tags: remoteMemory.tags || [],
-                confidence: Number(remoteMemory.confidence),
-                embedding: remoteMemory.embedding
-                  ? remoteMemory.embedding
-                      .replace(/[[\]]/g, "")
-                      .split(",")
-                      .map(Number)
-                  : undefined,
-                contentHash: remoteContentHash,
-                metadata: {
-                  createdAt: remoteMemory.created_at,
-                  updatedAt: remoteMemory.updated_at,
-                  source: remoteMemory.source as "manual" | "import",
-                },
-              };
-              memoryMap.set(remoteMemory.local_id, updatedMemory);
+            if (conflictResolution !== "local") {
+              const updatedMemory = toMemoryEntry(
+                remote,
+                localMemory.id,
+                remoteContentHash,
+              );
+              memoryMap.set(remote.localId, updatedMemory);
 
               if (
                 localMemory.contentHash &&
@@ -362,28 +552,37 @@ class SyncService {
             if (conflictResolution === "local") {
               conflictsResolved++;
               if (!localMemory.syncId) {
-                localMemory.syncId = remoteMemory.local_id;
+                localMemory.syncId = remote.localId;
               }
             }
           }
         }
       }
 
-      await storage.memories.setValue(Array.from(memoryMap.values()));
+      await saveMemories(
+        await ensureMemoryEmbeddings(Array.from(memoryMap.values())),
+        { source: "sync" },
+      );
+
+      if (conflicts.length > 0) {
+        await queueSyncConflicts(conflicts);
+        logger.info(
+          `Queued ${conflicts.length} sync conflicts for manual resolution`,
+        );
+      }
 
-      await supabase.from("sync_logs").insert({
-        user_id: user.id,
+      await this.log(backend, {
         operation: "pull",
         status: "success",
-        item_count: itemsSynced,
-        conflicts_resolved: conflictsResolved,
-        conflict_resolution_strategy: conflictResolution,
+        itemCount: itemsSynced,
+        conflictsResolved,
+        conflictResolutionStrategy: conflictResolution,
       });
 
       logger.debug("Pull completed", { itemsSynced, conflictsResolved });
 
       return {
-        success: true,
+        success: errors.length === 0,
         operation: "pull",
         itemsSynced,
         conflictsResolved,
@@ -394,16 +593,13 @@ class SyncService {
       logger.error("Pull failed", { error });
       errors.push(error instanceof Error ? error.message : "Pull failed");
 
-      if (user) {
-        await supabase.from("sync_logs").insert({
-          user_id: user.id,
-          operation: "pull",
-          status: "error",
-          item_count: itemsSynced,
-          conflicts_resolved: conflictsResolved,
-          error_message: error instanceof Error ? error.message : "Pull failed",
-        });
-      }
+      await this.log(backend, {
+        operation: "pull",
+        status: "error",
+        itemCount: itemsSynced,
+        conflictsResolved,
+        errorMessage: error instanceof Error ? error.message : "Pull failed",
+      });
 
       return {
         success: false,
@@ -416,25 +612,15 @@ class SyncService {
     }
   }
 
-  async pushToRemote(cachedUser?: User): Promise<SyncOperationResult> {
+  private async push(backend: SyncBackend): Promise<SyncOperationResult> {
     const errors: string[] = [];
     let itemsSynced = 0;
     const conflictsResolved = 0;
-    let user = cachedUser;
-
-    if (!user) {
-      const { data } = await supabase.auth.getUser();
-      user = data.user ?? undefined;
-    }
 
     try {
       logger.debug("Pushing data to remote");
 
-      if (!user) {
-        throw new Error("No authenticated user found");
-      }
-
-      const localMemories = (await storage.memories.getValue()) || [];
+      const localMemories = (await getMemories()) || [];
 
       for (const memory of localMemories) {
         if (!memory.contentHash) {
@@ -446,52 +632,41 @@ class SyncService {
         }
       }
 
-      await storage.memories.setValue(localMemories);
+      await saveMemories(localMemories);
+
+      const keys = await this.resolveSyncKeys(backend);
+
+      // Memories awaiting conflict resolution stay local until resolved
+      const conflictIds = await getSyncConflictIds();
+      const entries = await Promise.all(
+        localMemories
+          .filter((memory) => !conflictIds.has(memory.syncId ?? memory.id))
+          .map((memory) =>
+            encryptEntry(
+              { ...toSyncMemoryEntry(memory), contentHash: memory.contentHash },
+              keys,
+            ),
+          ),
+      );
 
-      for (const memory of localMemories) {
-        try {
-          const { error } = await supabase.rpc("upsert_memory", {
-            p_local_id: memory.syncId ?? memory.id,
-            p_question: memory.question || undefined,
-            p_answer: memory.answer,
-            p_category: memory.category,
-            p_tags: memory.tags || [],
-            p_confidence: memory.confidence,
-            p_source: memory.metadata.source,
-            p_created_at: memory.metadata.createdAt,
-            p_updated_at: memory.metadata.updatedAt,
-            p_content_hash: memory.contentHash ?? null,
-          });
-
-          if (error) {
-            logger.error(
-              `Failed to sync memory ${memory.id}: ${error.message}`,
-            );
-            errors.push(`Failed to sync memory ${memory.id}: ${error.message}`);
-          } else {
-            itemsSynced++;
-          }
-        } catch (memoryError) {
-          const errorMsg =
-            memoryError instanceof Error
-              ? memoryError.message
-              : "Unknown error";
-          errors.push(`Failed to sync memory ${memory.id}: ${errorMsg}`);
-        }
+      const failures = await backend.pushBatch(entries);
+      for (const failure of failures) {
+        logger.error(formatFailure("sync memory", failure));
+        errors.push(formatFailure("sync memory", failure));
       }
+      itemsSynced += entries.length - failures.length;
 
-      const deletionResult = await this.processPendingDeletions();
+      const deletionResult = await this.processPendingDeletions(backend);
 
       itemsSynced += deletionResult.synced;
       errors.push(...deletionResult.errors);
 
-      await supabase.from("sync_logs").insert({
-        user_id: user.id,
+      await this.log(backend, {
         operation: "push",
         status: errors.length > 0 ? "partial" : "success",
-        item_count: itemsSynced,
-        conflicts_resolved: conflictsResolved,
-        error_message: errors.length > 0 ? errors.join("; ") : null,
+        itemCount: itemsSynced,
+        conflictsResolved,
+        errorMessage: errors.length > 0 ? errors.join("; ") : undefined,
       });
 
       logger.debug("Push completed", {
@@ -512,16 +687,13 @@ class SyncService {
       logger.error("Push failed", { error });
       errors.push(error instanceof Error ? error.message : "Push failed");
 
-      if (user) {
-        await supabase.from("sync_logs").insert({
-          user_id: user.id,
-          operation: "push",
-          status: "error",
-          item_count: itemsSynced,
-          conflicts_resolved: conflictsResolved,
-          error_message: error instanceof Error ? error.message : "Push failed",
-        });
-      }
+      await this.log(backend, {
+        operation: "push",
+        status: "error",
+        itemCount: itemsSynced,
+        conflictsResolved,
+        errorMessage: error instanceof Error ? error.message : "Push failed",
+      });
 
       return {
         success: false,
@@ -534,62 +706,73 @@ class SyncService {
     }
   }
 
-  private async processPendingDeletions(): Promise<{
+  private async processPendingDeletions(backend: SyncBackend): Promise<{
     synced: number;
     errors: string[];
   }> {
-    const errors: string[] = [];
-    let synced = 0;
-
-    const pendingDeletions = await storage.pendingDeletions.getValue();
+    const conflictIds = await getSyncConflictIds();
+    const pendingDeletions = (await storage.pendingDeletions.getValue()).filter(
+      (d) => !conflictIds.has(d.localId),
+    );
 
     if (pendingDeletions.length === 0) {
-      return { synced, errors };
+      return { synced: 0, errors: [] };
     }
 
     logger.debug("Processing pending deletions", {
       count: pendingDeletions.length,
     });
 
-    const successfulDeletions: string[] = [];
-
-    for (const deletion of pendingDeletions) {
-      try {
-        const { error } = await supabase.rpc("upsert_memory", {
-          p_local_id: deletion.localId,
-          p_is_deleted: true,
-          p_deleted_at: deletion.deletedAt,
-          p_content_hash: null,
-        });
+    const failures = await backend.pushTombstones(pendingDeletions);
+    const failedIds = new Set(failures.map((failure) => failure.localId));
+    const successfulDeletions = pendingDeletions
+      .map((d) => d.localId)
+      .filter((localId) => !failedIds.has(localId));
 
-        if (error) {
-          logger.error(
-            `Failed to sync deletion ${deletion.localId}: ${error.message}`,
-          );
-          errors.push(`Failed to delete ${deletion.localId}: ${error.message}`);
-        } else {
-          successfulDeletions.push(deletion.localId);
-          synced++;
-        }
-      } catch (err) {
-        const msg = err instanceof Error ? err.message : "Unknown error";
-        errors.push(`Failed to delete ${deletion.localId}: ${msg}`);
-      }
+    for (const failure of failures) {
+      logger.error(formatFailure("sync deletion", failure));
     }
 
     if (successfulDeletions.length > 0) {
-      const remaining = pendingDeletions.filter(
+      const remaining = (await storage.pendingDeletions.getValue()).filter(
         (d) => !successfulDeletions.includes(d.localId),
       );
       await storage.pendingDeletions.setValue(remaining);
     }
 
     logger.debug("Pending deletions processed", {
-      synced,
-      remaining: pendingDeletions.length - synced,
+      synced: successfulDeletions.length,
+      remaining: failures.length,
     });
 
-    return { synced, errors };
+    return {
+      synced: successfulDeletions.length,
+      errors: failures.map((failure) => formatFailure("delete", failure)),
+    };
+  }
+
+  private async syncProfiles(backend: SyncBackend): Promise<string[]> {
+    try {
+      const settings = await backend.getSettings();
+      const profiles = await mergeProfiles(parseRemoteProfiles(settings));
+
+      await backend.updateSettings({
+        ...settings,
+        profiles: profiles.map((profile) => ({
+          id: profile.id,
+          name: profile.name,
+          createdAt: profile.createdAt,
+          updatedAt: profile.updatedAt,
+          deletedAt: profile.deletedAt ?? null,
+        })),
+      });
+
+      logger.debug("Profiles synced", { count: profiles.length });
+      return [];
+    } catch (error) {
+      logger.error("Profile sync failed", { error });
+      return [error instanceof Error ? error.message : "Profile sync failed"];
+    }
   }
 
   async syncAISettings(): Promise<void> {
@@ -603,28 +786,15 @@ class SyncService {
         return;
       }
 
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error("No authenticated user found");
-      }
+      const backend = await getSyncBackend();
+      const settings = await backend.getSettings();
 
-      const { error } = await supabase
-        .from("users")
-        .update({
-          settings: {
-            autoFillEnabled: aiSettings.autoFillEnabled,
-            confidenceThreshold: aiSettings.confidenceThreshold,
-            selectedProvider: aiSettings.selectedProvider,
-          },
-          last_synced_at: new Date().toISOString(),
-        })
-        .eq("id", user.id);
-
-      if (error) {
-        throw new Error(`Failed to sync AI settings: ${error.message}`);
-      }
+      await backend.updateSettings({
+        ...settings,
+        autoFillEnabled: aiSettings.autoFillEnabled,
+        confidenceThreshold: aiSettings.confidenceThreshold,
+        selectedProvider: aiSettings.selectedProvider,
+      });
 
       logger.debug("AI settings synced successfully");
     } catch (error) {
@@ -633,6 +803,298 @@ class SyncService {
     }
   }
 
+  /**
+   * Switches where memories are synced. The next sync starts from scratch,
+   * so everything is pulled from and pushed to the new backend.
+   */
+  async setBackend(input: SyncBackendInput): Promise<void> {
+    if (this.syncInProgress) {
+      throw new Error("Sync already in progress");
+    }
+
+    if (input.type === "rest") {
+      let url: URL;
+      try {
+        url = new URL(input.url);
+      } catch {
+        throw new Error("Enter a valid server URL");
+      }
+
+      // A blank token keeps the saved one when only other fields changed
+      const current = await storage.syncBackend.getValue();
+      let token = current.type === "rest" ? current.token : undefined;
+      if (input.token) {
+        const salt = await offscreenGenerateSalt();
+        token = { encrypted: await offscreenEncrypt(input.token, salt), salt };
+      }
+
+      await storage.syncBackend.setValue({
+        type: "rest",
+        url: url.toString(),
+        token,
+      });
+    } else {
+      await storage.syncBackend.setValue(input);
+    }
+
+    // The sync key belongs to the old backend's encryption settings
+    await storage.syncEncryptionKey.setValue(null);
+
+    const syncState = await storage.syncStateAndSettings.getValue();
+    await storage.syncStateAndSettings.setValue({
+      ...syncState,
+      lastSync: new Date(0).toISOString(),
+      status: "pending",
+    });
+
+    logger.info(`Sync backend set to ${input.type}`);
+  }
+
+  async getEncryptionStatus(): Promise<SyncEncryptionStatus> {
+    const backend = await getSyncBackend();
+    if (!(await backend.isReady())) return "disabled";
+
+    const envelope = parseRemoteEncryption(await backend.getSettings());
+    if (!envelope) return "disabled";
+
+    return (await this.getLocalKeyMaterial()) ? "unlocked" : "locked";
+  }
+
+  /**
+   * Sets up end-to-end encryption for every device syncing with the backend
+   * and re-uploads the existing plaintext records encrypted. Returns the
+   * recovery key, which is shown to the user once and never stored.
+   */
+  async enableEncryption(passphrase: string): Promise<string> {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      );
+    }
+
+    if (this.syncInProgress) {
+      throw new Error("Sync already in progress");
+    }
+
+    this.syncInProgress = true;
+    try {
+      const backend = await getSyncBackend();
+      const settings = await backend.getSettings();
+
+      if (parseRemoteEncryption(settings)) {
+        throw new Error(
+          "Sync encryption is already set up. Unlock it with your passphrase.",
+        );
+      }
+
+      const material = generateSyncKeyMaterial();
+      const recoveryKey = generateRecoveryKey();
+      const [passphraseSalt, recoverySalt] = await Promise.all([
+        generateSalt(),
+        generateSalt(),
+      ]);
+
+      const envelope: SyncEncryptionEnvelope = {
+        version: 1,
+        iterations: SYNC_KDF_ITERATIONS,
+        passphraseSalt,
+        wrappedByPassphrase: await wrapSyncKeyMaterial(
+          material,
+          passphrase,
+          passphraseSalt,
+          SYNC_KDF_ITERATIONS,
+        ),
+        recoverySalt,
+        wrappedByRecoveryKey: await wrapSyncKeyMaterial(
+          material,
+          normalizeRecoveryKey(recoveryKey),
+          recoverySalt,
+          SYNC_KDF_ITERATIONS,
+        ),
+        enabledAt: new Date().toISOString(),
+      };
+
+      // The local key goes first, so this device never pushes plaintext
+      // once other devices can see the envelope
+      await this.storeLocalKeyMaterial(material);
+      await backend.updateSettings({ ...settings, syncEncryption: envelope });
+
+      const migrated = await this.migratePlaintextEntries(
+        backend,
+        await importSyncKeys(material),
+      );
+      logger.info(`Sync encryption enabled, encrypted ${migrated} memories`);
+
+      return recoveryKey;
+    } finally {
+      this.syncInProgress = false;
+    }
+  }
+
+  /** Unlocks sync encryption on this device. Returns false on a bad passphrase. */
+  async unlockEncryption(passphrase: string): Promise<boolean> {
+    const envelope = await this.getEnvelope();
+
+    try {
+      const material = await unwrapSyncKeyMaterial(
+        envelope.wrappedByPassphrase,
+        passphrase,
+        envelope.passphraseSalt,
+        envelope.iterations,
+      );
+      await this.storeLocalKeyMaterial(material);
+      logger.info("Sync encryption unlocked");
+      return true;
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        logger.warn("Sync passphrase rejected");
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Unlocks sync encryption with the recovery key and replaces the
+   * forgotten passphrase. Returns false on a bad recovery key.
+   */
+  async recoverEncryption(
+    recoveryKey: string,
+    newPassphrase: string,
+  ): Promise<boolean> {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      );
+    }
+
+    const backend = await getSyncBackend();
+    const settings = await backend.getSettings();
+    const envelope = parseRemoteEncryption(settings);
+    if (!envelope) {
+      throw new Error("Sync encryption is not set up");
+    }
+
+    let material: string;
+    try {
+      material = await unwrapSyncKeyMaterial(
+        envelope.wrappedByRecoveryKey,
+        normalizeRecoveryKey(recoveryKey),
+        envelope.recoverySalt,
+        envelope.iterations,
+      );
+    } catch (error) {
+      if (error instanceof EncryptionError) {
+        logger.warn("Sync recovery key rejected");
+        return false;
+      }
+      throw error;
+    }
+
+    const passphraseSalt = await generateSalt();
+    await this.storeLocalKeyMaterial(material);
+    await backend.updateSettings({
+      ...settings,
+      syncEncryption: {
+        ...envelope,
+        passphraseSalt,
+        wrappedByPassphrase: await wrapSyncKeyMaterial(
+          material,
+          newPassphrase,
+          passphraseSalt,
+          envelope.iterations,
+        ),
+      },
+    });
+
+    logger.info("Sync passphrase reset with recovery key");
+    return true;
+  }
+
+  /**
+   * Re-uploads every remote record still holding plaintext, including
+   * deleted ones and records this device has never pulled. Records that
+   * fail are left for the next push of the same memory.
+   */
+  private async migratePlaintextEntries(
+    backend: SyncBackend,
+    keys: SyncKeys,
+  ): Promise<number> {
+    const plaintextEntries = (await backend.pullSince()).filter(
+      (entry) => !isEncryptedSyncPayload(entry.answer),
+    );
+
+    const failures = await backend.pushBatch(
+      await Promise.all(
+        plaintextEntries.map((entry) => encryptEntry(entry, keys)),
+      ),
+    );
+    for (const failure of failures) {
+      logger.error(formatFailure("encrypt remote memory", failure));
+    }
+
+    return plaintextEntries.length - failures.length;
+  }
+
+  /**
+   * Returns the sync keys when end-to-end encryption is on, or null when it
+   * is off. Throws while it is on but not yet unlocked on this device, so
+   * nothing is ever pushed in plaintext.
+   */
+  private async resolveSyncKeys(
+    backend: SyncBackend,
+  ): Promise<SyncKeys | null> {
+    const envelope = parseRemoteEncryption(await backend.getSettings());
+    if (!envelope) return null;
+
+    const material = await this.getLocalKeyMaterial();
+    if (!material) {
+      throw new Error(ERROR_MESSAGE_SYNC_ENCRYPTION_LOCKED);
+    }
+
+    return importSyncKeys(material);
+  }
+
+  private async getEnvelope(): Promise<SyncEncryptionEnvelope> {
+    const backend = await getSyncBackend();
+    const envelope = parseRemoteEncryption(await backend.getSettings());
+    if (!envelope) {
+      throw new Error("Sync encryption is not set up");
+    }
+    return envelope;
+  }
+
+  private async getLocalKeyMaterial(): Promise<string | null> {
+    const stored = await storage.syncEncryptionKey.getValue();
+    if (!stored) return null;
+
+    try {
+      return await offscreenDecrypt(stored.encrypted, stored.salt);
+    } catch {
+      logger.info(
+        "Failed to decrypt the sync key. It may be invalid due to device changes.",
+      );
+      return null;
+    }
+  }
+
+  private async storeLocalKeyMaterial(material: string): Promise<void> {
+    const salt = await offscreenGenerateSalt();
+    await storage.syncEncryptionKey.setValue({
+      encrypted: await offscreenEncrypt(material, salt),
+      salt,
+    });
+  }
+
+  // Sync logs are best effort and never fail the operation they describe
+  private async log(backend: SyncBackend, entry: SyncLogEntry): Promise<void> {
+    try {
+      await backend.log?.(entry);
+    } catch (error) {
+      logger.warn("Failed to record sync log", { error });
+    }
+  }
+
   isSyncInProgress(): boolean {
     return this.syncInProgress;
   }
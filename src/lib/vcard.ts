@@ -0,0 +1,381 @@
+import { formatStructuredAnswer } from "@/lib/autofill/answer-renderer";
+import type {
+  AllowedCategory,
+  MemoryEntry,
+  StructuredAnswer,
+} from "@/types/memory";
+
+export interface VCardProperty {
+  name: string;
+  params: Record<string, string>;
+  /** Components split on unescaped `;`, already unescaped */
+  values: string[];
+}
+
+export type VCardMemory = Pick<
+  MemoryEntry,
+  "question" | "answer" | "category" | "tags" | "confidence" | "structured"
+>;
+
+const escapeValue = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+
+const unescapeValue = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) =>
+    char.toLowerCase() === "n" ? "\n" : char,
+  );
+
+// RFC 6350 3.2: lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const chars = Array.from(line);
+  if (chars.length <= 75) return line;
+
+  const parts: string[] = [];
+  for (let i = 0; i < chars.length; i += 74) {
+    parts.push(chars.slice(i, i + 74).join(""));
+  }
+  return parts.join("\r\n ");
+}
+
+function splitComponents(value: string): string[] {
+  const components: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "\\" && i + 1 < value.length) {
+      current += value[i] + value[i + 1];
+      i++;
+    } else if (value[i] === ";") {
+      components.push(current);
+      current = "";
+    } else {
+      current += value[i];
+    }
+  }
+  components.push(current);
+
+  return components.map(unescapeValue);
+}
+
+export function stringifyVCard(properties: VCardProperty[]): string {
+  const lines = ["BEGIN:VCARD", "VERSION:4.0"];
+
+  for (const { name, params, values } of properties) {
+    const paramText = Object.entries(params)
+      .map(([key, value]) => `;${key.toUpperCase()}=${value}`)
+      .join("");
+    lines.push(
+      foldLine(`${name}${paramText}:${values.map(escapeValue).join(";")}`),
+    );
+  }
+
+  lines.push("END:VCARD");
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/** Parses every card in a .vcf file. Supports vCard 2.1, 3.0 and 4.0. */
+export function parseVCards(text: string): VCardProperty[][] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, "");
+  const cards: VCardProperty[][] = [];
+  let current: VCardProperty[] | null = null;
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const [rawName, ...rawParams] = line.slice(0, separator).split(";");
+    // Apple and Google prefix grouped properties, e.g. "item1.EMAIL"
+    const name = rawName.replace(/^[\w-]+\./, "").toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (name === "BEGIN" && value.toUpperCase() === "VCARD") {
+      current = [];
+      continue;
+    }
+    if (name === "END" && value.toUpperCase() === "VCARD") {
+      if (current) cards.push(current);
+      current = null;
+      continue;
+    }
+    if (!current || name === "VERSION") continue;
+
+    const params: Record<string, string> = {};
+    for (const param of rawParams) {
+      const [key, paramValue] = param.split("=");
+      // vCard 2.1 allows bare types, e.g. "TEL;CELL:..."
+      if (paramValue === undefined) {
+        params.TYPE = params.TYPE ? `${params.TYPE},${key}` : key;
+      } else {
+        params[key.toUpperCase()] = paramValue.replace(/^"|"$/g, "");
+      }
+    }
+
+    current.push({ name, params, values: splitComponents(value) });
+  }
+
+  return cards;
+}
+
+// --- Memories -----------------------------------------------------------
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hasTag = (entry: MemoryEntry, ...tags: string[]) =>
+  entry.tags.some((tag) => tags.includes(tag.toLowerCase()));
+
+function toProperty(entry: MemoryEntry): VCardProperty | null {
+  const { structured, answer } = entry;
+  const purpose = entry.metadata.fieldPurpose;
+
+  if (structured?.type === "name") {
+    return {
+      name: "N",
+      params: {},
+      values: [
+        structured.family,
+        structured.given,
+        structured.middle ?? "",
+        structured.prefix ?? "",
+        structured.suffix ?? "",
+      ],
+    };
+  }
+  if (structured?.type === "address") {
+    return {
+      name: "ADR",
+      params: {},
+      values: [
+        "",
+        structured.street2 ?? "",
+        structured.street1,
+        structured.city,
+        structured.region ?? "",
+        structured.postalCode,
+        structured.country,
+      ],
+    };
+  }
+  if (structured?.type === "phone") {
+    return {
+      name: "TEL",
+      params: { VALUE: "uri" },
+      values: [`tel:${formatStructuredAnswer(structured)}`],
+    };
+  }
+  if (structured?.type === "date" && hasTag(entry, "birthday", "dob")) {
+    return { name: "BDAY", params: {}, values: [structured.date] };
+  }
+
+  if (purpose === "email" || EMAIL_PATTERN.test(answer)) {
+    return { name: "EMAIL", params: {}, values: [answer] };
+  }
+  if (purpose === "phone" || hasTag(entry, "phone", "mobile", "telephone")) {
+    return { name: "TEL", params: {}, values: [answer] };
+  }
+  if (purpose === "name" || hasTag(entry, "full-name", "fullname")) {
+    return { name: "FN", params: {}, values: [answer] };
+  }
+  if (purpose === "address" || hasTag(entry, "address")) {
+    return {
+      name: "ADR",
+      params: {},
+      values: ["", "", answer, "", "", "", ""],
+    };
+  }
+  if (purpose === "company" || hasTag(entry, "company", "employer")) {
+    return { name: "ORG", params: {}, values: [answer] };
+  }
+  if (purpose === "title" || hasTag(entry, "title", "job-title")) {
+    return { name: "TITLE", params: {}, values: [answer] };
+  }
+  if (/^https?:\/\//i.test(answer)) {
+    return { name: "URL", params: {}, values: [answer] };
+  }
+
+  return null;
+}
+
+/** Builds a single vCard for the user from the memories that map onto it */
+export function memoriesToVCard(entries: MemoryEntry[]): string | null {
+  const properties: VCardProperty[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of entries) {
+    const property = toProperty(entry);
+    if (!property) continue;
+
+    const key = `${property.name}:${property.values.join(";")}`.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    properties.push(property);
+  }
+
+  if (properties.length === 0) return null;
+
+  // FN is the one required property, so derive it when no memory holds it
+  if (!properties.some((property) => property.name === "FN")) {
+    const name = properties.find((property) => property.name === "N");
+    const fallback = name
+      ? [name.values[3], name.values[1], name.values[2], name.values[0]]
+          .filter(Boolean)
+          .join(" ")
+      : (properties.find((property) => property.name === "EMAIL")?.values[0] ??
+        "");
+    properties.unshift({ name: "FN", params: {}, values: [fallback] });
+  }
+
+  return stringifyVCard(properties);
+}
+
+const typeTags = (property: VCardProperty) =>
+  (property.params.TYPE ?? "")
+    .toLowerCase()
+    .split(",")
+    .filter((type) => ["home", "work", "cell", "mobile"].includes(type));
+
+function toStructuredDate(value: string): StructuredAnswer | undefined {
+  const match = value.match(/^(\d{4})-?(\d{2})-?(\d{2})$/);
+  return match
+    ? { type: "date", date: `${match[1]}-${match[2]}-${match[3]}` }
+    : undefined;
+}
+
+function toMemory(property: VCardProperty): VCardMemory | null {
+  const [first = "", ...rest] = property.values;
+  const text = property.values.join(" ").trim();
+  const memory = (
+    question: string,
+    answer: string,
+    category: AllowedCategory,
+    tags: string[],
+    structured?: StructuredAnswer,
+  ): VCardMemory | null =>
+    answer.trim()
+      ? {
+          question,
+          answer: answer.trim(),
+          category,
+          tags: [...tags, ...typeTags(property)],
+          confidence: 1,
+          structured,
+        }
+      : null;
+
+  switch (property.name) {
+    case "FN":
+      return memory("What is your full name?", first, "personal", [
+        "name",
+        "full-name",
+      ]);
+    case "N": {
+      const [family, given, middle, prefix, suffix] = [first, ...rest];
+      if (!family || !given) return null;
+
+      const structured: StructuredAnswer = {
+        type: "name",
+        given,
+        family,
+        middle: middle || undefined,
+        prefix: prefix || undefined,
+        suffix: suffix || undefined,
+      };
+      return memory(
+        "What is your legal name?",
+        formatStructuredAnswer(structured),
+        "personal",
+        ["name", "legal-name"],
+        structured,
+      );
+    }
+    case "NICKNAME":
+      return memory("What is your nickname?", first, "personal", ["nickname"]);
+    case "EMAIL":
+      return memory("What is your email address?", first, "contact", ["email"]);
+    case "TEL":
+      return memory(
+        "What is your phone number?",
+        first.replace(/^tel:/i, ""),
+        "contact",
+        ["phone"],
+      );
+    case "ADR": {
+      const [, extended, street, city, region, postalCode, country] = [
+        first,
+        ...rest,
+      ];
+      const structured: StructuredAnswer | undefined =
+        street && city && postalCode && country
+          ? {
+              type: "address",
+              street1: street,
+              street2: extended || undefined,
+              city,
+              region: region || undefined,
+              postalCode,
+              country,
+            }
+          : undefined;
+      const answer = structured
+        ? formatStructuredAnswer(structured)
+        : property.values.filter(Boolean).join(", ");
+
+      return memory(
+        "What is your address?",
+        answer,
+        "location",
+        ["address"],
+        structured,
+      );
+    }
+    case "ORG":
+      return memory(
+        "What company do you work for?",
+        property.values.filter(Boolean).join(", "),
+        "work",
+        ["company", "employer"],
+      );
+    case "TITLE":
+      return memory("What is your job title?", first, "work", [
+        "title",
+        "job-title",
+      ]);
+    case "ROLE":
+      return memory("What is your role?", first, "work", ["role"]);
+    case "URL":
+      return memory("What is your website?", first, "contact", [
+        "website",
+        "url",
+      ]);
+    case "BDAY":
+      return memory(
+        "What is your date of birth?",
+        first,
+        "personal",
+        ["birthday", "dob"],
+        toStructuredDate(first),
+      );
+    case "GENDER":
+      return memory("What is your gender?", first, "personal", ["gender"]);
+    case "LANG":
+      return memory("What language do you speak?", first, "personal", [
+        "language",
+      ]);
+    case "NOTE":
+      return memory("Notes", text, "general", ["note"]);
+    default:
+      return null;
+  }
+}
+
+/** Maps every supported property of every card onto a memory */
+export function vCardToMemories(text: string): VCardMemory[] {
+  return parseVCards(text).flatMap((card) =>
+    card
+      .map(toMemory)
+      .filter((memory): memory is VCardMemory => memory !== null),
+  );
+}
@@ -0,0 +1,76 @@
+import { createLogger } from "@/lib/logger";
+
+const logger = createLogger("zip");
+
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP_CENTRAL_DIR_ENTRY = 0x02014b50;
+const ZIP_STORED = 0;
+const ZIP_DEFLATED = 8;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads the named entries from a zip archive. Only stored and deflated
+ * entries are supported, which covers Office documents and most exports.
+ */
+export async function readZipEntries(
+  buffer: ArrayBuffer,
+  names: string[],
+): Promise<Map<string, string>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+
+  // The end record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIR) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a valid zip archive");
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIR_ENTRY) break;
+
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(
+      bytes.subarray(offset + 46, offset + 46 + nameLength),
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!names.includes(name)) continue;
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === ZIP_STORED) {
+      entries.set(name, decoder.decode(data));
+    } else if (method === ZIP_DEFLATED) {
+      entries.set(name, decoder.decode(await inflateRaw(data)));
+    } else {
+      logger.warn(`Skipping ${name}, unsupported zip compression ${method}`);
+    }
+  }
+
+  return entries;
+}
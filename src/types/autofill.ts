@@ -1,5 +1,6 @@
 import type { TRACKABLE_FIELD_TYPES } from "@/lib/copies";
 import type { WebsiteContext } from "./context";
+import type { DocumentFile } from "./document";
 
 export type TrackableFieldType = (typeof TRACKABLE_FIELD_TYPES)[number];
 
@@ -17,6 +18,8 @@ export type DetectFormsResult =
       totalFields: number;
       websiteContext: WebsiteContext;
       frameInfo: FrameInfo;
+      /** Set by the frame whose field has keyboard focus */
+      focusedFieldOpid?: FieldOpId;
     }
   | {
       success: false;
@@ -98,6 +101,8 @@ export interface FieldMetadata {
   disabled: boolean;
   readonly: boolean;
   maxLength: number | null;
+  /** For file inputs: the accept attribute, e.g. ".pdf,.docx" */
+  accept?: string | null;
 
   rect: DOMRect;
 
@@ -125,7 +130,8 @@ export type FieldType =
   | "radio"
   | "date"
   | "number"
-  | "password";
+  | "password"
+  | "file";
 
 export type FieldPurpose =
   | "name"
@@ -140,6 +146,17 @@ export type FieldPurpose =
   | "title"
   | "unknown";
 
+/** Field kinds holding data too sensitive to fill on a guess */
+export type FieldSensitivity =
+  | "national_id"
+  | "tax_id"
+  | "passport"
+  | "drivers_license"
+  | "bank_account"
+  | "credit_card"
+  | "salary"
+  | "date_of_birth";
+
 export type FormFieldElement =
   | HTMLInputElement
   | HTMLTextAreaElement
@@ -153,6 +170,10 @@ export interface CompressedFieldData {
   labels: string[];
   context: string;
   options?: SelectOptionSnapshot[];
+  /** Memory ids ranked by embedding similarity, best first */
+  candidateMemoryIds?: string[];
+  /** Learned user preference per memory id, from -1 (rejected) to 1 */
+  feedbackPriors?: Record<string, number>;
 }
 
 export interface CompressedMemoryData {
@@ -162,12 +183,29 @@ export interface CompressedMemoryData {
   category: string;
 }
 
+/** A memory offered in the dropdown under the focused field */
+export interface FieldSuggestion {
+  memoryId: string;
+  question: string;
+  answer: string;
+  category: string;
+  score: number;
+}
+
 export interface FieldMapping {
   fieldOpid: string;
   value: string | null;
   confidence: number;
   reasoning: string;
   autoFill?: boolean;
+  sensitivity?: FieldSensitivity;
+  /** Held back from auto-fill by a never auto-fill rule */
+  requiresConfirmation?: boolean;
+  /** Memories the value was derived from */
+  memoryIds?: string[];
+  /** For file inputs: the stored document to attach */
+  documentId?: string;
+  fromCache?: boolean;
 }
 
 export interface AutofillResult {
@@ -175,6 +213,50 @@ export interface AutofillResult {
   mappings: FieldMapping[];
   error?: string;
   processingTime?: number;
+  cacheKey?: FillCacheKey;
+}
+
+export interface FillCacheKey {
+  fingerprint: string;
+  urlPattern: string;
+  /** Stable per-field keys by field opid */
+  fieldKeys: Record<string, string>;
+}
+
+export interface CachedFieldMapping {
+  fieldKey: string;
+  value: string;
+  confidence: number;
+  reasoning: string;
+  memoryIds: string[];
+}
+
+export interface FillCacheEntry {
+  fingerprint: string;
+  urlPattern: string;
+  mappings: CachedFieldMapping[];
+  /** Content hashes of the source memories at the time of caching */
+  memoryHashes: Record<string, string>;
+  createdAt: string;
+  lastUsedAt: string;
+  hitCount: number;
+}
+
+export type FieldFeedbackSignal = "upvote" | "downvote" | "accepted" | "edited";
+
+export interface FieldFeedbackEvent {
+  fieldKey: string;
+  memoryIds: string[];
+  signal: FieldFeedbackSignal;
+}
+
+/** Accumulated feedback for one (field fingerprint, memory) pair */
+export interface FieldFeedbackEntry {
+  fieldKey: string;
+  memoryId: string;
+  score: number;
+  signalCount: number;
+  updatedAt: string;
 }
 
 export interface PreviewFieldData {
@@ -191,6 +273,9 @@ export interface PreviewSidebarPayload {
   processingTime?: number;
   sessionId: string;
   cdpFields?: CDPDetectedField[];
+  cacheKey?: FillCacheKey;
+  /** Shows the preview sidebar even in autopilot mode */
+  forcePreview?: boolean;
 }
 
 export type AutofillProgressState =
@@ -209,6 +294,7 @@ export interface AutofillProgress {
   fieldsDetected?: number;
   fieldsMatched?: number;
   error?: string;
+  forcePreview?: boolean;
 }
 
 export interface CapturedFieldData {
@@ -245,6 +331,8 @@ export interface CaptureSession {
   url: string;
   pageTitle: string;
   trackedFields: Map<FieldOpId, TrackedFieldData>;
+  /** Fields from earlier steps of a multi-step form */
+  previousSteps: TrackedFieldData[];
   startedAt: number;
 }
 
@@ -262,6 +350,10 @@ export type FieldsToFillData = Array<{
   fieldOpid: FieldOpId;
   value: string;
   confidence?: number;
+  memoryIds?: string[];
+  /** Key the preview recorded feedback under, see `FillCacheKey.fieldKeys` */
+  fieldKey?: string;
+  documentId?: string;
   cdpField?: CDPDetectedField;
 }>;
 
@@ -306,7 +398,9 @@ export type CDPFieldRole =
   | "switch"
   | "menuitemcheckbox"
   | "menuitemradio"
-  | "textarea";
+  | "textarea"
+  // File inputs show up as buttons in the AX tree, so they get their own role
+  | "file";
 
 export interface CDPDOMMetadata {
   tagName: string;
@@ -326,6 +420,7 @@ export interface CDPDOMMetadata {
   isContentEditable: boolean;
   isShadowHost: boolean;
   cssSelector: string | null;
+  accept?: string | null;
 }
 
 export interface CDPDetectedField {
@@ -365,6 +460,8 @@ export interface CDPFieldMapping {
   field: CDPDetectedField;
   value: string;
   confidence: number;
+  /** For file inputs: the document to attach */
+  file?: DocumentFile;
 }
 
 export type CDPFillStatus = "verified" | "recovered" | "failed";
@@ -0,0 +1,23 @@
+import type { MemoryEntry } from "./memory";
+import type { MemoryProfile } from "./profile";
+
+/**
+ * Lossless memory export. Bump `version` and add a migration in
+ * `lib/storage/backup.ts` whenever the shape changes.
+ */
+export interface MemoryBackup {
+  format: "superfill-backup";
+  version: number;
+  exportedAt: string;
+  /** Embeddings are left out and rebuilt on import */
+  memories: Omit<MemoryEntry, "embedding" | "embedderId">[];
+  profiles: Pick<MemoryProfile, "id" | "name">[];
+}
+
+/** A `MemoryBackup` encrypted with a password, saved as a .superfill file */
+export interface EncryptedMemoryBackup {
+  format: "superfill-encrypted-backup";
+  version: number;
+  salt: string;
+  data: string;
+}
@@ -3,15 +3,29 @@ import type { ExtractedInfoSchema } from "@/lib/ai/schemas";
 
 export type ExtractedItem = z.infer<
   typeof ExtractedInfoSchema
->["items"][number];
+>["items"][number] & {
+  /** Set by the offline extractor; AI and JSON Resume items are trusted */
+  confidence?: number;
+};
 
 export interface DocumentParseResult {
   success: boolean;
   items?: ExtractedItem[];
   rawText?: string;
   error?: string;
+  /** True when items came from the rule-based extractor instead of AI */
+  offline?: boolean;
 }
 
+export type DocumentFormat =
+  | "pdf"
+  | "txt"
+  | "docx"
+  | "rtf"
+  | "markdown"
+  | "html"
+  | "json";
+
 export type DocumentParserStatus =
   | "idle"
   | "reading"
@@ -32,6 +46,27 @@ export interface PDFAnnotation {
   rect?: number[];
 }
 
+/** A line of PDF text, rebuilt from the text items sharing a baseline */
+export interface PDFTextLine {
+  text: string;
+  page: number;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+export interface PDFLink {
+  url: string;
+  page: number;
+  /** The text the link annotation covers, e.g. "GitHub" */
+  text?: string;
+}
+
+export interface PDFContent {
+  lines: PDFTextLine[];
+  links: PDFLink[];
+}
+
 export interface ParseDocumentOptions {
   requestId?: string;
   onStageChange?: (stage: "reading" | "parsing") => void;
@@ -42,3 +77,29 @@ export interface DocumentImportItem extends ExtractedItem {
   id: string;
   selected: boolean;
 }
+
+export type StoredDocumentKind =
+  | "resume"
+  | "cover_letter"
+  | "id_document"
+  | "transcript"
+  | "other";
+
+/** A file kept in the document store for file inputs. Contents live apart. */
+export interface StoredDocument {
+  id: string;
+  label: string;
+  kind: StoredDocumentKind;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DocumentFile {
+  fileName: string;
+  mimeType: string;
+  /** Base64 encoded contents */
+  data: string;
+}
@@ -7,6 +7,7 @@ export interface BaseImportItem {
   answer: string;
   category: AllowedCategory;
   tags: string[];
+  confidence?: number;
   selected: boolean;
   existingDuplicate?: MemoryEntry;
 }
@@ -17,3 +18,11 @@ export type BaseImportStatus =
   | "parsing"
   | "success"
   | "error";
+
+export type ExternalImportSource = "chrome" | "bitwarden" | "1password";
+
+export type ExternalImportStatus = "idle" | "parsing" | "success" | "error";
+
+export interface ExternalImportItem extends BaseImportItem {
+  source: ExternalImportSource;
+}
@@ -3,7 +3,45 @@ import { allowedCategories } from "@/lib/copies";
 
 export type AllowedCategory = (typeof allowedCategories)[number];
 
-const memoryEntrySchema = z.object({
+// Components are kept as strings so the vault can encrypt each one
+export const structuredAnswerSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("date"),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD"),
+  }),
+  z.object({
+    type: z.literal("phone"),
+    countryCode: z.string().regex(/^\d{1,3}$/, "Invalid country code"),
+    nationalNumber: z.string().regex(/^\d{4,14}$/, "Invalid phone number"),
+  }),
+  z.object({
+    type: z.literal("address"),
+    street1: z.string(),
+    street2: z.string().optional(),
+    city: z.string(),
+    region: z.string().optional(),
+    postalCode: z.string(),
+    country: z.string(),
+  }),
+  z.object({
+    type: z.literal("name"),
+    prefix: z.string().optional(),
+    given: z.string(),
+    middle: z.string().optional(),
+    family: z.string(),
+    suffix: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("money"),
+    amount: z.string().regex(/^\d+(\.\d+)?$/, "Invalid amount"),
+    currency: z.string().regex(/^[A-Z]{3}$/, "Use a 3-letter currency code"),
+  }),
+]);
+
+export type StructuredAnswer = z.infer<typeof structuredAnswerSchema>;
+export type StructuredAnswerType = StructuredAnswer["type"];
+
+export const memoryEntrySchema = z.object({
   id: z.uuid({
     version: "v7",
   }),
@@ -14,6 +52,8 @@ const memoryEntrySchema = z.object({
     .optional(),
   question: z.string().optional(),
   answer: z.string(),
+  // Typed value behind `answer`, rendered per target field when filling
+  structured: structuredAnswerSchema.optional(),
   category: z.enum(allowedCategories),
   tags: z.array(z.string()),
   confidence: z.number().min(0).max(1),
@@ -29,10 +69,63 @@ const memoryEntrySchema = z.object({
   }),
   contentHash: z.string().optional(),
   embedding: z.array(z.number()).optional(),
+  // Id of the embedder behind `embedding`, see `Embedder.id`
+  embedderId: z.string().optional(),
+  // Memories without a profile are shared by every profile
+  profileId: z.string().optional(),
 });
 
 export type MemoryEntry = z.infer<typeof memoryEntrySchema>;
 
+const memoryRevisionSourceSchema = z.enum([
+  "manual",
+  "import",
+  "capture",
+  "sync",
+  "dedup",
+  "restore",
+  "undo",
+]);
+
+export type MemoryRevisionSource = z.infer<typeof memoryRevisionSourceSchema>;
+
+const memoryRevisionSchema = z.object({
+  id: z.uuid({
+    version: "v7",
+  }),
+  memoryId: z.string(),
+  action: z.enum(["create", "update", "delete"]),
+  source: memoryRevisionSourceSchema,
+  before: memoryEntrySchema.nullable(),
+  after: memoryEntrySchema.nullable(),
+  bulkOperationId: z.string().optional(),
+  createdAt: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
+    message: "Invalid ISO timestamp",
+  }),
+});
+
+export type MemoryRevision = z.infer<typeof memoryRevisionSchema>;
+
+const bulkOperationSchema = z.object({
+  id: z.uuid({
+    version: "v7",
+  }),
+  label: z.string(),
+  source: memoryRevisionSourceSchema,
+  revisionCount: z.number(),
+  createdAt: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
+    message: "Invalid ISO timestamp",
+  }),
+  undoneAt: z
+    .string()
+    .refine((date) => !Number.isNaN(Date.parse(date)), {
+      message: "Invalid ISO timestamp",
+    })
+    .optional(),
+});
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
 const filledFieldSchema = z.object({
   selector: z.string().optional(),
   label: z.string(),
@@ -86,8 +179,25 @@ export const syncStateSchema = z.object({
   lastSync: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
     message: "Invalid ISO timestamp",
   }),
-  conflictResolution: z.enum(["local", "remote", "newest"]),
+  conflictResolution: z.enum(["local", "remote", "newest", "manual"]),
   status: z.enum(["synced", "pending", "error"]),
 });
 
 export type SyncState = z.infer<typeof syncStateSchema>;
+
+export interface MemoryDomainUsage {
+  domain: string;
+  useCount: number;
+  lastUsedAt: string;
+}
+
+/**
+ * Fill statistics for one memory. Kept outside `MemoryEntry` so recording a
+ * fill never rewrites encrypted or synced memory data.
+ */
+export interface MemoryUsage {
+  memoryId: string;
+  useCount: number;
+  lastUsedAt: string;
+  domains: MemoryDomainUsage[];
+}
@@ -9,3 +9,23 @@ export interface ProfileImportItem {
   tags: string[];
   selected: boolean;
 }
+
+export interface MemoryProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // Kept as a tombstone so the deletion reaches other devices through sync
+  deletedAt?: string;
+}
+
+export interface ProfileSiteRule {
+  domain: string;
+  profileId: string;
+}
+
+export interface ProfileSettings {
+  // null means every memory is used, regardless of profile
+  activeProfileId: string | null;
+  siteRules: ProfileSiteRule[];
+}
@@ -1,4 +1,7 @@
-import type { AIProvider } from "@/lib/providers/registry";
+import type { AIProvider, CustomProviderId } from "@/lib/providers/registry";
+import type { FieldPurpose, FieldSensitivity } from "./autofill";
+import type { CloudOperationType } from "./cloud";
+import type { WebsiteType } from "./context";
 import type { Theme } from "./theme";
 
 export interface EncryptedKey {
@@ -6,14 +9,77 @@ export interface EncryptedKey {
   salt: string;
 }
 
+export type VaultStatus = "disabled" | "locked" | "unlocked";
+
+export interface VaultConfig {
+  enabled: boolean;
+  salt: string;
+  iterations: number;
+  verifier: string;
+  autoLockMinutes: number;
+}
+
+export interface VaultSession {
+  key: string;
+  lastActivityAt: number;
+}
+
+/** Operations that can be routed to their own provider and model */
+export type AITask = Exclude<CloudOperationType, "bulk_categorize">;
+
+export interface ModelRoute {
+  provider: AIProvider;
+  /** Falls back to the provider's selected model */
+  model?: string;
+}
+
+/** Field kinds that can have their own fill rules */
+export type FillRuleTarget =
+  | Exclude<FieldPurpose, "unknown">
+  | FieldSensitivity;
+
 export interface AISettings {
   selectedProvider?: AIProvider;
   selectedModels?: Partial<Record<AIProvider, string>>;
+  /** Overrides the selected provider for individual operations */
+  taskRoutes?: Partial<Record<AITask, ModelRoute>>;
+  /** Tried in order when the routed provider fails */
+  fallbackChain?: ModelRoute[];
   autoFillEnabled: boolean;
   autopilotMode: boolean;
   confidenceThreshold: number;
+  /** Overrides `confidenceThreshold` for individual field kinds */
+  fieldThresholds?: Partial<Record<FillRuleTarget, number>>;
+  /** Field kinds that are only ever filled after the user confirms them */
+  neverAutoFill?: FillRuleTarget[];
   cloudModelsEnabled: boolean;
   contextMenuEnabled: boolean;
+  /** Shows memory suggestions under the focused text field while typing */
+  inlineSuggestionsEnabled?: boolean;
+}
+
+/** A user-defined OpenAI-compatible endpoint */
+export interface CustomProvider {
+  id: CustomProviderId;
+  name: string;
+  /** Including the version path, e.g. http://localhost:1234/v1 */
+  baseURL: string;
+  headers: Record<string, string>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DomainPromptRule {
+  domain: string;
+  instructions: string;
+}
+
+/** User instructions appended to the built-in AI prompts */
+export interface PromptSettings {
+  globalInstructions: string;
+  websiteTypeInstructions: Partial<Record<WebsiteType, string>>;
+  /** Replace the website type instructions on a domain and its subdomains */
+  domainRules: DomainPromptRule[];
 }
 
 export interface UISettings {
@@ -26,6 +92,14 @@ export interface UISettings {
   rightClickGuideDismissed?: boolean;
 }
 
+export type InPageShortcutAction =
+  | "fillSelected"
+  | "selectAll"
+  | "closePreview";
+
+/** Keys of the preview sidebar, in react-hotkeys-hook notation */
+export type InPageShortcuts = Record<InPageShortcutAction, string>;
+
 export interface ProviderOption {
   value: AIProvider;
   label: string;
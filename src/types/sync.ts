@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { structuredAnswerSchema } from "@/types/memory";
+import type { EncryptedKey } from "@/types/settings";
 
 export const pendingDeletionSchema = z.object({
   localId: z.string(),
@@ -17,6 +19,37 @@ export const syncedUserSettingsSchema = z.object({
 
 export type SyncedUserSettings = z.infer<typeof syncedUserSettingsSchema>;
 
+export type SyncEncryptionStatus = "disabled" | "locked" | "unlocked";
+
+/**
+ * Stored in the user's remote settings document. Holds the random sync key
+ * wrapped twice: once by the sync passphrase and once by the recovery key.
+ */
+export const syncEncryptionEnvelopeSchema = z.object({
+  version: z.literal(1),
+  iterations: z.number().int().positive(),
+  passphraseSalt: z.string(),
+  wrappedByPassphrase: z.string(),
+  recoverySalt: z.string(),
+  wrappedByRecoveryKey: z.string(),
+  enabledAt: z.string(),
+});
+
+export type SyncEncryptionEnvelope = z.infer<
+  typeof syncEncryptionEnvelopeSchema
+>;
+
+/** The memory content that is encrypted before it leaves the device */
+export const syncEncryptedPayloadSchema = z.object({
+  question: z.string().optional(),
+  answer: z.string(),
+  category: z.string(),
+  tags: z.array(z.string()),
+  structured: structuredAnswerSchema.optional(),
+});
+
+export type SyncEncryptedPayload = z.infer<typeof syncEncryptedPayloadSchema>;
+
 export const syncConfigSchema = z.object({
   authUserId: z.string(),
   email: z.string().optional(),
@@ -25,7 +58,7 @@ export const syncConfigSchema = z.object({
   lastSync: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
     message: "Invalid ISO timestamp",
   }),
-  conflictResolution: z.enum(["local", "remote", "newest"]),
+  conflictResolution: z.enum(["local", "remote", "newest", "manual"]),
   status: z.enum(["synced", "pending", "error", "not_configured"]),
   enabled: z.boolean(),
 
@@ -55,6 +88,8 @@ export const syncMemoryEntrySchema = z.object({
   tags: z.array(z.string()),
   confidence: z.number().min(0).max(1),
   embedding: z.array(z.number()).optional(),
+  profileId: z.string().optional(),
+  structured: structuredAnswerSchema.optional(),
   metadata: z.object({
     createdAt: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
       message: "Invalid ISO timestamp",
@@ -71,6 +106,8 @@ export const syncMemoryEntrySchema = z.object({
       message: "Invalid ISO timestamp",
     })
     .optional(),
+  /** Plain or, with end-to-end encryption, keyed hash of the content */
+  contentHash: z.string().optional(),
 });
 
 export type SyncMemoryEntry = z.infer<typeof syncMemoryEntrySchema>;
@@ -81,6 +118,9 @@ export const syncConflictSchema = z.object({
   remoteVersion: syncMemoryEntrySchema,
   conflictType: z.enum(["update_update", "update_delete", "delete_update"]),
   resolution: z.enum(["local", "remote", "manual"]).optional(),
+  detectedAt: z.string().refine((date) => !Number.isNaN(Date.parse(date)), {
+    message: "Invalid ISO timestamp",
+  }),
 });
 
 export type SyncConflict = z.infer<typeof syncConflictSchema>;
@@ -93,3 +133,47 @@ export const userProfileSchema = z.object({
 });
 
 export type UserProfile = z.infer<typeof userProfileSchema>;
+
+export type SyncBackendType = "supabase" | "folder" | "rest";
+
+export type SyncBackendConfig =
+  | { type: "supabase" }
+  | { type: "folder"; folderName: string }
+  | { type: "rest"; url: string; token?: EncryptedKey };
+
+/** The account-wide settings document every backend stores */
+export type RemoteSyncSettings = Record<string, unknown>;
+
+export interface SyncPushFailure {
+  localId: string;
+  error: string;
+}
+
+export interface SyncLogEntry {
+  operation: SyncOperationResult["operation"];
+  status: "success" | "partial" | "error";
+  itemCount: number;
+  conflictsResolved: number;
+  errorMessage?: string;
+  conflictResolutionStrategy?: string;
+}
+
+/**
+ * Storage for synced memories. Backends only move records; conflict
+ * resolution, pending deletions and encryption are handled by `SyncService`
+ * so they behave the same everywhere.
+ */
+export interface SyncBackend {
+  readonly type: SyncBackendType;
+  /** Shown when `isReady` is false, e.g. "not authenticated" */
+  readonly notReadyMessage: string;
+  isReady(): Promise<boolean>;
+  /** Every record changed after `since`, tombstones included */
+  pullSince(since?: string): Promise<SyncMemoryEntry[]>;
+  /** Creates or replaces records by `localId` */
+  pushBatch(entries: SyncMemoryEntry[]): Promise<SyncPushFailure[]>;
+  pushTombstones(deletions: PendingDeletion[]): Promise<SyncPushFailure[]>;
+  getSettings(): Promise<RemoteSyncSettings>;
+  updateSettings(settings: RemoteSyncSettings): Promise<void>;
+  log?(entry: SyncLogEntry): Promise<void>;
+}
@@ -0,0 +1,22 @@
+import type { AIProvider } from "@/lib/providers/registry";
+import type { CloudOperationType } from "./cloud";
+
+/** Token usage of BYOK calls, summed per day, provider, model and operation */
+export interface AIUsageEntry {
+  /** Local calendar day, YYYY-MM-DD */
+  date: string;
+  provider: AIProvider;
+  model: string;
+  operation: CloudOperationType;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated in USD, zero for models without a known price */
+  cost: number;
+}
+
+/** Monthly spending caps in USD, AI calls pause once one is reached */
+export interface UsageBudget {
+  monthlyLimit?: number;
+  providerLimits: Partial<Record<AIProvider, number>>;
+}
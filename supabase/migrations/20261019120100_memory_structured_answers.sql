@@ -0,0 +1,117 @@
+-- Typed answers: a memory can store its answer as structured parts (a date,
+-- an address or a phone number) so each form gets the format it asks for.
+
+alter table public.memories
+  add column if not exists structured jsonb;
+
+-- Replaces the upsert_memory from the memory profiles migration, see there
+-- for why it is dropped rather than overloaded
+do $$
+declare
+  fn regprocedure;
+begin
+  for fn in
+    select p.oid::regprocedure
+    from pg_proc p
+    join pg_namespace n on n.oid = p.pronamespace
+    where n.nspname = 'public'
+      and p.proname = 'upsert_memory'
+      and 'p_content_hash' = any (p.proargnames)
+  loop
+    execute format('drop function %s', fn);
+  end loop;
+end;
+$$;
+
+create function public.upsert_memory(
+  p_local_id text,
+  p_question text default null,
+  p_answer text default null,
+  p_category text default null,
+  p_tags text[] default null,
+  p_confidence real default null,
+  p_embedding text default null,
+  p_source text default null,
+  p_created_at timestamptz default null,
+  p_updated_at timestamptz default null,
+  p_is_deleted boolean default false,
+  p_deleted_at timestamptz default null,
+  p_content_hash text default null,
+  p_profile_id text default null,
+  p_structured jsonb default null
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public, extensions
+as $$
+declare
+  v_id uuid;
+begin
+  insert into public.memories as m (
+    user_id,
+    local_id,
+    question,
+    answer,
+    category,
+    tags,
+    confidence,
+    embedding,
+    source,
+    created_at,
+    updated_at,
+    is_deleted,
+    deleted_at,
+    content_hash,
+    profile_id,
+    structured
+  )
+  values (
+    auth.uid(),
+    p_local_id,
+    p_question,
+    coalesce(p_answer, ''),
+    coalesce(p_category, 'general'),
+    coalesce(p_tags, '{}'),
+    coalesce(p_confidence, 1),
+    p_embedding::vector,
+    coalesce(p_source, 'manual'),
+    coalesce(p_created_at, now()),
+    coalesce(p_updated_at, now()),
+    coalesce(p_is_deleted, false),
+    p_deleted_at,
+    p_content_hash,
+    p_profile_id,
+    p_structured
+  )
+  on conflict (user_id, local_id) do update set
+    question = coalesce(p_question, m.question),
+    answer = coalesce(p_answer, m.answer),
+    category = coalesce(p_category, m.category),
+    tags = coalesce(p_tags, m.tags),
+    confidence = coalesce(p_confidence, m.confidence),
+    embedding = coalesce(p_embedding::vector, m.embedding),
+    source = coalesce(p_source, m.source),
+    updated_at = coalesce(p_updated_at, now()),
+    is_deleted = coalesce(p_is_deleted, false),
+    deleted_at = p_deleted_at,
+    content_hash = p_content_hash,
+    -- Tombstones carry no answer, so they leave these alone
+    profile_id = case
+      when p_answer is null then m.profile_id
+      else p_profile_id
+    end,
+    structured = case
+      when p_answer is null then m.structured
+      else p_structured
+    end
+  returning m.id into v_id;
+
+  return v_id;
+end;
+$$;
+
+grant execute on function public.upsert_memory(
+  text, text, text, text, text[], real, text, text, timestamptz, timestamptz,
+  boolean, timestamptz, text, text, jsonb
+) to authenticated;
@@ -1,6 +1,6 @@
 import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "wxt";
-import { APP_NAME } from "./src/constants";
+import { APP_NAME, KEYBOARD_COMMANDS } from "./src/constants";
 
 // See https://wxt.dev/api/config.html
 export default defineConfig({
@@ -35,6 +35,7 @@ export default defineConfig({
         "offscreen",
         "contextMenus",
         "debugger",
+        "unlimitedStorage",
       ],
       host_permissions: [
         "https://api.openai.com/*",
@@ -46,6 +47,18 @@ export default defineConfig({
         "https://*.superfill.ai/*",
         ...(isDev ? ["http://localhost:3002/*"] : []),
       ],
+      // Requested per endpoint for self-hosted and custom AI providers
+      optional_host_permissions: ["http://*/*", "https://*/*"],
+      commands: Object.fromEntries(
+        Object.entries(KEYBOARD_COMMANDS).map(
+          ([name, { description, suggestedKey }]) => [
+            name,
+            suggestedKey
+              ? { description, suggested_key: { default: suggestedKey } }
+              : { description },
+          ],
+        ),
+      ),
       icons: {
         16: "/icon-16.png",
         32: "/icon-32.png",